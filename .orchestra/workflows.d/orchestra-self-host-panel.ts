@@ -27,7 +27,6 @@ export default defineWorkflow({
     objective: { type: "string", required: true },
     persona_a: { type: "string", default: "src/agents/tdd-red.md" },
     persona_b: { type: "string", default: "src/agents/tdd-green.md" },
-    test_runner: { type: "string", default: "npm test" },
     test_dir: { type: "string", default: "tests/" },
     src_dir: { type: "string", default: "src/" },
     lint_command: { type: "string", default: "npm run lint" },
@@ -69,7 +68,6 @@ export default defineWorkflow({
         persona_a: "params.persona_a",
         persona_b: "params.persona_b",
         scenario: "params.objective",
-        test_runner: "params.test_runner",
         test_dir: "params.test_dir",
         src_dir: "params.src_dir",
       },
@@ -142,7 +140,6 @@ export default defineWorkflow({
         persona_a: "params.persona_a",
         persona_b: "params.persona_b",
         scenario: "params.objective",
-        test_runner: "params.test_runner",
         test_dir: "params.test_dir",
         src_dir: "params.src_dir",
       },
@@ -215,7 +212,6 @@ export default defineWorkflow({
         persona_a: "params.persona_a",
         persona_b: "params.persona_b",
         scenario: "params.objective",
-        test_runner: "params.test_runner",
         test_dir: "params.test_dir",
         src_dir: "params.src_dir",
       },
@@ -288,7 +284,6 @@ export default defineWorkflow({
         persona_a: "params.persona_a",
         persona_b: "params.persona_b",
         scenario: "params.objective",
-        test_runner: "params.test_runner",
         test_dir: "params.test_dir",
         src_dir: "params.src_dir",
       },
@@ -361,7 +356,6 @@ export default defineWorkflow({
         persona_a: "params.persona_a",
         persona_b: "params.persona_b",
         scenario: "params.objective",
-        test_runner: "params.test_runner",
         test_dir: "params.test_dir",
         src_dir: "params.src_dir",
       },
@@ -0,0 +1,7 @@
+#!/usr/bin/env node
+// Loads the TypeScript entrypoint through jiti, as pi loads the extension.
+import { createJiti } from "jiti";
+
+const jiti = createJiti(import.meta.url);
+const { main } = await jiti.import("../src/cli/pi-orchestra.ts");
+process.exitCode = await main(process.argv.slice(2));
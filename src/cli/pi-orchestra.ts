@@ -0,0 +1,426 @@
+/**
+ * `pi-orchestra run <workflow> --params file.json`: runs a workflow to a
+ * terminal state without a pi session. Agents are headless `pi --print`
+ * processes that report over the same message bus the extension serves, and
+ * progress is streamed to stdout as JSON lines.
+ */
+import { spawn } from "node:child_process";
+import fs from "node:fs";
+import path from "node:path";
+import type { ExtensionAPI } from "@mariozechner/pi-coding-agent";
+import { MessageBus } from "../core/message-bus";
+import { createStateStore } from "../core/state-backends";
+import type { WorkflowRuntimeState } from "../core/types";
+import { WorkflowEngine, dispatchToken } from "../core/workflow-engine";
+import { loadProjectConfig } from "../project/config";
+import type { AgentLauncher } from "../runtime/agent-launcher";
+
+/** Exit codes of `pi-orchestra run`. */
+export const EXIT_CODES = {
+  success: 0,
+  failure: 1,
+  escalated: 2,
+  /** Cancelled, paused or waiting for an approval nobody can give here. */
+  stopped: 3,
+  usage: 64,
+} as const;
+
+export type RunOutcome = Exclude<keyof typeof EXIT_CODES, "usage">;
+
+export interface RunOptions {
+  workflow: string;
+  params: Record<string, unknown>;
+  cwd: string;
+  /** How often the run loop checks the workflow tree. */
+  pollMs?: number;
+  /** Launch agents with this instead of headless pi processes. */
+  launcher?: AgentLauncher;
+}
+
+/** Bad command-line arguments or an unreadable params file. */
+export class CliUsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CliUsageError";
+  }
+}
+
+export const USAGE =
+  "usage: pi-orchestra run <workflow> [--params file.json] [--cwd dir]";
+
+/** Parse the arguments after `run`. */
+export const parseRunArgs = (
+  args: string[],
+  cwd = process.cwd(),
+): RunOptions => {
+  let workflow: string | undefined;
+  let paramsFile: string | undefined;
+  let dir = cwd;
+  for (let index = 0; index < args.length; index++) {
+    const arg = args[index] as string;
+    if (arg === "--params" || arg === "--cwd") {
+      const value = args[++index];
+      if (value === undefined) {
+        throw new CliUsageError(`${arg} needs a value`);
+      }
+      if (arg === "--params") {
+        paramsFile = value;
+      } else {
+        dir = path.resolve(cwd, value);
+      }
+    } else if (arg.startsWith("-")) {
+      throw new CliUsageError(`unknown option ${arg}`);
+    } else if (workflow === undefined) {
+      workflow = arg;
+    } else {
+      throw new CliUsageError(`unexpected argument ${arg}`);
+    }
+  }
+  if (workflow === undefined) {
+    throw new CliUsageError("missing workflow name");
+  }
+  return {
+    workflow,
+    params:
+      paramsFile === undefined
+        ? {}
+        : readParamsFile(path.resolve(cwd, paramsFile)),
+    cwd: dir,
+  };
+};
+
+const readParamsFile = (file: string): Record<string, unknown> => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(fs.readFileSync(file, "utf8"));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "unknown error";
+    throw new CliUsageError(`cannot read params from ${file}: ${message}`);
+  }
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    throw new CliUsageError(`params in ${file} must be a JSON object`);
+  }
+  return parsed as Record<string, unknown>;
+};
+
+/**
+ * The slice of `ExtensionAPI` the engine uses outside pi: `exec` of a
+ * binary with pi's timeout and cwd options.
+ */
+const processApi = (cwd: string): ExtensionAPI => {
+  const exec = (
+    bin: string,
+    args: string[],
+    options: { timeout?: number; cwd?: string } = {},
+  ) =>
+    new Promise<{
+      code: number;
+      stdout: string;
+      stderr: string;
+      killed: boolean;
+    }>((resolve) => {
+      const child = spawn(bin, args, { cwd: options.cwd ?? cwd });
+      let stdout = "";
+      let stderr = "";
+      let killed = false;
+      const timer =
+        options.timeout !== undefined
+          ? setTimeout(() => {
+              killed = true;
+              child.kill("SIGTERM");
+            }, options.timeout)
+          : undefined;
+      child.stdout.on("data", (chunk) => {
+        stdout += chunk;
+      });
+      child.stderr.on("data", (chunk) => {
+        stderr += chunk;
+      });
+      child.on("error", (error) => {
+        clearTimeout(timer);
+        resolve({ code: 127, stdout, stderr: error.message, killed });
+      });
+      child.on("close", (code) => {
+        clearTimeout(timer);
+        resolve({ code: code ?? 1, stdout, stderr, killed });
+      });
+    });
+  return { exec } as unknown as ExtensionAPI;
+};
+
+/** The workflow and every subworkflow it started, parents first. */
+const workflowTree = (
+  engine: WorkflowEngine,
+  rootId: string,
+): WorkflowRuntimeState[] => {
+  const tree: WorkflowRuntimeState[] = [];
+  const pending = [rootId];
+  const seen = new Set<string>();
+  while (pending.length > 0) {
+    const id = pending.shift() as string;
+    const state = seen.has(id) ? null : engine.get(id);
+    seen.add(id);
+    if (state) {
+      tree.push(state);
+      pending.push(
+        ...Object.values(state.children ?? {}).map(
+          (childId) => childId as unknown as string,
+        ),
+      );
+    }
+  }
+  return tree;
+};
+
+/**
+ * Run `options.workflow` to completion and return the exit code. Every
+ * journal event of the workflow tree is written to `write` as one JSON
+ * line, followed by a `finished` line with the outcome. A failed engine
+ * listener is reported to `writeError` and fails the run.
+ */
+export const runWorkflow = async (
+  options: RunOptions,
+  write: (line: string) => void,
+  writeError: (line: string) => void,
+): Promise<number> => {
+  const emit = (payload: Record<string, unknown>) =>
+    write(JSON.stringify(payload));
+  const root = path.join(options.cwd, ".orchestra");
+  const projectConfig = loadProjectConfig(options.cwd);
+  const store = createStateStore(root, projectConfig.stateBackend);
+  store.ensure();
+
+  const engine = new WorkflowEngine(
+    processApi(options.cwd),
+    options.cwd,
+    store,
+    { ...projectConfig, agentLauncher: "headless" },
+  );
+  if (options.launcher) {
+    engine.setAgentLauncher(options.launcher);
+  }
+  engine.terminalActions.register("notify", ({ workflow, state, reason }) => {
+    emit({
+      type: "notify",
+      workflow_id: workflow.workflow_id,
+      state,
+      ...(reason ? { reason } : {}),
+    });
+    return { notified: true };
+  });
+  await engine.loadWorkflows();
+
+  const bus = new MessageBus(
+    path.join(root, "bus.sock"),
+    path.join(root, "bus.wal"),
+  );
+  await bus.start({
+    status: () => ({ workflows: engine.list() }),
+    workflowStatus: (workflowId: string) =>
+      engine.get(workflowId) ?? { error: "unknown_workflow" },
+    evidence: async (workflowId: string, body: unknown) =>
+      engine.submitEvidence(workflowId, body),
+    heartbeat: (agentId: string) => engine.heartbeat(agentId),
+  });
+
+  try {
+    const started = engine.start(options.workflow, options.params);
+    const rootId = started.workflow_id as unknown as string;
+    const outcome = await driveWorkflow(
+      engine,
+      rootId,
+      emit,
+      writeError,
+      options.pollMs,
+    );
+    const final = engine.get(rootId) as WorkflowRuntimeState;
+    emit({
+      type: "finished",
+      workflow_id: rootId,
+      state: final.current_state,
+      outcome,
+      exit_code: EXIT_CODES[outcome],
+    });
+    return EXIT_CODES[outcome];
+  } finally {
+    await bus.stop();
+  }
+};
+
+/**
+ * Resolves after `pollMs`, or earlier once the engine reports a change.
+ * A change reported since the last wait resolves it at once.
+ */
+const changeWaiter = (engine: WorkflowEngine, pollMs: number) => {
+  let changed = false;
+  let wake: (() => void) | undefined;
+  const notify = () => {
+    changed = true;
+    wake?.();
+  };
+  const unsubscribe = engine.events.on("*", (event) => {
+    if (event.type !== "agent.heartbeat") {
+      notify();
+    }
+  });
+  const wait = async () => {
+    if (!changed) {
+      await new Promise<void>((resolve) => {
+        const timer = setTimeout(resolve, pollMs);
+        wake = () => {
+          clearTimeout(timer);
+          resolve();
+        };
+      });
+    }
+    changed = false;
+    wake = undefined;
+  };
+  return { wait, notify, unsubscribe };
+};
+
+const driveWorkflow = async (
+  engine: WorkflowEngine,
+  rootId: string,
+  emit: (payload: Record<string, unknown>) => void,
+  writeError: (line: string) => void,
+  pollMs = 1000,
+): Promise<RunOutcome> => {
+  const streamed = new Map<string, number>();
+  const tokens = new Map<string, string>();
+  const streamEvents = () => {
+    for (const workflow of workflowTree(engine, rootId)) {
+      const id = workflow.workflow_id as unknown as string;
+      const { events } = engine.replay(id);
+      for (const event of events.slice(streamed.get(id) ?? 0)) {
+        emit({
+          type: "event",
+          workflow_id: id,
+          index: event.index,
+          at: event.at,
+          event: event.type,
+          ...(event.changes?.current_state !== undefined
+            ? { state: event.changes.current_state }
+            : {}),
+          ...(event.details ? { details: event.details } : {}),
+        });
+      }
+      streamed.set(id, events.length);
+    }
+  };
+
+  // Polling only catches timeouts and backed-off retries
+  const changes = changeWaiter(engine, pollMs);
+  // A failed autopilot or drain listener leaves the workflow stuck
+  let listenerFailed = false;
+  engine.events.onListenerError = (error, event) => {
+    const message = error instanceof Error ? error.message : String(error);
+    writeError(`pi-orchestra: ${event.type} listener failed: ${message}`);
+    listenerFailed = true;
+    changes.notify();
+  };
+  try {
+    for (;;) {
+      for (const timeout of engine.checkTimeouts()) {
+        for (const agentId of timeout.agentIds) {
+          await engine.stopAgent(agentId);
+        }
+      }
+
+      for (const workflow of workflowTree(engine, rootId)) {
+        const id = workflow.workflow_id as unknown as string;
+        if (
+          workflow.status === "cancelled" ||
+          workflow.paused ||
+          workflow.pending_approval
+        ) {
+          continue;
+        }
+        const token = dispatchToken(workflow);
+        if (tokens.get(id) === token) {
+          continue;
+        }
+        const result = await engine.dispatchCurrentState(id);
+        // A backed-off retry is dispatched on a later tick
+        if (!result.retryAt) {
+          tokens.set(id, token);
+        }
+      }
+      streamEvents();
+
+      const workflow = engine.get(rootId) as WorkflowRuntimeState;
+      const terminal = terminalStateOf(engine, workflow);
+      if (terminal) {
+        if (terminal.result === "success") {
+          return "success";
+        }
+        return terminal.action ? "escalated" : "failure";
+      }
+      if (
+        workflow.status === "cancelled" ||
+        workflow.paused ||
+        workflow.pending_approval
+      ) {
+        return "stopped";
+      }
+      await changes.wait();
+      if (listenerFailed) {
+        streamEvents();
+        return "failure";
+      }
+    }
+  } finally {
+    changes.unsubscribe();
+  }
+};
+
+const terminalStateOf = (
+  engine: WorkflowEngine,
+  workflow: WorkflowRuntimeState,
+) => {
+  const stateDefinition = engine.getDefinition(
+    workflow.workflow_type as unknown as string,
+    workflow.workflow_version,
+  )?.states[workflow.current_state];
+  return stateDefinition &&
+    "type" in stateDefinition &&
+    stateDefinition.type === "terminal"
+    ? stateDefinition
+    : undefined;
+};
+
+/** The `pi-orchestra` entrypoint; returns the process exit code. */
+export const main = async (
+  argv: string[],
+  io: {
+    stdout: (line: string) => void;
+    stderr: (line: string) => void;
+  } = {
+    stdout: (line) => process.stdout.write(`${line}\n`),
+    stderr: (line) => process.stderr.write(`${line}\n`),
+  },
+): Promise<number> => {
+  const [command, ...args] = argv;
+  if (command !== "run") {
+    io.stderr(USAGE);
+    return EXIT_CODES.usage;
+  }
+  let options: RunOptions;
+  try {
+    options = parseRunArgs(args);
+  } catch (error) {
+    if (!(error instanceof CliUsageError)) {
+      throw error;
+    }
+    io.stderr(`pi-orchestra: ${error.message}`);
+    io.stderr(USAGE);
+    return EXIT_CODES.usage;
+  }
+  try {
+    return await runWorkflow(options, io.stdout, io.stderr);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "unknown error";
+    io.stdout(JSON.stringify({ type: "error", message }));
+    return EXIT_CODES.failure;
+  }
+};
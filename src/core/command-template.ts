@@ -0,0 +1,182 @@
+/**
+ * Command templates for action commands and verification commands:
+ * `${project.testRunner}`, `git add ${evidence.RED.test_file}`. A placeholder
+ * holds a guard-expression path rooted at `params`, `project`, `evidence` or
+ * `metrics`. The project config is trusted: its values are command text,
+ * so `${project.testRunner}` can be `npm test`. A project placeholder must
+ * be a whole unquoted word leading a command, so a project value never ends
+ * up unescaped inside an argument. Every other value is data and always
+ * reaches the shell as one word: single-quoted where the placeholder is
+ * unquoted, escaped where it already sits in single quotes. Data
+ * placeholders inside double quotes are rejected, since the shell would
+ * still expand `$(...)` there.
+ */
+import {
+  type GuardNode,
+  type GuardScope,
+  evaluateGuardExpression,
+  parseGuardExpression,
+} from "./guard-expression";
+
+export const shellEscape = (value: string): string =>
+  value.replace(/'/g, "'\\''");
+
+export type TemplateRoot = "params" | "project" | "evidence" | "metrics";
+
+/** The shell quoting a placeholder sits in. */
+export type TemplateQuoting = "none" | "single" | "double";
+
+export interface TemplatePlaceholder {
+  source: string;
+  root: TemplateRoot;
+  segments: Array<string | number>;
+  quoting: TemplateQuoting;
+}
+
+/** A command template is malformed or a placeholder does not resolve. */
+export class CommandTemplateError extends Error {
+  constructor(
+    readonly template: string,
+    reason: string,
+  ) {
+    super(`${reason} in "${template}"`);
+    this.name = "CommandTemplateError";
+  }
+}
+
+const TEMPLATE_ROOTS = new Set(["params", "project", "evidence", "metrics"]);
+
+const PLACEHOLDER = /\$\{([^}]*)\}/g;
+
+/** Text a word leading a command can follow: nothing or a separator. */
+const COMMAND_START = /(?:^|[;&|(])\s*$/;
+
+/** Text that can follow a whole word: nothing, a space or a separator. */
+const WORD_END = /^(?:$|[\s;&|)])/;
+
+/** The quoting in effect after `text`, starting from `quoting`. */
+const scanQuoting = (
+  text: string,
+  quoting: TemplateQuoting,
+): TemplateQuoting => {
+  let current = quoting;
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index];
+    if (current === "single") {
+      if (char === "'") current = "none";
+    } else if (char === "\\") {
+      index++;
+    } else if (char === '"') {
+      current = current === "double" ? "none" : "double";
+    } else if (char === "'" && current === "none") {
+      current = "single";
+    }
+  }
+  return current;
+};
+
+const parsePlaceholder = (
+  template: string,
+  source: string,
+  quoting: TemplateQuoting,
+  leadsCommand: boolean,
+): TemplatePlaceholder => {
+  let node: GuardNode;
+  try {
+    node = parseGuardExpression(source.trim());
+  } catch {
+    node = { kind: "literal", value: null };
+  }
+  if (node.kind !== "path" || !TEMPLATE_ROOTS.has(node.root)) {
+    throw new CommandTemplateError(
+      template,
+      `invalid placeholder \${${source}}, expected a path under params, project, evidence or metrics`,
+    );
+  }
+  if (node.root === "project" && (quoting !== "none" || !leadsCommand)) {
+    throw new CommandTemplateError(
+      template,
+      `\${${source}} is command text and must be a whole word at the start of a command`,
+    );
+  }
+  if (node.root !== "project" && quoting === "double") {
+    throw new CommandTemplateError(
+      template,
+      `\${${source}} is inside double quotes, use single quotes or none`,
+    );
+  }
+  return {
+    source,
+    root: node.root as TemplateRoot,
+    segments: node.segments,
+    quoting,
+  };
+};
+
+/** The placeholders in `template`, in order. Throws on malformed ones. */
+export const parseCommandTemplate = (
+  template: string,
+): TemplatePlaceholder[] => {
+  let quoting: TemplateQuoting = "none";
+  let scanned = 0;
+  const placeholders = [...template.matchAll(PLACEHOLDER)].map((match) => {
+    quoting = scanQuoting(template.slice(scanned, match.index), quoting);
+    scanned = match.index + match[0].length;
+    return parsePlaceholder(
+      template,
+      match[1] as string,
+      quoting,
+      COMMAND_START.test(template.slice(0, match.index)) &&
+        WORD_END.test(template.slice(scanned)),
+    );
+  });
+  if (template.replace(PLACEHOLDER, "").includes("${")) {
+    throw new CommandTemplateError(template, "unterminated placeholder");
+  }
+  return placeholders;
+};
+
+/** The syntax error in a command template, without throwing. */
+export const findCommandTemplateError = (
+  template: string,
+): string | undefined => {
+  try {
+    parseCommandTemplate(template);
+    return undefined;
+  } catch (error) {
+    if (!(error instanceof CommandTemplateError)) {
+      throw error;
+    }
+    return error.message;
+  }
+};
+
+const formatValue = (value: unknown): string =>
+  typeof value === "string" ? value : JSON.stringify(value);
+
+/**
+ * Fill in a command template from `scope`. Throws when a placeholder does
+ * not resolve, so a missing value never runs as an empty argument.
+ */
+export const renderCommandTemplate = (
+  template: string,
+  scope: GuardScope,
+): string => {
+  const placeholders = parseCommandTemplate(template);
+  let index = 0;
+  return template.replace(PLACEHOLDER, (_match, source: string) => {
+    const { root, quoting } = placeholders[index++] as TemplatePlaceholder;
+    const value = evaluateGuardExpression(
+      parseGuardExpression(source.trim()),
+      scope,
+    );
+    if (value === undefined || value === null) {
+      throw new CommandTemplateError(template, `\${${source}} is not set`);
+    }
+    const text = formatValue(value);
+    if (quoting === "single") {
+      return shellEscape(text);
+    }
+    return root === "project" ? text : `'${shellEscape(text)}'`;
+  });
+};
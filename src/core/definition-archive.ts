@@ -0,0 +1,42 @@
+import fs from "node:fs";
+import path from "node:path";
+import type { WorkflowDefinition } from "./types";
+
+/** The version a definition declares; unversioned definitions are 1. */
+export const definitionVersion = (definition: WorkflowDefinition): number =>
+  definition.version ?? 1;
+
+/**
+ * Snapshots of workflow definitions under
+ * `.orchestra/definitions/<workflow>/v<version>.json`, written the first
+ * time an instance starts on a version. In-flight instances load their
+ * definition from here once the source file has moved on to a newer version.
+ */
+export class WorkflowDefinitionArchive {
+  constructor(private readonly archiveDir: string) {}
+
+  snapshotPath(workflowType: string, version: number): string {
+    return path.join(this.archiveDir, workflowType, `v${version}.json`);
+  }
+
+  /** Keep the first snapshot of each version; later saves are no-ops. */
+  save(definition: WorkflowDefinition): void {
+    const file = this.snapshotPath(
+      definition.name,
+      definitionVersion(definition),
+    );
+    if (fs.existsSync(file)) {
+      return;
+    }
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, `${JSON.stringify(definition, null, 2)}\n`);
+  }
+
+  load(workflowType: string, version: number): WorkflowDefinition | null {
+    const file = this.snapshotPath(workflowType, version);
+    if (!fs.existsSync(file)) {
+      return null;
+    }
+    return JSON.parse(fs.readFileSync(file, "utf8")) as WorkflowDefinition;
+  }
+}
@@ -0,0 +1,230 @@
+import type { WorkflowEventInput, WorkflowRuntimeState } from "./types";
+
+interface DomainEventBase {
+  workflowId: string;
+  at: string;
+}
+
+/**
+ * What happened to a workflow, published in-process by `WorkflowEngine`
+ * once the change is saved. Journal events with no domain meaning of their
+ * own surface as `workflow.updated`.
+ */
+export type WorkflowDomainEvent = DomainEventBase &
+  (
+    | { type: "workflow.started"; workflowType: string; state: string }
+    | { type: "state.entered"; state: string; from: string; result: string }
+    | {
+        type: "attempt.failed";
+        state: string;
+        retries: number;
+        failure: string;
+        /** Set while the retry backs off. */
+        retryAt?: string;
+      }
+    | { type: "evidence.accepted"; state: string; result: string }
+    | { type: "evidence.failed"; state: string; result: string }
+    | { type: "evidence.rejected"; state: string; reason: string }
+    | { type: "agent.dispatched"; state: string; agentId: string }
+    | { type: "agent.heartbeat"; agentId: string }
+    | { type: "approval.requested"; state: string; to: string }
+    | {
+        type: "approval.decided";
+        state: string;
+        decision: "approved" | "rejected";
+      }
+    | { type: "workflow.paused" }
+    | { type: "workflow.resumed" }
+    | { type: "workflow.cancelled"; reason: string }
+    | {
+        type: "workflow.terminal";
+        state: string;
+        result: "success" | "failure";
+      }
+    | { type: "workflow.updated"; event: string }
+  );
+
+export type WorkflowDomainEventType = WorkflowDomainEvent["type"];
+
+export type WorkflowDomainEventOf<T extends WorkflowDomainEventType> = Extract<
+  WorkflowDomainEvent,
+  { type: T }
+>;
+
+type Listener = (event: WorkflowDomainEvent) => void | Promise<void>;
+
+/**
+ * Delivers domain events to subscribers on a later turn of the event loop,
+ * so a listener that calls back into the engine never runs in the middle of
+ * the engine call that saved the change. Listener errors, thrown or
+ * rejected, go to `onListenerError` and never reach the engine.
+ */
+export class WorkflowEventEmitter {
+  private readonly listeners = new Map<string, Set<Listener>>();
+  onListenerError: (error: unknown, event: WorkflowDomainEvent) => void =
+    () => {};
+
+  /** Subscribe to one event type, or `*` for all. Returns the unsubscribe. */
+  on<T extends WorkflowDomainEventType>(
+    type: T,
+    listener: (event: WorkflowDomainEventOf<T>) => void | Promise<void>,
+  ): () => void;
+  on(type: "*", listener: Listener): () => void;
+  on(type: string, listener: Listener): () => void {
+    const listeners = this.listeners.get(type) ?? new Set<Listener>();
+    listeners.add(listener);
+    this.listeners.set(type, listeners);
+    return () => {
+      listeners.delete(listener);
+    };
+  }
+
+  emit(events: WorkflowDomainEvent[]): void {
+    if (events.length === 0) {
+      return;
+    }
+    setImmediate(() => {
+      for (const event of events) {
+        this.deliver(event);
+      }
+    });
+  }
+
+  private deliver(event: WorkflowDomainEvent): void {
+    const listeners = [
+      ...(this.listeners.get(event.type) ?? []),
+      ...(this.listeners.get("*") ?? []),
+    ];
+    for (const listener of listeners) {
+      try {
+        void Promise.resolve(listener(event)).catch((error: unknown) =>
+          this.onListenerError(error, event),
+        );
+      } catch (error) {
+        this.onListenerError(error, event);
+      }
+    }
+  }
+}
+
+const text = (value: unknown): string =>
+  typeof value === "string" ? value : "";
+
+/**
+ * The domain events for journal events saved together with `state`.
+ * `terminalResult` says whether a state is terminal, and how it ends.
+ */
+export const domainEventsFor = (
+  state: WorkflowRuntimeState,
+  journal: WorkflowEventInput[],
+  terminalResult: (stateName: string) => "success" | "failure" | undefined,
+  at: string,
+): WorkflowDomainEvent[] => {
+  const workflowId = state.workflow_id as unknown as string;
+  const base = { workflowId, at };
+  return journal.flatMap((event): WorkflowDomainEvent[] => {
+    const details = event.details ?? {};
+    switch (event.type) {
+      case "workflow_started":
+        return [
+          {
+            ...base,
+            type: "workflow.started",
+            workflowType: state.workflow_type as unknown as string,
+            state: state.history[0]?.state ?? state.current_state,
+          },
+        ];
+      case "transitioned": {
+        const to = text(details.to);
+        const result = terminalResult(to);
+        return [
+          {
+            ...base,
+            type: "state.entered",
+            state: to,
+            from: text(details.from),
+            result: text(details.result),
+          },
+          ...(result
+            ? [
+                {
+                  ...base,
+                  type: "workflow.terminal" as const,
+                  state: to,
+                  result,
+                },
+              ]
+            : []),
+        ];
+      }
+      case "evidence_accepted":
+      case "evidence_failed":
+        return [
+          {
+            ...base,
+            type:
+              event.type === "evidence_accepted"
+                ? "evidence.accepted"
+                : "evidence.failed",
+            state: text(details.submitted_state),
+            result: text(details.result),
+          },
+        ];
+      case "evidence_rejected":
+        return [
+          {
+            ...base,
+            type: "evidence.rejected",
+            state: text(details.submitted_state),
+            reason: text(details.reason),
+          },
+        ];
+      case "agent_dispatched":
+        return [
+          {
+            ...base,
+            type: "agent.dispatched",
+            state: text(details.state),
+            agentId: text(details.agent_id),
+          },
+        ];
+      case "heartbeat":
+        return [
+          { ...base, type: "agent.heartbeat", agentId: text(details.agent_id) },
+        ];
+      case "approval_requested":
+        return [
+          {
+            ...base,
+            type: "approval.requested",
+            state: text(details.state),
+            to: text(details.to),
+          },
+        ];
+      case "approved":
+      case "rejected":
+        return [
+          {
+            ...base,
+            type: "approval.decided",
+            state: text(details.state),
+            decision: event.type,
+          },
+        ];
+      case "paused":
+        return [{ ...base, type: "workflow.paused" }];
+      case "resumed":
+        return [{ ...base, type: "workflow.resumed" }];
+      case "cancelled":
+        return [
+          {
+            ...base,
+            type: "workflow.cancelled",
+            reason: text(details.reason),
+          },
+        ];
+      default:
+        return [{ ...base, type: "workflow.updated", event: event.type }];
+    }
+  });
+};
@@ -0,0 +1,91 @@
+import fs from "node:fs";
+import path from "node:path";
+
+export type EscalationStatus = "open" | "resolved";
+
+/** One workflow that ended in a terminal state asking for a human. */
+export interface EscalationRecord {
+  workflow_id: string;
+  workflow_type: string;
+  state: string;
+  action: string;
+  result: "success" | "failure";
+  /** The last failure recorded before the terminal state, if any. */
+  reason?: string;
+  parent_id?: string;
+  created_at: string;
+  status: EscalationStatus;
+  resolved_at?: string;
+  note?: string;
+}
+
+/**
+ * Escalation records under `.orchestra/escalations/<workflowId>.json`, one
+ * per workflow. Recording again for the same workflow reopens it.
+ */
+export class EscalationInbox {
+  constructor(private readonly escalationsDir: string) {}
+
+  recordPath(workflowId: string): string {
+    return path.join(this.escalationsDir, `${workflowId}.json`);
+  }
+
+  record(
+    entry: Omit<EscalationRecord, "created_at" | "status">,
+  ): EscalationRecord {
+    const record: EscalationRecord = {
+      ...entry,
+      created_at: new Date().toISOString(),
+      status: "open",
+    };
+    this.write(record);
+    return record;
+  }
+
+  get(workflowId: string): EscalationRecord | null {
+    const file = this.recordPath(workflowId);
+    if (!fs.existsSync(file)) {
+      return null;
+    }
+    return JSON.parse(fs.readFileSync(file, "utf8")) as EscalationRecord;
+  }
+
+  /** Records sorted oldest first, optionally only those with `status`. */
+  list(status?: EscalationStatus): EscalationRecord[] {
+    if (!fs.existsSync(this.escalationsDir)) {
+      return [];
+    }
+    return fs
+      .readdirSync(this.escalationsDir)
+      .filter((name) => name.endsWith(".json"))
+      .map((name) => this.get(name.slice(0, -".json".length)))
+      .filter(
+        (record): record is EscalationRecord =>
+          record !== null && (status === undefined || record.status === status),
+      )
+      .sort((a, b) => a.created_at.localeCompare(b.created_at));
+  }
+
+  resolve(workflowId: string, note?: string): EscalationRecord {
+    const record = this.get(workflowId);
+    if (!record) {
+      throw new Error(`No escalation for workflow ${workflowId}`);
+    }
+    const resolved: EscalationRecord = {
+      ...record,
+      status: "resolved",
+      resolved_at: new Date().toISOString(),
+      ...(note ? { note } : {}),
+    };
+    this.write(resolved);
+    return resolved;
+  }
+
+  private write(record: EscalationRecord): void {
+    fs.mkdirSync(this.escalationsDir, { recursive: true });
+    fs.writeFileSync(
+      this.recordPath(record.workflow_id),
+      `${JSON.stringify(record, null, 2)}\n`,
+    );
+  }
+}
@@ -0,0 +1,300 @@
+/**
+ * Guard expressions for guarded transitions: a small language with no calls
+ * and no assignment, evaluated against a workflow's runtime.
+ *
+ *   expr    := and ("||" and)*
+ *   and     := unary ("&&" unary)*
+ *   unary   := "!" unary | compare
+ *   compare := operand (("===" | "!==" | "<=" | ">=" | "<" | ">") operand)?
+ *   operand := literal | path | "(" expr ")"
+ *   path    := root ("." name | "[" integer "]")*
+ *   root    := params | evidence | metrics | project | result
+ *   literal := "text" | 'text' | 12.5 | true | false | null
+ *
+ * Examples: `evidence.TEST.coverage < 80`,
+ * `project.flavor === "event-modeled" && !params.skip_modeling`.
+ * A path that does not resolve is `undefined`; `.length` works on strings
+ * and arrays. Ordering operators are false unless both sides are numbers or
+ * both are strings.
+ */
+export type GuardRoot =
+  | "params"
+  | "evidence"
+  | "metrics"
+  | "project"
+  | "result";
+
+export type GuardOperator = "===" | "!==" | "<=" | ">=" | "<" | ">";
+
+export type GuardNode =
+  | { kind: "literal"; value: string | number | boolean | null }
+  | { kind: "path"; root: GuardRoot; segments: Array<string | number> }
+  | { kind: "not"; operand: GuardNode }
+  | { kind: "and" | "or"; operands: GuardNode[] }
+  | {
+      kind: "compare";
+      operator: GuardOperator;
+      left: GuardNode;
+      right: GuardNode;
+    };
+
+/** The values a guard can read, by root name. */
+export type GuardScope = Partial<Record<GuardRoot, unknown>>;
+
+const ROOTS = new Set(["params", "evidence", "metrics", "project", "result"]);
+
+// Longest first, so "<=" is not read as "<"
+const OPERATORS: GuardOperator[] = ["===", "!==", "<=", ">=", "<", ">"];
+
+class GuardExpressionParser {
+  private position = 0;
+
+  constructor(private readonly source: string) {}
+
+  parse(): GuardNode {
+    const node = this.parseOr();
+    this.skipSpace();
+    if (this.position < this.source.length) {
+      this.fail(`unexpected "${this.source.slice(this.position)}"`);
+    }
+    return node;
+  }
+
+  private parseOr(): GuardNode {
+    const operands = [this.parseAnd()];
+    while (this.consume("||")) {
+      operands.push(this.parseAnd());
+    }
+    return operands.length === 1
+      ? (operands[0] as GuardNode)
+      : { kind: "or", operands };
+  }
+
+  private parseAnd(): GuardNode {
+    const operands = [this.parseUnary()];
+    while (this.consume("&&")) {
+      operands.push(this.parseUnary());
+    }
+    return operands.length === 1
+      ? (operands[0] as GuardNode)
+      : { kind: "and", operands };
+  }
+
+  private parseUnary(): GuardNode {
+    this.skipSpace();
+    if (
+      this.source[this.position] === "!" &&
+      this.source[this.position + 1] !== "="
+    ) {
+      this.position += 1;
+      return { kind: "not", operand: this.parseUnary() };
+    }
+    return this.parseCompare();
+  }
+
+  private parseCompare(): GuardNode {
+    const left = this.parseOperand();
+    this.skipSpace();
+    const operator = OPERATORS.find((candidate) =>
+      this.source.startsWith(candidate, this.position),
+    );
+    if (!operator) {
+      if (/^[=!]=/.test(this.source.slice(this.position))) {
+        this.fail('use "===" or "!==" to compare');
+      }
+      return left;
+    }
+    this.position += operator.length;
+    return { kind: "compare", operator, left, right: this.parseOperand() };
+  }
+
+  private parseOperand(): GuardNode {
+    this.skipSpace();
+    const char = this.source[this.position];
+
+    if (char === "(") {
+      this.position += 1;
+      const inner = this.parseOr();
+      if (!this.consume(")")) {
+        this.fail('expected ")"');
+      }
+      return inner;
+    }
+
+    if (char === '"' || char === "'") {
+      const end = this.source.indexOf(char, this.position + 1);
+      if (end < 0) {
+        this.fail("unterminated string literal");
+      }
+      const value = this.source.slice(this.position + 1, end);
+      this.position = end + 1;
+      return { kind: "literal", value };
+    }
+
+    const numeric = /^-?\d+(\.\d+)?/.exec(this.source.slice(this.position));
+    if (numeric) {
+      this.position += numeric[0].length;
+      return { kind: "literal", value: Number(numeric[0]) };
+    }
+
+    const name = this.readName();
+    if (name === "true" || name === "false") {
+      return { kind: "literal", value: name === "true" };
+    }
+    if (name === "null") {
+      return { kind: "literal", value: null };
+    }
+    if (!ROOTS.has(name)) {
+      this.fail(
+        `unknown name "${name}"; paths start with ${[...ROOTS].join(", ")}`,
+      );
+    }
+    return {
+      kind: "path",
+      root: name as GuardRoot,
+      segments: this.parseSegments(),
+    };
+  }
+
+  private parseSegments(): Array<string | number> {
+    const segments: Array<string | number> = [];
+    for (;;) {
+      if (this.source[this.position] === ".") {
+        this.position += 1;
+        segments.push(this.readName());
+      } else if (this.source[this.position] === "[") {
+        const index = /^\[(\d+)\]/.exec(this.source.slice(this.position));
+        if (!index) {
+          this.fail('expected "[<index>]"');
+        }
+        const match = index as RegExpExecArray;
+        this.position += match[0].length;
+        segments.push(Number(match[1]));
+      } else {
+        return segments;
+      }
+    }
+  }
+
+  private readName(): string {
+    const word = /^[A-Za-z_][A-Za-z0-9_-]*/.exec(
+      this.source.slice(this.position),
+    );
+    if (!word) {
+      this.fail("expected a value or path");
+    }
+    const name = (word as RegExpExecArray)[0];
+    this.position += name.length;
+    return name;
+  }
+
+  private skipSpace(): void {
+    while (/\s/.test(this.source[this.position] ?? "")) {
+      this.position += 1;
+    }
+  }
+
+  private consume(token: string): boolean {
+    this.skipSpace();
+    if (this.source.startsWith(token, this.position)) {
+      this.position += token.length;
+      return true;
+    }
+    return false;
+  }
+
+  private fail(reason: string): never {
+    throw new Error(`invalid guard expression "${this.source}": ${reason}`);
+  }
+}
+
+export const parseGuardExpression = (source: string): GuardNode =>
+  new GuardExpressionParser(source).parse();
+
+/** The syntax error in a guard expression, without throwing. */
+export const findGuardExpressionError = (
+  source: string,
+): string | undefined => {
+  try {
+    parseGuardExpression(source);
+    return undefined;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+};
+
+const readSegment = (value: unknown, segment: string | number): unknown => {
+  if (typeof value === "string") {
+    return segment === "length" ? value.length : undefined;
+  }
+  if (
+    typeof value !== "object" ||
+    value === null ||
+    !Object.hasOwn(value, segment)
+  ) {
+    return undefined;
+  }
+  return (value as Record<string | number, unknown>)[segment];
+};
+
+const compare = (
+  operator: GuardOperator,
+  left: unknown,
+  right: unknown,
+): boolean => {
+  if (operator === "===") {
+    return left === right;
+  }
+  if (operator === "!==") {
+    return left !== right;
+  }
+  const comparable =
+    (typeof left === "number" && typeof right === "number") ||
+    (typeof left === "string" && typeof right === "string");
+  if (!comparable) {
+    return false;
+  }
+  const [a, b] = [left as number | string, right as number | string];
+  switch (operator) {
+    case "<":
+      return a < b;
+    case "<=":
+      return a <= b;
+    case ">":
+      return a > b;
+    case ">=":
+      return a >= b;
+  }
+};
+
+export const evaluateGuardExpression = (
+  node: GuardNode,
+  scope: GuardScope,
+): unknown => {
+  switch (node.kind) {
+    case "literal":
+      return node.value;
+    case "path":
+      return node.segments.reduce<unknown>(readSegment, scope[node.root]);
+    case "not":
+      return !evaluateGuardExpression(node.operand, scope);
+    case "and":
+      return node.operands.every((operand) =>
+        evaluateGuardExpression(operand, scope),
+      );
+    case "or":
+      return node.operands.some((operand) =>
+        evaluateGuardExpression(operand, scope),
+      );
+    case "compare":
+      return compare(
+        node.operator,
+        evaluateGuardExpression(node.left, scope),
+        evaluateGuardExpression(node.right, scope),
+      );
+  }
+};
+
+/** Whether `source` holds (is truthy) for `scope`. Throws on syntax errors. */
+export const guardMatches = (source: string, scope: GuardScope): boolean =>
+  Boolean(evaluateGuardExpression(parseGuardExpression(source), scope));
@@ -0,0 +1,277 @@
+import fs from "node:fs";
+import { createRequire } from "node:module";
+import path from "node:path";
+import type { DatabaseSync } from "node:sqlite";
+import {
+  type StateStore,
+  type WorkflowQuery,
+  WorkflowStateConflictError,
+} from "./state-store";
+import type {
+  WorkflowEvent,
+  WorkflowEventInput,
+  WorkflowId,
+  WorkflowRuntimeState,
+} from "./types";
+import { diffWorkflowState } from "./workflow-journal";
+
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS workflows (
+  workflow_id TEXT PRIMARY KEY,
+  workflow_type TEXT NOT NULL,
+  current_state TEXT NOT NULL,
+  paused INTEGER NOT NULL,
+  parent_id TEXT,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  revision INTEGER NOT NULL,
+  state TEXT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS workflows_type ON workflows (workflow_type);
+CREATE INDEX IF NOT EXISTS workflows_state ON workflows (current_state);
+CREATE INDEX IF NOT EXISTS workflows_paused ON workflows (paused);
+CREATE INDEX IF NOT EXISTS workflows_parent ON workflows (parent_id);
+CREATE INDEX IF NOT EXISTS workflows_created ON workflows (created_at);
+CREATE TABLE IF NOT EXISTS workflow_events (
+  workflow_id TEXT NOT NULL,
+  idx INTEGER NOT NULL,
+  event TEXT NOT NULL,
+  PRIMARY KEY (workflow_id, idx)
+);
+CREATE TABLE IF NOT EXISTS heartbeats (
+  workflow_id TEXT NOT NULL,
+  agent_id TEXT NOT NULL,
+  at TEXT NOT NULL,
+  PRIMARY KEY (workflow_id, agent_id)
+);
+`;
+
+const QUERY_COLUMNS: Array<
+  [keyof WorkflowQuery, string, (value: never) => string | number]
+> = [
+  ["workflowType", "workflow_type = ?", (value: string) => value],
+  ["currentState", "current_state = ?", (value: string) => value],
+  ["paused", "paused = ?", (value: boolean) => (value ? 1 : 0)],
+  ["parentId", "parent_id = ?", (value: string) => value],
+  ["createdAfter", "created_at >= ?", (value: string) => value],
+  ["createdBefore", "created_at < ?", (value: string) => value],
+];
+
+const openDatabase = (file: string): DatabaseSync => {
+  let sqlite: typeof import("node:sqlite");
+  try {
+    sqlite = createRequire(import.meta.url)("node:sqlite");
+  } catch {
+    throw new Error(
+      `The sqlite state backend needs node:sqlite (Node.js 22.5 or later); running ${process.version}`,
+    );
+  }
+  return new sqlite.DatabaseSync(file);
+};
+
+/**
+ * Workflow state and journal in a single embedded SQLite database
+ * (`<root>/state.db`). The filterable fields are stored as indexed columns
+ * so `listWorkflows` queries do not parse every workflow.
+ */
+export class SqliteStateStore implements StateStore {
+  private database: DatabaseSync | undefined;
+
+  constructor(private readonly rootDir: string) {}
+
+  get databasePath(): string {
+    return path.join(this.rootDir, "state.db");
+  }
+
+  ensure(): void {
+    fs.mkdirSync(this.rootDir, { recursive: true });
+    fs.mkdirSync(path.join(this.rootDir, "runtime"), { recursive: true });
+    fs.mkdirSync(path.join(this.rootDir, "evidence"), { recursive: true });
+    this.db();
+  }
+
+  saveWorkflowState(
+    state: WorkflowRuntimeState,
+    events: WorkflowEventInput[] = [],
+  ): void {
+    this.transaction(() => {
+      const stored = this.loadWorkflowState(state.workflow_id);
+      const expected = state.revision ?? 0;
+      const storedRevision = stored?.revision ?? 0;
+      if (stored && storedRevision !== expected) {
+        throw new WorkflowStateConflictError(
+          state.workflow_id,
+          expected,
+          storedRevision,
+        );
+      }
+
+      const next = { ...state, revision: expected + 1 };
+      this.writeState(next);
+      state.revision = next.revision;
+
+      const journal = events.length > 0 ? events : [{ type: "state_saved" }];
+      this.appendEvents(
+        state.workflow_id,
+        journal.map((event, index) =>
+          index === journal.length - 1
+            ? { ...event, ...diffWorkflowState(stored, next) }
+            : event,
+        ),
+      );
+    });
+  }
+
+  loadWorkflowState(workflowId: WorkflowId): WorkflowRuntimeState | null {
+    const row = this.db()
+      .prepare("SELECT state FROM workflows WHERE workflow_id = ?")
+      .get(workflowId) as { state: string } | undefined;
+    return row ? (JSON.parse(row.state) as WorkflowRuntimeState) : null;
+  }
+
+  listWorkflows(query: WorkflowQuery = {}): WorkflowRuntimeState[] {
+    const clauses: string[] = [];
+    const values: Array<string | number> = [];
+    for (const [key, clause, toValue] of QUERY_COLUMNS) {
+      const value = query[key];
+      if (value !== undefined) {
+        clauses.push(clause);
+        values.push(toValue(value as never));
+      }
+    }
+
+    const where = clauses.length > 0 ? ` WHERE ${clauses.join(" AND ")}` : "";
+    const rows = this.db()
+      .prepare(
+        `SELECT state FROM workflows${where} ORDER BY created_at, workflow_id`,
+      )
+      .all(...values) as Array<{ state: string }>;
+    return rows.map((row) => JSON.parse(row.state) as WorkflowRuntimeState);
+  }
+
+  /** Transactional writes leave nothing to quarantine. */
+  listQuarantined(): string[] {
+    return [];
+  }
+
+  appendWorkflowEvent(workflowId: WorkflowId, event: WorkflowEventInput): void {
+    this.transaction(() => this.appendEvents(workflowId, [event]));
+  }
+
+  readWorkflowEvents(workflowId: WorkflowId): WorkflowEvent[] {
+    const rows = this.db()
+      .prepare(
+        "SELECT event FROM workflow_events WHERE workflow_id = ? ORDER BY idx",
+      )
+      .all(workflowId) as Array<{ event: string }>;
+    return rows.map((row) => JSON.parse(row.event) as WorkflowEvent);
+  }
+
+  importWorkflow(state: WorkflowRuntimeState, events: WorkflowEvent[]): void {
+    this.transaction(() => {
+      this.writeState(state);
+      this.db()
+        .prepare("DELETE FROM workflow_events WHERE workflow_id = ?")
+        .run(state.workflow_id);
+      const insert = this.db().prepare(
+        "INSERT INTO workflow_events (workflow_id, idx, event) VALUES (?, ?, ?)",
+      );
+      for (const event of events) {
+        insert.run(state.workflow_id, event.index, JSON.stringify(event));
+      }
+    });
+  }
+
+  recordHeartbeat(workflowId: WorkflowId, agentId: string, at: string): void {
+    this.db()
+      .prepare(
+        `INSERT INTO heartbeats (workflow_id, agent_id, at) VALUES (?, ?, ?)
+        ON CONFLICT (workflow_id, agent_id) DO UPDATE SET at = excluded.at`,
+      )
+      .run(workflowId, agentId, at);
+  }
+
+  readHeartbeats(workflowId: WorkflowId): Record<string, string> {
+    const rows = this.db()
+      .prepare("SELECT agent_id, at FROM heartbeats WHERE workflow_id = ?")
+      .all(workflowId) as Array<{ agent_id: string; at: string }>;
+    return Object.fromEntries(rows.map((row) => [row.agent_id, row.at]));
+  }
+
+  close(): void {
+    this.database?.close();
+    this.database = undefined;
+  }
+
+  private db(): DatabaseSync {
+    if (!this.database) {
+      fs.mkdirSync(this.rootDir, { recursive: true });
+      this.database = openDatabase(this.databasePath);
+      this.database.exec("PRAGMA journal_mode = WAL");
+      this.database.exec("PRAGMA busy_timeout = 2000");
+      this.database.exec(SCHEMA);
+    }
+    return this.database;
+  }
+
+  private transaction(fn: () => void): void {
+    const db = this.db();
+    db.exec("BEGIN IMMEDIATE");
+    try {
+      fn();
+      db.exec("COMMIT");
+    } catch (error) {
+      db.exec("ROLLBACK");
+      throw error;
+    }
+  }
+
+  private writeState(state: WorkflowRuntimeState): void {
+    this.db()
+      .prepare(
+        `INSERT INTO workflows
+          (workflow_id, workflow_type, current_state, paused, parent_id, created_at, updated_at, revision, state)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+        ON CONFLICT (workflow_id) DO UPDATE SET
+          workflow_type = excluded.workflow_type,
+          current_state = excluded.current_state,
+          paused = excluded.paused,
+          parent_id = excluded.parent_id,
+          created_at = excluded.created_at,
+          updated_at = excluded.updated_at,
+          revision = excluded.revision,
+          state = excluded.state`,
+      )
+      .run(
+        state.workflow_id,
+        state.workflow_type,
+        state.current_state,
+        state.paused ? 1 : 0,
+        state.parent?.workflow_id ?? null,
+        state.created_at,
+        state.updated_at,
+        state.revision ?? 0,
+        JSON.stringify(state),
+      );
+  }
+
+  private appendEvents(
+    workflowId: WorkflowId,
+    events: Array<Omit<WorkflowEvent, "index" | "at">>,
+  ): void {
+    const db = this.db();
+    const { next } = db
+      .prepare(
+        "SELECT COALESCE(MAX(idx) + 1, 0) AS next FROM workflow_events WHERE workflow_id = ?",
+      )
+      .get(workflowId) as { next: number };
+    const at = new Date().toISOString();
+    const insert = db.prepare(
+      "INSERT INTO workflow_events (workflow_id, idx, event) VALUES (?, ?, ?)",
+    );
+    events.forEach((event, offset) => {
+      const index = next + offset;
+      insert.run(workflowId, index, JSON.stringify({ index, at, ...event }));
+    });
+  }
+}
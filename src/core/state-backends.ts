@@ -0,0 +1,45 @@
+import { SqliteStateStore } from "./sqlite-state-store";
+import { JsonStateStore, type StateStore } from "./state-store";
+
+export type StateBackend = "json" | "sqlite";
+
+export const STATE_BACKENDS: StateBackend[] = ["json", "sqlite"];
+
+export const isStateBackend = (value: unknown): value is StateBackend =>
+  STATE_BACKENDS.includes(value as StateBackend);
+
+export const createStateStore = (
+  rootDir: string,
+  backend: StateBackend = "json",
+): StateStore =>
+  backend === "sqlite"
+    ? new SqliteStateStore(rootDir)
+    : new JsonStateStore(rootDir);
+
+export interface StateMigrationResult {
+  migrated: string[];
+  skipped: string[];
+}
+
+/**
+ * Copy every workflow state and journal from `source` into `target`.
+ * Workflows already present in `target` are skipped, so a migration that
+ * was interrupted can simply be run again.
+ */
+export const migrateStateStore = (
+  source: StateStore,
+  target: StateStore,
+): StateMigrationResult => {
+  target.ensure();
+  const result: StateMigrationResult = { migrated: [], skipped: [] };
+  for (const state of source.listWorkflows()) {
+    const id = state.workflow_id as unknown as string;
+    if (target.loadWorkflowState(state.workflow_id)) {
+      result.skipped.push(id);
+      continue;
+    }
+    target.importWorkflow(state, source.readWorkflowEvents(state.workflow_id));
+    result.migrated.push(id);
+  }
+  return result;
+};
@@ -1,8 +1,121 @@
 import fs from "node:fs";
 import path from "node:path";
-import type { WorkflowId, WorkflowRuntimeState } from "./types";
+import type {
+  WorkflowEvent,
+  WorkflowEventInput,
+  WorkflowId,
+  WorkflowRuntimeState,
+} from "./types";
+import { diffWorkflowState } from "./workflow-journal";
 
-export class StateStore {
+/** Age past which a lock is broken even if its pid is alive (pid reuse). */
+const STALE_LOCK_MS = 30_000;
+const CORRUPT_SUFFIX = ".corrupt-";
+
+/**
+ * Raised when a save is based on an older revision than the one on disk,
+ * i.e. another writer saved the workflow after this copy was loaded.
+ */
+export class WorkflowStateConflictError extends Error {
+  constructor(
+    readonly workflowId: WorkflowId,
+    readonly expectedRevision: number,
+    readonly actualRevision: number,
+  ) {
+    super(
+      `Stale save for workflow ${workflowId}: expected revision ${expectedRevision}, found ${actualRevision}`,
+    );
+    this.name = "WorkflowStateConflictError";
+  }
+}
+
+/**
+ * Raised when another live process holds the workflow's lock. Saves do not
+ * wait for it, as a synchronous wait would block the event loop; the holder
+ * is about to change the workflow, so callers treat this like a conflict.
+ */
+export class WorkflowStateLockedError extends Error {
+  constructor(
+    readonly workflowId: WorkflowId,
+    readonly holderPid: number | undefined,
+  ) {
+    super(
+      `Workflow ${workflowId} is being saved by ${holderPid === undefined ? "another process" : `process ${holderPid}`}`,
+    );
+    this.name = "WorkflowStateLockedError";
+  }
+}
+
+const isProcessAlive = (pid: number): boolean => {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM: the process exists but belongs to another user
+    return (error as NodeJS.ErrnoException).code === "EPERM";
+  }
+};
+
+/** Filters for {@link StateStore.listWorkflows}; all given fields must match. */
+export interface WorkflowQuery {
+  workflowType?: string;
+  currentState?: string;
+  paused?: boolean;
+  parentId?: string;
+  /** Inclusive lower bound on `created_at` (ISO timestamp). */
+  createdAfter?: string;
+  /** Exclusive upper bound on `created_at` (ISO timestamp). */
+  createdBefore?: string;
+}
+
+/**
+ * Persistence for workflow runtime state and its event journal. Backends
+ * must reject stale saves with {@link WorkflowStateConflictError} and
+ * return `listWorkflows` results ordered by `created_at`.
+ */
+export interface StateStore {
+  ensure(): void;
+  saveWorkflowState(
+    state: WorkflowRuntimeState,
+    events?: WorkflowEventInput[],
+  ): void;
+  loadWorkflowState(workflowId: WorkflowId): WorkflowRuntimeState | null;
+  listWorkflows(query?: WorkflowQuery): WorkflowRuntimeState[];
+  listQuarantined(): string[];
+  appendWorkflowEvent(workflowId: WorkflowId, event: WorkflowEventInput): void;
+  readWorkflowEvents(workflowId: WorkflowId): WorkflowEvent[];
+  /**
+   * Store a state and its journal verbatim (revision included). Used when
+   * migrating between backends.
+   */
+  importWorkflow(state: WorkflowRuntimeState, events: WorkflowEvent[]): void;
+  /**
+   * Keep an agent's last heartbeat beside the workflow state, not in it, so
+   * a heartbeat never bumps the revision a concurrent save is based on.
+   */
+  recordHeartbeat(workflowId: WorkflowId, agentId: string, at: string): void;
+  /** The last recorded heartbeat of each agent of a workflow. */
+  readHeartbeats(workflowId: WorkflowId): Record<string, string>;
+}
+
+export const matchesWorkflowQuery = (
+  state: WorkflowRuntimeState,
+  query: WorkflowQuery,
+): boolean =>
+  (query.workflowType === undefined ||
+    (state.workflow_type as unknown as string) === query.workflowType) &&
+  (query.currentState === undefined ||
+    state.current_state === query.currentState) &&
+  (query.paused === undefined || state.paused === query.paused) &&
+  (query.parentId === undefined ||
+    (state.parent?.workflow_id as unknown as string | undefined) ===
+      query.parentId) &&
+  (query.createdAfter === undefined ||
+    state.created_at >= query.createdAfter) &&
+  (query.createdBefore === undefined || state.created_at < query.createdBefore);
+
+/** One `state.json` and `events.jsonl` per workflow directory. */
+export class JsonStateStore implements StateStore {
   constructor(private readonly rootDir: string) {}
 
   ensure(): void {
@@ -20,13 +133,84 @@ export class StateStore {
     return path.join(this.workflowDir(workflowId), "state.json");
   }
 
-  saveWorkflowState(state: WorkflowRuntimeState): void {
+  eventsPath(workflowId: WorkflowId): string {
+    return path.join(this.workflowDir(workflowId), "events.jsonl");
+  }
+
+  /**
+   * Persist `state` atomically (temp file + rename) under a per-workflow
+   * lock. The save is rejected with {@link WorkflowStateConflictError} when
+   * `state.revision` is behind the stored revision; on success the revision
+   * is incremented in place so the caller's copy stays current.
+   *
+   * `events` are appended to the workflow journal; the state diff is
+   * attached to the last one (a generic `state_saved` event when none).
+   */
+  saveWorkflowState(
+    state: WorkflowRuntimeState,
+    events: WorkflowEventInput[] = [],
+  ): void {
     const dir = this.workflowDir(state.workflow_id);
     fs.mkdirSync(dir, { recursive: true });
-    fs.writeFileSync(
-      this.statePath(state.workflow_id),
-      JSON.stringify(state, null, 2),
-    );
+    const file = this.statePath(state.workflow_id);
+
+    this.withLock(state.workflow_id, () => {
+      const expected = state.revision ?? 0;
+      const stored = this.readStoredState(file);
+      const storedRevision = stored ? (stored.revision ?? 0) : null;
+      if (storedRevision !== null && storedRevision !== expected) {
+        throw new WorkflowStateConflictError(
+          state.workflow_id,
+          expected,
+          storedRevision,
+        );
+      }
+
+      const next = { ...state, revision: expected + 1 };
+      this.writeAtomically(file, JSON.stringify(next, null, 2));
+      state.revision = next.revision;
+
+      const journal = events.length > 0 ? events : [{ type: "state_saved" }];
+      this.appendEvents(
+        state.workflow_id,
+        journal.map((event, index) =>
+          index === journal.length - 1
+            ? { ...event, ...diffWorkflowState(stored, next) }
+            : event,
+        ),
+      );
+    });
+  }
+
+  /** Journal an event that does not change the stored state. */
+  appendWorkflowEvent(workflowId: WorkflowId, event: WorkflowEventInput): void {
+    fs.mkdirSync(this.workflowDir(workflowId), { recursive: true });
+    this.withLock(workflowId, () => this.appendEvents(workflowId, [event]));
+  }
+
+  /**
+   * Journal events in append order. A torn trailing line from a crash
+   * mid-append is skipped.
+   */
+  readWorkflowEvents(workflowId: WorkflowId): WorkflowEvent[] {
+    const file = this.eventsPath(workflowId);
+    if (!fs.existsSync(file)) {
+      return [];
+    }
+
+    return fs
+      .readFileSync(file, "utf8")
+      .split("\n")
+      .flatMap((line) => {
+        if (!line.trim()) {
+          return [];
+        }
+        try {
+          return [JSON.parse(line) as WorkflowEvent];
+        } catch {
+          return [];
+        }
+      });
   }
 
   loadWorkflowState(workflowId: WorkflowId): WorkflowRuntimeState | null {
@@ -35,10 +219,15 @@ export class StateStore {
       return null;
     }
 
-    return JSON.parse(fs.readFileSync(file, "utf8")) as WorkflowRuntimeState;
+    return this.readOrQuarantine(file);
   }
 
-  listWorkflows(): WorkflowRuntimeState[] {
+  /**
+   * All readable workflow states, oldest first. Unparseable `state.json`
+   * files are moved aside (see {@link listQuarantined}) rather than failing
+   * the whole listing.
+   */
+  listWorkflows(query: WorkflowQuery = {}): WorkflowRuntimeState[] {
     const workflowsDir = path.join(this.rootDir, "workflows");
     if (!fs.existsSync(workflowsDir)) {
       return [];
@@ -51,12 +240,173 @@ export class StateStore {
         if (!fs.existsSync(stateFile)) {
           return [];
         }
-        return [
-          JSON.parse(
-            fs.readFileSync(stateFile, "utf8"),
-          ) as WorkflowRuntimeState,
-        ];
+        const state = this.readOrQuarantine(stateFile);
+        return state && matchesWorkflowQuery(state, query) ? [state] : [];
       })
       .sort((a, b) => a.created_at.localeCompare(b.created_at));
   }
+
+  importWorkflow(state: WorkflowRuntimeState, events: WorkflowEvent[]): void {
+    fs.mkdirSync(this.workflowDir(state.workflow_id), { recursive: true });
+    this.withLock(state.workflow_id, () => {
+      this.writeAtomically(
+        this.statePath(state.workflow_id),
+        JSON.stringify(state, null, 2),
+      );
+      this.writeAtomically(
+        this.eventsPath(state.workflow_id),
+        events.map((event) => `${JSON.stringify(event)}\n`).join(""),
+      );
+    });
+  }
+
+  /** One file per agent under `heartbeats/`, replaced on every beat. */
+  recordHeartbeat(workflowId: WorkflowId, agentId: string, at: string): void {
+    const dir = path.join(this.workflowDir(workflowId), "heartbeats");
+    fs.mkdirSync(dir, { recursive: true });
+    this.writeAtomically(path.join(dir, agentId), at);
+  }
+
+  readHeartbeats(workflowId: WorkflowId): Record<string, string> {
+    const dir = path.join(this.workflowDir(workflowId), "heartbeats");
+    if (!fs.existsSync(dir)) {
+      return {};
+    }
+    return Object.fromEntries(
+      fs
+        .readdirSync(dir)
+        .filter((name) => !name.endsWith(".tmp"))
+        .map((name) => [name, fs.readFileSync(path.join(dir, name), "utf8")]),
+    );
+  }
+
+  /** Paths of state files that were quarantined because they were corrupt. */
+  listQuarantined(): string[] {
+    const workflowsDir = path.join(this.rootDir, "workflows");
+    if (!fs.existsSync(workflowsDir)) {
+      return [];
+    }
+
+    return fs.readdirSync(workflowsDir).flatMap((entry) => {
+      const dir = path.join(workflowsDir, entry);
+      if (!fs.statSync(dir).isDirectory()) {
+        return [];
+      }
+      return fs
+        .readdirSync(dir)
+        .filter((name) => name.startsWith(`state.json${CORRUPT_SUFFIX}`))
+        .sort()
+        .map((name) => path.join(dir, name));
+    });
+  }
+
+  private readOrQuarantine(file: string): WorkflowRuntimeState | null {
+    try {
+      return JSON.parse(fs.readFileSync(file, "utf8")) as WorkflowRuntimeState;
+    } catch {
+      fs.renameSync(file, `${file}${CORRUPT_SUFFIX}${Date.now()}`);
+      return null;
+    }
+  }
+
+  private writeAtomically(file: string, content: string): void {
+    const temp = `${file}.${process.pid}.${Date.now()}.tmp`;
+    const fd = fs.openSync(temp, "w");
+    try {
+      fs.writeSync(fd, content);
+      fs.fsyncSync(fd);
+    } finally {
+      fs.closeSync(fd);
+    }
+    fs.renameSync(temp, file);
+  }
+
+  private readStoredState(file: string): WorkflowRuntimeState | null {
+    if (!fs.existsSync(file)) {
+      return null;
+    }
+    try {
+      return JSON.parse(fs.readFileSync(file, "utf8")) as WorkflowRuntimeState;
+    } catch {
+      // An unreadable file cannot hold a newer revision; overwrite it.
+      return null;
+    }
+  }
+
+  private appendEvents(
+    workflowId: WorkflowId,
+    events: Array<Omit<WorkflowEvent, "index" | "at">>,
+  ): void {
+    const file = this.eventsPath(workflowId);
+    const offset = this.readWorkflowEvents(workflowId).length;
+    const existing = fs.existsSync(file) ? fs.readFileSync(file, "utf8") : "";
+    // Terminate a torn line so the new events start on their own line.
+    const separator = existing && !existing.endsWith("\n") ? "\n" : "";
+    const at = new Date().toISOString();
+    fs.appendFileSync(
+      file,
+      separator +
+        events
+          .map(
+            (event, index) =>
+              `${JSON.stringify({ index: offset + index, at, ...event })}\n`,
+          )
+          .join(""),
+    );
+  }
+
+  /**
+   * Run `fn` holding the workflow's lock file, which names the holder's pid.
+   * A lock left behind by a dead process, or older than STALE_LOCK_MS, is
+   * broken at once; one held by a live process raises
+   * {@link WorkflowStateLockedError}.
+   */
+  private withLock(workflowId: WorkflowId, fn: () => void): void {
+    const lockPath = path.join(this.workflowDir(workflowId), "state.lock");
+
+    for (;;) {
+      try {
+        fs.writeFileSync(lockPath, String(process.pid), { flag: "wx" });
+        break;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== "EEXIST") {
+          throw error;
+        }
+        const holder = this.lockHolder(lockPath);
+        if (!holder) {
+          continue;
+        }
+        // An empty file is a lock whose holder has not written its pid yet
+        const live =
+          holder.pid === undefined ||
+          (holder.pid !== process.pid && isProcessAlive(holder.pid));
+        if (live && Date.now() - holder.mtimeMs <= STALE_LOCK_MS) {
+          throw new WorkflowStateLockedError(workflowId, holder.pid);
+        }
+        fs.rmSync(lockPath, { force: true });
+      }
+    }
+
+    try {
+      fn();
+    } finally {
+      fs.rmSync(lockPath, { force: true });
+    }
+  }
+
+  /** The pid and age of a lock file; undefined once it is released. */
+  private lockHolder(
+    lockPath: string,
+  ): { pid: number | undefined; mtimeMs: number } | undefined {
+    try {
+      const { mtimeMs } = fs.statSync(lockPath);
+      const pid = Number.parseInt(fs.readFileSync(lockPath, "utf8"), 10);
+      return { pid: Number.isNaN(pid) ? undefined : pid, mtimeMs };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return undefined;
+      }
+      throw error;
+    }
+  }
 }
@@ -0,0 +1,142 @@
+import type { EscalationInbox } from "./escalations";
+import type { TerminalState, WorkflowRuntimeState } from "./types";
+
+export interface TerminalActionContext {
+  workflow: WorkflowRuntimeState;
+  state: string;
+  terminal: TerminalState;
+  /** The last failure recorded before the terminal state, if any. */
+  reason?: string;
+  exec: (
+    command: string,
+  ) => Promise<{ code: number; stdout: string; stderr: string }>;
+}
+
+/** Returns details for the journal; throwing marks the action as failed. */
+export type TerminalActionHandler = (
+  context: TerminalActionContext,
+) =>
+  | Promise<Record<string, unknown> | undefined>
+  | Record<string, unknown>
+  | undefined;
+
+export interface TerminalActionOutcome {
+  action: string;
+  ok: boolean;
+  details?: Record<string, unknown>;
+  error?: string;
+}
+
+/**
+ * Named handlers for `TerminalState.action`, run when a workflow enters a
+ * terminal state. Registering a name again replaces its handler.
+ */
+export class TerminalActionRegistry {
+  private readonly handlers = new Map<string, TerminalActionHandler>();
+
+  register(name: string, handler: TerminalActionHandler): this {
+    this.handlers.set(name, handler);
+    return this;
+  }
+
+  has(name: string): boolean {
+    return this.handlers.has(name);
+  }
+
+  names(): string[] {
+    return [...this.handlers.keys()].sort();
+  }
+
+  async run(
+    name: string,
+    context: TerminalActionContext,
+  ): Promise<TerminalActionOutcome> {
+    const handler = this.handlers.get(name);
+    if (!handler) {
+      return {
+        action: name,
+        ok: false,
+        error: `Unknown terminal action: ${name}`,
+      };
+    }
+    try {
+      const details = await handler(context);
+      return { action: name, ok: true, ...(details ? { details } : {}) };
+    } catch (error) {
+      return {
+        action: name,
+        ok: false,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+}
+
+const hookEnvironment = (context: TerminalActionContext): string =>
+  Object.entries({
+    ORCHESTRA_WORKFLOW_ID: context.workflow.workflow_id as unknown as string,
+    ORCHESTRA_WORKFLOW_TYPE: context.workflow
+      .workflow_type as unknown as string,
+    ORCHESTRA_STATE: context.state,
+    ORCHESTRA_RESULT: context.terminal.result,
+    ORCHESTRA_REASON: context.reason ?? "",
+  })
+    .map(([name, value]) => `${name}='${value.replace(/'/g, "'\\''")}'`)
+    .join(" ");
+
+/**
+ * Register the built-in actions:
+ *   - `notify`: UI notification; a no-op until the extension registers one.
+ *   - `record_escalation`: writes an inbox record under `.orchestra/escalations/`.
+ *   - `run_hook`: runs the project's `escalationHook` with ORCHESTRA_* variables.
+ *   - `notify_human`: all three, each attempted even if another fails.
+ *   - `route_rework`: nothing; the parent's failure transition does the routing.
+ */
+export const registerBuiltinTerminalActions = (
+  registry: TerminalActionRegistry,
+  options: { inbox: EscalationInbox; hook: () => string | undefined },
+): TerminalActionRegistry =>
+  registry
+    .register("notify", () => ({ notified: false }))
+    .register("record_escalation", (context) => {
+      const record = options.inbox.record({
+        workflow_id: context.workflow.workflow_id as unknown as string,
+        workflow_type: context.workflow.workflow_type as unknown as string,
+        state: context.state,
+        action: context.terminal.action ?? "record_escalation",
+        result: context.terminal.result,
+        ...(context.reason ? { reason: context.reason } : {}),
+        ...(context.workflow.parent
+          ? {
+              parent_id: context.workflow.parent
+                .workflow_id as unknown as string,
+            }
+          : {}),
+      });
+      return {
+        escalation: options.inbox.recordPath(record.workflow_id),
+      };
+    })
+    .register("run_hook", async (context) => {
+      const hook = options.hook();
+      if (!hook) {
+        return { hook: null };
+      }
+      const result = await context.exec(`${hookEnvironment(context)} ${hook}`);
+      if (result.code !== 0) {
+        throw new Error(`Escalation hook exited with ${result.code}`);
+      }
+      return { hook, stdout: result.stdout };
+    })
+    .register("notify_human", async (context) => {
+      const steps = [];
+      for (const step of ["notify", "record_escalation", "run_hook"]) {
+        steps.push(await registry.run(step, context));
+      }
+      const failed = steps.filter((step) => !step.ok);
+      if (failed.length > 0) {
+        throw new Error(failed.map((step) => step.error).join("; "));
+      }
+      return { steps };
+    })
+    .register("route_rework", () => undefined);
@@ -11,7 +11,7 @@ export const asWorkflowType = (value: string): WorkflowType =>
 export const asAgentId = (value: string): AgentId => value as AgentId;
 export const asMessageId = (value: string): MessageId => value as MessageId;
 
-export type GateKind = "evidence" | "verdict" | "command";
+export type GateKind = "evidence" | "verdict" | "command" | "approval";
 
 export interface RoleDefinition {
   agent: string;
@@ -31,9 +31,25 @@ export interface RoleDefinition {
   freshPerState?: boolean;
 }
 
+/**
+ * Type of one evidence field. A string uses the schema type grammar
+ * (`"string[]"`, `"string?"`, `'"a"|"b"'`, `"number(0..100)"`), an object is
+ * a nested shape, and a one-element array is a list of that element type.
+ * See `src/evidence/schema-language.ts`.
+ */
+export type EvidenceFieldSchema =
+  | string
+  | EvidenceSchema
+  | [EvidenceFieldSchema];
+
+/** Evidence field names to types. A trailing `?` on a key marks it optional. */
+export interface EvidenceSchema {
+  [field: string]: EvidenceFieldSchema;
+}
+
 export interface EvidenceGate {
   kind: "evidence";
-  schema: Record<string, string>;
+  schema: EvidenceSchema;
   verify?: VerificationCommand;
 }
 
@@ -47,18 +63,105 @@ export interface CommandGate {
   verify: VerificationCommand;
 }
 
-export type GateDefinition = EvidenceGate | VerdictGate | CommandGate;
+/**
+ * The agent's submission is accepted as-is, then the workflow waits for a
+ * human to approve (take the transition) or reject it (a failed attempt
+ * that takes `transitions.rejected`, else `transitions.fail`).
+ */
+export interface ApprovalGate {
+  kind: "approval";
+  /** What the human is asked to decide, shown in the approval queue. */
+  prompt?: string;
+}
 
+export type GateDefinition =
+  | EvidenceGate
+  | VerdictGate
+  | CommandGate
+  | ApprovalGate;
+
+/**
+ * A shell command that verifies a gate. Passing means exiting with
+ * `expectExitCode` (default 0) within `timeoutMs`, with the combined
+ * stdout and stderr matching every `mustMatch` pattern and none of the
+ * `mustNotMatch` patterns. `cwd` is relative to the project root.
+ */
 export type VerificationCommand = {
+  /**
+   * A command template. `${project.*}` values are trusted shell text and
+   * may only lead a command; params, metrics and evidence go in escaped.
+   */
   command: string;
   expectExitCode?: number;
+  timeoutMs?: number;
+  cwd?: string;
+  env?: Record<string, string>;
+  mustMatch?: string[];
+  mustNotMatch?: string[];
 };
 
+/**
+ * The outcome of a verification command, recorded in evidence and history
+ * and shown to the agent on retry. Output is truncated to its tail.
+ */
+export interface VerificationResult {
+  command: string;
+  code: number;
+  expected_code: number;
+  stdout: string;
+  stderr: string;
+  duration_ms: number;
+  timed_out?: boolean;
+  passed: boolean;
+  /** Why the run failed, one entry per unmet expectation. */
+  failures?: string[];
+}
+
+/**
+ * A transition taken when `when`, a guard expression over `params`,
+ * `evidence`, `metrics`, `project` and `result`, holds. Guards are checked
+ * in order whenever the state completes, before `transitions`; they are
+ * not consulted when a state fails after exhausting its retries.
+ */
+export interface GuardedTransition {
+  when: string;
+  to: string;
+}
+
+/**
+ * Why an attempt failed. `verification` covers failed gates and commands,
+ * failed children and branches, and human rejections.
+ */
+export type FailureKind = "schema" | "verification" | "timeout" | "spawn";
+
+/**
+ * How a state retries failed attempts. Verification failures and timeouts
+ * use up `maxAttempts`, and so do spawn failures unless `spawn` has a
+ * budget. Schema errors do not: without a budget the agent simply
+ * resubmits. A state gives up once `maxAttempts` or the budget of the
+ * failing kind is spent, and takes its failure transition.
+ */
+export interface RetryPolicy {
+  /** Failed attempts before the state gives up. Replaces `maxRetries`. */
+  maxAttempts?: number;
+  /** Failed attempts of one kind before the state gives up. */
+  budgets?: Partial<Record<FailureKind, number>>;
+  /** Wait before redispatching a failed attempt, in milliseconds. */
+  backoffMs?: number;
+  /** Multiplies the wait after each further failure. Defaults to 2. */
+  backoffFactor?: number;
+  maxBackoffMs?: number;
+}
+
 export interface ActionState {
   type: "action";
+  /** Command templates, trusting `${project.*}` like `VerificationCommand.command`. */
   commands: string[];
   transitions: Record<string, string>;
+  guards?: GuardedTransition[];
   gate?: CommandGate;
+  maxRetries?: number;
+  retry?: RetryPolicy;
 }
 
 export interface TerminalState {
@@ -71,8 +174,16 @@ export interface AgentState {
   assign: string;
   gate: GateDefinition;
   transitions: Record<string, string>;
+  guards?: GuardedTransition[];
   maxRetries?: number;
+  retry?: RetryPolicy;
   inputFrom?: string[];
+  /**
+   * Fail the current attempt when no passing evidence arrives within this
+   * many milliseconds. Counts against `maxRetries`; once exhausted the
+   * workflow takes `transitions.timeout`, then `transitions.fail`.
+   */
+  timeoutMs?: number;
 }
 
 /**
@@ -87,6 +198,8 @@ export interface AgentState {
  * `inputMap` selects which parent evidence/params to pass as the child's
  * params. Keys are child param names, values are dotted paths into the
  * parent runtime (e.g. "evidence.SETUP.acceptance_criteria", "params.scenario").
+ * A path that resolves to nothing leaves the param out, so the child's
+ * default (if any) applies.
  *
  * When the child completes, its evidence is merged into the parent under
  * `evidence.<stateName>.*`.
@@ -96,18 +209,115 @@ export interface SubworkflowState {
   workflow: string;
   inputMap?: Record<string, string>;
   transitions: Record<string, string>;
+  guards?: GuardedTransition[];
   maxRetries?: number;
+  retry?: RetryPolicy;
+  /** Like `AgentState.timeoutMs`; the running child tree is cancelled. */
+  timeoutMs?: number;
+}
+
+/** A parallel branch worked by one agent role, gated like an agent state. */
+export interface ParallelAgentBranch {
+  assign: string;
+  gate: GateDefinition;
+  /**
+   * Results that count as the branch passing, e.g. `["approved"]` for a
+   * verdict gate. By default any verified result except "fail" passes.
+   */
+  passOn?: string[];
+  /** Failed gate checks allowed before the branch fails. Defaults to 1. */
+  maxRetries?: number;
+  inputFrom?: string[];
+}
+
+/** A parallel branch that runs a child workflow, like a subworkflow state. */
+export interface ParallelSubworkflowBranch {
+  workflow: string;
+  inputMap?: Record<string, string>;
+}
+
+export type ParallelBranch = ParallelAgentBranch | ParallelSubworkflowBranch;
+
+/**
+ * When a parallel state is done: `all` branches must pass (any failure fails
+ * the state), `any` one passing is enough, or a `quorum` of passing branches.
+ * A state fails as soon as its policy can no longer be met.
+ */
+export type JoinPolicy = "all" | "any" | { quorum: number };
+
+/**
+ * A state that dispatches every branch at once. Each branch's evidence is
+ * collected under `evidence.<STATE>.<branch>`, and once the `join` policy
+ * (default `all`) is decided the state takes `transitions.pass` or
+ * `transitions.fail`; branches still running are then cancelled. Agent
+ * branches submit evidence for the parallel state's name.
+ */
+export interface ParallelState {
+  type: "parallel";
+  branches: Record<string, ParallelBranch>;
+  join?: JoinPolicy;
+  transitions: Record<string, string>;
+  guards?: GuardedTransition[];
+  maxRetries?: number;
+  retry?: RetryPolicy;
+  /** Like `AgentState.timeoutMs`; every running branch is stopped. */
+  timeoutMs?: number;
+}
+
+/**
+ * A state that runs `workflow` once per element of the array at `items`, a
+ * dotted path such as `evidence.SETUP.acceptance_criteria`. Besides the
+ * parent runtime, `inputMap` paths can read the element as `item` and its
+ * position as `item_index`. Child results are collected in
+ * `evidence.<STATE>.items`; the state takes `transitions.success` once every
+ * item succeeded, or `transitions.failure` at the first failed item.
+ */
+export interface ForeachState {
+  type: "foreach";
+  workflow: string;
+  items: string;
+  inputMap?: Record<string, string>;
+  /** Children running at the same time. Defaults to 1 (one after another). */
+  concurrency?: number;
+  transitions: Record<string, string>;
+  guards?: GuardedTransition[];
+  maxRetries?: number;
+  retry?: RetryPolicy;
+  /** Like `AgentState.timeoutMs`; every running child tree is cancelled. */
+  timeoutMs?: number;
 }
 
 export type WorkflowStateDefinition =
   | AgentState
   | ActionState
   | TerminalState
-  | SubworkflowState;
+  | SubworkflowState
+  | ParallelState
+  | ForeachState;
+
+/**
+ * Upgrades instances started on version `from` to the version of the
+ * definition that lists it. Instances stay pinned to their version until
+ * migrated explicitly.
+ */
+export interface WorkflowMigration {
+  from: number;
+  /**
+   * Old state name to new state name, applied to the current state, the
+   * history and the evidence of each migrated instance.
+   */
+  renameStates?: Record<string, string>;
+}
 
 export interface WorkflowDefinition {
   name: string;
   description: string;
+  /**
+   * Bump when states or gates change incompatibly. New instances record the
+   * version they start on and keep using that definition. Defaults to 1.
+   */
+  version?: number;
+  migrations?: WorkflowMigration[];
   params?: Record<
     string,
     { type: string; required?: boolean; default?: unknown }
@@ -124,29 +334,201 @@ export interface WorkflowStateHistory {
   result?: string;
   retries: number;
   last_failure?: string;
+  /** The latest verification run for this visit, passed or not. */
+  last_verification?: VerificationResult;
+  /** When the current retry began; timeouts are measured from here. */
+  attempt_started_at?: string;
+  /** Failed attempts of this visit by kind, for `RetryPolicy.budgets`. */
+  failures?: Partial<Record<FailureKind, number>>;
+  /** The state is not redispatched before this time (retry backoff). */
+  retry_after?: string;
+}
+
+export type ParallelBranchStatus =
+  | "running"
+  | "passed"
+  | "failed"
+  | "cancelled";
+
+export interface ParallelBranchProgress {
+  status: ParallelBranchStatus;
+  retries: number;
+  agent_id?: string;
+  child_workflow_id?: WorkflowId;
+}
+
+export type ForeachItemStatus = "pending" | ParallelBranchStatus;
+
+export interface ForeachItemProgress {
+  item: unknown;
+  status: ForeachItemStatus;
+  child_workflow_id?: WorkflowId;
+}
+
+/** A completed state waiting for a human before it takes its transition. */
+export interface PendingApproval {
+  state: string;
+  result: string;
+  /** Where the workflow goes once approved. */
+  to: string;
+  guard?: string;
+  /** Why approval is needed: an approval gate or a configured checkpoint. */
+  reason: string;
+  prompt?: string;
+  requested_at: string;
+}
+
+/** How agents are started: see `ProjectConfig.agentLauncher`. */
+export type AgentLauncherKind = "zellij" | "tmux" | "headless" | "fake";
+
+/** What a launcher reports about an agent it started. */
+export interface AgentHandle {
+  launcher: AgentLauncherKind;
+  agent_id: string;
+  /** The zellij tab name, tmux window ID or process ID. */
+  ref: string;
+  /** Where a headless agent's output goes. */
+  log_path?: string;
+  launched_at: string;
+}
+
+/**
+ * Autopilot enrollment. It lives in the workflow state so that autopilot
+ * picks the workflow up again after pi restarts.
+ */
+export interface AutopilotEnrollment {
+  enrolled_at: string;
+  /** The `state:entered_at:retries` autopilot dispatched last. */
+  token?: string;
+  last_dispatch_at?: string;
+  /** Why the last tick failed; cleared by the next dispatch. */
+  last_error?: string;
+  /** Times `token` was dispatched again because its agent was gone. */
+  redispatches?: number;
+}
+
+/**
+ * An agent dispatch held back by the project's concurrency caps until the
+ * scheduler has a free slot for it.
+ */
+export interface QueuedDispatch {
+  agent_id: string;
+  role: string;
+  state: string;
+  /** The parallel branch the agent works on, if any. */
+  branch?: string;
+  /** The `state:entered_at:retries` it belongs to; a later attempt drops it. */
+  token: string;
+  queued_at: string;
+  /** Which cap held it back. */
+  reason: string;
 }
 
+/** Lifecycle status; a workflow without one is running. */
+export type WorkflowStatus = "running" | "cancelled";
+
 export interface WorkflowRuntimeState {
   workflow_id: WorkflowId;
   workflow_type: WorkflowType;
+  /** The definition version this instance runs on; unset before versioning. */
+  workflow_version?: number;
   current_state: string;
   retry_count: number;
   paused: boolean;
   params: Record<string, unknown>;
   history: WorkflowStateHistory[];
   evidence: Record<string, unknown>;
+  /**
+   * Counters and timestamps kept by the engine. `heartbeats` holds the last
+   * heartbeat (or dispatch) of each agent: the store keeps beats beside the
+   * state, and the engine merges them in whenever it loads a workflow.
+   */
   metrics: Record<string, unknown>;
   created_at: string;
   updated_at: string;
+  /**
+   * Optimistic concurrency counter, incremented by the state store on every
+   * save. A save whose revision does not match the stored one is rejected.
+   */
+  revision?: number;
+  status?: WorkflowStatus;
+  /**
+   * Rework transitions (a `fail`, `flagged`, `rework` or `rejected` result
+   * leading to a non-terminal state) so far, checked against the project's
+   * `reworkBudget`. Retries within a state do not count.
+   */
+  rework_count?: number;
+  /** The latest launch of each agent, by agent ID, for cancel and focus. */
+  agents?: Record<string, AgentHandle>;
+  /** Set while `/orchestra autopilot` drives the workflow. */
+  autopilot?: AutopilotEnrollment;
+  /** Higher goes first when dispatches queue for a slot. Defaults to 0. */
+  priority?: number;
+  /** Agent dispatches waiting for a free slot, oldest first. */
+  queued_dispatches?: QueuedDispatch[];
+  /** Set while the current state waits for `/orchestra approve` or `reject`. */
+  pending_approval?: PendingApproval;
+  /** Why and when the workflow was cancelled, and by which ancestor. */
+  cancellation?: {
+    reason: string;
+    at: string;
+    cascaded_from?: WorkflowId;
+  };
   /** If this workflow was started by a subworkflow state, tracks the parent. */
   parent?: {
     workflow_id: WorkflowId;
     state: string;
+    /** Set when the parent state is parallel and this child is one branch. */
+    branch?: string;
+    /** Set when the parent state is foreach: the index of this child's item. */
+    item?: number;
   };
-  /** Active child workflow IDs launched from subworkflow states. */
+  /**
+   * Branch progress of the most recent parallel attempt. `started_at` tells
+   * attempts of the same state apart.
+   */
+  parallel?: {
+    state: string;
+    started_at: string;
+    branches: Record<string, ParallelBranchProgress>;
+  };
+  /**
+   * Item progress of the most recent foreach state. `entered_at` tells
+   * entries apart; a retry within one entry (new `started_at`) reruns only
+   * the items that did not pass.
+   */
+  foreach?: {
+    state: string;
+    entered_at: string;
+    started_at: string;
+    items: ForeachItemProgress[];
+  };
+  /**
+   * Active child workflow IDs launched from subworkflow states, keyed by
+   * state name (`<STATE>.<branch>` for parallel branches, `<STATE>.<index>`
+   * for foreach items).
+   */
   children?: Record<string, WorkflowId>;
 }
 
+/** An event to append to a workflow's journal. */
+export interface WorkflowEventInput {
+  type: string;
+  details?: Record<string, unknown>;
+}
+
+/**
+ * One line of `workflows/<id>/events.jsonl`. `changes` holds the top-level
+ * state fields that differ from the previous save and `removed` the fields
+ * that were dropped, so folding the journal in order rebuilds the state.
+ */
+export interface WorkflowEvent extends WorkflowEventInput {
+  index: number;
+  at: string;
+  changes?: Partial<WorkflowRuntimeState>;
+  removed?: string[];
+}
+
 export interface Message {
   id: MessageId;
   from: AgentId;
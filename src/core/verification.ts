@@ -0,0 +1,116 @@
+import type { VerificationCommand, VerificationResult } from "./types";
+
+/** Characters of stdout and stderr kept per verification run. */
+export const VERIFICATION_OUTPUT_LIMIT = 4000;
+
+const quote = (value: string): string => `'${value.replace(/'/g, "'\\''")}'`;
+
+/** The bash script for a verification command, with its env exported. */
+export const verificationScript = (verify: VerificationCommand): string => {
+  const exports = Object.entries(verify.env ?? {}).map(
+    ([name, value]) => `export ${name}=${quote(value)}; `,
+  );
+  return `${exports.join("")}${verify.command}`;
+};
+
+/**
+ * Keep the tail of long output, where test runners and compilers put
+ * their summary, and say how much was dropped.
+ */
+export const truncateOutput = (
+  text: string,
+  limit = VERIFICATION_OUTPUT_LIMIT,
+): string => {
+  if (text.length <= limit) {
+    return text;
+  }
+  return `[${text.length - limit} characters truncated]\n${text.slice(-limit)}`;
+};
+
+/** Judge a finished run of `verify` against its exit code and patterns. */
+export const evaluateVerification = (
+  verify: VerificationCommand,
+  run: { code: number; stdout: string; stderr: string; killed?: boolean },
+  durationMs: number,
+): VerificationResult => {
+  const expected = verify.expectExitCode ?? 0;
+  const output = `${run.stdout}\n${run.stderr}`;
+  const failures: string[] = [];
+  if (run.killed) {
+    failures.push(`timed out after ${verify.timeoutMs ?? durationMs}ms`);
+  } else if (run.code !== expected) {
+    failures.push(`exited ${run.code}, expected ${expected}`);
+  }
+  for (const pattern of verify.mustMatch ?? []) {
+    if (!new RegExp(pattern, "m").test(output)) {
+      failures.push(`output does not match /${pattern}/`);
+    }
+  }
+  for (const pattern of verify.mustNotMatch ?? []) {
+    if (new RegExp(pattern, "m").test(output)) {
+      failures.push(`output matches /${pattern}/`);
+    }
+  }
+  return {
+    command: verify.command,
+    code: run.code,
+    expected_code: expected,
+    stdout: truncateOutput(run.stdout),
+    stderr: truncateOutput(run.stderr),
+    duration_ms: durationMs,
+    ...(run.killed ? { timed_out: true } : {}),
+    passed: failures.length === 0,
+    ...(failures.length > 0 ? { failures } : {}),
+  };
+};
+
+/** Markdown for the retry section of the next agent task. */
+export const formatVerificationResult = (
+  result: VerificationResult,
+): string => {
+  const lines = [
+    `Command: \`${result.command}\``,
+    `Exit code: ${result.code} (expected ${result.expected_code}), ${result.duration_ms}ms${result.timed_out ? ", timed out" : ""}`,
+    ...(result.failures ?? []).map((failure) => `- ${failure}`),
+  ];
+  for (const [name, text] of [
+    ["stdout", result.stdout],
+    ["stderr", result.stderr],
+  ] as const) {
+    if (text.trim() !== "") {
+      lines.push(`\n${name}:\n\`\`\`\n${text.trimEnd()}\n\`\`\``);
+    }
+  }
+  return lines.join("\n");
+};
+
+/** Problems with a verification command's options, for the validator. */
+export const findVerificationErrors = (
+  verify: VerificationCommand,
+): string[] => {
+  const errors: string[] = [];
+  if (
+    verify.timeoutMs !== undefined &&
+    !(Number.isInteger(verify.timeoutMs) && verify.timeoutMs > 0)
+  ) {
+    errors.push(
+      `verify timeoutMs ${verify.timeoutMs} must be a positive whole number`,
+    );
+  }
+  for (const name of Object.keys(verify.env ?? {})) {
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(name)) {
+      errors.push(`verify env name "${name}" is not a valid variable name`);
+    }
+  }
+  for (const pattern of [
+    ...(verify.mustMatch ?? []),
+    ...(verify.mustNotMatch ?? []),
+  ]) {
+    try {
+      new RegExp(pattern, "m");
+    } catch {
+      errors.push(`verify pattern /${pattern}/ is not a valid regex`);
+    }
+  }
+  return errors;
+};
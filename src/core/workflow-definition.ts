@@ -1,6 +1,14 @@
 import type {
+  ApprovalGate,
   CommandGate,
   EvidenceGate,
+  EvidenceSchema,
+  ForeachState,
+  GuardedTransition,
+  JoinPolicy,
+  ParallelBranch,
+  ParallelState,
+  RetryPolicy,
   SubworkflowState,
   VerdictGate,
   WorkflowDefinition,
@@ -11,7 +19,7 @@ export const defineWorkflow = (
 ): WorkflowDefinition => workflow;
 
 export const evidence = (gate: {
-  schema: Record<string, string>;
+  schema: EvidenceSchema;
   verify?: { command: string; expectExitCode?: number };
 }): EvidenceGate => ({
   kind: "evidence",
@@ -31,6 +39,15 @@ export const command = (gate: {
   verify: gate.verify,
 });
 
+/**
+ * A gate a human decides: the agent submits its work, then the workflow waits
+ * for `/orchestra approve` or `/orchestra reject`.
+ */
+export const approval = (gate: { prompt?: string } = {}): ApprovalGate => ({
+  kind: "approval",
+  ...(gate.prompt ? { prompt: gate.prompt } : {}),
+});
+
 /**
  * Define a state that delegates to a child workflow.
  *
@@ -41,18 +58,87 @@ export const command = (gate: {
  *   - "params.scenario"                → parent's params.scenario
  *   - "evidence.SETUP.acceptance_criteria" → parent's evidence from SETUP
  *
+ * Paths that resolve to nothing (e.g. evidence of a skipped state) are left
+ * out of the child's params.
+ *
  * Transitions key on the child's terminal result: "success" or "failure".
  */
 export const subworkflow = (config: {
   workflow: string;
   inputMap?: Record<string, string>;
   transitions: Record<string, string>;
+  guards?: GuardedTransition[];
   maxRetries?: number;
+  retry?: RetryPolicy;
 }): SubworkflowState => ({
   type: "subworkflow",
   workflow: config.workflow,
   ...(config.inputMap ? { inputMap: config.inputMap } : {}),
   transitions: config.transitions,
+  ...(config.guards ? { guards: config.guards } : {}),
   // Stryker disable next-line all: optional field propagation
   ...(config.maxRetries !== undefined ? { maxRetries: config.maxRetries } : {}),
+  ...(config.retry ? { retry: config.retry } : {}),
+});
+
+/**
+ * Define a state that runs a child workflow once per element of an array.
+ *
+ * `items` is a dotted path like the `inputMap` values of `subworkflow()`
+ * ("evidence.SETUP.acceptance_criteria"). `inputMap` can also bind the
+ * element itself:
+ *   - "item"          → the element
+ *   - "item.title"    → a field of the element
+ *   - "item_index"    → its position in the array
+ *
+ * Items run one at a time unless `concurrency` allows more. Transitions key
+ * on "success" (every item succeeded) or "failure" (the first failed item).
+ */
+export const foreach = (config: {
+  workflow: string;
+  items: string;
+  inputMap?: Record<string, string>;
+  concurrency?: number;
+  transitions: Record<string, string>;
+  guards?: GuardedTransition[];
+  maxRetries?: number;
+  retry?: RetryPolicy;
+  timeoutMs?: number;
+}): ForeachState => ({
+  type: "foreach",
+  workflow: config.workflow,
+  items: config.items,
+  ...(config.inputMap ? { inputMap: config.inputMap } : {}),
+  ...(config.concurrency !== undefined
+    ? { concurrency: config.concurrency }
+    : {}),
+  transitions: config.transitions,
+  ...(config.guards ? { guards: config.guards } : {}),
+  ...(config.maxRetries !== undefined ? { maxRetries: config.maxRetries } : {}),
+  ...(config.retry ? { retry: config.retry } : {}),
+  ...(config.timeoutMs !== undefined ? { timeoutMs: config.timeoutMs } : {}),
+});
+
+/**
+ * Define a state that runs several branches at once: agent branches
+ * (`{ assign, gate }`) and subworkflow branches (`{ workflow, inputMap }`).
+ * Transitions key on the join result: "pass" or "fail".
+ */
+export const parallel = (config: {
+  branches: Record<string, ParallelBranch>;
+  join?: JoinPolicy;
+  transitions: Record<string, string>;
+  guards?: GuardedTransition[];
+  maxRetries?: number;
+  retry?: RetryPolicy;
+  timeoutMs?: number;
+}): ParallelState => ({
+  type: "parallel",
+  branches: config.branches,
+  ...(config.join !== undefined ? { join: config.join } : {}),
+  transitions: config.transitions,
+  ...(config.guards ? { guards: config.guards } : {}),
+  ...(config.maxRetries !== undefined ? { maxRetries: config.maxRetries } : {}),
+  ...(config.retry ? { retry: config.retry } : {}),
+  ...(config.timeoutMs !== undefined ? { timeoutMs: config.timeoutMs } : {}),
 });
@@ -4,20 +4,91 @@ import { fileURLToPath } from "node:url";
 import type { ExtensionAPI } from "@mariozechner/pi-coding-agent";
 import { createJiti } from "jiti";
 import { nanoid } from "nanoid";
-import { validateEvidenceForState } from "../evidence/schema-registry";
-import type { ProjectConfig, RoleOverride } from "../project/config";
-import type { StateStore } from "./state-store";
+import { buildSubmitEvidenceTypeBoxSource } from "../evidence/schema-export";
 import {
+  type EvidenceValidationDiagnostic,
+  describeEvidenceSchema,
+  describeValueType,
+  matchesSchemaType,
+  validateEvidenceForState,
+} from "../evidence/schema-registry";
+import {
+  type ProjectConfig,
+  type RoleOverride,
+  defaultProjectConfig,
+} from "../project/config";
+import {
+  type AgentLaunchResult,
+  type AgentLauncher,
+  createAgentLauncher,
+} from "../runtime/agent-launcher";
+import {
+  CommandTemplateError,
+  renderCommandTemplate,
+} from "./command-template";
+import {
+  WorkflowDefinitionArchive,
+  definitionVersion,
+} from "./definition-archive";
+import {
+  type WorkflowDomainEvent,
+  WorkflowEventEmitter,
+  domainEventsFor,
+} from "./domain-events";
+import { EscalationInbox } from "./escalations";
+import { type GuardScope, guardMatches } from "./guard-expression";
+import {
+  type StateStore,
+  type WorkflowQuery,
+  WorkflowStateConflictError,
+  WorkflowStateLockedError,
+} from "./state-store";
+import {
+  TerminalActionRegistry,
+  registerBuiltinTerminalActions,
+} from "./terminal-actions";
+import {
+  type ActionState,
+  type AgentHandle,
+  type AgentLauncherKind,
   type AgentState,
+  type AutopilotEnrollment,
+  type FailureKind,
+  type ForeachState,
   type GateDefinition,
+  type JoinPolicy,
+  type ParallelAgentBranch,
+  type ParallelBranchProgress,
+  type ParallelBranchStatus,
+  type ParallelState,
+  type PendingApproval,
+  type RetryPolicy,
   type SubworkflowState,
+  type VerificationCommand,
+  type VerificationResult,
   type WorkflowDefinition,
+  type WorkflowEvent,
+  type WorkflowEventInput,
   type WorkflowRuntimeState,
+  type WorkflowStateDefinition,
   type WorkflowStateHistory,
   asAgentId,
   asWorkflowId,
   asWorkflowType,
 } from "./types";
+import {
+  evaluateVerification,
+  formatVerificationResult,
+  verificationScript,
+} from "./verification";
+import { replayWorkflowEvents } from "./workflow-journal";
+import {
+  type WorkflowSource,
+  type WorkflowValidationIssue,
+  isReworkTransition,
+  reworkEscalationTarget,
+  validateWorkflowSources,
+} from "./workflow-validator";
 
 export interface EvidenceSubmission {
   state: string;
@@ -26,10 +97,335 @@ export interface EvidenceSubmission {
   submitted_by?: string;
 }
 
+/** One command run by an action state, as recorded in its evidence. */
+export interface ActionCommandResult {
+  command: string;
+  code: number;
+  stdout: string;
+  stderr: string;
+}
+
+/**
+ * Decide a parallel join from the branch statuses: "pass" once enough
+ * branches passed, "fail" once too few can still pass, else "pending".
+ */
+export const evaluateJoin = (
+  policy: JoinPolicy | undefined,
+  statuses: ParallelBranchStatus[],
+): "pass" | "fail" | "pending" => {
+  const needed =
+    policy === undefined || policy === "all"
+      ? statuses.length
+      : policy === "any"
+        ? 1
+        : policy.quorum;
+  const passed = statuses.filter((status) => status === "passed").length;
+  const open = statuses.filter((status) => status === "running").length;
+  if (passed >= needed) {
+    return "pass";
+  }
+  return passed + open < needed ? "fail" : "pending";
+};
+
+/**
+ * Identifies one entry or retry of the current state, so a loop that
+ * dispatches on change dispatches each attempt once.
+ */
+export const dispatchToken = (state: WorkflowRuntimeState): string => {
+  const historyEntry = state.history.at(-1);
+  return historyEntry
+    ? `${state.current_state}:${historyEntry.entered_at}:${historyEntry.retries}`
+    : state.current_state;
+};
+
+/** Agents expected to be working on the workflow's current state. */
+const workingAgents = (
+  state: WorkflowRuntimeState,
+  current: WorkflowStateDefinition | undefined,
+): string[] => {
+  if (current && "assign" in current) {
+    return [`${state.workflow_id as unknown as string}-${current.assign}`];
+  }
+  if (state.parallel?.state !== state.current_state) {
+    return [];
+  }
+  return Object.values(state.parallel.branches)
+    .filter((progress) => progress.status === "running" && progress.agent_id)
+    .map((progress) => progress.agent_id as string);
+};
+
+/**
+ * Agents launched since the workflow entered its current state, with their
+ * roles: the ones holding a scheduler slot.
+ */
+const launchedAgents = (
+  state: WorkflowRuntimeState,
+  current: WorkflowStateDefinition | undefined,
+): Array<{ agentId: string; role: string }> => {
+  const workflowId = state.workflow_id as unknown as string;
+  const enteredAt = state.history.at(-1)?.entered_at;
+  let roles: string[] = [];
+  if (current && "assign" in current) {
+    roles = [current.assign];
+  } else if (
+    current?.type === "parallel" &&
+    state.parallel?.state === state.current_state
+  ) {
+    const branches = state.parallel.branches;
+    roles = Object.entries(current.branches).flatMap(([name, branch]) =>
+      "assign" in branch && branches[name]?.status === "running"
+        ? [branch.assign]
+        : [],
+    );
+  }
+  return roles
+    .map((role) => ({ agentId: `${workflowId}-${role}`, role }))
+    .filter(({ agentId }) => {
+      const launchedAt = state.agents?.[agentId]?.launched_at;
+      return (
+        launchedAt !== undefined &&
+        enteredAt !== undefined &&
+        launchedAt >= enteredAt
+      );
+    });
+};
+
+/** The agent state a parallel branch's agent works, under its parent's transitions. */
+const branchAgentState = (
+  current: ParallelState,
+  branch: ParallelAgentBranch,
+): AgentState => ({
+  assign: branch.assign,
+  gate: branch.gate,
+  transitions: current.transitions,
+  ...(branch.inputFrom ? { inputFrom: branch.inputFrom } : {}),
+});
+
+const describeJoinPolicy = (policy: JoinPolicy | undefined): string =>
+  typeof policy === "object" ? `quorum ${policy.quorum}` : (policy ?? "all");
+
+/** Store `value` at `evidence.<key>`, where `STATE.branch` nests a level. */
+const setEvidence = (
+  state: WorkflowRuntimeState,
+  key: string,
+  value: Record<string, unknown>,
+): void => {
+  const [stateName, branch] = key.split(".", 2) as [string, string?];
+  if (branch === undefined) {
+    state.evidence[stateName] = value;
+    return;
+  }
+  state.evidence[stateName] = {
+    ...(state.evidence[stateName] as Record<string, unknown> | undefined),
+    [branch]: value,
+  };
+};
+
+/** How long an agent may go without a heartbeat before it counts as stale. */
+export const DEFAULT_HEARTBEAT_STALE_MS = 5 * 60_000;
+
+/** What a cancel reached: see {@link WorkflowEngine.cancel}. */
+export interface WorkflowCancellation {
+  cancelled: string[];
+  /** Agents of the cancelled workflows, one per role, whose tabs should close. */
+  agentIds: string[];
+  /** Workflows whose save kept losing to another writer; still running. */
+  failed: Array<{ workflowId: string; error: string }>;
+}
+
+export interface WorkflowTimeout {
+  workflowId: string;
+  state: string;
+  timeoutMs: number;
+  retries: number;
+  /** Set when the retries ran out and the workflow left the state. */
+  to?: string;
+  /** Agents (and cancelled subworkflow agents) whose tabs should close. */
+  agentIds: string[];
+}
+
+/** What `reloadWorkflows()` found, by workflow name. */
+export interface WorkflowReloadReport {
+  /** False when the reload was refused and the old definitions kept. */
+  applied: boolean;
+  added: string[];
+  removed: string[];
+  changed: string[];
+  /** Running workflows whose current state the reload would have lost. */
+  orphaned: Array<{ workflowId: string; workflowType: string; state: string }>;
+  issues: WorkflowValidationIssue[];
+}
+
+/** Whether an agent working on a running workflow is still up. */
+export interface AgentLiveness {
+  agentId: string;
+  workflowId: string;
+  state: string;
+  handle: AgentHandle;
+  alive: boolean;
+}
+
+/** Redispatches of one attempt whose agent keeps disappearing. */
+const MAX_AUTOPILOT_REDISPATCHES = 3;
+
+/** What one autopilot tick did. */
+export interface AutopilotTick {
+  workflowId: string;
+  action: "dispatched" | "redispatched" | "waiting" | "completed" | "withdrawn";
+  details: string;
+  /** When a backed-off retry is due. */
+  retryAt?: string;
+}
+
+/** A workflow under autopilot, for the dashboard. */
+export interface AutopilotStatus {
+  workflowId: string;
+  state: string;
+  enrolledAt: string;
+  /** Unset until this process ticks the workflow. */
+  lastTickAt?: string;
+  lastDispatchAt?: string;
+  lastError?: string;
+}
+
+/** A dispatch waiting in the scheduler queue. */
+export interface QueuedAgentDispatch {
+  workflowId: string;
+  agentId: string;
+  role: string;
+  state: string;
+  branch?: string;
+  priority: number;
+  queuedAt: string;
+  reason: string;
+}
+
+/** Commands of one kind running against their cap, and the ones waiting. */
+export interface CommandSlotStatus {
+  kind: "verification" | "action";
+  running: number;
+  waiting: number;
+  limit?: number;
+}
+
+/** Running agents against the concurrency caps, and the queue in dispatch order. */
+export interface SchedulerStatus {
+  running: number;
+  maxAgents?: number;
+  roles: Array<{ role: string; running: number; limit?: number }>;
+  queue: QueuedAgentDispatch[];
+  commands: CommandSlotStatus[];
+}
+
+/** Agents holding a slot and the queue, as one drain pass counts them. */
+interface SlotUsage {
+  running: Array<{ agentId: string; role: string }>;
+  queue: QueuedAgentDispatch[];
+}
+
+/**
+ * Slots for commands of one kind run by this process. Waiting commands
+ * start in arrival order; a finished command hands its slot straight to
+ * the next one. The cap is read on each run, so a reload applies to the
+ * commands that come after it.
+ */
+class CommandSlots {
+  private running = 0;
+  private readonly waiting: Array<() => void> = [];
+
+  async run<T>(limit: number | undefined, command: () => Promise<T>) {
+    if (limit !== undefined && this.running >= limit) {
+      await new Promise<void>((resolve) => this.waiting.push(resolve));
+    } else {
+      this.running += 1;
+    }
+    try {
+      return await command();
+    } finally {
+      const next = this.waiting.shift();
+      if (next) {
+        next();
+      } else {
+        this.running -= 1;
+      }
+    }
+  }
+
+  status(
+    kind: CommandSlotStatus["kind"],
+    limit: number | undefined,
+  ): CommandSlotStatus {
+    return {
+      kind,
+      running: this.running,
+      waiting: this.waiting.length,
+      ...(limit !== undefined ? { limit } : {}),
+    };
+  }
+}
+
+/** Domain events after which a queued dispatch may fit. */
+const SLOT_RELEASING_EVENTS = new Set<string>([
+  "state.entered",
+  "approval.requested",
+  "workflow.resumed",
+  "workflow.cancelled",
+]);
+
+export interface StaleAgent {
+  agentId: string;
+  workflowId: string;
+  state: string;
+  lastHeartbeat: string;
+  idleMs: number;
+}
+
+/** Attempts at a change whose save lost a race with another writer. */
+const SAVE_ATTEMPTS = 3;
+
+/** Pause before the next attempt at a lost save, times the attempts so far. */
+const SAVE_RETRY_MS = 50;
+
+/** A save that lost a race with another writer; the workflow changed. */
+const isSaveConflict = (error: unknown): error is Error =>
+  error instanceof WorkflowStateConflictError ||
+  error instanceof WorkflowStateLockedError;
+
+const describeSubmission = (
+  submission: EvidenceSubmission,
+): Record<string, unknown> => ({
+  submitted_state: submission.state,
+  result: submission.result,
+  evidence: submission.evidence,
+  submitted_by: submission.submitted_by,
+});
+
 export class WorkflowEngine {
   private readonly workflows = new Map<string, WorkflowDefinition>();
-  private readonly heartbeats = new Map<string, string>();
+  /** Every version loaded so far, keyed `<workflow>@<version>`. */
+  private readonly loadedVersions = new Map<string, WorkflowDefinition>();
+  private readonly definitionArchive: WorkflowDefinitionArchive;
+  private readonly pendingEvents = new Map<string, WorkflowEventInput[]>();
+  /** Domain events with no journal counterpart, published with the next save. */
+  private readonly pendingDomainEvents = new Map<
+    string,
+    WorkflowDomainEvent[]
+  >();
+  private lastValidationIssues: WorkflowValidationIssue[] = [];
   private projectConfig: ProjectConfig | undefined;
+  private launcher: AgentLauncher;
+  /** Set once a launcher is injected; the project config no longer picks one. */
+  private launcherPinned = false;
+  /** When this process last ticked each autopilot workflow. */
+  private readonly autopilotTicks = new Map<string, string>();
+  /** Handlers for `TerminalState.action`; register more to extend. */
+  readonly terminalActions: TerminalActionRegistry;
+  /** Domain events, published after each change is saved. */
+  readonly events = new WorkflowEventEmitter();
+  private draining = false;
+  private drainAgain = false;
+  private readonly verificationSlots = new CommandSlots();
+  private readonly actionSlots = new CommandSlots();
 
   constructor(
     private readonly pi: ExtensionAPI,
@@ -38,29 +434,171 @@ export class WorkflowEngine {
     projectConfig?: ProjectConfig,
   ) {
     this.projectConfig = projectConfig;
+    this.launcher = this.createLauncher(projectConfig?.agentLauncher);
+    this.definitionArchive = new WorkflowDefinitionArchive(
+      path.join(cwd, ".orchestra", "definitions"),
+    );
+    this.terminalActions = registerBuiltinTerminalActions(
+      new TerminalActionRegistry(),
+      {
+        inbox: new EscalationInbox(path.join(cwd, ".orchestra", "escalations")),
+        hook: () => this.projectConfig?.escalationHook,
+      },
+    );
+    this.events.on("*", async (event) => {
+      if (SLOT_RELEASING_EVENTS.has(event.type)) {
+        await this.drainDispatchQueue();
+      }
+    });
   }
 
   // Stryker disable next-line all: simple setter
   setProjectConfig(config: ProjectConfig): void {
     this.projectConfig = config;
+    const kind = config.agentLauncher ?? "zellij";
+    if (!this.launcherPinned && kind !== this.launcher.kind) {
+      this.launcher = this.createLauncher(kind);
+    }
+  }
+
+  /** Launch agents with `launcher` from now on, whatever the project config says. */
+  setAgentLauncher(launcher: AgentLauncher): void {
+    this.launcher = launcher;
+    this.launcherPinned = true;
+  }
+
+  get agentLauncherKind(): AgentLauncherKind {
+    return this.launcher.kind;
   }
 
   async loadWorkflows(): Promise<void> {
     const builtIn = path.join(this.cwd, "src", "workflows");
-    await this.loadWorkflowDirectory(builtIn);
-
     const projectDir = path.join(this.cwd, ".orchestra", "workflows.d");
-    await this.loadWorkflowDirectory(projectDir);
+    const sources = [
+      ...(await this.importWorkflowDirectory(builtIn, "builtin")),
+      ...(await this.importWorkflowDirectory(projectDir, "project")),
+    ];
+
+    const report = validateWorkflowSources(sources);
+    this.lastValidationIssues = report.issues;
+    for (const entry of report.accepted) {
+      this.workflows.set(entry.definition.name, entry.definition);
+      this.loadedVersions.set(
+        `${entry.definition.name}@${definitionVersion(entry.definition)}`,
+        entry.definition,
+      );
+    }
+  }
+
+  /**
+   * Re-import every definition without the module cache, validate, and swap
+   * the result in. The swap is undone if a running workflow would no longer
+   * find its definition or current state, e.g. a state removed without
+   * bumping the definition's version.
+   */
+  async reloadWorkflows(): Promise<WorkflowReloadReport> {
+    const sources = [
+      ...(await this.importWorkflowDirectory(
+        path.join(this.cwd, "src", "workflows"),
+        "builtin",
+        true,
+      )),
+      ...(await this.importWorkflowDirectory(
+        path.join(this.cwd, ".orchestra", "workflows.d"),
+        "project",
+        true,
+      )),
+    ];
+    const report = validateWorkflowSources(sources);
+    this.lastValidationIssues = report.issues;
+
+    const running = this.list().filter((state) => {
+      const current = this.definitionFor(state)?.states[state.current_state];
+      return (
+        state.status !== "cancelled" &&
+        current !== undefined &&
+        !("type" in current && current.type === "terminal")
+      );
+    });
+    const previous = new Map(this.workflows);
+    const previousVersions = new Map(this.loadedVersions);
+    this.workflows.clear();
+    for (const entry of report.accepted) {
+      this.workflows.set(entry.definition.name, entry.definition);
+      this.loadedVersions.set(
+        `${entry.definition.name}@${definitionVersion(entry.definition)}`,
+        entry.definition,
+      );
+    }
+
+    const orphaned = running
+      .filter((state) => !this.resolvesState(state))
+      .map((state) => ({
+        workflowId: state.workflow_id as unknown as string,
+        workflowType: state.workflow_type as unknown as string,
+        state: state.current_state,
+      }));
+    if (orphaned.length > 0) {
+      this.workflows.clear();
+      for (const [name, definition] of previous) {
+        this.workflows.set(name, definition);
+      }
+      this.loadedVersions.clear();
+      for (const [key, definition] of previousVersions) {
+        this.loadedVersions.set(key, definition);
+      }
+    }
+
+    const candidates = new Map(
+      report.accepted.map((entry) => [entry.definition.name, entry.definition]),
+    );
+    const names = new Set([...previous.keys(), ...candidates.keys()]);
+    const result: WorkflowReloadReport = {
+      applied: orphaned.length === 0,
+      added: [],
+      removed: [],
+      changed: [],
+      orphaned,
+      issues: report.issues,
+    };
+    for (const name of [...names].sort()) {
+      const before = previous.get(name);
+      const after = candidates.get(name);
+      if (!before) {
+        result.added.push(name);
+      } else if (!after) {
+        result.removed.push(name);
+      } else if (JSON.stringify(before) !== JSON.stringify(after)) {
+        result.changed.push(name);
+      }
+    }
+    return result;
+  }
+
+  /** Issues found by the most recent `loadWorkflows()` call. */
+  validationIssues(): WorkflowValidationIssue[] {
+    return [...this.lastValidationIssues];
   }
 
   // Stryker disable next-line all: dynamic import required for ESM
-  private async loadWorkflowDirectory(directory: string): Promise<void> {
+  private async importWorkflowDirectory(
+    directory: string,
+    origin: WorkflowSource["origin"],
+    fresh = false,
+  ): Promise<
+    Array<{ definition: unknown; source: string; origin: typeof origin }>
+  > {
     const fs = await import("node:fs");
     if (!fs.existsSync(directory)) {
-      return;
+      return [];
     }
 
-    const jiti = createJiti(import.meta.url);
+    const jiti = createJiti(import.meta.url, { moduleCache: !fresh });
+    const sources: Array<{
+      definition: unknown;
+      source: string;
+      origin: typeof origin;
+    }> = [];
     for (const entry of fs.readdirSync(directory).filter((f) => {
       const ext = path.extname(f);
       return ext === ".ts" || ext === ".js";
@@ -69,34 +607,87 @@ export class WorkflowEngine {
       const loaded = (await jiti.import(modulePath)) as
         | WorkflowDefinition
         | { default?: WorkflowDefinition };
-      const workflow = (
+      const workflow =
         typeof loaded === "object" && loaded && "default" in loaded
           ? (loaded.default ?? loaded)
-          : loaded
-      ) as WorkflowDefinition;
-      this.workflows.set(workflow.name, workflow);
+          : loaded;
+      sources.push({ definition: workflow, source: modulePath, origin });
     }
+    return sources;
   }
 
-  list(): WorkflowRuntimeState[] {
-    return this.store.listWorkflows();
+  list(query?: WorkflowQuery): WorkflowRuntimeState[] {
+    return this.store
+      .listWorkflows(query)
+      .map((state) => this.withHeartbeats(state));
   }
 
   get(workflowId: string): WorkflowRuntimeState | null {
-    return this.store.loadWorkflowState(asWorkflowId(workflowId));
+    const state = this.store.loadWorkflowState(asWorkflowId(workflowId));
+    return state && this.withHeartbeats(state);
+  }
+
+  /**
+   * Bring `metrics.heartbeats` up to the last heartbeat the store keeps for
+   * each agent, so it is saved with the workflow's next change.
+   */
+  private withHeartbeats(state: WorkflowRuntimeState): WorkflowRuntimeState {
+    const heartbeats = {
+      ...(state.metrics.heartbeats as Record<string, string> | undefined),
+    };
+    for (const [agentId, at] of Object.entries(
+      this.store.readHeartbeats(state.workflow_id),
+    )) {
+      if ((heartbeats[agentId] ?? "") < at) {
+        heartbeats[agentId] = at;
+      }
+    }
+    if (Object.keys(heartbeats).length > 0) {
+      state.metrics.heartbeats = heartbeats;
+    }
+    return state;
+  }
+
+  /** The journal of `workflowId` and the state rebuilt from it. */
+  replay(
+    workflowId: string,
+    uptoIndex?: number,
+  ): { events: WorkflowEvent[]; state: WorkflowRuntimeState | null } {
+    const events = this.store.readWorkflowEvents(asWorkflowId(workflowId));
+    return { events, state: replayWorkflowEvents(events, uptoIndex) };
   }
 
   listDefinitions(): WorkflowDefinition[] {
     return [...this.workflows.values()];
   }
 
-  getDefinition(workflowType: string): WorkflowDefinition | undefined {
-    return this.workflows.get(workflowType);
+  /**
+   * The current definition of `workflowType`, or a specific `version`: one
+   * loaded earlier in this process, else the archived snapshot. Falls back
+   * to the current definition when that version was never recorded.
+   */
+  getDefinition(
+    workflowType: string,
+    version?: number,
+  ): WorkflowDefinition | undefined {
+    const current = this.workflows.get(workflowType);
+    if (
+      version === undefined ||
+      (current && definitionVersion(current) === version)
+    ) {
+      return current;
+    }
+    return (
+      this.loadedVersions.get(`${workflowType}@${version}`) ??
+      this.definitionArchive.load(workflowType, version) ??
+      current
+    );
   }
 
   start(
     workflowType: string,
     params: Record<string, unknown>,
+    options: { priority?: number } = {},
   ): WorkflowRuntimeState {
     const definition = this.workflows.get(workflowType);
     if (!definition) {
@@ -110,40 +701,94 @@ export class WorkflowEngine {
       throw new Error(`Workflow ${workflowType} has no states`);
     }
 
+    const resolved = resolveWorkflowParams(definition, params);
+    if (resolved.errors.length > 0) {
+      throw new WorkflowParamsError(workflowType, resolved.errors);
+    }
+
+    this.definitionArchive.save(definition);
     const now = new Date().toISOString();
     const state: WorkflowRuntimeState = {
       workflow_id: workflowId,
       workflow_type: asWorkflowType(workflowType),
+      workflow_version: definitionVersion(definition),
       current_state: firstState,
       retry_count: 0,
       paused: false,
-      params,
+      params: resolved.params,
       evidence: {},
       metrics: {},
       history: [{ state: firstState, entered_at: now, retries: 0 }],
       created_at: now,
       updated_at: now,
+      ...(options.priority ? { priority: options.priority } : {}),
     };
 
-    this.store.saveWorkflowState(state);
+    this.persist(state, "workflow_started", {
+      params: resolved.params,
+      ...(options.priority ? { priority: options.priority } : {}),
+    });
     return state;
   }
 
+  /**
+   * Apply an agent's gate submission. Verification commands run between the
+   * load and the save, so a concurrent write (override, pause, another
+   * submission) surfaces as a `conflict` status for the agent to resubmit.
+   */
   async submitEvidence(
     workflowId: string,
     payload: unknown,
+  ): Promise<Record<string, unknown>> {
+    try {
+      return await this.applyEvidence(workflowId, payload);
+    } catch (error) {
+      if (!isSaveConflict(error)) {
+        throw error;
+      }
+      return { workflowId, status: "conflict", reason: error.message };
+    }
+  }
+
+  private async applyEvidence(
+    workflowId: string,
+    payload: unknown,
   ): Promise<Record<string, unknown>> {
     const state = this.get(workflowId);
     if (!state) {
       throw new Error(`Unknown workflow instance: ${workflowId}`);
     }
 
+    const submission = payload as EvidenceSubmission;
+    if (state.status === "cancelled") {
+      this.journal(state, "evidence_rejected", {
+        ...describeSubmission(submission),
+        reason: "cancelled",
+      });
+      return { workflowId, status: "cancelled" };
+    }
+
     if (state.paused) {
+      this.journal(state, "evidence_rejected", {
+        ...describeSubmission(submission),
+        reason: "paused",
+      });
       return { workflowId, status: "paused" };
     }
 
-    const submission = payload as EvidenceSubmission;
+    if (state.pending_approval) {
+      this.journal(state, "evidence_rejected", {
+        ...describeSubmission(submission),
+        reason: "awaiting approval",
+      });
+      return { workflowId, status: "awaiting_approval" };
+    }
+
     if (!submission.state || submission.state !== state.current_state) {
+      this.journal(state, "evidence_rejected", {
+        ...describeSubmission(submission),
+        reason: `Evidence state mismatch. Expected ${state.current_state}`,
+      });
       return {
         workflowId,
         status: "rejected",
@@ -151,15 +796,24 @@ export class WorkflowEngine {
       };
     }
 
-    const definition = this.workflows.get(
-      state.workflow_type as unknown as string,
-    );
+    const definition = this.definitionFor(state);
     if (!definition) {
       throw new Error(`Workflow definition missing: ${state.workflow_type}`);
     }
 
     const currentDefinition = definition.states[state.current_state];
+    if (
+      currentDefinition &&
+      "type" in currentDefinition &&
+      currentDefinition.type === "parallel"
+    ) {
+      return this.applyBranchEvidence(state, currentDefinition, submission);
+    }
     if (!currentDefinition || !("gate" in currentDefinition)) {
+      this.journal(state, "evidence_rejected", {
+        ...describeSubmission(submission),
+        reason: "Current state does not accept evidence",
+      });
       return {
         workflowId,
         status: "rejected",
@@ -167,73 +821,52 @@ export class WorkflowEngine {
       };
     }
 
-    let verified = true;
-    if (currentDefinition.gate.kind === "evidence") {
-      const validation = validateEvidenceForState(
+    const gate = await this.checkGate(
+      state,
+      currentDefinition.gate,
+      state.current_state,
+      submission,
+    );
+    if (gate.validation) {
+      return this.rejectInvalidEvidence(
+        state,
         state.current_state,
-        currentDefinition.gate.schema,
-        submission.evidence,
+        submission,
+        gate.validation,
+        currentDefinition,
       );
-      if (!validation.ok) {
-        state.evidence[state.current_state] = {
-          ...submission.evidence,
-          verified: false,
-          validation_errors: validation.errors,
-        };
-        state.updated_at = new Date().toISOString();
-        this.store.saveWorkflowState(state);
-        return {
-          workflowId,
-          status: "rejected",
-          reason: "Evidence schema validation failed",
-          diagnostics: validation,
-        };
-      }
-
-      const verify = currentDefinition.gate.verify;
-      if (verify) {
-        const result = await this.execCommand(verify.command);
-        const expectedExitCode = verify.expectExitCode ?? 0;
-        verified = result.code === expectedExitCode;
-      }
-    }
-
-    if (currentDefinition.gate.kind === "command") {
-      const verify = currentDefinition.gate.verify;
-      const result = await this.execCommand(verify.command);
-      const expectedExitCode = verify.expectExitCode ?? 0;
-      verified = result.code === expectedExitCode;
-    }
-
-    if (currentDefinition.gate.kind === "verdict") {
-      verified = currentDefinition.gate.options.includes(submission.result);
     }
+    const verified = gate.verified;
+    const verification = gate.verification;
 
     const historyEntry = state.history.at(-1);
     if (!historyEntry) {
       throw new Error(`Workflow history missing for ${workflowId}`);
     }
+    if (verification) {
+      historyEntry.last_verification = verification;
+    }
 
     if (!verified) {
-      state.retry_count += 1;
-      historyEntry.retries = state.retry_count;
-      historyEntry.last_failure = `Gate verification failed for ${state.current_state}`;
-
-      const retryLimit =
-        "maxRetries" in currentDefinition
-          ? (currentDefinition.maxRetries ?? 1)
-          : 1;
-      if (state.retry_count >= retryLimit) {
-        const escalate = currentDefinition.transitions.fail ?? "ESCALATE";
-        this.moveState(state, escalate, "fail");
-      }
+      this.failAttempt(
+        state,
+        currentDefinition,
+        `Gate verification failed for ${state.current_state}`,
+        ["fail"],
+        "fail",
+      );
 
       state.updated_at = new Date().toISOString();
       state.evidence[state.current_state] = {
         ...submission.evidence,
         verified: false,
+        ...(verification ? { verification } : {}),
       };
-      this.store.saveWorkflowState(state);
+      this.persist(state, "evidence_failed", {
+        ...describeSubmission(submission),
+        retries: state.retry_count,
+      });
+      await this.runTerminalAction(state);
       return {
         workflowId,
         status: "failed",
@@ -246,74 +879,631 @@ export class WorkflowEngine {
       ...submission.evidence,
       result: submission.result,
       verified: true,
+      ...(verification ? { verification } : {}),
       submitted_by: submission.submitted_by,
       submitted_at: new Date().toISOString(),
     };
 
-    const hasDirectTransition = Object.hasOwn(
-      currentDefinition.transitions,
+    const next = this.nextState(state, currentDefinition, submission.result, [
       submission.result,
-    );
-    const next = hasDirectTransition
-      ? currentDefinition.transitions[submission.result]
-      : currentDefinition.transitions.pass;
+      "pass",
+    ]);
     if (!next) {
       throw new Error(`No transition for state ${state.current_state}`);
     }
 
-    state.retry_count = 0;
-    this.moveState(state, next, submission.result);
-    this.store.saveWorkflowState(state);
+    const moved = this.advance(
+      state,
+      currentDefinition,
+      next,
+      submission.result,
+    );
+    this.persist(state, "evidence_accepted", describeSubmission(submission));
+    await this.runTerminalAction(state);
 
     return {
       workflowId,
-      status: "advanced",
+      status: moved ? "advanced" : "awaiting_approval",
       from: submission.state,
       to: state.current_state,
       result: submission.result,
     };
   }
 
-  pause(workflowId: string): WorkflowRuntimeState {
-    const state = this.requireWorkflow(workflowId);
-    state.paused = true;
-    state.updated_at = new Date().toISOString();
-    this.store.saveWorkflowState(state);
-    return state;
+  /**
+   * Check a submission against a gate. A submission that does not match an
+   * evidence schema comes back with the failing `validation`; a gate with a
+   * verification command also returns how the command ran.
+   */
+  private async checkGate(
+    state: WorkflowRuntimeState,
+    gate: GateDefinition,
+    stateName: string,
+    submission: EvidenceSubmission,
+  ): Promise<{
+    verified: boolean;
+    validation?: EvidenceValidationDiagnostic;
+    verification?: VerificationResult;
+  }> {
+    if (gate.kind === "verdict") {
+      return { verified: gate.options.includes(submission.result) };
+    }
+    // A human decides later, once the submission is parked for approval
+    if (gate.kind === "approval") {
+      return { verified: true };
+    }
+    if (gate.kind === "evidence") {
+      const validation = validateEvidenceForState(
+        stateName,
+        gate.schema,
+        submission.evidence,
+      );
+      if (!validation.ok) {
+        return { verified: false, validation };
+      }
+    }
+    const verify = gate.verify;
+    if (!verify) {
+      return { verified: true };
+    }
+    const verification = await this.runVerification(
+      verify,
+      this.templateScope(state, {
+        key: stateName,
+        evidence: submission.evidence,
+      }),
+    );
+    return { verified: verification.passed, verification };
   }
 
-  resume(workflowId: string): WorkflowRuntimeState {
-    const state = this.requireWorkflow(workflowId);
-    state.paused = false;
+  /**
+   * Record a schema-invalid submission under `evidence.<key>` (a dotted key
+   * nests one level, for parallel branches) and reject it. Schema errors
+   * only use up the state's `schema` budget, when it has one; spending it
+   * fails the state.
+   */
+  private async rejectInvalidEvidence(
+    state: WorkflowRuntimeState,
+    key: string,
+    submission: EvidenceSubmission,
+    validation: EvidenceValidationDiagnostic,
+    stateDefinition?: AgentState | ActionState,
+  ): Promise<Record<string, unknown>> {
+    setEvidence(state, key, {
+      ...submission.evidence,
+      verified: false,
+      validation_errors: validation.errors,
+    });
+    const moved =
+      stateDefinition?.retry?.budgets?.schema !== undefined &&
+      this.failAttempt(
+        state,
+        stateDefinition,
+        "Evidence schema validation failed",
+        ["fail"],
+        "invalid",
+        new Date(),
+        "schema",
+      );
     state.updated_at = new Date().toISOString();
-    this.store.saveWorkflowState(state);
-    return state;
+    this.persist(state, "evidence_rejected", {
+      ...describeSubmission(submission),
+      reason: "Evidence schema validation failed",
+      errors: validation.errors,
+    });
+    if (moved) {
+      await this.runTerminalAction(state);
+      return {
+        workflowId: state.workflow_id,
+        status: "failed",
+        reason: "Evidence schema validation failed; schema budget spent",
+        state: state.current_state,
+        diagnostics: validation,
+      };
+    }
+    return {
+      workflowId: state.workflow_id,
+      status: "rejected",
+      reason: "Evidence schema validation failed",
+      diagnostics: validation,
+    };
+  }
+
+  pause(workflowId: string): Promise<WorkflowRuntimeState> {
+    return this.retryOnConflict(() => {
+      const state = this.requireWorkflow(workflowId);
+      state.paused = true;
+      state.updated_at = new Date().toISOString();
+      this.persist(state, "paused");
+      return state;
+    });
+  }
+
+  resume(workflowId: string): Promise<WorkflowRuntimeState> {
+    return this.retryOnConflict(() => {
+      const state = this.requireActiveWorkflow(workflowId);
+      state.paused = false;
+      state.updated_at = new Date().toISOString();
+      this.persist(state, "resumed");
+      return state;
+    });
   }
 
   override(
     workflowId: string,
     nextState: string,
     reason: string,
-  ): WorkflowRuntimeState {
-    const state = this.requireWorkflow(workflowId);
-    this.moveState(state, nextState, `override:${reason}`);
-    this.store.saveWorkflowState(state);
-    return state;
+  ): Promise<WorkflowRuntimeState> {
+    return this.retryOnConflict(() => {
+      const state = this.requireActiveWorkflow(workflowId);
+      this.moveState(state, nextState, `override:${reason}`);
+      this.persist(state, "overridden", { to: nextState, reason });
+      return state;
+    });
   }
 
-  heartbeat(agentId: string): { ok: true; agentId: string; at: string } {
-    const at = new Date().toISOString();
-    this.heartbeats.set(agentId, at);
-    return { ok: true, agentId, at };
+  /**
+   * Run a load-change-save again, after a short pause, when another writer
+   * saved the workflow in between or still holds its lock. The last lost
+   * race is reported to the caller.
+   */
+  private async retryOnConflict<T>(change: () => T | Promise<T>): Promise<T> {
+    for (let attempt = 1; ; attempt += 1) {
+      try {
+        return await change();
+      } catch (error) {
+        if (!isSaveConflict(error) || attempt >= SAVE_ATTEMPTS) {
+          throw error;
+        }
+        await new Promise((resolve) =>
+          setTimeout(resolve, SAVE_RETRY_MS * attempt),
+        );
+      }
+    }
   }
 
-  async dispatchCurrentState(
-    workflowId: string,
-  ): Promise<{ dispatched: boolean; details: string }> {
-    const state = this.requireWorkflow(workflowId);
-    const definition = this.workflows.get(
-      state.workflow_type as unknown as string,
+  /** Workflows waiting for a human decision, oldest request first. */
+  pendingApprovals(): WorkflowRuntimeState[] {
+    return this.list()
+      .filter((state) => state.pending_approval && state.status !== "cancelled")
+      .sort((a, b) =>
+        (a.pending_approval?.requested_at ?? "").localeCompare(
+          b.pending_approval?.requested_at ?? "",
+        ),
+      );
+  }
+
+  /**
+   * Approve the state a workflow is parked on: it takes the transition it
+   * completed with. The caller dispatches the next state.
+   */
+  approve(workflowId: string, note?: string): Promise<WorkflowRuntimeState> {
+    return this.retryOnConflict(() => {
+      const state = this.requireActiveWorkflow(workflowId);
+      const pending = this.requirePendingApproval(state);
+      this.recordApprovalDecision(state, pending, "approved", note);
+      state.retry_count = 0;
+      const stateDefinition = this.definitionFor(state)?.states[pending.state];
+      if (
+        !(
+          stateDefinition &&
+          this.spendRework(state, stateDefinition, pending.result, pending.to)
+        )
+      ) {
+        this.moveState(state, pending.to, pending.result, pending.guard);
+      }
+      this.persist(state, "approved", {
+        state: pending.state,
+        to: pending.to,
+        ...(note ? { note } : {}),
+      });
+      return state;
+    });
+  }
+
+  /**
+   * Reject the state a workflow is parked on. This is a failed attempt:
+   * with retries left the state runs again (the note becomes its retry
+   * context), otherwise it takes `transitions.rejected`, then
+   * `transitions.fail`, then ESCALATE. The caller dispatches.
+   */
+  reject(workflowId: string, note?: string): Promise<WorkflowRuntimeState> {
+    return this.retryOnConflict(() => {
+      const state = this.requireActiveWorkflow(workflowId);
+      const pending = this.requirePendingApproval(state);
+      const stateDefinition = this.definitionFor(state)?.states[pending.state];
+      if (
+        !stateDefinition ||
+        ("type" in stateDefinition && stateDefinition.type === "terminal")
+      ) {
+        throw new Error(`Unknown state ${pending.state}`);
+      }
+      this.recordApprovalDecision(state, pending, "rejected", note);
+      this.failAttempt(
+        state,
+        stateDefinition,
+        `Rejected by a human${note ? `: ${note}` : ""}`,
+        ["rejected", "fail"],
+        "rejected",
+      );
+      this.persist(state, "rejected", {
+        state: pending.state,
+        retries: state.retry_count,
+        ...(note ? { note } : {}),
+      });
+      return state;
+    });
+  }
+
+  /**
+   * Upgrade an instance pinned to an older definition version to the current
+   * one, through the current definition's migration from that version. Its
+   * `renameStates` map is applied before the current state is checked
+   * against the new definition.
+   */
+  migrate(workflowId: string): WorkflowRuntimeState {
+    const state = this.requireActiveWorkflow(workflowId);
+    const workflowType = state.workflow_type as unknown as string;
+    const latest = this.workflows.get(workflowType);
+    if (!latest) {
+      throw new Error(`Workflow definition missing: ${workflowType}`);
+    }
+    const from = state.workflow_version ?? 1;
+    const to = definitionVersion(latest);
+    if (from === to) {
+      throw new Error(
+        `Workflow ${workflowId} already runs version ${to} of ${workflowType}`,
+      );
+    }
+    const migration = latest.migrations?.find(
+      (candidate) => candidate.from === from,
+    );
+    if (!migration) {
+      throw new Error(
+        `Workflow ${workflowType} has no migration from version ${from} to ${to}`,
+      );
+    }
+
+    const renames = migration.renameStates ?? {};
+    const renamed = renameWorkflowStates(state, renames);
+    if (!Object.hasOwn(latest.states, state.current_state)) {
+      throw new Error(
+        `State ${state.current_state} does not exist in version ${to} of ${workflowType}; add it to renameStates`,
+      );
+    }
+    state.workflow_version = to;
+    state.updated_at = new Date().toISOString();
+    this.persist(state, "migrated", {
+      from_version: from,
+      to_version: to,
+      renamed,
+    });
+
+    // Running children report back to their parent state by name
+    for (const childId of Object.values(state.children ?? {})) {
+      const child = this.get(childId as unknown as string);
+      if (child?.parent && Object.hasOwn(renamed, child.parent.state)) {
+        child.parent.state = renamed[child.parent.state] as string;
+        this.persist(child, "parent_linked", { ...child.parent });
+      }
+    }
+    return state;
+  }
+
+  /**
+   * Cancel a workflow and every descendant reachable through `children`.
+   * Workflows already cancelled or sitting in a terminal state are left
+   * alone. Each workflow is loaded, cancelled and saved on its own with the
+   * retries of the other human commands; one whose save still loses is
+   * reported in `failed` and the rest of the tree is cancelled regardless.
+   */
+  async cancel(
+    workflowId: string,
+    reason: string,
+  ): Promise<WorkflowCancellation> {
+    const result: WorkflowCancellation = {
+      cancelled: [],
+      agentIds: [],
+      failed: [],
+    };
+    const at = new Date().toISOString();
+    for (const id of this.workflowTreeIds(workflowId)) {
+      try {
+        const agentIds = await this.retryOnConflict(() =>
+          this.cancelOne(id, workflowId, reason, at),
+        );
+        if (agentIds) {
+          result.cancelled.push(id);
+          result.agentIds.push(...agentIds);
+        }
+      } catch (error) {
+        if (!isSaveConflict(error)) {
+          throw error;
+        }
+        result.failed.push({ workflowId: id, error: error.message });
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Cancel a child tree while the engine changes its parent. A child another
+   * writer is saving is skipped: its parent has moved on and ignores its
+   * report. Returns the agents whose tabs should close.
+   */
+  private cancelChildTree(childId: string, reason: string): string[] {
+    const at = new Date().toISOString();
+    const agentIds: string[] = [];
+    for (const id of this.workflowTreeIds(childId)) {
+      try {
+        agentIds.push(...(this.cancelOne(id, childId, reason, at) ?? []));
+      } catch (error) {
+        if (!isSaveConflict(error)) {
+          throw error;
+        }
+      }
+    }
+    return agentIds;
+  }
+
+  /** `rootId` and every workflow reachable from it through `children`. */
+  private workflowTreeIds(rootId: string): string[] {
+    const ids = [rootId];
+    this.requireWorkflow(rootId);
+    for (let index = 0; index < ids.length; index += 1) {
+      const state = this.get(ids[index] as string);
+      for (const childId of Object.values(state?.children ?? {})) {
+        if (!ids.includes(childId) && this.get(childId)) {
+          ids.push(childId);
+        }
+      }
+    }
+    return ids;
+  }
+
+  /**
+   * Load, cancel and save one workflow of a tree cancelled from `rootId`.
+   * Returns its agents, or undefined when it was already over.
+   */
+  private cancelOne(
+    workflowId: string,
+    rootId: string,
+    reason: string,
+    at: string,
+  ): string[] | undefined {
+    const state = this.requireWorkflow(workflowId);
+    const definition = this.definitionFor(state);
+    const current = definition?.states[state.current_state];
+    const finished =
+      current !== undefined && "type" in current && current.type === "terminal";
+    if (state.status === "cancelled" || finished) {
+      return undefined;
+    }
+
+    state.status = "cancelled";
+    state.cancellation = {
+      reason,
+      at,
+      ...(workflowId === rootId ? {} : { cascaded_from: asWorkflowId(rootId) }),
+    };
+    state.updated_at = at;
+    this.persist(state, "cancelled", { ...state.cancellation });
+    return Object.keys(definition?.roles ?? {}).map(
+      (role) => `${workflowId}-${role}`,
     );
+  }
+
+  /**
+   * Record a heartbeat of `agentId` (`<workflowId>-<role>`) in the store,
+   * beside the workflow state so it never conflicts with a concurrent save.
+   * Heartbeats from unknown agents are acknowledged but not stored.
+   */
+  heartbeat(agentId: string): { ok: true; agentId: string; at: string } {
+    const at = new Date().toISOString();
+    const state = this.workflowOfAgent(agentId);
+    if (state) {
+      this.store.recordHeartbeat(state.workflow_id, agentId, at);
+      this.events.emit(
+        this.domainEventsFor(state, [
+          { type: "heartbeat", details: { agent_id: agentId } },
+        ]),
+      );
+    }
+    return { ok: true, agentId, at };
+  }
+
+  /**
+   * The workflow `agentId` works for, found by loading each workflow ID the
+   * agent ID could start with rather than scanning every workflow.
+   */
+  private workflowOfAgent(agentId: string): WorkflowRuntimeState | undefined {
+    if (!/^[\w.-]+$/.test(agentId)) {
+      return undefined;
+    }
+    for (
+      let dash = agentId.indexOf("-");
+      dash > 0;
+      dash = agentId.indexOf("-", dash + 1)
+    ) {
+      const state = this.get(agentId.slice(0, dash));
+      const role = agentId.slice(dash + 1);
+      if (
+        state &&
+        Object.hasOwn(this.definitionFor(state)?.roles ?? {}, role)
+      ) {
+        return state;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Fail the current attempt of every running workflow whose state has
+   * outlived its `timeoutMs`. A timeout counts as a gate failure: it uses up
+   * a retry, and once `maxRetries` is exhausted the workflow takes
+   * `transitions.timeout`, else `transitions.fail`, else ESCALATE. A timed
+   * out subworkflow state cancels its child tree. The caller closes the
+   * returned agents and re-dispatches the workflows.
+   */
+  checkTimeouts(now: Date = new Date()): WorkflowTimeout[] {
+    const expired: WorkflowTimeout[] = [];
+    for (const listed of this.list({ paused: false })) {
+      // Reload: cancelling an earlier parent may have saved this workflow
+      const state = this.get(listed.workflow_id as unknown as string);
+      // Waiting on a human is not the state running late
+      if (!state || state.status === "cancelled" || state.pending_approval) {
+        continue;
+      }
+      const definition = this.definitionFor(state);
+      const current = definition?.states[state.current_state];
+      if (!definition || !current || !("timeoutMs" in current)) {
+        continue;
+      }
+      const timeoutMs = current.timeoutMs;
+      const historyEntry = state.history.at(-1);
+      if (timeoutMs === undefined || !historyEntry) {
+        continue;
+      }
+      // The clock starts once the scheduler lets the agent run
+      const token = dispatchToken(state);
+      if (state.queued_dispatches?.some((entry) => entry.token === token)) {
+        continue;
+      }
+      const launchedAt =
+        "assign" in current
+          ? state.agents?.[`${state.workflow_id}-${current.assign}`]
+              ?.launched_at
+          : undefined;
+      const startedAt = Math.max(
+        Date.parse(historyEntry.attempt_started_at ?? historyEntry.entered_at),
+        launchedAt ? Date.parse(launchedAt) : 0,
+      );
+      if (now.getTime() - startedAt < timeoutMs) {
+        continue;
+      }
+
+      const workflowId = state.workflow_id as unknown as string;
+      const timedOutState = state.current_state;
+      const reason = `Parent ${workflowId} timed out in ${timedOutState}`;
+      const agentIds =
+        "assign" in current ? [`${workflowId}-${current.assign}`] : [];
+      const childId = state.children?.[timedOutState];
+      if ("type" in current && current.type === "parallel") {
+        agentIds.push(...this.stopParallelBranches(state, reason));
+      } else if ("type" in current && current.type === "foreach") {
+        agentIds.push(...this.stopForeachItems(state, reason));
+      } else if (!("assign" in current) && childId) {
+        agentIds.push(
+          ...this.cancelChildTree(childId as unknown as string, reason),
+        );
+      }
+
+      const moved = this.failAttempt(
+        state,
+        current,
+        `Timed out after ${timeoutMs}ms in ${timedOutState}`,
+        ["timeout", "fail"],
+        "timeout",
+        now,
+        "timeout",
+      );
+      state.updated_at = now.toISOString();
+      this.persist(state, "timed_out", {
+        state: timedOutState,
+        timeout_ms: timeoutMs,
+        retries: state.retry_count,
+      });
+      expired.push({
+        workflowId,
+        state: timedOutState,
+        timeoutMs,
+        retries: state.retry_count,
+        ...(moved ? { to: state.current_state } : {}),
+        agentIds,
+      });
+    }
+    return expired;
+  }
+
+  /**
+   * Agents working on a running workflow whose last heartbeat (or dispatch)
+   * is older than `thresholdMs`.
+   */
+  staleAgents(
+    now: Date = new Date(),
+    thresholdMs = this.projectConfig?.heartbeatStaleMs ??
+      DEFAULT_HEARTBEAT_STALE_MS,
+  ): StaleAgent[] {
+    const stale: StaleAgent[] = [];
+    for (const state of this.list({ paused: false })) {
+      if (state.status === "cancelled" || state.pending_approval) {
+        continue;
+      }
+      const current = this.definitionFor(state)?.states[state.current_state];
+      const heartbeats = (state.metrics.heartbeats ?? {}) as Record<
+        string,
+        string
+      >;
+      for (const agentId of workingAgents(state, current)) {
+        const lastHeartbeat = heartbeats[agentId];
+        if (!lastHeartbeat) {
+          continue;
+        }
+        const idleMs = now.getTime() - Date.parse(lastHeartbeat);
+        if (idleMs >= thresholdMs) {
+          stale.push({
+            agentId,
+            workflowId: state.workflow_id,
+            state: state.current_state,
+            lastHeartbeat,
+            idleMs,
+          });
+        }
+      }
+    }
+    return stale;
+  }
+
+  /**
+   * Dispatch after a human changed the workflow, e.g. decided an approval.
+   * Autopilot reacts to the same change, so a workflow under it is left
+   * alone rather than dispatched twice.
+   */
+  async dispatchUnlessAutopilot(workflowId: string): Promise<{
+    dispatched: boolean;
+    details: string;
+    retryAt?: string;
+    autopilot?: true;
+  }> {
+    if (this.get(workflowId)?.autopilot) {
+      return {
+        dispatched: false,
+        details: `autopilot dispatches ${workflowId}`,
+        autopilot: true,
+      };
+    }
+    return this.dispatchCurrentState(workflowId);
+  }
+
+  /**
+   * Dispatch the workflow's current state. While a failed attempt backs off
+   * nothing is dispatched and `retryAt` says when to try again.
+   */
+  async dispatchCurrentState(
+    workflowId: string,
+  ): Promise<{ dispatched: boolean; details: string; retryAt?: string }> {
+    const state = this.requireWorkflow(workflowId);
+    if (state.status === "cancelled") {
+      return { dispatched: false, details: "Workflow is cancelled" };
+    }
+    if (state.pending_approval) {
+      return {
+        dispatched: false,
+        details: `Awaiting approval of ${state.pending_approval.state}: /orchestra approve ${workflowId} or /orchestra reject ${workflowId}`,
+      };
+    }
+
+    const definition = this.definitionFor(state);
     if (!definition) {
       throw new Error(`Unknown workflow definition for ${state.workflow_type}`);
     }
@@ -323,12 +1513,22 @@ export class WorkflowEngine {
       throw new Error(`Unknown state ${state.current_state}`);
     }
 
+    const retryAfter = state.history.at(-1)?.retry_after;
+    if (retryAfter && Date.parse(retryAfter) > Date.now()) {
+      return {
+        dispatched: false,
+        details: `Retry of ${state.current_state} backs off until ${retryAfter}`,
+        retryAt: retryAfter,
+      };
+    }
+
     // AgentState is the only variant without `type`
     if ("assign" in current) {
       return this.dispatchAgentState(workflowId, state, current, definition);
     }
 
     if (current.type === "terminal") {
+      await this.runTerminalAction(state);
       // Stryker disable next-line all: parent guard — completeChildWorkflow is safe to call with no parent (it has its own guard)
       if (state.parent) {
         await this.completeChildWorkflow(state);
@@ -340,10 +1540,7 @@ export class WorkflowEngine {
     }
 
     if (current.type === "action") {
-      for (const cmd of current.commands) {
-        await this.execCommand(cmd);
-      }
-      return { dispatched: false, details: "Action state commands executed" };
+      return this.dispatchActionState(workflowId, state, current);
     }
 
     // Stryker disable next-line all: discriminated union type check — tested structurally via subworkflow tests
@@ -351,6 +1548,14 @@ export class WorkflowEngine {
       return this.dispatchSubworkflow(workflowId, state, current, definition);
     }
 
+    if (current.type === "parallel") {
+      return this.dispatchParallelState(workflowId, state, current, definition);
+    }
+
+    if (current.type === "foreach") {
+      return this.dispatchForeachState(workflowId, state, current, definition);
+    }
+
     // Stryker disable next-line all: exhaustive guard — unreachable with current type system
     throw new Error(`State ${state.current_state} has unrecognized type`);
   }
@@ -360,8 +1565,11 @@ export class WorkflowEngine {
     state: WorkflowRuntimeState,
     current: AgentState,
     definition: WorkflowDefinition,
-  ): Promise<{ dispatched: boolean; details: string }> {
+    branch?: string,
+    usage?: SlotUsage,
+  ): Promise<{ dispatched: boolean; details: string; retryAt?: string }> {
     const baseRole = definition.roles[current.assign];
+    // Stryker disable next-line all: defensive guard — loadWorkflows() rejects definitions with undefined roles
     if (!baseRole) {
       throw new Error(`Role ${current.assign} not defined`);
     }
@@ -383,6 +1591,18 @@ export class WorkflowEngine {
     );
 
     const agentId = asAgentId(`${workflowId}-${current.assign}`);
+    const queued = this.queueIfBusy(
+      state,
+      agentId as unknown as string,
+      current.assign,
+      branch,
+      usage,
+    );
+    if (queued) {
+      return { dispatched: false, details: queued };
+    }
+    // Saved by whichever event the spawn records
+    const queuedAt = this.dequeue(state, agentId as unknown as string);
     const spawn = await this.spawnAgent({
       agentId: agentId as unknown as string,
       workflowId,
@@ -395,8 +1615,9 @@ export class WorkflowEngine {
     });
 
     if (spawn.code !== 0) {
+      const failedState = state.current_state;
       state.metrics.agent_spawn_failure = {
-        state: state.current_state,
+        state: failedState,
         role: current.assign,
         code: spawn.code,
         stderr: spawn.stderr,
@@ -404,20 +1625,158 @@ export class WorkflowEngine {
         command: spawn.command,
         at: new Date().toISOString(),
       };
-      state.updated_at = new Date().toISOString();
-      this.store.saveWorkflowState(state);
       const stderrText = spawn.stderr.length > 0 ? spawn.stderr : "(none)";
-      throw new Error(
-        `Failed to spawn agent ${agentId as unknown as string}: exit=${spawn.code} stderr=${stderrText}`,
+      const failure = `Failed to spawn agent ${agentId as unknown as string}: exit=${spawn.code} stderr=${stderrText}`;
+      const moved = this.failAttempt(
+        state,
+        current,
+        failure,
+        ["spawn_failed", "fail"],
+        "spawn_failed",
+        new Date(),
+        "spawn",
       );
+      state.updated_at = new Date().toISOString();
+      this.persist(
+        state,
+        "agent_spawn_failed",
+        state.metrics.agent_spawn_failure as Record<string, unknown>,
+      );
+      if (moved) {
+        const next = await this.dispatchCurrentState(workflowId);
+        return { ...next, details: `${failure}. ${next.details}` };
+      }
+      const retryAt = state.history.at(-1)?.retry_after;
+      return {
+        dispatched: false,
+        details: `${failure} (spawn failures: ${state.history.at(-1)?.failures?.spawn})`,
+        ...(retryAt ? { retryAt } : {}),
+      };
     }
 
+    if (spawn.handle) {
+      state.agents = {
+        ...state.agents,
+        [agentId as unknown as string]: spawn.handle,
+      };
+    }
+    // Dispatch counts as the first heartbeat so stale detection has a baseline
+    state.metrics.heartbeats = {
+      ...(state.metrics.heartbeats as Record<string, string> | undefined),
+      [agentId as unknown as string]: new Date().toISOString(),
+    };
+    try {
+      this.persist(state, "agent_dispatched", {
+        state: state.current_state,
+        agent_id: agentId,
+        role: current.assign,
+        ...(queuedAt ? { queued_at: queuedAt } : {}),
+      });
+    } catch (error) {
+      // No state records an agent whose dispatch lost a save race
+      if (isSaveConflict(error) && spawn.handle) {
+        await this.launcherFor(spawn.handle).stop(spawn.handle);
+      }
+      throw error;
+    }
     return {
       dispatched: true,
       details: `Dispatched ${agentId as unknown as string} for ${state.current_state}`,
     };
   }
 
+  /**
+   * Run an action state's commands, stopping at the first non-zero exit,
+   * then evaluate its command gate. Output is recorded in
+   * `evidence[state]`. A pass follows `transitions.pass`; a failure uses up
+   * a retry and, once `maxRetries` is exhausted, follows `transitions.fail`.
+   * Whatever state the workflow lands in is dispatched next.
+   */
+  private async dispatchActionState(
+    workflowId: string,
+    state: WorkflowRuntimeState,
+    current: ActionState,
+  ): Promise<{ dispatched: boolean; details: string }> {
+    const actionState = state.current_state;
+    const commands: ActionCommandResult[] = [];
+    let failure: string | undefined;
+    const scope = this.templateScope(state);
+    for (const template of current.commands) {
+      const rendered = this.renderCommand(template, scope);
+      const command = rendered.command;
+      const result =
+        "error" in rendered
+          ? { code: 127, stdout: "", stderr: rendered.error }
+          : await this.actionSlots.run(
+              this.projectConfig?.maxConcurrentActions,
+              () => this.execCommand(command),
+            );
+      commands.push({ command, ...result });
+      if (result.code !== 0) {
+        failure = `Command failed in ${actionState}: ${command} (exit ${result.code})`;
+        break;
+      }
+    }
+
+    let gate: VerificationResult | undefined;
+    if (!failure && current.gate) {
+      gate = await this.runVerification(
+        current.gate.verify,
+        this.templateScope(state),
+      );
+      const historyEntry = state.history.at(-1);
+      if (historyEntry) {
+        historyEntry.last_verification = gate;
+      }
+      if (!gate.passed) {
+        failure = `Gate verification failed for ${actionState}`;
+      }
+    }
+
+    const result = failure ? "fail" : "pass";
+    state.evidence[actionState] = {
+      commands,
+      ...(gate ? { gate } : {}),
+      result,
+      verified: !failure,
+      executed_at: new Date().toISOString(),
+    };
+
+    let moved = true;
+    if (failure) {
+      moved = this.failAttempt(state, current, failure, ["fail"], "fail");
+    } else {
+      const next = this.nextState(state, current, "pass", ["pass"]);
+      if (!next) {
+        throw new Error(`No transition for state ${actionState}`);
+      }
+      moved = this.advance(state, current, next, "pass");
+    }
+    state.updated_at = new Date().toISOString();
+    this.persist(state, failure ? "actions_failed" : "actions_executed", {
+      state: actionState,
+      commands: current.commands,
+      result,
+      ...(failure ? { failure, retries: state.retry_count } : {}),
+    });
+
+    if (!moved) {
+      return {
+        dispatched: false,
+        details: failure
+          ? `${failure} (retry ${state.retry_count})`
+          : `Action state commands executed for ${actionState}: pass, awaiting approval`,
+      };
+    }
+
+    const summary = `Action state commands executed for ${actionState}: ${result} -> ${state.current_state}`;
+    const next = await this.dispatchCurrentState(workflowId);
+    return {
+      dispatched: next.dispatched,
+      details: `${summary}. ${next.details}`,
+    };
+  }
+
   private async spawnAgent(input: {
     agentId: string;
     workflowId: string;
@@ -427,12 +1786,7 @@ export class WorkflowEngine {
     workflowDefinition: WorkflowDefinition;
     runtimeState: WorkflowRuntimeState;
     stateDefinition: AgentState;
-  }): Promise<{
-    code: number;
-    stdout: string;
-    stderr: string;
-    command: string;
-  }> {
+  }): Promise<AgentLaunchResult> {
     const runtimeDir = path.join(
       this.cwd,
       ".orchestra",
@@ -451,6 +1805,8 @@ export class WorkflowEngine {
         agentId: input.agentId,
         workflowId: input.workflowId,
         writable: input.roleDefinition.fileScope.writable,
+        state: input.state,
+        gate: input.stateDefinition.gate,
       }),
     );
 
@@ -483,65 +1839,1311 @@ export class WorkflowEngine {
     const sessionDir = path.join(runtimeDir, "session");
     fs.mkdirSync(sessionDir, { recursive: true });
 
-    const agentCommand = `pi --tools ${shellEscape(input.roleDefinition.tools.join(","))} -e ${shellEscape(scopePath)} --append-system-prompt ${shellEscape(promptPath)} --session-dir ${shellEscape(sessionDir)} @${shellEscape(taskPath)}`;
-    const quotedAgentCommand = `'${agentCommand}'`;
-    const command = `zellij action new-tab --name ${shellEscape(input.agentId)} --cwd ${shellEscape(this.cwd)} && zellij action write-chars ${quotedAgentCommand} && zellij action write 13`;
-    const result = await this.execCommand(command);
-    return { ...result, command };
+    return this.launcher.launch({
+      agentId: input.agentId,
+      cwd: this.cwd,
+      runtimeDir,
+      argv: [
+        "pi",
+        "--tools",
+        input.roleDefinition.tools.join(","),
+        "-e",
+        scopePath,
+        "--append-system-prompt",
+        promptPath,
+        "--session-dir",
+        sessionDir,
+        `@${taskPath}`,
+      ],
+    });
   }
 
-  private async dispatchSubworkflow(
-    parentWorkflowId: string,
-    parentState: WorkflowRuntimeState,
-    subDef: SubworkflowState,
-    parentDefinition: WorkflowDefinition,
-  ): Promise<{ dispatched: boolean; details: string }> {
-    // Resolve the child workflow name — literal or $slot reference
-    const childWorkflowType = resolveWorkflowSlot(
-      subDef.workflow,
-      parentState.params,
+  private createLauncher(kind: AgentLauncherKind | undefined): AgentLauncher {
+    return createAgentLauncher(kind, (command) => this.execCommand(command));
+  }
+
+  /** The handle of an agent's latest launch, from whichever workflow it works for. */
+  agentHandle(agentId: string): AgentHandle | undefined {
+    for (const state of this.list()) {
+      const handle = state.agents?.[agentId];
+      if (handle) {
+        return handle;
+      }
+    }
+    return undefined;
+  }
+
+  private launcherFor(handle: AgentHandle): AgentLauncher {
+    return handle.launcher === this.launcher.kind
+      ? this.launcher
+      : this.createLauncher(handle.launcher);
+  }
+
+  /** Stop an agent through the launcher that started it. */
+  async stopAgent(agentId: string): Promise<boolean> {
+    const handle = this.agentHandle(agentId);
+    return handle ? this.launcherFor(handle).stop(handle) : false;
+  }
+
+  /** Bring an agent's tab or window to the front, where the launcher has one. */
+  async focusAgent(agentId: string): Promise<boolean> {
+    const handle = this.agentHandle(agentId);
+    return handle ? this.launcherFor(handle).focus(handle) : false;
+  }
+
+  /** Ask each launcher whether the agents of running workflows are still up. */
+  async checkAgents(): Promise<AgentLiveness[]> {
+    const checked: AgentLiveness[] = [];
+    for (const state of this.list({ paused: false })) {
+      if (state.status === "cancelled" || state.pending_approval) {
+        continue;
+      }
+      const current = this.definitionFor(state)?.states[state.current_state];
+      for (const agentId of workingAgents(state, current)) {
+        const handle = state.agents?.[agentId];
+        if (!handle) {
+          continue;
+        }
+        checked.push({
+          agentId,
+          workflowId: state.workflow_id as unknown as string,
+          state: state.current_state,
+          handle,
+          alive: await this.launcherFor(handle).isAlive(handle),
+        });
+      }
+    }
+    return checked;
+  }
+
+  /** Put a workflow under autopilot. False when it already is. */
+  enrollAutopilot(workflowId: string): boolean {
+    const state = this.requireActiveWorkflow(workflowId);
+    if (state.autopilot) {
+      return false;
+    }
+    state.autopilot = { enrolled_at: new Date().toISOString() };
+    state.updated_at = state.autopilot.enrolled_at;
+    this.persist(state, "autopilot_enrolled");
+    return true;
+  }
+
+  /** Take a workflow off autopilot. False when it was not on it. */
+  withdrawAutopilot(workflowId: string, reason: string): boolean {
+    const state = this.get(workflowId);
+    if (!state?.autopilot) {
+      return false;
+    }
+    Reflect.deleteProperty(state, "autopilot");
+    state.updated_at = new Date().toISOString();
+    this.persist(state, "autopilot_withdrawn", { reason });
+    this.autopilotTicks.delete(workflowId);
+    return true;
+  }
+
+  /** Enrolled workflows with their last tick, dispatch and error. */
+  autopilotStatus(): AutopilotStatus[] {
+    return this.list().flatMap((state) => {
+      const autopilot = state.autopilot;
+      if (!autopilot) {
+        return [];
+      }
+      const workflowId = state.workflow_id as unknown as string;
+      const lastTickAt = this.autopilotTicks.get(workflowId);
+      return [
+        {
+          workflowId,
+          state: state.current_state,
+          enrolledAt: autopilot.enrolled_at,
+          ...(lastTickAt ? { lastTickAt } : {}),
+          ...(autopilot.last_dispatch_at
+            ? { lastDispatchAt: autopilot.last_dispatch_at }
+            : {}),
+          ...(autopilot.last_error ? { lastError: autopilot.last_error } : {}),
+        },
+      ];
+    });
+  }
+
+  /**
+   * Advance an enrolled workflow by one step: dispatch each attempt of the
+   * current state once, dispatch it again when the agent working on it is
+   * gone, and withdraw once the workflow is terminal or cancelled. A save
+   * that lost a race waits for the next tick; other errors are recorded on
+   * the enrollment and rethrown.
+   */
+  async autopilotTick(workflowId: string): Promise<AutopilotTick> {
+    this.autopilotTicks.set(workflowId, new Date().toISOString());
+    const state = this.get(workflowId);
+    if (!state?.autopilot) {
+      return { workflowId, action: "withdrawn", details: "not enrolled" };
+    }
+    if (state.status === "cancelled") {
+      this.withdrawAutopilot(workflowId, "cancelled");
+      return { workflowId, action: "withdrawn", details: "cancelled" };
+    }
+    if (state.paused || state.pending_approval) {
+      return {
+        workflowId,
+        action: "waiting",
+        details: state.paused ? "paused" : "awaiting approval",
+      };
+    }
+
+    try {
+      const current = this.definitionFor(state)?.states[state.current_state];
+      if (current && "type" in current && current.type === "terminal") {
+        // Runs the terminal action if nothing has dispatched the state yet
+        const result = await this.dispatchCurrentState(workflowId);
+        this.withdrawAutopilot(workflowId, "terminal");
+        return { workflowId, action: "completed", details: result.details };
+      }
+
+      const token = dispatchToken(state);
+      const redispatches =
+        state.autopilot.token === token
+          ? (state.autopilot.redispatches ?? 0)
+          : 0;
+      if (state.autopilot.token === token) {
+        const gone = await this.goneAgent(state, current);
+        if (!gone) {
+          return { workflowId, action: "waiting", details: token };
+        }
+        if (redispatches >= MAX_AUTOPILOT_REDISPATCHES) {
+          const error = `agent ${gone} is gone after ${redispatches} redispatches`;
+          if (state.autopilot.last_error !== error) {
+            this.recordAutopilot(state, { last_error: error });
+          }
+          return { workflowId, action: "waiting", details: error };
+        }
+      }
+
+      const result = await this.dispatchCurrentState(workflowId);
+      // A backed-off retry is dispatched on a later tick
+      if (result.retryAt) {
+        return {
+          workflowId,
+          action: "waiting",
+          details: result.details,
+          retryAt: result.retryAt,
+        };
+      }
+      const redispatched = state.autopilot.token === token;
+      const after = this.get(workflowId);
+      if (after?.autopilot) {
+        this.recordAutopilot(after, {
+          token,
+          last_dispatch_at: new Date().toISOString(),
+          ...(redispatched ? { redispatches: redispatches + 1 } : {}),
+        });
+      }
+      return {
+        workflowId,
+        action: redispatched ? "redispatched" : "dispatched",
+        details: result.details,
+      };
+    } catch (error) {
+      // The writer that won saved a change, which triggers another tick
+      if (isSaveConflict(error)) {
+        return { workflowId, action: "waiting", details: error.message };
+      }
+      const latest = this.get(workflowId);
+      if (latest?.autopilot) {
+        this.recordAutopilot(latest, {
+          last_error: error instanceof Error ? error.message : String(error),
+        });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * The agent of an agent state whose launcher says it is no longer up.
+   * Agents launched before handles were recorded, and agents still queued
+   * for a slot, are not gone.
+   */
+  private async goneAgent(
+    state: WorkflowRuntimeState,
+    current: WorkflowStateDefinition | undefined,
+  ): Promise<string | undefined> {
+    if (!current || !("assign" in current)) {
+      return undefined;
+    }
+    const [agentId] = workingAgents(state, current);
+    const token = dispatchToken(state);
+    const queued = state.queued_dispatches?.some(
+      (entry) => entry.agent_id === agentId && entry.token === token,
     );
+    const handle = agentId ? state.agents?.[agentId] : undefined;
+    if (queued || !handle || (await this.launcherFor(handle).isAlive(handle))) {
+      return undefined;
+    }
+    return agentId;
+  }
 
-    const childDefinition = this.workflows.get(childWorkflowType);
-    if (!childDefinition) {
-      throw new Error(
-        `Subworkflow "${childWorkflowType}" not found (resolved from "${subDef.workflow}")`,
+  /**
+   * Replace the enrollment's bookkeeping: a new token resets the
+   * redispatch count, and a dispatch clears the last error.
+   */
+  private recordAutopilot(
+    state: WorkflowRuntimeState,
+    update: Partial<AutopilotEnrollment>,
+  ): void {
+    const previous = state.autopilot as AutopilotEnrollment;
+    const dispatched = update.last_dispatch_at !== undefined;
+    const {
+      last_error: _error,
+      redispatches: _redispatches,
+      ...kept
+    } = previous;
+    state.autopilot = {
+      ...(dispatched ? kept : previous),
+      ...update,
+    };
+    state.updated_at = new Date().toISOString();
+    this.persist(
+      state,
+      update.last_error !== undefined
+        ? "autopilot_failed"
+        : "autopilot_dispatched",
+      update.last_error !== undefined
+        ? { error: update.last_error }
+        : { token: update.token, redispatches: update.redispatches ?? 0 },
+    );
+  }
+
+  /** Change the priority a workflow's queued dispatches are ordered by. */
+  setPriority(workflowId: string, priority: number): WorkflowRuntimeState {
+    const state = this.requireActiveWorkflow(workflowId);
+    const previous = state.priority ?? 0;
+    if (priority === 0) {
+      Reflect.deleteProperty(state, "priority");
+    } else {
+      state.priority = priority;
+    }
+    state.updated_at = new Date().toISOString();
+    this.persist(state, "priority_changed", { from: previous, to: priority });
+    return state;
+  }
+
+  /**
+   * Queued dispatches in the order the scheduler takes them: highest
+   * workflow priority first, then oldest first. Dispatches of an attempt
+   * that is over are left out.
+   */
+  dispatchQueue(states = this.list()): QueuedAgentDispatch[] {
+    return states
+      .filter((state) => state.status !== "cancelled")
+      .flatMap((state) => {
+        const token = dispatchToken(state);
+        return (state.queued_dispatches ?? [])
+          .filter((entry) => entry.token === token)
+          .map(
+            (entry): QueuedAgentDispatch => ({
+              workflowId: state.workflow_id as unknown as string,
+              agentId: entry.agent_id,
+              role: entry.role,
+              state: entry.state,
+              ...(entry.branch !== undefined ? { branch: entry.branch } : {}),
+              priority: state.priority ?? 0,
+              queuedAt: entry.queued_at,
+              reason: entry.reason,
+            }),
+          );
+      })
+      .sort(
+        (a, b) =>
+          b.priority - a.priority || a.queuedAt.localeCompare(b.queuedAt),
+      );
+  }
+
+  /** Running agents per role against the configured caps, and the queue. */
+  schedulerStatus(): SchedulerStatus {
+    const states = this.list();
+    const running = this.runningAgents(states);
+    const limits = this.projectConfig?.roleConcurrency ?? {};
+    const roles = [
+      ...new Set([...Object.keys(limits), ...running.map(({ role }) => role)]),
+    ].sort();
+    const maxAgents = this.projectConfig?.maxConcurrentAgents;
+    return {
+      running: running.length,
+      ...(maxAgents !== undefined ? { maxAgents } : {}),
+      roles: roles.map((role) => {
+        const limit = limits[role];
+        return {
+          role,
+          running: running.filter((agent) => agent.role === role).length,
+          ...(limit !== undefined ? { limit } : {}),
+        };
+      }),
+      queue: this.dispatchQueue(states),
+      commands: [
+        this.verificationSlots.status(
+          "verification",
+          this.projectConfig?.maxConcurrentVerifications,
+        ),
+        this.actionSlots.status(
+          "action",
+          this.projectConfig?.maxConcurrentActions,
+        ),
+      ],
+    };
+  }
+
+  /**
+   * Dispatch queued agents in queue order while the caps allow, and drop
+   * queued dispatches of attempts that are over. The engine drains after
+   * every event that can free a slot; a call during a drain runs another
+   * pass once it finishes. Returns what was dispatched.
+   */
+  async drainDispatchQueue(): Promise<string[]> {
+    if (this.draining) {
+      this.drainAgain = true;
+      return [];
+    }
+    this.draining = true;
+    const dispatched: string[] = [];
+    try {
+      do {
+        this.drainAgain = false;
+        dispatched.push(...(await this.drainOnce()));
+      } while (this.drainAgain);
+    } finally {
+      this.draining = false;
+    }
+    return dispatched;
+  }
+
+  private async drainOnce(): Promise<string[]> {
+    if (!this.hasConcurrencyCaps()) {
+      return [];
+    }
+    const states = this.list();
+    for (const state of states) {
+      this.dropStaleDispatches(state);
+    }
+    // Counted once; each dispatch below updates the counts it changes
+    const usage = this.slotUsage(states);
+    const dispatched: string[] = [];
+    for (const entry of [...usage.queue]) {
+      const state = this.requireWorkflow(entry.workflowId);
+      if (state.paused || state.pending_approval) {
+        continue;
+      }
+      const definition = this.definitionFor(state);
+      const current = definition?.states[state.current_state];
+      let agentState: AgentState | undefined;
+      if (current && "assign" in current) {
+        agentState = current;
+      } else if (current?.type === "parallel" && entry.branch !== undefined) {
+        const branch = current.branches[entry.branch];
+        agentState =
+          branch && "assign" in branch
+            ? branchAgentState(current, branch)
+            : undefined;
+      }
+      if (!definition || !agentState) {
+        continue;
+      }
+      const result = await this.dispatchAgentState(
+        entry.workflowId,
+        state,
+        agentState,
+        definition,
+        entry.branch,
+        usage,
+      );
+      if (result.dispatched) {
+        dispatched.push(result.details);
+      }
+    }
+    return dispatched;
+  }
+
+  private dropStaleDispatches(state: WorkflowRuntimeState): void {
+    const queued = state.queued_dispatches;
+    if (!queued) {
+      return;
+    }
+    const token = dispatchToken(state);
+    const live =
+      state.status === "cancelled"
+        ? []
+        : queued.filter((entry) => entry.token === token);
+    if (live.length === queued.length) {
+      return;
+    }
+    if (live.length > 0) {
+      state.queued_dispatches = live;
+    } else {
+      Reflect.deleteProperty(state, "queued_dispatches");
+    }
+    state.updated_at = new Date().toISOString();
+    this.persist(state, "dispatch_dropped", {
+      agent_ids: queued
+        .filter((entry) => !live.includes(entry))
+        .map((entry) => entry.agent_id),
+      reason: state.status === "cancelled" ? "cancelled" : "attempt over",
+    });
+  }
+
+  private hasConcurrencyCaps(): boolean {
+    return (
+      this.projectConfig?.maxConcurrentAgents !== undefined ||
+      Object.keys(this.projectConfig?.roleConcurrency ?? {}).length > 0
+    );
+  }
+
+  /** Agents holding a slot: launched for a live workflow's current state. */
+  private runningAgents(
+    states: WorkflowRuntimeState[],
+  ): Array<{ agentId: string; role: string }> {
+    return states
+      .filter(
+        (state) => state.status !== "cancelled" && !state.pending_approval,
+      )
+      .flatMap((state) =>
+        launchedAgents(
+          state,
+          this.definitionFor(state)?.states[state.current_state],
+        ),
+      );
+  }
+
+  private slotUsage(states = this.list()): SlotUsage {
+    return {
+      running: this.runningAgents(states),
+      queue: this.dispatchQueue(states),
+    };
+  }
+
+  /**
+   * Queue a dispatch while the caps are taken, counting running agents and
+   * the queued dispatches ahead of it in `usage`, or in the stored
+   * workflows when the caller has no counts. Returns why it waits;
+   * undefined when it may go ahead, after taking its slot in `usage`. The
+   * agent's own earlier launch does not count, so a redispatch replaces it.
+   */
+  private queueIfBusy(
+    state: WorkflowRuntimeState,
+    agentId: string,
+    role: string,
+    branch: string | undefined,
+    usage?: SlotUsage,
+  ): string | undefined {
+    if (!this.hasConcurrencyCaps()) {
+      return undefined;
+    }
+    const counts = usage ?? this.slotUsage();
+    const token = dispatchToken(state);
+    const existing = state.queued_dispatches?.find(
+      (entry) => entry.agent_id === agentId && entry.token === token,
+    );
+    const running = counts.running.filter((agent) => agent.agentId !== agentId);
+    // A new dispatch goes behind everything of its priority or higher
+    const queue = counts.queue;
+    const position = existing
+      ? queue.findIndex((entry) => entry.agentId === agentId)
+      : -1;
+    const ahead =
+      position >= 0
+        ? queue.slice(0, position)
+        : queue.filter((entry) => entry.priority >= (state.priority ?? 0));
+    const maxAgents = this.projectConfig?.maxConcurrentAgents;
+    const roleLimit = this.projectConfig?.roleConcurrency?.[role];
+    const sameRole = (agent: { role: string }) => agent.role === role;
+    const reason =
+      maxAgents !== undefined && running.length + ahead.length >= maxAgents
+        ? `${running.length}/${maxAgents} agents running, ${ahead.length} queued ahead`
+        : roleLimit !== undefined &&
+            running.filter(sameRole).length + ahead.filter(sameRole).length >=
+              roleLimit
+          ? `${running.filter(sameRole).length}/${roleLimit} ${role} agents running, ${ahead.filter(sameRole).length} queued ahead`
+          : undefined;
+    if (!reason) {
+      counts.running = [...running, { agentId, role }];
+      counts.queue = queue.filter((entry) => entry.agentId !== agentId);
+      return undefined;
+    }
+    const details = `Queued ${agentId} for ${state.current_state}: ${reason}`;
+    if (existing) {
+      return details;
+    }
+    state.queued_dispatches = [
+      ...(state.queued_dispatches ?? []).filter(
+        (entry) => entry.token === token,
+      ),
+      {
+        agent_id: agentId,
+        role,
+        state: state.current_state,
+        ...(branch !== undefined ? { branch } : {}),
+        token,
+        queued_at: new Date().toISOString(),
+        reason,
+      },
+    ];
+    state.updated_at = new Date().toISOString();
+    this.persist(state, "dispatch_queued", {
+      state: state.current_state,
+      agent_id: agentId,
+      role,
+      ...(branch !== undefined ? { branch } : {}),
+      reason,
+    });
+    return details;
+  }
+
+  /** Take an agent out of the workflow's queue; returns when it was queued. */
+  private dequeue(
+    state: WorkflowRuntimeState,
+    agentId: string,
+  ): string | undefined {
+    const queued = state.queued_dispatches;
+    const entry = queued?.find((candidate) => candidate.agent_id === agentId);
+    if (!queued || !entry) {
+      return undefined;
+    }
+    const rest = queued.filter((candidate) => candidate !== entry);
+    if (rest.length > 0) {
+      state.queued_dispatches = rest;
+    } else {
+      Reflect.deleteProperty(state, "queued_dispatches");
+    }
+    return entry.queued_at;
+  }
+
+  private async dispatchSubworkflow(
+    parentWorkflowId: string,
+    parentState: WorkflowRuntimeState,
+    subDef: Pick<SubworkflowState, "workflow" | "inputMap">,
+    parentDefinition: WorkflowDefinition,
+    link?: { branch: string } | { item: number; value: unknown },
+  ): Promise<{ dispatched: boolean; details: string; retryAt?: string }> {
+    const branch = link && "branch" in link ? link.branch : undefined;
+    const item = link && "item" in link ? link.item : undefined;
+    // Resolve the child workflow name — literal or $slot reference
+    const childWorkflowType = resolveWorkflowSlot(
+      subDef.workflow,
+      parentState.params,
+    );
+
+    const childDefinition = this.workflows.get(childWorkflowType);
+    if (!childDefinition) {
+      throw new Error(
+        `Subworkflow "${childWorkflowType}" not found (resolved from "${subDef.workflow}")`,
+      );
+    }
+
+    // Build child params from inputMap; foreach items can also read `item`
+    const scope =
+      link && "item" in link
+        ? { ...parentState, item: link.value, item_index: link.item }
+        : parentState;
+    // Inputs from skipped states are left out rather than passed as undefined
+    const childParams = Object.fromEntries(
+      Object.entries(resolveInputMap(subDef.inputMap ?? {}, scope)).filter(
+        ([, value]) => value !== undefined,
+      ),
+    );
+
+    // Start the child workflow — invalid child params fail the parent state
+    let childState: WorkflowRuntimeState;
+    try {
+      // Children compete for agent slots at their parent's priority
+      childState = this.start(
+        childWorkflowType,
+        childParams,
+        parentState.priority ? { priority: parentState.priority } : {},
+      );
+    } catch (error) {
+      if (!(error instanceof WorkflowParamsError)) {
+        throw error;
+      }
+      parentState.metrics.subworkflow_param_failure = {
+        state: parentState.current_state,
+        workflow: childWorkflowType,
+        errors: error.errors,
+        at: new Date().toISOString(),
+      };
+      parentState.updated_at = new Date().toISOString();
+      return this.failChildStart(
+        parentWorkflowId,
+        parentState,
+        parentDefinition,
+        error.message,
+        link,
+      );
+    }
+
+    // Record the parent → child link
+    childState.parent = {
+      workflow_id: parentState.workflow_id,
+      state: parentState.current_state,
+      ...(branch !== undefined ? { branch } : {}),
+      ...(item !== undefined ? { item } : {}),
+    };
+    this.persist(childState, "parent_linked", { ...childState.parent });
+
+    // Stryker disable next-line all: lazy initialization guard
+    if (!parentState.children) {
+      parentState.children = {};
+    }
+    const suffix = branch ?? item;
+    const childKey =
+      suffix !== undefined
+        ? `${parentState.current_state}.${suffix}`
+        : parentState.current_state;
+    parentState.children[childKey] = childState.workflow_id;
+    const progress =
+      branch !== undefined
+        ? parentState.parallel?.branches[branch]
+        : item !== undefined
+          ? parentState.foreach?.items[item]
+          : undefined;
+    if (progress) {
+      progress.child_workflow_id = childState.workflow_id;
+    }
+    parentState.updated_at = new Date().toISOString();
+    this.persist(parentState, "subworkflow_started", {
+      state: parentState.current_state,
+      ...(branch !== undefined ? { branch } : {}),
+      ...(item !== undefined ? { item } : {}),
+      child_workflow_id: childState.workflow_id,
+      child_workflow_type: childWorkflowType,
+    });
+
+    // Dispatch the child's first state
+    const childDispatch = await this.dispatchCurrentState(
+      childState.workflow_id as unknown as string,
+    );
+
+    return {
+      dispatched: true,
+      details: `Subworkflow ${childState.workflow_id} (${childWorkflowType}) started for ${parentState.current_state}. Child dispatch: ${childDispatch.details}`,
+    };
+  }
+
+  /**
+   * Fail where a child that could not start would have run: the parallel
+   * branch or foreach item it was for, or an attempt of the subworkflow
+   * state, which then retries or takes `transitions.failure`.
+   */
+  private async failChildStart(
+    workflowId: string,
+    state: WorkflowRuntimeState,
+    definition: WorkflowDefinition,
+    failure: string,
+    link?: { branch: string } | { item: number; value: unknown },
+  ): Promise<{ dispatched: boolean; details: string; retryAt?: string }> {
+    const current = definition.states[state.current_state];
+    const details = state.metrics.subworkflow_param_failure as Record<
+      string,
+      unknown
+    >;
+    const progress =
+      link && "branch" in link
+        ? state.parallel?.branches[link.branch]
+        : link && "item" in link
+          ? state.foreach?.items[link.item]
+          : undefined;
+    if (link && progress && current && "type" in current) {
+      progress.status = "failed";
+      this.persist(state, "subworkflow_param_failed", {
+        ...details,
+        ...link,
+      });
+      const settled =
+        current.type === "parallel"
+          ? await this.joinParallel(state, current)
+          : current.type === "foreach"
+            ? await this.settleForeach(state, current)
+            : "pending";
+      if (settled !== "pending") {
+        await this.dispatchCurrentState(workflowId);
+      }
+      return { dispatched: false, details: failure };
+    }
+
+    if (!current || !("type" in current) || current.type !== "subworkflow") {
+      throw new Error(failure);
+    }
+    const moved = this.failAttempt(
+      state,
+      current,
+      failure,
+      ["failure", "fail"],
+      "failure",
+    );
+    this.persist(state, "subworkflow_param_failed", details);
+    if (moved) {
+      const next = await this.dispatchCurrentState(workflowId);
+      return { ...next, details: `${failure}. ${next.details}` };
+    }
+    const retryAt = state.history.at(-1)?.retry_after;
+    return {
+      dispatched: false,
+      details: failure,
+      ...(retryAt ? { retryAt } : {}),
+    };
+  }
+
+  /**
+   * Fan out every branch of a parallel state. Dispatching again during the
+   * same attempt only reports the branches still running; a retry (new
+   * `attempt_started_at`) fans out afresh.
+   */
+  private async dispatchParallelState(
+    workflowId: string,
+    state: WorkflowRuntimeState,
+    current: ParallelState,
+    definition: WorkflowDefinition,
+  ): Promise<{ dispatched: boolean; details: string }> {
+    const parallelState = state.current_state;
+    const entry = state.history.at(-1) as WorkflowStateHistory;
+    const startedAt = entry.attempt_started_at ?? entry.entered_at;
+    if (
+      state.parallel?.state === parallelState &&
+      state.parallel.started_at === startedAt
+    ) {
+      const running = Object.entries(state.parallel.branches)
+        .filter(([, progress]) => progress.status === "running")
+        .map(([name]) => name);
+      return {
+        dispatched: false,
+        details: `Parallel state ${parallelState} waiting on ${running.length} branches: ${running.join(", ")}`,
+      };
+    }
+
+    const names = Object.keys(current.branches);
+    state.parallel = {
+      state: parallelState,
+      started_at: startedAt,
+      branches: Object.fromEntries(
+        names.map((name) => [name, { status: "running", retries: 0 }]),
+      ),
+    };
+    state.evidence[parallelState] = {};
+    state.updated_at = new Date().toISOString();
+    this.persist(state, "parallel_started", {
+      state: parallelState,
+      branches: names,
+      join: current.join ?? "all",
+    });
+
+    const details: string[] = [];
+    for (const [name, branch] of Object.entries(current.branches)) {
+      // A branch child that finished immediately may have saved (or even
+      // joined) the parent, so work from the stored state
+      const latest = this.requireWorkflow(workflowId);
+      if (
+        latest.parallel?.started_at !== startedAt ||
+        latest.parallel.state !== latest.current_state ||
+        latest.parallel.branches[name]?.status !== "running"
+      ) {
+        continue;
+      }
+
+      if ("assign" in branch) {
+        (latest.parallel.branches[name] as ParallelBranchProgress).agent_id =
+          `${workflowId}-${branch.assign}`;
+        const dispatch = await this.dispatchAgentState(
+          workflowId,
+          latest,
+          branchAgentState(current, branch),
+          definition,
+          name,
+        );
+        details.push(`${name}: ${dispatch.details}`);
+      } else {
+        const dispatch = await this.dispatchSubworkflow(
+          workflowId,
+          latest,
+          branch,
+          definition,
+          { branch: name },
+        );
+        details.push(`${name}: ${dispatch.details}`);
+      }
+    }
+
+    return {
+      dispatched: true,
+      details: `Parallel state ${parallelState} dispatched ${names.length} branches. ${details.join("; ")}`,
+    };
+  }
+
+  /** Record evidence from the agent working one branch of a parallel state. */
+  private async applyBranchEvidence(
+    state: WorkflowRuntimeState,
+    current: ParallelState,
+    submission: EvidenceSubmission,
+  ): Promise<Record<string, unknown>> {
+    const workflowId = state.workflow_id as unknown as string;
+    const match = Object.entries(current.branches).find(
+      ([, branch]) =>
+        "assign" in branch &&
+        `${workflowId}-${branch.assign}` === submission.submitted_by,
+    ) as [string, ParallelAgentBranch] | undefined;
+    const progress =
+      match && state.parallel?.state === state.current_state
+        ? state.parallel.branches[match[0]]
+        : undefined;
+    if (!match || progress?.status !== "running") {
+      const reason = `Evidence for ${state.current_state} must come from the agent of a running branch`;
+      this.journal(state, "evidence_rejected", {
+        ...describeSubmission(submission),
+        reason,
+      });
+      return { workflowId, status: "rejected", reason };
+    }
+
+    const [name, branch] = match;
+    const key = `${state.current_state}.${name}`;
+    const gate = await this.checkGate(state, branch.gate, key, submission);
+    if (gate.validation) {
+      return this.rejectInvalidEvidence(
+        state,
+        key,
+        submission,
+        gate.validation,
+      );
+    }
+
+    const passed =
+      gate.verified &&
+      (branch.passOn
+        ? branch.passOn.includes(submission.result)
+        : submission.result !== "fail");
+    if (gate.verified) {
+      progress.status = passed ? "passed" : "failed";
+    } else {
+      progress.retries += 1;
+      if (progress.retries >= (branch.maxRetries ?? 1)) {
+        progress.status = "failed";
+      }
+    }
+    setEvidence(state, key, {
+      ...submission.evidence,
+      result: submission.result,
+      verified: gate.verified,
+      ...(gate.verification ? { verification: gate.verification } : {}),
+      submitted_by: submission.submitted_by,
+      submitted_at: new Date().toISOString(),
+    });
+    state.updated_at = new Date().toISOString();
+    this.persist(state, passed ? "branch_passed" : "branch_failed", {
+      ...describeSubmission(submission),
+      branch: name,
+      status: progress.status,
+      retries: progress.retries,
+    });
+
+    const from = state.current_state;
+    const decision = await this.joinParallel(state, current);
+    await this.runTerminalAction(state);
+    return {
+      workflowId,
+      status:
+        decision === "pending" ? (passed ? "accepted" : "failed") : "joined",
+      branch: name,
+      branch_status: progress.status,
+      join: decision,
+      from,
+      state: state.current_state,
+    };
+  }
+
+  private async completeParallelBranch(
+    parentState: WorkflowRuntimeState,
+    parentStateDef: ParallelState,
+    childState: WorkflowRuntimeState,
+    childResult: string,
+  ): Promise<void> {
+    const link = childState.parent;
+    const progress =
+      link?.branch !== undefined &&
+      parentState.current_state === link.state &&
+      parentState.parallel?.state === link.state
+        ? parentState.parallel.branches[link.branch]
+        : undefined;
+    if (
+      !link?.branch ||
+      progress?.status !== "running" ||
+      progress.child_workflow_id !== childState.workflow_id
+    ) {
+      return;
+    }
+
+    progress.status = childResult === "success" ? "passed" : "failed";
+    setEvidence(parentState, `${link.state}.${link.branch}`, {
+      child_workflow_id: childState.workflow_id,
+      child_workflow_type: childState.workflow_type,
+      child_result: childResult,
+      child_evidence: childState.evidence,
+    });
+    parentState.updated_at = new Date().toISOString();
+    this.persist(parentState, "child_completed", {
+      state: link.state,
+      branch: link.branch,
+      child_workflow_id: childState.workflow_id,
+      child_result: childResult,
+    });
+
+    if ((await this.joinParallel(parentState, parentStateDef)) !== "pending") {
+      await this.dispatchCurrentState(
+        parentState.workflow_id as unknown as string,
+      );
+    }
+  }
+
+  /**
+   * Apply the join policy to the branch results so far. Once decided, the
+   * remaining branches are stopped and their agent tabs closed, then the
+   * state passes, or fails through the retry budget like a failed gate.
+   */
+  private async joinParallel(
+    state: WorkflowRuntimeState,
+    current: ParallelState,
+  ): Promise<"pass" | "fail" | "pending"> {
+    const branches = state.parallel?.branches ?? {};
+    const decision = evaluateJoin(
+      current.join,
+      Object.values(branches).map((progress) => progress.status),
+    );
+    if (decision === "pending") {
+      return decision;
+    }
+
+    const joinedState = state.current_state;
+    const outcome = Object.fromEntries(
+      Object.entries(branches).map(([name, progress]) => [
+        name,
+        progress.status,
+      ]),
+    );
+    const agentIds = this.stopParallelBranches(
+      state,
+      `Parallel state ${joinedState} in ${state.workflow_id} joined: ${decision}`,
+    );
+    if (decision === "pass") {
+      const next = this.nextState(state, current, "pass", ["pass"]);
+      if (!next) {
+        throw new Error(`No transition for state ${joinedState}`);
+      }
+      this.advance(state, current, next, "pass");
+    } else {
+      this.failAttempt(
+        state,
+        current,
+        `Parallel branches of ${joinedState} cannot meet the ${describeJoinPolicy(current.join)} join`,
+        ["fail"],
+        "fail",
+      );
+    }
+    state.updated_at = new Date().toISOString();
+    this.persist(state, "parallel_joined", {
+      state: joinedState,
+      decision,
+      branches: outcome,
+    });
+    for (const agentId of agentIds) {
+      await this.stopAgent(agentId);
+    }
+    return decision;
+  }
+
+  /**
+   * Cancel the branches of the current parallel attempt that are still
+   * running, including their child workflow trees. Returns every branch
+   * agent and every agent of a cancelled child, whose tabs should close.
+   */
+  private stopParallelBranches(
+    state: WorkflowRuntimeState,
+    reason: string,
+  ): string[] {
+    const agentIds: string[] = [];
+    for (const progress of Object.values(state.parallel?.branches ?? {})) {
+      if (progress.agent_id) {
+        agentIds.push(progress.agent_id);
+      }
+      if (progress.status !== "running") {
+        continue;
+      }
+      progress.status = "cancelled";
+      if (progress.child_workflow_id) {
+        agentIds.push(
+          ...this.cancelChildTree(
+            progress.child_workflow_id as unknown as string,
+            reason,
+          ),
+        );
+      }
+    }
+    return agentIds;
+  }
+
+  /**
+   * Start (or retry) a foreach state and launch items up to its concurrency.
+   * The item list is read once per entry; a retry reruns only the items that
+   * did not pass. Dispatching again mid-attempt just tops up the running
+   * children.
+   */
+  private async dispatchForeachState(
+    workflowId: string,
+    state: WorkflowRuntimeState,
+    current: ForeachState,
+    definition: WorkflowDefinition,
+  ): Promise<{ dispatched: boolean; details: string }> {
+    const foreachState = state.current_state;
+    const entry = state.history.at(-1) as WorkflowStateHistory;
+    const startedAt = entry.attempt_started_at ?? entry.entered_at;
+    const previous =
+      state.foreach?.state === foreachState &&
+      state.foreach.entered_at === entry.entered_at
+        ? state.foreach
+        : undefined;
+
+    if (previous?.started_at !== startedAt) {
+      if (previous) {
+        for (const progress of previous.items) {
+          if (progress.status !== "passed") {
+            progress.status = "pending";
+            Reflect.deleteProperty(progress, "child_workflow_id");
+          }
+        }
+        previous.started_at = startedAt;
+      } else {
+        const items = getByDottedPath(state, current.items);
+        if (!Array.isArray(items)) {
+          const failure = `Foreach items "${current.items}" of ${foreachState} is not an array`;
+          this.failAttempt(
+            state,
+            current,
+            failure,
+            ["failure", "fail"],
+            "failure",
+          );
+          state.updated_at = new Date().toISOString();
+          this.persist(state, "foreach_failed", {
+            state: foreachState,
+            reason: failure,
+          });
+          await this.runTerminalAction(state);
+          return { dispatched: false, details: failure };
+        }
+        state.foreach = {
+          state: foreachState,
+          entered_at: entry.entered_at,
+          started_at: startedAt,
+          items: items.map((item) => ({ item, status: "pending" })),
+        };
+        state.evidence[foreachState] = { items: [] };
+      }
+      state.updated_at = new Date().toISOString();
+      this.persist(state, "foreach_started", {
+        state: foreachState,
+        items: state.foreach?.items.length ?? 0,
+        concurrency: current.concurrency ?? 1,
+      });
+      // An empty list succeeds without launching anything
+      if ((await this.settleForeach(state, current)) !== "pending") {
+        return this.dispatchCurrentState(workflowId);
+      }
+    }
+
+    const launched = await this.launchForeachItems(
+      workflowId,
+      current,
+      definition,
+    );
+    const items = this.requireWorkflow(workflowId).foreach?.items ?? [];
+    const passed = items.filter((progress) => progress.status === "passed");
+    return {
+      dispatched: launched.length > 0,
+      details: `Foreach state ${foreachState}: ${passed.length}/${items.length} items passed.${launched.length > 0 ? ` ${launched.join("; ")}` : ""}`,
+    };
+  }
+
+  /** Start pending items until `concurrency` children are running. */
+  private async launchForeachItems(
+    workflowId: string,
+    current: ForeachState,
+    definition: WorkflowDefinition,
+  ): Promise<string[]> {
+    const details: string[] = [];
+    for (;;) {
+      // A child that finished immediately may have saved the parent (and
+      // launched the next item itself), so work from the stored state
+      const latest = this.requireWorkflow(workflowId);
+      const items =
+        latest.status !== "cancelled" &&
+        latest.foreach?.state === latest.current_state
+          ? latest.foreach.items
+          : [];
+      const running = items.filter((progress) => progress.status === "running");
+      const index = items.findIndex(
+        (progress) => progress.status === "pending",
+      );
+      const progress = items[index];
+      if (!progress || running.length >= (current.concurrency ?? 1)) {
+        return details;
+      }
+      progress.status = "running";
+      const dispatch = await this.dispatchSubworkflow(
+        workflowId,
+        latest,
+        current,
+        definition,
+        { item: index, value: progress.item },
+      );
+      details.push(`item ${index}: ${dispatch.details}`);
+    }
+  }
+
+  private async completeForeachItem(
+    parentState: WorkflowRuntimeState,
+    parentStateDef: ForeachState,
+    parentDefinition: WorkflowDefinition,
+    childState: WorkflowRuntimeState,
+    childResult: string,
+  ): Promise<void> {
+    const link = childState.parent;
+    const progress =
+      link?.item !== undefined &&
+      parentState.current_state === link.state &&
+      parentState.foreach?.state === link.state
+        ? parentState.foreach.items[link.item]
+        : undefined;
+    if (
+      link?.item === undefined ||
+      progress?.status !== "running" ||
+      progress.child_workflow_id !== childState.workflow_id
+    ) {
+      return;
+    }
+
+    progress.status = childResult === "success" ? "passed" : "failed";
+    const collected = parentState.evidence[link.state] as
+      | { items?: unknown[] }
+      | undefined;
+    const results = collected?.items ?? [];
+    results[link.item] = {
+      item: progress.item,
+      child_workflow_id: childState.workflow_id,
+      child_workflow_type: childState.workflow_type,
+      child_result: childResult,
+      child_evidence: childState.evidence,
+    };
+    parentState.evidence[link.state] = { ...collected, items: results };
+    parentState.updated_at = new Date().toISOString();
+    this.persist(parentState, "child_completed", {
+      state: link.state,
+      item: link.item,
+      child_workflow_id: childState.workflow_id,
+      child_result: childResult,
+    });
+
+    const parentId = parentState.workflow_id as unknown as string;
+    if ((await this.settleForeach(parentState, parentStateDef)) !== "pending") {
+      await this.dispatchCurrentState(parentId);
+      return;
+    }
+    await this.launchForeachItems(parentId, parentStateDef, parentDefinition);
+  }
+
+  /**
+   * Finish the foreach state once every item passed, or at the first failed
+   * item: the children still running are cancelled and their tabs closed,
+   * then the state succeeds or fails through the retry budget.
+   */
+  private async settleForeach(
+    state: WorkflowRuntimeState,
+    current: ForeachState,
+  ): Promise<"success" | "failure" | "pending"> {
+    const items = state.foreach?.items ?? [];
+    const failedIndex = items.findIndex(
+      (progress) => progress.status === "failed",
+    );
+    if (
+      failedIndex === -1 &&
+      items.some((progress) => progress.status !== "passed")
+    ) {
+      return "pending";
+    }
+
+    const foreachState = state.current_state;
+    const result = failedIndex === -1 ? "success" : "failure";
+    const agentIds = this.stopForeachItems(
+      state,
+      `Foreach state ${foreachState} in ${state.workflow_id} ended with ${result}`,
+    );
+    if (result === "success") {
+      const next = this.nextState(state, current, result, ["success", "pass"]);
+      if (!next) {
+        throw new Error(`No transition for state ${foreachState}`);
+      }
+      this.advance(state, current, next, result);
+    } else {
+      this.failAttempt(
+        state,
+        current,
+        `Item ${failedIndex} of ${foreachState} ended with failure`,
+        ["failure", "fail"],
+        result,
       );
     }
-
-    // Build child params from inputMap
-    const childParams = resolveInputMap(subDef.inputMap ?? {}, parentState);
-
-    // Start the child workflow
-    const childState = this.start(childWorkflowType, childParams);
-
-    // Record the parent → child link
-    childState.parent = {
-      workflow_id: parentState.workflow_id,
-      state: parentState.current_state,
-    };
-    this.store.saveWorkflowState(childState);
-
-    // Stryker disable next-line all: lazy initialization guard
-    if (!parentState.children) {
-      parentState.children = {};
+    state.updated_at = new Date().toISOString();
+    this.persist(state, "foreach_finished", {
+      state: foreachState,
+      result,
+      items: items.map((progress) => progress.status),
+    });
+    for (const agentId of agentIds) {
+      await this.stopAgent(agentId);
     }
-    parentState.children[parentState.current_state] = childState.workflow_id;
-    parentState.updated_at = new Date().toISOString();
-    this.store.saveWorkflowState(parentState);
+    return result;
+  }
 
-    // Dispatch the child's first state
-    const childDispatch = await this.dispatchCurrentState(
-      childState.workflow_id as unknown as string,
-    );
+  /**
+   * Cancel the running items of the current foreach state and their child
+   * trees. Returns the cancelled children's agents, whose tabs should close.
+   */
+  private stopForeachItems(
+    state: WorkflowRuntimeState,
+    reason: string,
+  ): string[] {
+    const agentIds: string[] = [];
+    for (const progress of state.foreach?.items ?? []) {
+      if (progress.status !== "running") {
+        continue;
+      }
+      progress.status = "cancelled";
+      if (progress.child_workflow_id) {
+        agentIds.push(
+          ...this.cancelChildTree(
+            progress.child_workflow_id as unknown as string,
+            reason,
+          ),
+        );
+      }
+    }
+    return agentIds;
+  }
 
-    return {
-      dispatched: true,
-      details: `Subworkflow ${childState.workflow_id} (${childWorkflowType}) started for ${parentState.current_state}. Child dispatch: ${childDispatch.details}`,
-    };
+  /**
+   * Report a finished child to its parent. A save that lost a race with
+   * another writer is retried on a freshly loaded parent; reporting the
+   * same child twice is a no-op.
+   */
+  private completeChildWorkflow(
+    childState: WorkflowRuntimeState,
+  ): Promise<void> {
+    return this.retryOnConflict(() => this.reportChildToParent(childState));
   }
 
-  private async completeChildWorkflow(
+  private async reportChildToParent(
     childState: WorkflowRuntimeState,
   ): Promise<void> {
     // Stryker disable all: completeChildWorkflow — defensive guards and internal child propagation. Tested via subworkflow integration tests.
@@ -552,13 +3154,15 @@ export class WorkflowEngine {
     const parentState = this.get(
       childState.parent.workflow_id as unknown as string,
     );
-    if (!parentState) {
+    if (
+      !parentState ||
+      parentState.status === "cancelled" ||
+      parentState.current_state !== childState.parent.state
+    ) {
       return;
     }
 
-    const parentDefinition = this.workflows.get(
-      parentState.workflow_type as unknown as string,
-    );
+    const parentDefinition = this.definitionFor(parentState);
     if (!parentDefinition) {
       return;
     }
@@ -567,21 +3171,49 @@ export class WorkflowEngine {
     if (
       !parentStateDef ||
       !("type" in parentStateDef) ||
-      parentStateDef.type !== "subworkflow"
+      (parentStateDef.type !== "subworkflow" &&
+        parentStateDef.type !== "parallel" &&
+        parentStateDef.type !== "foreach")
     ) {
       return;
     }
 
     // Determine child terminal result
-    const childDef = this.workflows.get(
-      childState.workflow_type as unknown as string,
-    );
+    const childDef = this.definitionFor(childState);
     const childCurrentDef = childDef?.states[childState.current_state];
     const childResult =
       childCurrentDef && "result" in childCurrentDef
         ? childCurrentDef.result
         : "failure";
 
+    if (parentStateDef.type === "parallel") {
+      await this.completeParallelBranch(
+        parentState,
+        parentStateDef,
+        childState,
+        childResult,
+      );
+      return;
+    }
+
+    if (parentStateDef.type === "foreach") {
+      await this.completeForeachItem(
+        parentState,
+        parentStateDef,
+        parentDefinition,
+        childState,
+        childResult,
+      );
+      return;
+    }
+
+    const recorded = parentState.evidence[childState.parent.state] as
+      | { child_workflow_id?: unknown }
+      | undefined;
+    if (recorded?.child_workflow_id === childState.workflow_id) {
+      return;
+    }
+
     // Merge child evidence into parent under the state name
     parentState.evidence[childState.parent.state] = {
       child_workflow_id: childState.workflow_id,
@@ -590,29 +3222,375 @@ export class WorkflowEngine {
       child_evidence: childState.evidence,
     };
 
+    const childCompletion = {
+      state: childState.parent.state,
+      child_workflow_id: childState.workflow_id,
+      child_result: childResult,
+    };
+
     // Transition parent based on child result
-    const transition =
-      parentStateDef.transitions[childResult] ??
-      parentStateDef.transitions.pass;
+    const transition = this.nextState(
+      parentState,
+      parentStateDef,
+      childResult,
+      [childResult, "pass"],
+    );
     if (transition) {
-      parentState.retry_count = 0;
-      this.moveState(parentState, transition, childResult);
-      this.store.saveWorkflowState(parentState);
+      this.advance(parentState, parentStateDef, transition, childResult);
+      this.persist(parentState, "child_completed", childCompletion);
 
       // Auto-dispatch the parent's next state
       await this.dispatchCurrentState(
         parentState.workflow_id as unknown as string,
       );
     } else {
-      this.store.saveWorkflowState(parentState);
+      this.persist(parentState, "child_completed", childCompletion);
     }
     // Stryker restore all
   }
 
+  /**
+   * Run the `action` of the terminal state the workflow is in, once per
+   * entry: the outcome is kept in `metrics.terminal_action` and journaled.
+   * A failing action is recorded but does not stop the workflow finishing.
+   */
+  private async runTerminalAction(state: WorkflowRuntimeState): Promise<void> {
+    const terminal = this.definitionFor(state)?.states[state.current_state];
+    const entry = state.history.at(-1);
+    if (
+      !terminal ||
+      !("type" in terminal) ||
+      terminal.type !== "terminal" ||
+      !terminal.action ||
+      !entry
+    ) {
+      return;
+    }
+    const previous = state.metrics.terminal_action as
+      | { state: string; entered_at: string }
+      | undefined;
+    if (
+      previous?.state === entry.state &&
+      previous.entered_at === entry.entered_at
+    ) {
+      return;
+    }
+
+    const exited = state.history.at(-2);
+    const reason =
+      exited?.last_failure ??
+      (exited?.result ? `${exited.state} ended with ${exited.result}` : "");
+    const outcome = await this.terminalActions.run(terminal.action, {
+      workflow: state,
+      state: state.current_state,
+      terminal,
+      ...(reason ? { reason } : {}),
+      exec: (command) =>
+        this.actionSlots.run(this.projectConfig?.maxConcurrentActions, () =>
+          this.execCommand(command),
+        ),
+    });
+    state.metrics.terminal_action = {
+      state: entry.state,
+      entered_at: entry.entered_at,
+      ...outcome,
+      at: new Date().toISOString(),
+    };
+    this.persist(
+      state,
+      outcome.ok ? "terminal_action" : "terminal_action_failed",
+      { ...outcome },
+    );
+  }
+
+  /**
+   * Count a failed attempt of `kind` against the state's retry policy. Once
+   * the policy gives up, move along the first of `transitionKeys` the state
+   * defines, or ESCALATE, charging the rework budget if that is a rework
+   * transition; with attempts left, set the backoff before the next
+   * dispatch. Returns whether the workflow moved.
+   */
+  private failAttempt(
+    state: WorkflowRuntimeState,
+    stateDefinition:
+      | AgentState
+      | SubworkflowState
+      | ActionState
+      | ParallelState
+      | ForeachState,
+    failure: string,
+    transitionKeys: string[],
+    result: string,
+    at: Date = new Date(),
+    kind: FailureKind = "verification",
+  ): boolean {
+    const historyEntry = state.history.at(-1);
+    if (!historyEntry) {
+      throw new Error(`Workflow history missing for ${state.workflow_id}`);
+    }
+
+    const policy = stateDefinition.retry ?? {};
+    const failures = { ...historyEntry.failures };
+    failures[kind] = (failures[kind] ?? 0) + 1;
+    historyEntry.failures = failures;
+    historyEntry.last_failure = failure;
+    // Schema errors are not the work failing, nor are spawn failures with a
+    // budget of their own
+    const counted =
+      kind !== "schema" &&
+      (kind !== "spawn" || policy.budgets?.spawn === undefined);
+    if (counted) {
+      state.retry_count += 1;
+      historyEntry.retries = state.retry_count;
+    }
+
+    const maxAttempts = policy.maxAttempts ?? stateDefinition.maxRetries ?? 1;
+    const budget = policy.budgets?.[kind];
+    const exhausted =
+      (counted && state.retry_count >= maxAttempts) ||
+      (budget !== undefined && (failures[kind] ?? 0) >= budget);
+    if (!exhausted) {
+      const delay = retryDelay(
+        policy,
+        Object.values(failures).reduce((sum, count) => sum + count, 0),
+      );
+      const startsAt = new Date(at.getTime() + delay).toISOString();
+      historyEntry.attempt_started_at = startsAt;
+      if (delay > 0) {
+        historyEntry.retry_after = startsAt;
+      }
+      const pending =
+        this.pendingDomainEvents.get(state.workflow_id as unknown as string) ??
+        [];
+      pending.push({
+        type: "attempt.failed",
+        workflowId: state.workflow_id as unknown as string,
+        at: at.toISOString(),
+        state: state.current_state,
+        retries: historyEntry.retries,
+        failure,
+        ...(delay > 0 ? { retryAt: startsAt } : {}),
+      });
+      this.pendingDomainEvents.set(
+        state.workflow_id as unknown as string,
+        pending,
+      );
+      return false;
+    }
+
+    const key = transitionKeys.find((candidate) =>
+      Object.hasOwn(stateDefinition.transitions, candidate),
+    );
+    const to = key ? (stateDefinition.transitions[key] as string) : "ESCALATE";
+    if (!this.spendRework(state, stateDefinition, result, to)) {
+      this.moveState(state, to, result);
+    }
+    return true;
+  }
+
+  /**
+   * Count the transition to `to` against the project's `reworkBudget` if it
+   * is a rework transition. Once the budget is spent the workflow escalates
+   * (see {@link reworkEscalationTarget}) instead of going round again.
+   * Returns whether it did.
+   */
+  private spendRework(
+    state: WorkflowRuntimeState,
+    stateDefinition: WorkflowStateDefinition,
+    result: string,
+    to: string,
+  ): boolean {
+    const definition = this.definitionFor(state);
+    if (!definition || !isReworkTransition(definition, result, to)) {
+      return false;
+    }
+    state.rework_count = (state.rework_count ?? 0) + 1;
+    const budget = this.projectConfig?.reworkBudget;
+    const target = reworkEscalationTarget(definition, stateDefinition);
+    if (
+      budget === undefined ||
+      state.rework_count <= budget ||
+      target === undefined
+    ) {
+      return false;
+    }
+    this.moveState(state, target, result);
+    this.queueEvent(state, {
+      type: "rework_budget_exhausted",
+      details: { rework_count: state.rework_count, budget },
+    });
+    return true;
+  }
+
+  /**
+   * Where a state that completed with `result` goes: the first guard that
+   * holds, else the first of `keys` in its transitions.
+   */
+  private nextState(
+    state: WorkflowRuntimeState,
+    stateDefinition:
+      | AgentState
+      | SubworkflowState
+      | ActionState
+      | ParallelState
+      | ForeachState,
+    result: string,
+    keys: string[],
+  ): { to: string; guard?: string } | undefined {
+    const scope = {
+      params: state.params,
+      evidence: state.evidence,
+      metrics: state.metrics,
+      project: this.projectConfig ?? {},
+      result,
+    };
+    const guard = stateDefinition.guards?.find((candidate) =>
+      guardMatches(candidate.when, scope),
+    );
+    if (guard) {
+      return { to: guard.to, guard: guard.when };
+    }
+    const key = keys.find((candidate) =>
+      Object.hasOwn(stateDefinition.transitions, candidate),
+    );
+    return key ? { to: stateDefinition.transitions[key] as string } : undefined;
+  }
+
+  /**
+   * Take the transition a completed state resolved to, unless a human has to
+   * approve it first (an approval gate or a configured checkpoint): then the
+   * workflow is parked in `pending_approval` and keeps its retry count, so
+   * rejections add up. Returns whether it moved.
+   */
+  private advance(
+    state: WorkflowRuntimeState,
+    stateDefinition:
+      | AgentState
+      | SubworkflowState
+      | ActionState
+      | ParallelState
+      | ForeachState,
+    next: { to: string; guard?: string },
+    result: string,
+  ): boolean {
+    const reason = this.approvalReason(state, stateDefinition, next.to);
+    if (!reason) {
+      state.retry_count = 0;
+      if (!this.spendRework(state, stateDefinition, result, next.to)) {
+        this.moveState(state, next.to, result, next.guard);
+      }
+      return true;
+    }
+
+    const prompt =
+      "gate" in stateDefinition && stateDefinition.gate?.kind === "approval"
+        ? stateDefinition.gate.prompt
+        : undefined;
+    state.pending_approval = {
+      state: state.current_state,
+      result,
+      to: next.to,
+      ...(next.guard !== undefined ? { guard: next.guard } : {}),
+      reason,
+      ...(prompt ? { prompt } : {}),
+      requested_at: new Date().toISOString(),
+    };
+    this.queueEvent(state, {
+      type: "approval_requested",
+      details: { ...state.pending_approval },
+    });
+    return false;
+  }
+
+  /**
+   * Why leaving the current state for `to` needs a human, if it does. Outside
+   * approval gates this follows the project's `autonomyLevel`,
+   * `approvalCheckpoints` and `humanReviewCadence`.
+   */
+  private approvalReason(
+    state: WorkflowRuntimeState,
+    stateDefinition: WorkflowStateDefinition,
+    to: string,
+  ): string | undefined {
+    if (
+      "gate" in stateDefinition &&
+      stateDefinition.gate?.kind === "approval"
+    ) {
+      return "approval gate";
+    }
+    const config = this.projectConfig;
+    if (config?.autonomyLevel === "manual") {
+      return "autonomy level manual";
+    }
+    if (config?.autonomyLevel !== "assisted") {
+      return undefined;
+    }
+
+    const workflowType = state.workflow_type as unknown as string;
+    if (
+      config.approvalCheckpoints?.some(
+        (checkpoint) =>
+          checkpoint === state.current_state ||
+          checkpoint === `${workflowType}.${state.current_state}`,
+      )
+    ) {
+      return "approval checkpoint";
+    }
+
+    const target = this.definitionFor(state)?.states[to];
+    const succeeds =
+      target !== undefined &&
+      "type" in target &&
+      target.type === "terminal" &&
+      target.result === "success";
+    switch (config.humanReviewCadence) {
+      case "end":
+        return succeeds && !state.parent ? "review cadence end" : undefined;
+      case "every-slice":
+        return succeeds ? "review cadence every-slice" : undefined;
+      case "every-n": {
+        const every = config.humanReviewEvery ?? 3;
+        const completed =
+          state.history.filter((entry) => entry.exited_at !== undefined)
+            .length + 1;
+        return completed % every === 0
+          ? `review cadence every ${every} states`
+          : undefined;
+      }
+    }
+    return undefined;
+  }
+
+  private requirePendingApproval(state: WorkflowRuntimeState): PendingApproval {
+    const pending = state.pending_approval;
+    if (!pending) {
+      throw new Error(`Workflow ${state.workflow_id} is not awaiting approval`);
+    }
+    return pending;
+  }
+
+  /** Clear the pending approval and keep the decision with the evidence. */
+  private recordApprovalDecision(
+    state: WorkflowRuntimeState,
+    pending: PendingApproval,
+    decision: "approved" | "rejected",
+    note: string | undefined,
+  ): void {
+    Reflect.deleteProperty(state, "pending_approval");
+    setEvidence(state, `${pending.state}.approval`, {
+      decision,
+      ...(note ? { note } : {}),
+      reason: pending.reason,
+      decided_at: new Date().toISOString(),
+    });
+    state.updated_at = new Date().toISOString();
+  }
+
   private moveState(
     state: WorkflowRuntimeState,
     nextState: string,
     result: string,
+    guard?: string,
   ): void {
     const now = new Date().toISOString();
     const currentHistory = state.history.at(-1);
@@ -626,6 +3604,103 @@ export class WorkflowEngine {
     state.current_state = nextState;
     state.updated_at = now;
     state.history.push({ state: nextState, entered_at: now, retries: 0 });
+
+    this.queueEvent(state, {
+      type: "transitioned",
+      details: {
+        from: currentHistory.state,
+        to: nextState,
+        result,
+        ...(guard !== undefined ? { guard } : {}),
+      },
+    });
+  }
+
+  /** Journal `event` with the next save of `state`. */
+  private queueEvent(
+    state: WorkflowRuntimeState,
+    event: WorkflowEventInput,
+  ): void {
+    const pending = this.pendingEvents.get(state.workflow_id) ?? [];
+    pending.push(event);
+    this.pendingEvents.set(state.workflow_id, pending);
+  }
+
+  /**
+   * Save `state` and journal `type` after any transitions recorded since the
+   * last save, so the journal reads in the order things happened.
+   */
+  private persist(
+    state: WorkflowRuntimeState,
+    type: string,
+    details?: Record<string, unknown>,
+  ): void {
+    const pending = this.pendingEvents.get(state.workflow_id) ?? [];
+    this.pendingEvents.delete(state.workflow_id);
+    const workflowId = state.workflow_id as unknown as string;
+    const domainEvents = this.pendingDomainEvents.get(workflowId) ?? [];
+    this.pendingDomainEvents.delete(workflowId);
+    const journal = [...pending, { type, ...(details ? { details } : {}) }];
+    this.store.saveWorkflowState(state, journal);
+    this.events.emit([
+      ...domainEvents,
+      ...this.domainEventsFor(state, journal),
+    ]);
+  }
+
+  /** Journal an event that leaves the stored state untouched. */
+  private journal(
+    state: WorkflowRuntimeState,
+    type: string,
+    details: Record<string, unknown>,
+  ): void {
+    this.store.appendWorkflowEvent(state.workflow_id, { type, details });
+    this.events.emit(this.domainEventsFor(state, [{ type, details }]));
+  }
+
+  private domainEventsFor(
+    state: WorkflowRuntimeState,
+    journal: WorkflowEventInput[],
+  ): WorkflowDomainEvent[] {
+    const states = this.definitionFor(state)?.states ?? {};
+    return domainEventsFor(
+      state,
+      journal,
+      (name) => {
+        const definition = states[name];
+        return definition &&
+          "type" in definition &&
+          definition.type === "terminal"
+          ? definition.result
+          : undefined;
+      },
+      new Date().toISOString(),
+    );
+  }
+
+  private resolvesState(state: WorkflowRuntimeState): boolean {
+    return Object.hasOwn(
+      this.definitionFor(state)?.states ?? {},
+      state.current_state,
+    );
+  }
+
+  /** The definition an instance runs on: the version it started on. */
+  private definitionFor(
+    state: WorkflowRuntimeState,
+  ): WorkflowDefinition | undefined {
+    return this.getDefinition(
+      state.workflow_type as unknown as string,
+      state.workflow_version,
+    );
+  }
+
+  private requireActiveWorkflow(workflowId: string): WorkflowRuntimeState {
+    const state = this.requireWorkflow(workflowId);
+    if (state.status === "cancelled") {
+      throw new Error(`Workflow ${workflowId} is cancelled`);
+    }
+    return state;
   }
 
   private requireWorkflow(workflowId: string): WorkflowRuntimeState {
@@ -638,23 +3713,106 @@ export class WorkflowEngine {
 
   private async execCommand(
     command: string,
-  ): Promise<{ code: number; stdout: string; stderr: string }> {
+    options: { timeoutMs?: number; cwd?: string } = {},
+  ): Promise<{
+    code: number;
+    stdout: string;
+    stderr: string;
+    killed?: boolean;
+  }> {
     const exec = (this.pi as unknown as { exec?: ExtensionAPI["exec"] }).exec;
     if (!exec) {
-      return { code: 127, stdout: "", stderr: "exec unavailable" };
+      return {
+        code: 127,
+        stdout: "",
+        stderr: "exec unavailable",
+      };
     }
 
-    const result = await exec("bash", ["-lc", command], {});
+    const result = await exec("bash", ["-lc", command], {
+      ...(options.timeoutMs !== undefined
+        ? { timeout: options.timeoutMs }
+        : {}),
+      ...(options.cwd !== undefined ? { cwd: options.cwd } : {}),
+    });
     return {
       code: result.code,
       stdout: result.stdout,
       stderr: result.stderr,
+      ...(result.killed ? { killed: true } : {}),
     };
   }
-}
 
-export const shellEscape = (value: string): string =>
-  value.replace(/'/g, "'\\''");
+  /**
+   * What command templates can read: params, project config, metrics and
+   * evidence, plus a submission under `key` that is still being checked.
+   */
+  private templateScope(
+    state: WorkflowRuntimeState,
+    submission?: { key: string; evidence: Record<string, unknown> },
+  ): GuardScope {
+    const scoped = { ...state, evidence: { ...state.evidence } };
+    if (submission) {
+      setEvidence(scoped, submission.key, submission.evidence);
+    }
+    return {
+      params: state.params,
+      project: this.projectConfig ?? defaultProjectConfig,
+      evidence: scoped.evidence,
+      metrics: state.metrics,
+    };
+  }
+
+  /**
+   * Fill in a command template; one that does not resolve fails like a
+   * missing command, with exit 127 and the reason on stderr.
+   */
+  private renderCommand(
+    template: string,
+    scope: GuardScope,
+  ): { command: string } | { command: string; error: string } {
+    try {
+      return { command: renderCommandTemplate(template, scope) };
+    } catch (error) {
+      if (!(error instanceof CommandTemplateError)) {
+        throw error;
+      }
+      return { command: template, error: error.message };
+    }
+  }
+
+  /** Run a gate's verification command and judge its outcome. */
+  private async runVerification(
+    template: VerificationCommand,
+    scope: GuardScope,
+  ): Promise<VerificationResult> {
+    const rendered = this.renderCommand(template.command, scope);
+    const verify = { ...template, command: rendered.command };
+    if ("error" in rendered) {
+      return evaluateVerification(
+        verify,
+        { code: 127, stdout: "", stderr: rendered.error },
+        0,
+      );
+    }
+    return this.verificationSlots.run(
+      this.projectConfig?.maxConcurrentVerifications,
+      async () => {
+        // Time spent waiting for a slot is not the command's
+        const started = Date.now();
+        const run = await this.execCommand(verificationScript(verify), {
+          ...(verify.timeoutMs !== undefined
+            ? { timeoutMs: verify.timeoutMs }
+            : {}),
+          ...(verify.cwd !== undefined
+            ? { cwd: path.resolve(this.cwd, verify.cwd) }
+            : {}),
+        });
+        return evaluateVerification(verify, run, Date.now() - started);
+      },
+    );
+  }
+}
 
 // --- Agent definition resolution ---
 
@@ -718,16 +3876,86 @@ const readPersona = (personaPath: string, cwd: string): string | null => {
 // Stryker restore all
 
 // Stryker disable all: template/presentation logic — tested via content assertions
+/** Backoff before the retry that follows the `failures`-th failed attempt. */
+const retryDelay = (policy: RetryPolicy, failures: number): number => {
+  if (!policy.backoffMs) {
+    return 0;
+  }
+  const delay =
+    policy.backoffMs * (policy.backoffFactor ?? 2) ** (failures - 1);
+  return Math.min(delay, policy.maxBackoffMs ?? Number.POSITIVE_INFINITY);
+};
+
+/**
+ * Rename states in place wherever an instance refers to them by name.
+ * Returns the renames that applied to this instance.
+ */
+const renameWorkflowStates = (
+  state: WorkflowRuntimeState,
+  renames: Record<string, string>,
+): Record<string, string> => {
+  const rename = (name: string): string =>
+    Object.hasOwn(renames, name) ? (renames[name] as string) : name;
+  const applied: Record<string, string> = {};
+  const seen = [
+    state.current_state,
+    ...state.history.map((entry) => entry.state),
+    ...Object.keys(state.evidence),
+  ];
+  for (const name of seen) {
+    if (rename(name) !== name) {
+      applied[name] = rename(name);
+    }
+  }
+
+  state.current_state = rename(state.current_state);
+  for (const entry of state.history) {
+    entry.state = rename(entry.state);
+  }
+  state.evidence = Object.fromEntries(
+    Object.entries(state.evidence).map(([name, value]) => [
+      rename(name),
+      value,
+    ]),
+  );
+  if (state.children) {
+    state.children = Object.fromEntries(
+      Object.entries(state.children).map(([key, childId]) => {
+        const [name = key, ...suffix] = key.split(".");
+        return [[rename(name), ...suffix].join("."), childId];
+      }),
+    );
+  }
+  if (state.parallel) {
+    state.parallel.state = rename(state.parallel.state);
+  }
+  if (state.foreach) {
+    state.foreach.state = rename(state.foreach.state);
+  }
+  if (state.pending_approval) {
+    state.pending_approval.state = rename(state.pending_approval.state);
+    state.pending_approval.to = rename(state.pending_approval.to);
+  }
+  return applied;
+};
+
 const formatGateSchema = (gate: GateDefinition): string => {
   if (gate.kind === "evidence") {
-    const fields = Object.entries(gate.schema)
-      .map(([key, type]) => `  - ${key}: ${type}`)
-      .join("\n");
-    return `Gate kind: evidence\nRequired fields:\n${fields}`;
+    const fields = describeEvidenceSchema(gate.schema);
+    const render = (entries: typeof fields) =>
+      entries.map((field) => `  - ${field.name}: ${field.type}`).join("\n");
+    const required = fields.filter((field) => !field.optional);
+    const optional = fields.filter((field) => field.optional);
+    return `Gate kind: evidence\nRequired fields:\n${render(required)}${
+      optional.length > 0 ? `\nOptional fields:\n${render(optional)}` : ""
+    }`;
   }
   if (gate.kind === "verdict") {
     return `Gate kind: verdict\nAllowed options: ${gate.options.join(", ")}`;
   }
+  if (gate.kind === "approval") {
+    return `Gate kind: approval\nA human approves or rejects your submission before the workflow continues.${gate.prompt ? `\nThey will decide: ${gate.prompt}` : ""}`;
+  }
   return `Gate kind: command\nVerification command: ${gate.verify.command}`;
 };
 
@@ -770,6 +3998,9 @@ const buildStateInstructions = (
   if (gate.kind === "verdict") {
     return `Evaluate the current state and submit a verdict: ${gate.options.join(" or ")}.`;
   }
+  if (gate.kind === "approval") {
+    return `Prepare the work for state ${stateName} for human review. Submit a summary of what the reviewer needs to decide; a human approves or rejects it.`;
+  }
   return `Complete the work for state ${stateName} and ensure the verification command passes.`;
 };
 
@@ -929,6 +4160,59 @@ export const resolvePersonaForDispatch = (
   return { ...role, persona };
 };
 
+// --- Workflow params ---
+
+/**
+ * Raised by `start()` when params do not satisfy the workflow's declared
+ * `params`. `errors` lists each problem so callers can report them
+ * individually instead of parsing the message.
+ */
+export class WorkflowParamsError extends Error {
+  constructor(
+    readonly workflow: string,
+    readonly errors: string[],
+  ) {
+    super(`Invalid params for workflow ${workflow}: ${errors.join("; ")}`);
+    this.name = "WorkflowParamsError";
+  }
+}
+
+/**
+ * Apply declared defaults, then check required params and declared types
+ * using the evidence schema type vocabulary. Params not declared by the
+ * workflow pass through untouched. Defaults are cloned so runtime state
+ * never aliases the definition object.
+ */
+export const resolveWorkflowParams = (
+  definition: WorkflowDefinition,
+  params: Record<string, unknown>,
+): { params: Record<string, unknown>; errors: string[] } => {
+  const resolved: Record<string, unknown> = { ...params };
+  const errors: string[] = [];
+
+  for (const [name, spec] of Object.entries(definition.params ?? {})) {
+    if (resolved[name] === undefined && spec.default !== undefined) {
+      resolved[name] = structuredClone(spec.default);
+    }
+
+    const value = resolved[name];
+    if (value === undefined) {
+      if (spec.required) {
+        errors.push(`missing required param: ${name}`);
+      }
+      continue;
+    }
+
+    if (!matchesSchemaType(value, spec.type)) {
+      errors.push(
+        `type mismatch for param ${name}: expected ${spec.type}, got ${describeValueType(value)}`,
+      );
+    }
+  }
+
+  return { params: resolved, errors };
+};
+
 // --- Subworkflow helpers ---
 
 /**
@@ -1064,7 +4348,16 @@ export const buildAgentPrompt = (input: BuildAgentPromptInput): string => {
 Use this tool when you have completed the work for the current state. Parameters:
 - \`state\`: Must be "${input.state}" (the current state name)
 - \`result\`: ${gate.kind === "verdict" ? `One of: ${gate.options.join(", ")}` : '"pass" on success'}
-- \`evidence\`: ${gate.kind === "evidence" ? `A JSON object with the required fields: ${Object.keys(gate.schema).join(", ")}` : "A JSON object with any supporting details"}
+- \`evidence\`: ${
+    gate.kind === "evidence"
+      ? `A JSON object with the required fields: ${describeEvidenceSchema(
+          gate.schema,
+        )
+          .filter((field) => !field.optional)
+          .map((field) => field.name)
+          .join(", ")}`
+      : "A JSON object with any supporting details"
+  }
 
 ### send_message
 Send a message to another agent in this workflow. Parameters:
@@ -1121,10 +4414,13 @@ export const buildAgentTask = (input: BuildAgentTaskInput): string => {
 
   if (gate.kind === "evidence") {
     sections.push(
-      `### Example submit_evidence call\n\`\`\`json\n{\n  "state": "${input.state}",\n  "result": "pass",\n  "evidence": {\n${Object.entries(
+      `### Example submit_evidence call\n\`\`\`json\n{\n  "state": "${input.state}",\n  "result": "pass",\n  "evidence": {\n${describeEvidenceSchema(
         gate.schema,
       )
-        .map(([key, type]) => `    "${key}": "<${type}>"`)
+        .map(
+          (field) =>
+            `    "${field.name}": ${JSON.stringify(`<${field.type}>`)}`,
+        )
         .join(",\n")}\n  }\n}\n\`\`\``,
     );
   } else if (gate.kind === "verdict") {
@@ -1138,8 +4434,12 @@ export const buildAgentTask = (input: BuildAgentTaskInput): string => {
     const lastHistory = input.runtimeState.history.at(-1);
     const failureMessage =
       lastHistory?.last_failure ?? "Previous attempt failed gate verification";
+    const verification =
+      lastHistory?.last_verification && !lastHistory.last_verification.passed
+        ? `\n\n### Verification output\n\n${formatVerificationResult(lastHistory.last_verification)}`
+        : "";
     sections.push(
-      `## Retry Context\n\nThis is retry #${input.runtimeState.retry_count}. Previous failure: ${failureMessage}\n\nPlease address the failure reason before resubmitting evidence.`,
+      `## Retry Context\n\nThis is retry #${input.runtimeState.retry_count}. Previous failure: ${failureMessage}${verification}\n\nPlease address the failure reason before resubmitting evidence.`,
     );
   }
 
@@ -1155,12 +4455,22 @@ export const buildAgentTask = (input: BuildAgentTaskInput): string => {
 };
 // Stryker restore all
 
+/**
+ * Source of the per-agent pi extension. When the state and gate are known,
+ * `submit_evidence` is typed from the gate so the model sees the exact
+ * contract, and malformed submissions are rejected before reaching the bus.
+ */
 export const buildScopeExtension = (input: {
   agentId: string;
   workflowId: string;
   writable: string[];
-}): string => `
+  state?: string;
+  gate?: GateDefinition;
+}): string => {
+  const submit = buildSubmitEvidenceTypeBoxSource(input.gate);
+  return `
 import { Type } from "@sinclair/typebox";
+import { Value } from "@sinclair/typebox/value";
 import { minimatch } from "minimatch";
 import { isToolCallEventType, type ExtensionAPI } from "@mariozechner/pi-coding-agent";
 import http from "node:http";
@@ -1169,6 +4479,12 @@ const AGENT_ID = ${JSON.stringify(input.agentId)};
 const WORKFLOW_ID = ${JSON.stringify(input.workflowId)};
 const WRITABLE = ${JSON.stringify(input.writable)};
 const SOCKET_PATH = ".orchestra/bus.sock";
+const HEARTBEAT_INTERVAL_MS = 30_000;
+const EVIDENCE_PARAMS = Type.Object({
+  state: ${input.state !== undefined ? `Type.Literal(${JSON.stringify(input.state)})` : "Type.String()"},
+  result: ${submit.result},
+  evidence: ${submit.evidence},
+});
 
 const matches = (target) => WRITABLE.some((glob) => minimatch(target, glob, { dot: true }));
 
@@ -1187,8 +4503,17 @@ const busRequest = (method, path, body) =>
     req.end();
   });
 
+let lastHeartbeat = 0;
+const heartbeat = () => {
+  const now = Date.now();
+  if (now - lastHeartbeat < HEARTBEAT_INTERVAL_MS) return;
+  lastHeartbeat = now;
+  busRequest("POST", \`/heartbeat/\${AGENT_ID}\`).catch(() => {});
+};
+
 export default function(pi: ExtensionAPI) {
   pi.on("tool_call", async (event) => {
+    heartbeat();
     if (isToolCallEventType("edit", event) || isToolCallEventType("write", event)) {
       if (!matches(event.input.path)) {
         return { block: true, reason: \`[BLOCKED] agent \${AGENT_ID} cannot write \${event.input.path}\` };
@@ -1229,12 +4554,17 @@ export default function(pi: ExtensionAPI) {
   pi.registerTool({
     name: "submit_evidence",
     description: "Submit workflow gate evidence",
-    parameters: Type.Object({
-      state: Type.String(),
-      result: Type.String(),
-      evidence: Type.Record(Type.String(), Type.Any()),
-    }),
+    parameters: EVIDENCE_PARAMS,
     async execute(_id, params) {
+      if (!Value.Check(EVIDENCE_PARAMS, params)) {
+        const problems = [...Value.Errors(EVIDENCE_PARAMS, params)].map(
+          (error) => \`\${error.path || "/"}: \${error.message}\`,
+        );
+        return {
+          content: [{ type: "text", text: \`evidence rejected before submission:\\n\${problems.join("\\n")}\` }],
+          isError: true,
+        };
+      }
       const result = await busRequest("POST", \`/evidence/\${WORKFLOW_ID}\`, {
         state: params.state,
         result: params.result,
@@ -1246,3 +4576,4 @@ export default function(pi: ExtensionAPI) {
   });
 }
 `;
+};
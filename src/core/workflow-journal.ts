@@ -0,0 +1,55 @@
+import type { WorkflowEvent, WorkflowRuntimeState } from "./types";
+
+/**
+ * Top-level fields of `next` that differ from `previous`. Values are
+ * compared by their JSON encoding, which is exactly what gets persisted.
+ */
+export const diffWorkflowState = (
+  previous: WorkflowRuntimeState | null,
+  next: WorkflowRuntimeState,
+): Pick<WorkflowEvent, "changes" | "removed"> => {
+  const before = (previous ?? {}) as Record<string, unknown>;
+  const after = next as unknown as Record<string, unknown>;
+
+  const changes = Object.fromEntries(
+    Object.entries(after).filter(
+      ([key, value]) =>
+        value !== undefined &&
+        JSON.stringify(before[key]) !== JSON.stringify(value),
+    ),
+  ) as Partial<WorkflowRuntimeState>;
+  const removed = Object.keys(before).filter(
+    (key) => before[key] !== undefined && after[key] === undefined,
+  );
+
+  return {
+    ...(Object.keys(changes).length > 0 ? { changes } : {}),
+    ...(removed.length > 0 ? { removed } : {}),
+  };
+};
+
+/**
+ * Rebuild workflow state by folding journal events in order, stopping after
+ * `uptoIndex` when given. Returns null when no event up to that point has
+ * recorded any state.
+ */
+export const replayWorkflowEvents = (
+  events: WorkflowEvent[],
+  uptoIndex?: number,
+): WorkflowRuntimeState | null => {
+  let state: Record<string, unknown> | null = null;
+  for (const event of events) {
+    if (uptoIndex !== undefined && event.index > uptoIndex) {
+      break;
+    }
+    if (event.changes) {
+      state = { ...(state ?? {}), ...structuredClone(event.changes) };
+    }
+    for (const key of event.removed ?? []) {
+      if (state) {
+        delete state[key];
+      }
+    }
+  }
+  return state as WorkflowRuntimeState | null;
+};
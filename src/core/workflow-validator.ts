@@ -0,0 +1,724 @@
+import {
+  findEvidenceSchemaErrors,
+  parseSchemaType,
+} from "../evidence/schema-language";
+import {
+  findCommandTemplateError,
+  parseCommandTemplate,
+} from "./command-template";
+import { findGuardExpressionError } from "./guard-expression";
+import type {
+  ParallelState,
+  RetryPolicy,
+  WorkflowDefinition,
+  WorkflowStateDefinition,
+} from "./types";
+import { findVerificationErrors } from "./verification";
+
+export type WorkflowValidationSeverity = "error" | "warning";
+
+export type WorkflowValidationCode =
+  | "invalid-definition"
+  | "unknown-initial-state"
+  | "unknown-transition-target"
+  | "undefined-role"
+  | "unreachable-state"
+  | "no-terminal-path"
+  | "unmatched-verdict-option"
+  | "unknown-subworkflow"
+  | "invalid-schema-type"
+  | "duplicate-workflow-name"
+  | "invalid-parallel-state"
+  | "invalid-foreach-state"
+  | "invalid-guard-expression"
+  | "invalid-version"
+  | "invalid-retry-policy"
+  | "invalid-verification"
+  | "invalid-command-template"
+  | "no-rework-escalation"
+  | "missing-escalation-fallback";
+
+export interface WorkflowValidationIssue {
+  workflow: string;
+  state?: string;
+  source?: string;
+  severity: WorkflowValidationSeverity;
+  code: WorkflowValidationCode;
+  message: string;
+}
+
+/**
+ * A workflow definition together with where it was loaded from.
+ * `origin` distinguishes packaged workflows (`src/workflows`) from project
+ * overrides (`.orchestra/workflows.d`) so duplicate names can be reported
+ * as intentional overrides rather than collisions.
+ */
+export interface WorkflowSource {
+  definition: WorkflowDefinition;
+  source: string;
+  origin: "builtin" | "project";
+}
+
+export interface WorkflowValidationReport {
+  issues: WorkflowValidationIssue[];
+  accepted: WorkflowSource[];
+  rejected: WorkflowSource[];
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * Structural check for a module export. Anything that fails this cannot be
+ * walked as a graph, so it is reported once and skipped by the other checks.
+ */
+export const isWorkflowDefinitionShape = (
+  value: unknown,
+): value is WorkflowDefinition =>
+  isRecord(value) &&
+  typeof value.name === "string" &&
+  value.name.length > 0 &&
+  isRecord(value.roles) &&
+  isRecord(value.states);
+
+const isTerminal = (stateDef: WorkflowStateDefinition): boolean =>
+  "type" in stateDef && stateDef.type === "terminal";
+
+const REWORK_RESULTS = new Set(["fail", "flagged", "rework", "rejected"]);
+
+/**
+ * Whether taking `to` on `result` sends work back to be redone: a `fail`,
+ * `flagged`, `rework` or `rejected` result leading to a non-terminal state.
+ * These transitions count against the project's `reworkBudget`.
+ */
+export const isReworkTransition = (
+  definition: WorkflowDefinition,
+  result: string,
+  to: string,
+): boolean => {
+  const target = definition.states[to];
+  return (
+    REWORK_RESULTS.has(result) && target !== undefined && !isTerminal(target)
+  );
+};
+
+/**
+ * Where the engine sends a workflow whose `reworkBudget` ran out in
+ * `stateDef`: the definition's ESCALATE state, else the terminal state the
+ * state's `fail` transition leads to. Undefined when there is neither.
+ */
+export const reworkEscalationTarget = (
+  definition: WorkflowDefinition,
+  stateDef: WorkflowStateDefinition,
+): string | undefined => {
+  if (Object.hasOwn(definition.states, "ESCALATE")) {
+    return "ESCALATE";
+  }
+  const fail =
+    "transitions" in stateDef ? stateDef.transitions.fail : undefined;
+  const target = fail !== undefined ? definition.states[fail] : undefined;
+  return target && isTerminal(target) ? fail : undefined;
+};
+
+/**
+ * Transition keys the engine looks for, in order, when a state exhausts its
+ * retries. Empty for states that never fall back to `ESCALATE`.
+ */
+const exhaustedRetryKeys = (stateDef: WorkflowStateDefinition): string[] => {
+  if ("assign" in stateDef) {
+    return ["fail"];
+  }
+  if (stateDef.type === "foreach") {
+    return ["failure", "fail"];
+  }
+  return stateDef.type === "action" || stateDef.type === "parallel"
+    ? ["fail"]
+    : [];
+};
+
+/** Whether a state falls back to `ESCALATE` once its retries are used up. */
+const escalatesWhenExhausted = (stateDef: WorkflowStateDefinition): boolean => {
+  const keys = exhaustedRetryKeys(stateDef);
+  return (
+    "transitions" in stateDef &&
+    keys.length > 0 &&
+    !keys.some((key) => Object.hasOwn(stateDef.transitions, key))
+  );
+};
+
+/**
+ * Outgoing edges of a state, including the implicit `ESCALATE` fallback the
+ * engine takes when an agent, action, parallel or foreach state exhausts its
+ * retries without a failure transition.
+ */
+const outgoingTargets = (stateDef: WorkflowStateDefinition): string[] => {
+  if (isTerminal(stateDef) || !("transitions" in stateDef)) {
+    return [];
+  }
+
+  const targets = [
+    ...Object.values(stateDef.transitions),
+    ...(stateDef.guards ?? []).map((guard) => guard.to),
+  ];
+  if (escalatesWhenExhausted(stateDef)) {
+    targets.push("ESCALATE");
+  }
+  return targets;
+};
+
+const findRetryPolicyErrors = (policy: RetryPolicy): string[] => {
+  const errors: string[] = [];
+  const counts: Array<[string, number | undefined]> = [
+    ["maxAttempts", policy.maxAttempts],
+    ...Object.entries(policy.budgets ?? {}).map(
+      ([kind, budget]): [string, number | undefined] => [
+        `budgets.${kind}`,
+        budget,
+      ],
+    ),
+  ];
+  for (const [name, value] of counts) {
+    if (value !== undefined && (!Number.isInteger(value) || value < 1)) {
+      errors.push(
+        `retry ${name} ${value} must be a whole number of at least 1`,
+      );
+    }
+  }
+  for (const [name, value] of [
+    ["backoffMs", policy.backoffMs],
+    ["maxBackoffMs", policy.maxBackoffMs],
+  ] as const) {
+    if (value !== undefined && !(value >= 0)) {
+      errors.push(`retry ${name} ${value} must not be negative`);
+    }
+  }
+  if (policy.backoffFactor !== undefined && !(policy.backoffFactor >= 1)) {
+    errors.push(
+      `retry backoffFactor ${policy.backoffFactor} must be at least 1`,
+    );
+  }
+  return errors;
+};
+
+/**
+ * Problems with a command template: bad syntax, params the workflow does
+ * not declare, or evidence of states it does not have.
+ */
+const findCommandTemplateErrors = (
+  template: string,
+  definition: WorkflowDefinition,
+): string[] => {
+  const error = findCommandTemplateError(template);
+  if (error) {
+    return [error];
+  }
+  return parseCommandTemplate(template).flatMap(
+    ({ source, root, segments }) => {
+      const name = String(segments[0]);
+      if (
+        root === "params" &&
+        definition.params &&
+        !Object.hasOwn(definition.params, name)
+      ) {
+        return [`\${${source}} reads undeclared param "${name}"`];
+      }
+      if (root === "evidence" && !Object.hasOwn(definition.states, name)) {
+        return [`\${${source}} reads evidence of unknown state "${name}"`];
+      }
+      return [];
+    },
+  );
+};
+
+const findParallelStateErrors = (
+  stateDef: ParallelState,
+  definition: WorkflowDefinition,
+  knownWorkflows: ReadonlySet<string>,
+): string[] => {
+  const errors: string[] = [];
+  const branches = Object.entries(stateDef.branches ?? {});
+  if (branches.length === 0) {
+    errors.push("parallel state has no branches");
+  }
+
+  const roles = new Set<string>();
+  for (const [name, branch] of branches) {
+    if (!("assign" in branch)) {
+      if (
+        !branch.workflow.startsWith("$") &&
+        !knownWorkflows.has(branch.workflow)
+      ) {
+        errors.push(
+          `branch "${name}" subworkflow "${branch.workflow}" does not resolve to a loaded workflow`,
+        );
+      }
+      continue;
+    }
+    if (!Object.hasOwn(definition.roles, branch.assign)) {
+      errors.push(`branch "${name}" assigns undefined role "${branch.assign}"`);
+    }
+    // Agent IDs are <workflowId>-<role>, so two branches cannot share a role
+    if (roles.has(branch.assign)) {
+      errors.push(
+        `branch "${name}" reuses role "${branch.assign}" of another branch`,
+      );
+    }
+    roles.add(branch.assign);
+    if (branch.gate.kind === "evidence") {
+      errors.push(
+        ...findEvidenceSchemaErrors(branch.gate.schema).map(
+          (message) => `branch "${name}": ${message}`,
+        ),
+      );
+    }
+  }
+
+  const join = stateDef.join;
+  if (
+    typeof join === "object" &&
+    (!Number.isInteger(join.quorum) ||
+      join.quorum < 1 ||
+      join.quorum > branches.length)
+  ) {
+    errors.push(
+      `join quorum ${join.quorum} must be a whole number from 1 to ${branches.length}`,
+    );
+  }
+  return errors;
+};
+
+const initialStateOf = (definition: WorkflowDefinition): string | undefined =>
+  definition.initialState ?? Object.keys(definition.states)[0];
+
+const reachableFrom = (
+  definition: WorkflowDefinition,
+  start: string,
+): Set<string> => {
+  const seen = new Set<string>();
+  const queue = [start];
+  while (queue.length > 0) {
+    const current = queue.shift() as string;
+    const stateDef = definition.states[current];
+    if (seen.has(current) || !stateDef) {
+      continue;
+    }
+    seen.add(current);
+    queue.push(...outgoingTargets(stateDef));
+  }
+  return seen;
+};
+
+/**
+ * Check a single definition's graph. `knownWorkflows` is the set of workflow
+ * names available to literal `subworkflow()` references.
+ */
+export const validateWorkflowDefinition = (
+  definition: WorkflowDefinition,
+  knownWorkflows: ReadonlySet<string>,
+): WorkflowValidationIssue[] => {
+  const issues: WorkflowValidationIssue[] = [];
+  const push = (
+    severity: WorkflowValidationSeverity,
+    code: WorkflowValidationCode,
+    message: string,
+    state?: string,
+  ) => {
+    issues.push({
+      workflow: definition.name,
+      ...(state !== undefined ? { state } : {}),
+      severity,
+      code,
+      message,
+    });
+  };
+
+  for (const [name, spec] of Object.entries(definition.params ?? {})) {
+    try {
+      parseSchemaType(spec.type);
+    } catch (error) {
+      push(
+        "error",
+        "invalid-schema-type",
+        `param ${name}: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  const version = definition.version ?? 1;
+  if (!Number.isInteger(version) || version < 1) {
+    push("error", "invalid-version", "version must be a positive integer");
+  }
+  for (const migration of definition.migrations ?? []) {
+    if (
+      !Number.isInteger(migration.from) ||
+      migration.from < 1 ||
+      migration.from >= version
+    ) {
+      push(
+        "error",
+        "invalid-version",
+        `migration from version ${migration.from} must start below version ${version}`,
+      );
+    }
+    for (const [from, to] of Object.entries(migration.renameStates ?? {})) {
+      if (!Object.hasOwn(definition.states, to)) {
+        push(
+          "error",
+          "invalid-version",
+          `migration from version ${migration.from} renames "${from}" to unknown state "${to}"`,
+        );
+      }
+    }
+  }
+
+  const stateNames = Object.keys(definition.states);
+  if (stateNames.length === 0) {
+    return issues;
+  }
+
+  const initial = initialStateOf(definition) as string;
+  if (!Object.hasOwn(definition.states, initial)) {
+    push(
+      "error",
+      "unknown-initial-state",
+      `initialState "${initial}" is not a defined state`,
+    );
+  }
+
+  for (const [stateName, stateDef] of Object.entries(definition.states)) {
+    if ("transitions" in stateDef) {
+      for (const [result, target] of Object.entries(stateDef.transitions)) {
+        if (!Object.hasOwn(definition.states, target)) {
+          push(
+            "error",
+            "unknown-transition-target",
+            `transition "${result}" targets unknown state "${target}"`,
+            stateName,
+          );
+        }
+      }
+    }
+
+    if ("guards" in stateDef) {
+      for (const [index, guard] of (stateDef.guards ?? []).entries()) {
+        if (!Object.hasOwn(definition.states, guard.to)) {
+          push(
+            "error",
+            "unknown-transition-target",
+            `guard ${index + 1} targets unknown state "${guard.to}"`,
+            stateName,
+          );
+        }
+        const error = findGuardExpressionError(guard.when);
+        if (error) {
+          push("error", "invalid-guard-expression", error, stateName);
+        }
+      }
+    }
+
+    const reworkKeys =
+      "transitions" in stateDef
+        ? Object.entries(stateDef.transitions)
+            .filter(([key, to]) => isReworkTransition(definition, key, to))
+            .map(([key]) => key)
+        : [];
+    if (
+      reworkKeys.length > 0 &&
+      !reworkEscalationTarget(definition, stateDef)
+    ) {
+      push(
+        "error",
+        "no-rework-escalation",
+        `${reworkKeys.map((key) => `"${key}"`).join(", ")} counts against the rework budget, but there is no ESCALATE state or terminal "fail" target to escalate to`,
+        stateName,
+      );
+    }
+
+    if (
+      escalatesWhenExhausted(stateDef) &&
+      !Object.hasOwn(definition.states, "ESCALATE")
+    ) {
+      const keys = exhaustedRetryKeys(stateDef).map((key) => `"${key}"`);
+      push(
+        "warning",
+        "missing-escalation-fallback",
+        `no ${keys.join(" or ")} transition and no ESCALATE state for exhausted retries`,
+        stateName,
+      );
+    }
+
+    if (
+      "type" in stateDef &&
+      (stateDef.type === "action" || stateDef.type === "parallel") &&
+      !Object.hasOwn(stateDef.transitions, "pass")
+    ) {
+      push(
+        "error",
+        "unknown-transition-target",
+        `${stateDef.type} state has no "pass" transition`,
+        stateName,
+      );
+    }
+
+    if ("type" in stateDef && stateDef.type === "foreach") {
+      if (
+        !Object.hasOwn(stateDef.transitions, "success") &&
+        !Object.hasOwn(stateDef.transitions, "pass")
+      ) {
+        push(
+          "error",
+          "unknown-transition-target",
+          `foreach state has no "success" or "pass" transition`,
+          stateName,
+        );
+      }
+      if (!stateDef.items) {
+        push(
+          "error",
+          "invalid-foreach-state",
+          "foreach state has no items path",
+          stateName,
+        );
+      }
+      const concurrency = stateDef.concurrency;
+      if (
+        concurrency !== undefined &&
+        (!Number.isInteger(concurrency) || concurrency < 1)
+      ) {
+        push(
+          "error",
+          "invalid-foreach-state",
+          `concurrency ${concurrency} must be a whole number of at least 1`,
+          stateName,
+        );
+      }
+    }
+
+    if ("retry" in stateDef && stateDef.retry) {
+      for (const message of findRetryPolicyErrors(stateDef.retry)) {
+        push("error", "invalid-retry-policy", message, stateName);
+      }
+    }
+
+    const verifications = [
+      ...("gate" in stateDef &&
+      "verify" in stateDef.gate &&
+      stateDef.gate.verify
+        ? [{ prefix: "", verify: stateDef.gate.verify }]
+        : []),
+      ...("type" in stateDef && stateDef.type === "parallel"
+        ? Object.entries(stateDef.branches ?? {}).flatMap(([name, branch]) =>
+            "assign" in branch && "verify" in branch.gate && branch.gate.verify
+              ? [{ prefix: `branch "${name}": `, verify: branch.gate.verify }]
+              : [],
+          )
+        : []),
+    ];
+    for (const { prefix, verify } of verifications) {
+      for (const message of findVerificationErrors(verify)) {
+        push("error", "invalid-verification", `${prefix}${message}`, stateName);
+      }
+    }
+    const templates = [
+      ...("type" in stateDef && stateDef.type === "action"
+        ? stateDef.commands.map((command) => ({ prefix: "", command }))
+        : []),
+      ...verifications.map(({ prefix, verify }) => ({
+        prefix,
+        command: verify.command,
+      })),
+    ];
+    for (const { prefix, command } of templates) {
+      for (const message of findCommandTemplateErrors(command, definition)) {
+        push(
+          "error",
+          "invalid-command-template",
+          `${prefix}${message}`,
+          stateName,
+        );
+      }
+    }
+
+    if ("type" in stateDef && stateDef.type === "parallel") {
+      for (const message of findParallelStateErrors(
+        stateDef,
+        definition,
+        knownWorkflows,
+      )) {
+        push("error", "invalid-parallel-state", message, stateName);
+      }
+    }
+
+    if ("assign" in stateDef) {
+      if (!Object.hasOwn(definition.roles, stateDef.assign)) {
+        push(
+          "error",
+          "undefined-role",
+          `assigned role "${stateDef.assign}" is not defined`,
+          stateName,
+        );
+      }
+
+      if (stateDef.gate.kind === "evidence") {
+        for (const message of findEvidenceSchemaErrors(stateDef.gate.schema)) {
+          push("error", "invalid-schema-type", message, stateName);
+        }
+      }
+
+      if (stateDef.gate.kind === "verdict") {
+        for (const option of stateDef.gate.options) {
+          if (
+            !Object.hasOwn(stateDef.transitions, option) &&
+            !Object.hasOwn(stateDef.transitions, "pass")
+          ) {
+            push(
+              "error",
+              "unmatched-verdict-option",
+              `verdict option "${option}" has no matching transition`,
+              stateName,
+            );
+          }
+        }
+      }
+    }
+
+    if (
+      "type" in stateDef &&
+      (stateDef.type === "subworkflow" || stateDef.type === "foreach") &&
+      !stateDef.workflow.startsWith("$") &&
+      !knownWorkflows.has(stateDef.workflow)
+    ) {
+      push(
+        "error",
+        "unknown-subworkflow",
+        `subworkflow "${stateDef.workflow}" does not resolve to a loaded workflow`,
+        stateName,
+      );
+    }
+  }
+
+  if (Object.hasOwn(definition.states, initial)) {
+    const reachable = reachableFrom(definition, initial);
+    for (const stateName of stateNames) {
+      if (!reachable.has(stateName)) {
+        push(
+          "warning",
+          "unreachable-state",
+          `state is unreachable from initial state "${initial}"`,
+          stateName,
+        );
+      }
+    }
+  }
+
+  for (const [stateName, stateDef] of Object.entries(definition.states)) {
+    if (isTerminal(stateDef)) {
+      continue;
+    }
+    const canTerminate = [...reachableFrom(definition, stateName)].some(
+      (candidate) =>
+        isTerminal(definition.states[candidate] as WorkflowStateDefinition),
+    );
+    if (!canTerminate) {
+      push(
+        "error",
+        "no-terminal-path",
+        "no path from this state reaches a terminal state",
+        stateName,
+      );
+    }
+  }
+
+  return issues;
+};
+
+/**
+ * Validate every loaded workflow module. Sources are expected in load order
+ * (built-ins first, then project overrides). Sources with at least one
+ * error-severity issue are rejected; the rest are accepted in order, so a
+ * broken project override leaves the built-in definition in place.
+ */
+export const validateWorkflowSources = (
+  sources: Array<{
+    definition: unknown;
+    source: string;
+    origin: WorkflowSource["origin"];
+  }>,
+): WorkflowValidationReport => {
+  const issues: WorkflowValidationIssue[] = [];
+  const wellFormed: WorkflowSource[] = [];
+
+  for (const entry of sources) {
+    if (!isWorkflowDefinitionShape(entry.definition)) {
+      issues.push({
+        workflow: "(unknown)",
+        source: entry.source,
+        severity: "error",
+        code: "invalid-definition",
+        message:
+          "module does not export a workflow definition with name, roles, and states",
+      });
+      continue;
+    }
+    wellFormed.push(entry as WorkflowSource);
+  }
+
+  // A reference to a definition rejected here fails at dispatch, so check
+  // again against what is accepted until nothing more is rejected
+  let knownWorkflows = new Set(
+    wellFormed.map((entry) => entry.definition.name),
+  );
+  for (;;) {
+    const pass = validateWellFormedSources(wellFormed, knownWorkflows);
+    const acceptedNames = new Set(
+      pass.accepted.map((entry) => entry.definition.name),
+    );
+    if (acceptedNames.size === knownWorkflows.size) {
+      issues.push(...pass.issues);
+      return { issues, accepted: pass.accepted, rejected: pass.rejected };
+    }
+    knownWorkflows = acceptedNames;
+  }
+};
+
+const validateWellFormedSources = (
+  wellFormed: WorkflowSource[],
+  knownWorkflows: ReadonlySet<string>,
+): WorkflowValidationReport => {
+  const issues: WorkflowValidationIssue[] = [];
+  const accepted: WorkflowSource[] = [];
+  const rejected: WorkflowSource[] = [];
+  const seen = new Map<string, WorkflowSource>();
+
+  for (const entry of wellFormed) {
+    const entryIssues = validateWorkflowDefinition(
+      entry.definition,
+      knownWorkflows,
+    ).map((issue) => ({ ...issue, source: entry.source }));
+
+    const previous = seen.get(entry.definition.name);
+    if (previous) {
+      const override =
+        previous.origin === "builtin" && entry.origin === "project";
+      entryIssues.push({
+        workflow: entry.definition.name,
+        source: entry.source,
+        severity: override ? "warning" : "error",
+        code: "duplicate-workflow-name",
+        message: override
+          ? `overrides built-in workflow from ${previous.source}`
+          : `duplicate workflow name also defined in ${previous.source}`,
+      });
+    }
+    seen.set(entry.definition.name, entry);
+
+    issues.push(...entryIssues);
+    if (entryIssues.some((issue) => issue.severity === "error")) {
+      rejected.push(entry);
+    } else {
+      accepted.push(entry);
+    }
+  }
+
+  return { issues, accepted, rejected };
+};
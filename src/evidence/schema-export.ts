@@ -0,0 +1,154 @@
+import fs from "node:fs";
+import path from "node:path";
+import type { GateDefinition } from "../core/types";
+import { type SchemaTypeNode, compileEvidenceSchema } from "./schema-language";
+import type { EvidenceSchemaEntry } from "./schema-registry";
+
+const JSON_SCHEMA_DIALECT = "https://json-schema.org/draft/2020-12/schema";
+
+const numberBounds = (
+  node: Extract<SchemaTypeNode, { kind: "number" }>,
+): Record<string, number> => ({
+  ...(node.min !== undefined ? { minimum: node.min } : {}),
+  ...(node.max !== undefined ? { maximum: node.max } : {}),
+});
+
+/** Translate a compiled schema node into a JSON Schema fragment. */
+export const schemaNodeToJsonSchema = (
+  node: SchemaTypeNode,
+): Record<string, unknown> => {
+  switch (node.kind) {
+    case "primitive":
+      return node.name === "any" ? {} : { type: node.name };
+    case "number":
+      return {
+        type: node.integer ? "integer" : "number",
+        ...numberBounds(node),
+      };
+    case "literal":
+      return { const: node.value };
+    case "array":
+      return { type: "array", items: schemaNodeToJsonSchema(node.element) };
+    case "union":
+      return node.options.every((option) => option.kind === "literal")
+        ? {
+            enum: node.options.map(
+              (option) =>
+                (option as Extract<SchemaTypeNode, { kind: "literal" }>).value,
+            ),
+          }
+        : { anyOf: node.options.map(schemaNodeToJsonSchema) };
+    case "shape": {
+      const entries = Object.entries(node.fields);
+      return {
+        type: "object",
+        properties: Object.fromEntries(
+          entries.map(([name, field]) => [
+            name,
+            schemaNodeToJsonSchema(field.node),
+          ]),
+        ),
+        required: entries
+          .filter(([, field]) => !field.optional)
+          .map(([name]) => name),
+      };
+    }
+  }
+};
+
+/** A standalone JSON Schema document for one evidence gate. */
+export const buildEvidenceJsonSchema = (
+  entry: EvidenceSchemaEntry,
+): Record<string, unknown> => ({
+  $schema: JSON_SCHEMA_DIALECT,
+  $id: `orchestra://evidence/${entry.workflow}/${entry.state}`,
+  title: `${entry.workflow} ${entry.state} evidence`,
+  ...schemaNodeToJsonSchema(compileEvidenceSchema(entry.schema)),
+});
+
+export const evidenceJsonSchemaPath = (
+  rootDir: string,
+  entry: Pick<EvidenceSchemaEntry, "workflow" | "state">,
+): string =>
+  path.join(
+    rootDir,
+    "evidence",
+    "schemas",
+    entry.workflow,
+    `${entry.state}.json`,
+  );
+
+/**
+ * Write one JSON Schema document per evidence gate under
+ * `<rootDir>/evidence/schemas/<workflow>/<state>.json`. Returns the paths
+ * written.
+ */
+export const writeEvidenceJsonSchemas = (
+  rootDir: string,
+  entries: EvidenceSchemaEntry[],
+): string[] =>
+  entries.map((entry) => {
+    const file = evidenceJsonSchemaPath(rootDir, entry);
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(
+      file,
+      `${JSON.stringify(buildEvidenceJsonSchema(entry), null, 2)}\n`,
+    );
+    return file;
+  });
+
+/**
+ * Render a compiled schema node as TypeBox construction source. Used by the
+ * generated agent scope extension so `submit_evidence` advertises the exact
+ * contract and can check it with `Value.Check` before calling the bus.
+ */
+export const schemaNodeToTypeBoxSource = (node: SchemaTypeNode): string => {
+  switch (node.kind) {
+    case "primitive":
+      return {
+        string: "Type.String()",
+        boolean: "Type.Boolean()",
+        array: "Type.Array(Type.Any())",
+        object: "Type.Record(Type.String(), Type.Any())",
+        any: "Type.Any()",
+        null: "Type.Null()",
+      }[node.name];
+    case "number": {
+      const bounds = numberBounds(node);
+      const options =
+        Object.keys(bounds).length > 0 ? JSON.stringify(bounds) : "";
+      return `Type.${node.integer ? "Integer" : "Number"}(${options})`;
+    }
+    case "literal":
+      return `Type.Literal(${JSON.stringify(node.value)})`;
+    case "array":
+      return `Type.Array(${schemaNodeToTypeBoxSource(node.element)})`;
+    case "union":
+      return `Type.Union([${node.options.map(schemaNodeToTypeBoxSource).join(", ")}])`;
+    case "shape":
+      return `Type.Object({ ${Object.entries(node.fields)
+        .map(([name, field]) => {
+          const inner = schemaNodeToTypeBoxSource(field.node);
+          return `${JSON.stringify(name)}: ${field.optional ? `Type.Optional(${inner})` : inner}`;
+        })
+        .join(", ")} })`;
+  }
+};
+
+/**
+ * TypeBox source for the `evidence` and `result` parameters of
+ * `submit_evidence` for a given gate. Gates without an evidence schema keep
+ * the open record; verdict gates restrict `result` to their options.
+ */
+export const buildSubmitEvidenceTypeBoxSource = (
+  gate?: GateDefinition,
+): { evidence: string; result: string } => ({
+  evidence:
+    gate?.kind === "evidence"
+      ? schemaNodeToTypeBoxSource(compileEvidenceSchema(gate.schema))
+      : "Type.Record(Type.String(), Type.Any())",
+  result:
+    gate?.kind === "verdict" && gate.options.length > 0
+      ? `Type.Union([${gate.options.map((option) => `Type.Literal(${JSON.stringify(option)})`).join(", ")}])`
+      : "Type.String()",
+});
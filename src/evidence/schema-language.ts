@@ -0,0 +1,369 @@
+import type { EvidenceFieldSchema, EvidenceSchema } from "../core/types";
+
+/**
+ * Schema type grammar shared by evidence gates and workflow params.
+ *
+ *   type    := union "?"?
+ *   union   := postfix ("|" postfix)*
+ *   postfix := atom ("[]")*
+ *   atom    := name range? | literal | "(" union ")"
+ *   name    := string | number | integer | boolean | array | object | any | null
+ *   range   := "(" number? ".." number? ")"     (number and integer only)
+ *   literal := "text" | 'text' | 12.5 | true | false
+ *
+ * Examples: `string[]`, `string?`, `"red"|"green"`, `number(0..100)`,
+ * `("low"|"high")[]`. Nested object shapes are written as objects in the
+ * evidence schema itself, and `[shape]` describes a list of shapes.
+ */
+export type SchemaTypeNode =
+  | {
+      kind: "primitive";
+      name: "string" | "boolean" | "array" | "object" | "any" | "null";
+    }
+  | { kind: "number"; integer: boolean; min?: number; max?: number }
+  | { kind: "literal"; value: string | number | boolean }
+  | { kind: "array"; element: SchemaTypeNode }
+  | { kind: "union"; options: SchemaTypeNode[] }
+  | { kind: "shape"; fields: Record<string, SchemaField> };
+
+export interface SchemaField {
+  node: SchemaTypeNode;
+  optional: boolean;
+}
+
+const PRIMITIVES = new Set([
+  "string",
+  "boolean",
+  "array",
+  "object",
+  "any",
+  "null",
+]);
+
+class SchemaTypeParser {
+  private position = 0;
+
+  constructor(private readonly source: string) {}
+
+  parse(): SchemaField {
+    const node = this.parseUnion();
+    this.skipSpace();
+    const optional = this.consume("?");
+    this.skipSpace();
+    if (this.position < this.source.length) {
+      this.fail(`unexpected "${this.source.slice(this.position)}"`);
+    }
+    return { node, optional };
+  }
+
+  private parseUnion(): SchemaTypeNode {
+    const options = [this.parsePostfix()];
+    this.skipSpace();
+    while (this.consume("|")) {
+      options.push(this.parsePostfix());
+      this.skipSpace();
+    }
+    return options.length === 1
+      ? (options[0] as SchemaTypeNode)
+      : { kind: "union", options };
+  }
+
+  private parsePostfix(): SchemaTypeNode {
+    let node = this.parseAtom();
+    this.skipSpace();
+    while (this.consume("[]")) {
+      node = { kind: "array", element: node };
+      this.skipSpace();
+    }
+    return node;
+  }
+
+  private parseAtom(): SchemaTypeNode {
+    this.skipSpace();
+    const char = this.source[this.position];
+
+    if (char === "(") {
+      this.position += 1;
+      const inner = this.parseUnion();
+      this.skipSpace();
+      if (!this.consume(")")) {
+        this.fail('expected ")"');
+      }
+      return inner;
+    }
+
+    if (char === '"' || char === "'") {
+      const end = this.source.indexOf(char, this.position + 1);
+      if (end < 0) {
+        this.fail("unterminated string literal");
+      }
+      const value = this.source.slice(this.position + 1, end);
+      this.position = end + 1;
+      return { kind: "literal", value };
+    }
+
+    const numeric = /^-?\d+(\.\d+)?/.exec(this.source.slice(this.position));
+    if (numeric) {
+      this.position += numeric[0].length;
+      return { kind: "literal", value: Number(numeric[0]) };
+    }
+
+    const word = /^[A-Za-z_]+/.exec(this.source.slice(this.position));
+    if (!word) {
+      this.fail("expected a type");
+    }
+    const name = (word as RegExpExecArray)[0];
+    this.position += name.length;
+
+    if (name === "true" || name === "false") {
+      return { kind: "literal", value: name === "true" };
+    }
+
+    if (name === "number" || name === "integer") {
+      return { kind: "number", integer: name === "integer", ...this.range() };
+    }
+
+    if (!PRIMITIVES.has(name)) {
+      this.fail(`unknown type "${name}"`);
+    }
+    return {
+      kind: "primitive",
+      name: name as Extract<SchemaTypeNode, { kind: "primitive" }>["name"],
+    };
+  }
+
+  private range(): { min?: number; max?: number } {
+    const match =
+      /^\(\s*(-?\d+(?:\.\d+)?)?\s*\.\.\s*(-?\d+(?:\.\d+)?)?\s*\)/.exec(
+        this.source.slice(this.position),
+      );
+    if (!match) {
+      return {};
+    }
+    this.position += match[0].length;
+    return {
+      ...(match[1] !== undefined ? { min: Number(match[1]) } : {}),
+      ...(match[2] !== undefined ? { max: Number(match[2]) } : {}),
+    };
+  }
+
+  private skipSpace(): void {
+    while (/\s/.test(this.source[this.position] ?? "")) {
+      this.position += 1;
+    }
+  }
+
+  private consume(token: string): boolean {
+    if (this.source.startsWith(token, this.position)) {
+      this.position += token.length;
+      return true;
+    }
+    return false;
+  }
+
+  private fail(reason: string): never {
+    throw new Error(`invalid schema type "${this.source}": ${reason}`);
+  }
+}
+
+export const parseSchemaType = (source: string): SchemaField =>
+  new SchemaTypeParser(source).parse();
+
+const stripOptionalKey = (key: string): { name: string; optional: boolean } =>
+  key.endsWith("?")
+    ? { name: key.slice(0, -1), optional: true }
+    : { name: key, optional: false };
+
+export const compileSchemaField = (field: EvidenceFieldSchema): SchemaField => {
+  if (typeof field === "string") {
+    return parseSchemaType(field);
+  }
+
+  if (Array.isArray(field)) {
+    return {
+      node: {
+        kind: "array",
+        element: compileSchemaField(field[0] as EvidenceFieldSchema).node,
+      },
+      optional: false,
+    };
+  }
+
+  return { node: compileEvidenceSchema(field), optional: false };
+};
+
+/**
+ * Compile an evidence schema into a shape node. A trailing `?` on either the
+ * key (`"notes?": "string"`) or the type (`notes: "string?"`) marks the field
+ * optional; the key form is the only option for nested shapes.
+ */
+export const compileEvidenceSchema = (
+  schema: EvidenceSchema,
+): Extract<SchemaTypeNode, { kind: "shape" }> => {
+  const fields: Record<string, SchemaField> = {};
+  for (const [key, value] of Object.entries(schema)) {
+    const { name, optional } = stripOptionalKey(key);
+    const compiled = compileSchemaField(value);
+    fields[name] = {
+      node: compiled.node,
+      optional: optional || compiled.optional,
+    };
+  }
+  return { kind: "shape", fields };
+};
+
+/** Syntax errors in an evidence schema, without throwing. */
+export const findEvidenceSchemaErrors = (schema: EvidenceSchema): string[] => {
+  const errors: string[] = [];
+  for (const [key, value] of Object.entries(schema)) {
+    try {
+      compileSchemaField(value);
+    } catch (error) {
+      errors.push(
+        `${stripOptionalKey(key).name}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+  return errors;
+};
+
+export const formatSchemaType = (node: SchemaTypeNode): string => {
+  switch (node.kind) {
+    case "primitive":
+      return node.name;
+    case "number": {
+      const name = node.integer ? "integer" : "number";
+      return node.min === undefined && node.max === undefined
+        ? name
+        : `${name}(${node.min ?? ""}..${node.max ?? ""})`;
+    }
+    case "literal":
+      return JSON.stringify(node.value);
+    case "array": {
+      const element = formatSchemaType(node.element);
+      return node.element.kind === "union" ? `(${element})[]` : `${element}[]`;
+    }
+    case "union":
+      return node.options.map(formatSchemaType).join("|");
+    case "shape":
+      return `{ ${Object.entries(node.fields)
+        .map(
+          ([name, field]) =>
+            `${name}${field.optional ? "?" : ""}: ${formatSchemaType(field.node)}`,
+        )
+        .join(", ")} }`;
+  }
+};
+
+export const describeValueType = (value: unknown): string =>
+  Array.isArray(value) ? "array" : value === null ? "null" : typeof value;
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * Check `value` against `node`, appending one message per problem. `path` is
+ * the dotted field path used in messages (`files[1].path`).
+ */
+export const checkSchemaValue = (
+  node: SchemaTypeNode,
+  value: unknown,
+  path: string,
+  errors: string[],
+): void => {
+  const mismatch = () =>
+    errors.push(
+      `type mismatch for ${path}: expected ${formatSchemaType(node)}, got ${describeValueType(value)}`,
+    );
+
+  switch (node.kind) {
+    case "primitive": {
+      const ok =
+        node.name === "any" ||
+        (node.name === "null" && value === null) ||
+        (node.name === "array" && Array.isArray(value)) ||
+        (node.name === "object" && isPlainObject(value)) ||
+        (node.name === "string" && typeof value === "string") ||
+        (node.name === "boolean" && typeof value === "boolean");
+      if (!ok) {
+        mismatch();
+      }
+      return;
+    }
+    case "number": {
+      if (typeof value !== "number" || Number.isNaN(value)) {
+        mismatch();
+        return;
+      }
+      if (
+        (node.integer && !Number.isInteger(value)) ||
+        (node.min !== undefined && value < node.min) ||
+        (node.max !== undefined && value > node.max)
+      ) {
+        errors.push(
+          `out of range for ${path}: expected ${formatSchemaType(node)}, got ${value}`,
+        );
+      }
+      return;
+    }
+    case "literal":
+      if (value !== node.value) {
+        errors.push(
+          `invalid value for ${path}: expected ${formatSchemaType(node)}, got ${JSON.stringify(value) ?? "undefined"}`,
+        );
+      }
+      return;
+    case "union": {
+      const matched = node.options.some((option) => {
+        const optionErrors: string[] = [];
+        checkSchemaValue(option, value, path, optionErrors);
+        return optionErrors.length === 0;
+      });
+      if (!matched) {
+        const primitive =
+          value === null ||
+          ["string", "number", "boolean"].includes(typeof value);
+        errors.push(
+          primitive
+            ? `invalid value for ${path}: expected ${formatSchemaType(node)}, got ${JSON.stringify(value)}`
+            : `type mismatch for ${path}: expected ${formatSchemaType(node)}, got ${describeValueType(value)}`,
+        );
+      }
+      return;
+    }
+    case "array":
+      if (!Array.isArray(value)) {
+        mismatch();
+        return;
+      }
+      value.forEach((item, index) => {
+        checkSchemaValue(node.element, item, `${path}[${index}]`, errors);
+      });
+      return;
+    case "shape":
+      if (!isPlainObject(value)) {
+        mismatch();
+        return;
+      }
+      checkShapeFields(node.fields, value, path, errors);
+      return;
+  }
+};
+
+export const checkShapeFields = (
+  fields: Record<string, SchemaField>,
+  value: Record<string, unknown>,
+  path: string,
+  errors: string[],
+): void => {
+  for (const [name, field] of Object.entries(fields)) {
+    const fieldPath = path ? `${path}.${name}` : name;
+    if (!(name in value) || value[name] === undefined) {
+      if (!field.optional) {
+        errors.push(`missing key: ${fieldPath}`);
+      }
+      continue;
+    }
+    checkSchemaValue(field.node, value[name], fieldPath, errors);
+  }
+};
@@ -1,9 +1,29 @@
-import type { WorkflowDefinition, WorkflowRuntimeState } from "../core/types";
+import type {
+  EvidenceSchema,
+  WorkflowDefinition,
+  WorkflowRuntimeState,
+} from "../core/types";
+import {
+  checkSchemaValue,
+  checkShapeFields,
+  compileEvidenceSchema,
+  describeValueType,
+  formatSchemaType,
+  parseSchemaType,
+} from "./schema-language";
+
+export interface EvidenceSchemaField {
+  name: string;
+  type: string;
+  optional: boolean;
+}
 
 export interface EvidenceSchemaEntry {
   workflow: string;
   state: string;
-  schema: Record<string, string>;
+  schema: EvidenceSchema;
+  /** Canonical rendering of each field, as shown to agents. */
+  fields: EvidenceSchemaField[];
 }
 
 export interface EvidenceValidationDiagnostic {
@@ -12,45 +32,67 @@ export interface EvidenceValidationDiagnostic {
   errors: string[];
 }
 
-const matchesType = (value: unknown, expected: string): boolean => {
-  if (expected === "string") {
-    return typeof value === "string";
-  }
-
-  if (expected === "number") {
-    return typeof value === "number";
-  }
-
-  if (expected === "boolean") {
-    return typeof value === "boolean";
-  }
-
-  if (expected === "array") {
-    return Array.isArray(value);
-  }
-
-  if (expected === "object") {
-    return typeof value === "object" && value !== null && !Array.isArray(value);
+export { describeValueType };
+
+/**
+ * Check a value against a schema type expression. Shared by evidence gates
+ * and workflow params so both use the same type vocabulary. Malformed type
+ * expressions never match; load-time validation reports them.
+ */
+export const matchesSchemaType = (
+  value: unknown,
+  expected: string,
+): boolean => {
+  let field: ReturnType<typeof parseSchemaType>;
+  try {
+    field = parseSchemaType(expected);
+  } catch {
+    return false;
   }
 
-  return true;
+  const errors: string[] = [];
+  checkSchemaValue(field.node, value, "value", errors);
+  return errors.length === 0;
 };
 
+/** Render every field of an evidence schema in canonical form. */
+export const describeEvidenceSchema = (
+  schema: EvidenceSchema,
+): EvidenceSchemaField[] =>
+  Object.entries(compileEvidenceSchema(schema).fields).map(([name, field]) => ({
+    name,
+    type: formatSchemaType(field.node),
+    optional: field.optional,
+  }));
+
 export const collectEvidenceSchemas = (
   definitions: WorkflowDefinition[],
 ): EvidenceSchemaEntry[] => {
   const entries: EvidenceSchemaEntry[] = [];
   for (const definition of definitions) {
     for (const [state, stateDef] of Object.entries(definition.states)) {
-      if (!("gate" in stateDef) || stateDef.gate.kind !== "evidence") {
-        continue;
+      // Parallel agent branches are listed as `<STATE>.<branch>`
+      const gated =
+        "type" in stateDef && stateDef.type === "parallel"
+          ? Object.entries(stateDef.branches).map(
+              ([branch, branchDef]) =>
+                [
+                  `${state}.${branch}`,
+                  "gate" in branchDef ? branchDef.gate : undefined,
+                ] as const,
+            )
+          : [[state, "gate" in stateDef ? stateDef.gate : undefined] as const];
+      for (const [name, gate] of gated) {
+        if (gate?.kind !== "evidence") {
+          continue;
+        }
+        entries.push({
+          workflow: definition.name,
+          state: name,
+          schema: gate.schema,
+          fields: describeEvidenceSchema(gate.schema),
+        });
       }
-
-      entries.push({
-        workflow: definition.name,
-        state,
-        schema: stateDef.gate.schema,
-      });
     }
   }
 
@@ -59,28 +101,16 @@ export const collectEvidenceSchemas = (
 
 export const validateEvidenceForState = (
   state: string,
-  schema: Record<string, string>,
+  schema: EvidenceSchema,
   evidence: Record<string, unknown>,
 ): EvidenceValidationDiagnostic => {
   const errors: string[] = [];
-
-  for (const [key, typeName] of Object.entries(schema)) {
-    if (!(key in evidence)) {
-      errors.push(`missing key: ${key}`);
-      continue;
-    }
-
-    if (!matchesType(evidence[key], typeName)) {
-      const actual = Array.isArray(evidence[key])
-        ? "array"
-        : evidence[key] === null
-          ? "null"
-          : typeof evidence[key];
-      errors.push(
-        `type mismatch for ${key}: expected ${typeName}, got ${actual}`,
-      );
-    }
-  }
+  checkShapeFields(
+    compileEvidenceSchema(schema).fields,
+    evidence ?? {},
+    "",
+    errors,
+  );
 
   return {
     state,
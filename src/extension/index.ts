@@ -2,11 +2,25 @@ import path from "node:path";
 import type {
   ExtensionAPI,
   ExtensionCommandContext,
+  ExtensionContext,
 } from "@mariozechner/pi-coding-agent";
 import { Type } from "@sinclair/typebox";
+import type { WorkflowDomainEventType } from "../core/domain-events";
+import { EscalationInbox, type EscalationStatus } from "../core/escalations";
 import { MessageBus } from "../core/message-bus";
-import { StateStore } from "../core/state-store";
-import { WorkflowEngine } from "../core/workflow-engine";
+import {
+  STATE_BACKENDS,
+  createStateStore,
+  isStateBackend,
+  migrateStateStore,
+} from "../core/state-backends";
+import {
+  type WorkflowCancellation,
+  WorkflowEngine,
+  WorkflowParamsError,
+  type WorkflowTimeout,
+} from "../core/workflow-engine";
+import { writeEvidenceJsonSchemas } from "../evidence/schema-export";
 import {
   buildWorkflowEvidenceDiagnostics,
   collectEvidenceSchemas,
@@ -14,11 +28,17 @@ import {
 import {
   type DashboardSection,
   buildActionLines,
+  buildApprovalLines,
+  buildAutopilotLines,
   buildCommandHelpLines,
+  buildEscalationLines,
   buildInteractiveDashboardLines,
   buildOverviewLines,
+  buildQueueLines,
+  buildReplayLines,
   buildRetroApplyLines,
   buildTuningLines,
+  buildValidationLines,
   buildWorkflowDetailLines,
   buildWorkflowLines,
 } from "../observability/dashboard";
@@ -28,6 +48,12 @@ import { buildCutlineStatus } from "../project/cutline";
 import { buildReadinessReport } from "../project/readiness";
 import { RetroProposalApplier } from "../retro/proposal-applier";
 import { RetroProposalArtifact } from "../retro/proposal-artifact";
+import {
+  ConfigWatcher,
+  type RecordChanges,
+  diffRecords,
+  readAgentOverrides,
+} from "../runtime/config-watcher";
 import {
   type HealthCheckResult,
   HealthScheduler,
@@ -38,6 +64,15 @@ import {
 } from "../runtime/zellij-supervisor";
 import { ModelTuner } from "../tuning/model-tuner";
 
+/** Changes that can give an autopilot workflow something to dispatch. */
+const AUTOPILOT_TRIGGERS = new Set<WorkflowDomainEventType>([
+  "state.entered",
+  "attempt.failed",
+  "approval.decided",
+  "workflow.resumed",
+  "workflow.cancelled",
+]);
+
 const asToolResult = (payload: unknown) => ({
   content: [{ type: "text" as const, text: JSON.stringify(payload, null, 2) }],
   details: payload,
@@ -45,11 +80,20 @@ const asToolResult = (payload: unknown) => ({
 
 export default function (pi: ExtensionAPI): void {
   const root = path.join(process.cwd(), ".orchestra");
-  const store = new StateStore(root);
+  let projectConfig = loadProjectConfig(process.cwd());
+  const store = createStateStore(root, projectConfig.stateBackend);
   store.ensure();
 
-  let projectConfig = loadProjectConfig(process.cwd());
-  const engine = new WorkflowEngine(pi, process.cwd(), store);
+  const engine = new WorkflowEngine(pi, process.cwd(), store, projectConfig);
+  const escalations = new EscalationInbox(path.join(root, "escalations"));
+  let uiContext: ExtensionContext | undefined;
+  engine.terminalActions.register("notify", ({ workflow, state, reason }) => {
+    uiContext?.ui.notify(
+      `orchestra: ${workflow.workflow_id} needs a human at ${state}${reason ? ` (${reason})` : ""}`,
+      "error",
+    );
+    return { notified: uiContext !== undefined };
+  });
   const tuner = new ModelTuner(path.join(root, "tuning"));
   const retro = new RetroProposalApplier(process.cwd());
   const retroArtifact = new RetroProposalArtifact(process.cwd());
@@ -84,10 +128,48 @@ export default function (pi: ExtensionAPI): void {
         const panes = await zellij.listPanes();
         return {
           name: "panes",
-          ok: panes.length > 0 || engine.list().length === 0,
+          // Only zellij-launched agents live in panes
+          ok:
+            panes.length > 0 ||
+            engine.list().length === 0 ||
+            engine.agentLauncherKind !== "zellij",
           message: `panes=${panes.length}`,
         };
       },
+      async () => {
+        const agents = await engine.checkAgents();
+        const down = agents.filter((agent) => !agent.alive);
+        // No event says an agent died; autopilot redispatches on this sweep
+        for (const agent of down) {
+          if (autopilotWorkflows.has(agent.workflowId)) {
+            void tickAutopilot(agent.workflowId);
+          }
+        }
+        return {
+          name: "launcher",
+          ok: down.length === 0,
+          message: `launcher=${engine.agentLauncherKind} alive=${agents.length - down.length} down=${down.length}${down.map((agent) => ` ${agent.agentId}`).join("")}`,
+        };
+      },
+      async () => {
+        const expired = await expireTimedOutStates(engine);
+        return {
+          name: "timeouts",
+          ok: true,
+          message: `expired=${expired.length}${expired.map((timeout) => ` ${timeout.workflowId}:${timeout.state}`).join("")}`,
+        };
+      },
+      () => {
+        const stale = engine.staleAgents(
+          new Date(),
+          projectConfig.heartbeatStaleMs,
+        );
+        return {
+          name: "agents",
+          ok: stale.length === 0,
+          message: `stale=${stale.length}${stale.map((agent) => ` ${agent.agentId}(${Math.round(agent.idleMs / 1000)}s)`).join("")}`,
+        };
+      },
       () => {
         const recommendations = tuner.listRecommendations();
         return {
@@ -100,14 +182,18 @@ export default function (pi: ExtensionAPI): void {
     (results) => {
       lastHealthResults = results;
     },
-    (escalation) => {
-      const pausedWorkflows = engine
+    async (escalation) => {
+      const running = engine
         .list()
         .filter((workflow) => !workflow.paused)
-        .map((workflow) => {
-          engine.pause(workflow.workflow_id as unknown as string);
-          return workflow.workflow_id as unknown as string;
-        });
+        .map((workflow) => workflow.workflow_id as unknown as string);
+      // A workflow another writer keeps locked stays running
+      const paused = await Promise.allSettled(
+        running.map((workflowId) => engine.pause(workflowId)),
+      );
+      const pausedWorkflows = running.filter(
+        (_, index) => paused[index]?.status === "fulfilled",
+      );
 
       lastHealthEscalation = {
         ...escalation,
@@ -117,120 +203,168 @@ export default function (pi: ExtensionAPI): void {
   );
 
   let initialized = false;
-  const autopilotTimers = new Map<string, ReturnType<typeof setInterval>>();
-  const autopilotTokens = new Map<string, string>();
+  // The enrollment lives in the workflow state; this session ticks the
+  // enrolled workflows whenever the engine reports a change to them
+  const autopilotWorkflows = new Set<string>();
+  const autopilotRetryTimers = new Map<string, ReturnType<typeof setTimeout>>();
+  /** Workflows mid-tick, and whether another event arrived meanwhile. */
+  const autopilotTicking = new Map<string, boolean>();
+
+  const releaseAutopilot = (workflowId: string): boolean => {
+    clearTimeout(autopilotRetryTimers.get(workflowId));
+    autopilotRetryTimers.delete(workflowId);
+    return autopilotWorkflows.delete(workflowId);
+  };
 
-  const isWorkflowTerminal = (workflowId: string): boolean => {
-    const workflow = engine.get(workflowId);
-    if (!workflow) {
-      return true;
+  const tickAutopilot = async (workflowId: string): Promise<void> => {
+    if (autopilotTicking.has(workflowId)) {
+      autopilotTicking.set(workflowId, true);
+      return;
     }
+    autopilotTicking.set(workflowId, false);
 
-    const definition = engine.getDefinition(
-      workflow.workflow_type as unknown as string,
-    );
-    const stateDefinition = definition?.states[workflow.current_state];
-    if (!stateDefinition) {
-      return false;
+    try {
+      const result = await engine.autopilotTick(workflowId);
+      if (result.action === "completed" || result.action === "withdrawn") {
+        releaseAutopilot(workflowId);
+      }
+      if (result.retryAt && autopilotWorkflows.has(workflowId)) {
+        clearTimeout(autopilotRetryTimers.get(workflowId));
+        autopilotRetryTimers.set(
+          workflowId,
+          setTimeout(
+            () => {
+              autopilotRetryTimers.delete(workflowId);
+              void tickAutopilot(workflowId);
+            },
+            Math.max(0, Date.parse(result.retryAt) - Date.now()),
+          ),
+        );
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "unknown error";
+      uiContext?.ui.notify(
+        `autopilot error (${workflowId}): ${message}`,
+        "error",
+      );
+    } finally {
+      const again = autopilotTicking.get(workflowId);
+      autopilotTicking.delete(workflowId);
+      if (again && autopilotWorkflows.has(workflowId)) {
+        void tickAutopilot(workflowId);
+      }
+    }
+  };
+
+  engine.events.on("*", (event) => {
+    if (
+      autopilotWorkflows.has(event.workflowId) &&
+      AUTOPILOT_TRIGGERS.has(event.type)
+    ) {
+      void tickAutopilot(event.workflowId);
     }
+  });
 
-    return "type" in stateDefinition && stateDefinition.type === "terminal";
+  engine.events.on("workflow.terminal", (event) => {
+    uiContext?.ui.notify(
+      `orchestra: ${event.workflowId} reached ${event.state} (${event.result})`,
+      event.result === "success" ? "info" : "warning",
+    );
+  });
+  engine.events.on("approval.requested", (event) => {
+    uiContext?.ui.notify(
+      `orchestra: ${event.workflowId} awaits approval of ${event.state}: /orchestra approve ${event.workflowId} or /orchestra reject ${event.workflowId}`,
+      "warning",
+    );
+  });
+  engine.events.onListenerError = (error, event) => {
+    const message = error instanceof Error ? error.message : String(error);
+    uiContext?.ui.notify(
+      `orchestra: ${event.type} listener failed: ${message}`,
+      "error",
+    );
   };
 
+  // The last dashboard shown is redrawn shortly after workflows change
+  let dashboardView: DashboardView | undefined;
+  let dashboardRefresh: ReturnType<typeof setTimeout> | undefined;
+  engine.events.on("*", (event) => {
+    if (
+      !dashboardView ||
+      event.type === "agent.heartbeat" ||
+      dashboardRefresh
+    ) {
+      return;
+    }
+    const view = dashboardView;
+    dashboardRefresh = setTimeout(async () => {
+      dashboardRefresh = undefined;
+      uiContext?.ui.setWidget(
+        "orchestra-dashboard",
+        await buildDashboard(engine, zellij, tuner, lastHealthResults, view),
+      );
+    }, 250);
+  });
+
   const startAutopilot = (
     workflowId: string,
-    ctx?: ExtensionCommandContext,
   ): { started: boolean; reason: string } => {
-    if (autopilotTimers.has(workflowId)) {
+    if (autopilotWorkflows.has(workflowId)) {
       return { started: false, reason: "already running" };
     }
 
-    if (!engine.get(workflowId)) {
+    const workflow = engine.get(workflowId);
+    if (!workflow) {
       return { started: false, reason: "unknown workflow" };
     }
+    if (workflow.status === "cancelled") {
+      return { started: false, reason: "cancelled" };
+    }
 
-    let running = false;
-    const tick = async () => {
-      if (running) {
-        return;
-      }
-      running = true;
-
-      try {
-        const workflow = engine.get(workflowId);
-        if (!workflow) {
-          stopAutopilot(workflowId);
-          return;
-        }
-
-        if (workflow.paused) {
-          return;
-        }
-
-        if (isWorkflowTerminal(workflowId)) {
-          stopAutopilot(workflowId);
-          ctx?.ui.notify(`autopilot complete: ${workflowId}`, "info");
-          return;
-        }
-
-        const historyEntry = workflow.history.at(-1);
-        const token = historyEntry
-          ? `${workflow.current_state}:${historyEntry.entered_at}:${historyEntry.retries}`
-          : workflow.current_state;
-
-        if (autopilotTokens.get(workflowId) === token) {
-          return;
-        }
-
-        const result = await engine.dispatchCurrentState(workflowId);
-        autopilotTokens.set(workflowId, token);
-        if (!result.dispatched && result.details.includes("terminal")) {
-          stopAutopilot(workflowId);
-        }
-      } catch (error) {
-        const message =
-          error instanceof Error ? error.message : "unknown error";
-        ctx?.ui.notify(`autopilot error (${workflowId}): ${message}`, "error");
-      } finally {
-        running = false;
-      }
-    };
-
-    const timer = setInterval(() => {
-      void tick();
-    }, 2000);
-    autopilotTimers.set(workflowId, timer);
-    void tick();
+    engine.enrollAutopilot(workflowId);
+    autopilotWorkflows.add(workflowId);
+    void tickAutopilot(workflowId);
     return { started: true, reason: "started" };
   };
 
+  /** Take a workflow off autopilot for good, not just for this session. */
   const stopAutopilot = (workflowId: string): boolean => {
-    const timer = autopilotTimers.get(workflowId);
-    if (!timer) {
-      return false;
+    const stopped = releaseAutopilot(workflowId);
+    return engine.withdrawAutopilot(workflowId, "stopped") || stopped;
+  };
+
+  /** Tick every enrolled workflow again, e.g. after pi restarted. */
+  const resumeAutopilot = (): string[] => {
+    const resumed = engine
+      .autopilotStatus()
+      .map((status) => status.workflowId)
+      .filter((workflowId) => !autopilotWorkflows.has(workflowId));
+    for (const workflowId of resumed) {
+      autopilotWorkflows.add(workflowId);
+      void tickAutopilot(workflowId);
     }
-    clearInterval(timer);
-    autopilotTimers.delete(workflowId);
-    autopilotTokens.delete(workflowId);
-    return true;
+    return resumed;
   };
 
-  const stopAllAutopilot = (): number => {
-    const ids = [...autopilotTimers.keys()];
+  // This session stops ticking; enrollments stay for the next one
+  const releaseAllAutopilot = (): number => {
+    const ids = [...autopilotWorkflows];
     for (const id of ids) {
-      stopAutopilot(id);
+      releaseAutopilot(id);
     }
     return ids.length;
   };
 
-  const listAutopilot = (): string[] => [...autopilotTimers.keys()];
-
   const initialize = async (): Promise<void> => {
     if (initialized) {
       return;
     }
 
     await engine.loadWorkflows();
+    writeEvidenceJsonSchemas(
+      root,
+      collectEvidenceSchemas(engine.listDefinitions()),
+    );
     tuner.ensure();
     await bus.start({
       status: () => ({ workflows: engine.list() }),
@@ -244,9 +378,99 @@ export default function (pi: ExtensionAPI): void {
     initialized = true;
   };
 
+  let agentOverrides = readAgentOverrides(root);
+  let reloading: Promise<{ applied: boolean; lines: string[] }> | undefined;
+
+  /**
+   * Swap in edited workflow definitions, project config and agent overrides
+   * without restarting pi; the bus and autopilot timers keep running.
+   * Returns whether the workflow definitions were swapped in, and a summary
+   * of what changed.
+   */
+  const reload = async (): Promise<{ applied: boolean; lines: string[] }> => {
+    const report = await engine.reloadWorkflows();
+    if (report.applied) {
+      writeEvidenceJsonSchemas(
+        root,
+        collectEvidenceSchemas(engine.listDefinitions()),
+      );
+    }
+
+    const nextConfig = loadProjectConfig(process.cwd());
+    const configChanges = diffRecords(
+      projectConfig as unknown as Record<string, unknown>,
+      nextConfig as unknown as Record<string, unknown>,
+    );
+    const backendChanged =
+      nextConfig.stateBackend !== projectConfig.stateBackend;
+    projectConfig = nextConfig;
+    engine.setProjectConfig(projectConfig);
+
+    const nextAgents = readAgentOverrides(root);
+    const agentChanges = diffRecords(agentOverrides, nextAgents);
+    agentOverrides = nextAgents;
+
+    const describe = (label: string, changes: RecordChanges): string =>
+      `${label}: ${
+        [
+          ...changes.added.map((name) => `+${name}`),
+          ...changes.removed.map((name) => `-${name}`),
+          ...changes.changed.map((name) => `~${name}`),
+        ].join(" ") || "unchanged"
+      }`;
+    const errors = report.issues.filter((issue) => issue.severity === "error");
+    const lines = [
+      report.applied
+        ? describe("workflows", report)
+        : `workflows: refused, ${report.orphaned.length} running workflow(s) would lose their state`,
+      ...report.orphaned.map(
+        (orphan) =>
+          `orphaned ${orphan.workflowId} (${orphan.workflowType}) at ${orphan.state}; bump the definition version instead`,
+      ),
+      ...(errors.length > 0
+        ? [`rejected definitions: ${errors.length} (see /orchestra validate)`]
+        : []),
+      describe("project config", configChanges),
+      ...(backendChanged ? ["stateBackend changes apply after a restart"] : []),
+      describe("agents", agentChanges),
+    ];
+    return { applied: report.applied, lines };
+  };
+
+  const reloadOnce = (): Promise<{ applied: boolean; lines: string[] }> => {
+    reloading ??= reload().finally(() => {
+      reloading = undefined;
+    });
+    return reloading;
+  };
+
+  const watcher = new ConfigWatcher(root, async () => {
+    try {
+      const { applied, lines } = await reloadOnce();
+      uiContext?.ui.setWidget("orchestra-reload", lines);
+      uiContext?.ui.notify(
+        applied
+          ? "orchestra: reloaded definitions"
+          : "orchestra: reload refused, see widget",
+        applied ? "info" : "warning",
+      );
+    } catch (error) {
+      uiContext?.ui.notify(
+        `orchestra: reload failed: ${error instanceof Error ? error.message : String(error)}`,
+        "error",
+      );
+    }
+  });
+
   pi.on("session_start", async (_event, ctx) => {
+    uiContext = ctx;
     await initialize();
+    watcher.start();
     scheduler.start();
+    const resumed = resumeAutopilot();
+    if (resumed.length > 0) {
+      ctx.ui.notify(`autopilot resumed: ${resumed.join(", ")}`, "info");
+    }
     const results = await scheduler.runOnce();
     const failing = results.filter((result) => !result.ok).length;
     ctx.ui.setStatus(
@@ -258,8 +482,11 @@ export default function (pi: ExtensionAPI): void {
   });
 
   pi.on("session_shutdown", async () => {
+    watcher.stop();
     scheduler.stop();
-    stopAllAutopilot();
+    releaseAllAutopilot();
+    clearTimeout(dashboardRefresh);
+    dashboardView = undefined;
     await bus.stop();
   });
 
@@ -270,10 +497,32 @@ export default function (pi: ExtensionAPI): void {
     parameters: Type.Object({
       workflow: Type.String({ description: "Workflow definition name" }),
       params: Type.Optional(Type.Record(Type.String(), Type.Any())),
+      priority: Type.Optional(
+        Type.Integer({
+          description:
+            "Higher is dispatched first when agents queue for a slot",
+        }),
+      ),
     }),
     async execute(_toolCallId, params, _signal, _onUpdate, ctx) {
       await initialize();
-      const state = engine.start(params.workflow, params.params ?? {});
+      let state: ReturnType<typeof engine.start>;
+      try {
+        state = engine.start(
+          params.workflow,
+          params.params ?? {},
+          params.priority !== undefined ? { priority: params.priority } : {},
+        );
+      } catch (error) {
+        if (error instanceof WorkflowParamsError) {
+          return asToolResult({
+            error: "invalid_params",
+            workflow: error.workflow,
+            errors: error.errors,
+          });
+        }
+        throw error;
+      }
       const dispatch = await engine.dispatchCurrentState(
         state.workflow_id as unknown as string,
       );
@@ -332,6 +581,7 @@ export default function (pi: ExtensionAPI): void {
     async execute() {
       await initialize();
       projectConfig = loadProjectConfig(process.cwd());
+      engine.setProjectConfig(projectConfig);
       return asToolResult(projectConfig);
     },
   });
@@ -380,6 +630,7 @@ export default function (pi: ExtensionAPI): void {
         },
       });
       projectConfig = loadProjectConfig(process.cwd());
+      engine.setProjectConfig(projectConfig);
       return asToolResult({ result, projectConfig });
     },
   });
@@ -728,6 +979,8 @@ export default function (pi: ExtensionAPI): void {
           Type.Literal("workflows"),
           Type.Literal("tuning"),
           Type.Literal("panes"),
+          Type.Literal("autopilot"),
+          Type.Literal("queue"),
           Type.Literal("health"),
         ]),
       ),
@@ -758,6 +1011,8 @@ export default function (pi: ExtensionAPI): void {
         experiments,
         assignments,
         healthChecks: checks,
+        autopilot: engine.autopilotStatus(),
+        scheduler: engine.schedulerStatus(),
       });
 
       return asToolResult({
@@ -805,6 +1060,38 @@ export default function (pi: ExtensionAPI): void {
     },
   });
 
+  pi.registerTool({
+    name: "orchestra_validate",
+    label: "Orchestra Validate",
+    description: "Report workflow definition validation issues from load",
+    parameters: Type.Object({ workflow: Type.Optional(Type.String()) }),
+    async execute(_toolCallId, params) {
+      await initialize();
+      const issues = engine
+        .validationIssues()
+        .filter(
+          (issue) => !params.workflow || issue.workflow === params.workflow,
+        );
+      return asToolResult({
+        errors: issues.filter((issue) => issue.severity === "error").length,
+        warnings: issues.filter((issue) => issue.severity === "warning").length,
+        issues,
+      });
+    },
+  });
+
+  pi.registerTool({
+    name: "orchestra_reload",
+    label: "Orchestra Reload",
+    description:
+      "Reload workflow definitions, project config and agent overrides from .orchestra",
+    parameters: Type.Object({}),
+    async execute() {
+      await initialize();
+      return asToolResult(await reloadOnce());
+    },
+  });
+
   pi.registerTool({
     name: "orchestra_workflow_detail",
     label: "Orchestra Workflow Detail",
@@ -820,6 +1107,25 @@ export default function (pi: ExtensionAPI): void {
     },
   });
 
+  pi.registerTool({
+    name: "orchestra_replay",
+    label: "Orchestra Replay",
+    description:
+      "Show a workflow's event journal and the state rebuilt up to an event index",
+    parameters: Type.Object({
+      workflowId: Type.String(),
+      eventIndex: Type.Optional(Type.Integer()),
+    }),
+    async execute(_toolCallId, params) {
+      await initialize();
+      const { events, state } = engine.replay(
+        params.workflowId,
+        params.eventIndex,
+      );
+      return asToolResult({ events, state });
+    },
+  });
+
   pi.registerTool({
     name: "orchestra_dispatch",
     label: "Orchestra Dispatch",
@@ -858,7 +1164,7 @@ export default function (pi: ExtensionAPI): void {
     parameters: Type.Object({ workflowId: Type.String() }),
     async execute(_toolCallId, params) {
       await initialize();
-      return asToolResult(engine.pause(params.workflowId));
+      return asToolResult(await engine.pause(params.workflowId));
     },
   });
 
@@ -869,7 +1175,84 @@ export default function (pi: ExtensionAPI): void {
     parameters: Type.Object({ workflowId: Type.String() }),
     async execute(_toolCallId, params) {
       await initialize();
-      return asToolResult(engine.resume(params.workflowId));
+      return asToolResult(await engine.resume(params.workflowId));
+    },
+  });
+
+  pi.registerTool({
+    name: "orchestra_cancel",
+    label: "Orchestra Cancel",
+    description:
+      "Cancel a workflow and all of its subworkflows, stopping their agents",
+    parameters: Type.Object({
+      workflowId: Type.String(),
+      reason: Type.String(),
+    }),
+    async execute(_toolCallId, params) {
+      await initialize();
+      return asToolResult(
+        await cancelWorkflowTree(
+          engine,
+          stopAutopilot,
+          params.workflowId,
+          params.reason,
+        ),
+      );
+    },
+  });
+
+  pi.registerTool({
+    name: "orchestra_escalations",
+    label: "Orchestra Escalations",
+    description:
+      "List escalated workflows (terminal states that asked for a human)",
+    parameters: Type.Object({
+      status: Type.Optional(
+        Type.Union([
+          Type.Literal("open"),
+          Type.Literal("resolved"),
+          Type.Literal("all"),
+        ]),
+      ),
+    }),
+    async execute(_toolCallId, params) {
+      await initialize();
+      const status = params.status ?? "open";
+      return asToolResult(
+        escalations.list(status === "all" ? undefined : status),
+      );
+    },
+  });
+
+  pi.registerTool({
+    name: "orchestra_approvals",
+    label: "Orchestra Approvals",
+    description:
+      "List workflows waiting for a human to approve or reject their current state",
+    parameters: Type.Object({}),
+    async execute() {
+      await initialize();
+      return asToolResult(
+        engine.pendingApprovals().map((workflow) => ({
+          workflowId: workflow.workflow_id,
+          workflowType: workflow.workflow_type,
+          ...workflow.pending_approval,
+        })),
+      );
+    },
+  });
+
+  pi.registerTool({
+    name: "orchestra_escalation_resolve",
+    label: "Orchestra Escalation Resolve",
+    description: "Mark an escalated workflow as triaged, with an optional note",
+    parameters: Type.Object({
+      workflowId: Type.String(),
+      note: Type.Optional(Type.String()),
+    }),
+    async execute(_toolCallId, params) {
+      await initialize();
+      return asToolResult(escalations.resolve(params.workflowId, params.note));
     },
   });
 
@@ -885,7 +1268,11 @@ export default function (pi: ExtensionAPI): void {
     async execute(_toolCallId, params) {
       await initialize();
       return asToolResult(
-        engine.override(params.workflowId, params.nextState, params.reason),
+        await engine.override(
+          params.workflowId,
+          params.nextState,
+          params.reason,
+        ),
       );
     },
   });
@@ -907,12 +1294,65 @@ export default function (pi: ExtensionAPI): void {
         () => lastHealthResults,
         startAutopilot,
         stopAutopilot,
-        listAutopilot,
+        (view) => {
+          dashboardView = view;
+        },
+        reloadOnce,
       );
     },
   });
 }
 
+/**
+ * Cancel a workflow tree, stop autopilot for every cancelled workflow and
+ * stop the agents spawned for them.
+ */
+const cancelWorkflowTree = async (
+  engine: WorkflowEngine,
+  stopAutopilot: (workflowId: string) => boolean,
+  workflowId: string,
+  reason: string,
+): Promise<{
+  cancelled: string[];
+  stoppedAgents: string[];
+  failed: WorkflowCancellation["failed"];
+}> => {
+  const result = await engine.cancel(workflowId, reason);
+  for (const id of result.cancelled) {
+    stopAutopilot(id);
+  }
+
+  const stoppedAgents: string[] = [];
+  for (const agentId of result.agentIds) {
+    if (await engine.stopAgent(agentId)) {
+      stoppedAgents.push(agentId);
+    }
+  }
+  return {
+    cancelled: result.cancelled,
+    stoppedAgents,
+    failed: result.failed,
+  };
+};
+
+/**
+ * Fail timed-out states, close the agents that were working on them, and
+ * dispatch whatever state each workflow is now in (a fresh attempt or the
+ * timeout transition) unless autopilot drives it.
+ */
+const expireTimedOutStates = async (
+  engine: WorkflowEngine,
+): Promise<WorkflowTimeout[]> => {
+  const expired = engine.checkTimeouts();
+  for (const timeout of expired) {
+    for (const agentId of timeout.agentIds) {
+      await engine.stopAgent(agentId);
+    }
+    await engine.dispatchUnlessAutopilot(timeout.workflowId);
+  }
+  return expired;
+};
+
 const parseJsonParams = (raw?: string): Record<string, unknown> => {
   if (!raw) {
     return {};
@@ -977,16 +1417,49 @@ const parseDashboardSection = (input?: string): DashboardSection => {
     section !== "workflows" &&
     section !== "tuning" &&
     section !== "panes" &&
+    section !== "autopilot" &&
+    section !== "queue" &&
     section !== "health"
   ) {
     throw new Error(
-      "dashboard section must be one of: overview, workflows, tuning, panes, health",
+      "dashboard section must be one of: overview, workflows, tuning, panes, autopilot, queue, health",
     );
   }
 
   return section;
 };
 
+interface DashboardView {
+  section: DashboardSection;
+  page: number;
+}
+
+const buildDashboard = async (
+  engine: WorkflowEngine,
+  zellij: ZellijSupervisor,
+  tuner: ModelTuner,
+  healthChecks: HealthCheckResult[],
+  view: DashboardView,
+): Promise<string[]> => {
+  const panes = await zellij.listPanes();
+  return buildInteractiveDashboardLines({
+    section: view.section,
+    page: view.page,
+    pageSize: 8,
+    workflows: engine.list(),
+    paneRows: panes.map((pane) => ({
+      id: pane.id,
+      name: pane.name ?? "(unnamed)",
+    })),
+    recommendations: tuner.listRecommendations(),
+    experiments: tuner.listExperiments(),
+    assignments: tuner.listAssignments(),
+    healthChecks,
+    autopilot: engine.autopilotStatus(),
+    scheduler: engine.schedulerStatus(),
+  });
+};
+
 const handleCommand = async (
   args: string,
   ctx: ExtensionCommandContext,
@@ -998,12 +1471,10 @@ const handleCommand = async (
   projectConfig: ReturnType<typeof loadProjectConfig>,
   scheduler: HealthScheduler,
   getHealthChecks: () => HealthCheckResult[],
-  startAutopilot: (
-    workflowId: string,
-    ctx?: ExtensionCommandContext,
-  ) => { started: boolean; reason: string },
+  startAutopilot: (workflowId: string) => { started: boolean; reason: string },
   stopAutopilot: (workflowId: string) => boolean,
-  listAutopilot: () => string[],
+  watchDashboard: (view: DashboardView) => void,
+  reload: () => Promise<{ applied: boolean; lines: string[] }>,
 ): Promise<void> => {
   const [command, ...rest] = args.trim().split(/\s+/);
 
@@ -1021,6 +1492,8 @@ const handleCommand = async (
       ...buildWorkflowLines(states),
       "--- actions ---",
       ...buildActionLines(states),
+      "--- queue ---",
+      ...buildQueueLines(engine.schedulerStatus()),
     ]);
     return;
   }
@@ -1029,25 +1502,15 @@ const handleCommand = async (
     try {
       const section = parseDashboardSection(rest[0]);
       const page = Number(rest[1] ?? "1");
-      const workflows = engine.list();
-      const panes = await zellij.listPanes();
-      const recommendations = tuner.listRecommendations();
-      const experiments = tuner.listExperiments();
-      const assignments = tuner.listAssignments();
-      const lines = buildInteractiveDashboardLines({
-        section,
-        page: Number.isFinite(page) ? page : 1,
-        pageSize: 8,
-        workflows,
-        paneRows: panes.map((pane) => ({
-          id: pane.id,
-          name: pane.name ?? "(unnamed)",
-        })),
-        recommendations,
-        experiments,
-        assignments,
-        healthChecks: getHealthChecks(),
-      });
+      const view = { section, page: Number.isFinite(page) ? page : 1 };
+      const lines = await buildDashboard(
+        engine,
+        zellij,
+        tuner,
+        getHealthChecks(),
+        view,
+      );
+      watchDashboard(view);
 
       ctx.ui.setWidget("orchestra-dashboard", lines);
       ctx.ui.notify(`dashboard: ${section}`, "info");
@@ -1061,16 +1524,11 @@ const handleCommand = async (
   if (command === "autopilot") {
     const workflowId = rest[0];
     if (!workflowId) {
-      const running = listAutopilot();
-      ctx.ui.setWidget(
-        "orchestra-autopilot",
-        running.length > 0
-          ? ["running:", ...running.map((id) => `- ${id}`)]
-          : ["no active autopilot workflows"],
-      );
+      const enrolled = engine.autopilotStatus();
+      ctx.ui.setWidget("orchestra-autopilot", buildAutopilotLines(enrolled));
       ctx.ui.notify(
-        running.length > 0
-          ? `autopilot active: ${running.length}`
+        enrolled.length > 0
+          ? `autopilot active: ${enrolled.length}`
           : "autopilot idle",
         "info",
       );
@@ -1088,7 +1546,7 @@ const handleCommand = async (
       return;
     }
 
-    const result = startAutopilot(workflowId, ctx);
+    const result = startAutopilot(workflowId);
     ctx.ui.notify(
       result.started
         ? `autopilot started: ${workflowId}`
@@ -1182,8 +1640,11 @@ const handleCommand = async (
         ? filtered.map(
             (entry) =>
               `${entry.workflow}/${entry.state}: ${
-                Object.entries(entry.schema)
-                  .map(([key, typeName]) => `${key}:${typeName}`)
+                entry.fields
+                  .map(
+                    (field) =>
+                      `${field.name}${field.optional ? "?" : ""}:${field.type}`,
+                  )
                   .join(",") || "(none)"
               }`,
           )
@@ -1229,6 +1690,20 @@ const handleCommand = async (
     return;
   }
 
+  if (command === "validate") {
+    const workflowFilter = rest[0];
+    const issues = engine
+      .validationIssues()
+      .filter((issue) => !workflowFilter || issue.workflow === workflowFilter);
+    const errors = issues.filter((issue) => issue.severity === "error").length;
+    ctx.ui.notify(
+      `workflow validation: errors=${errors} warnings=${issues.length - errors}`,
+      errors > 0 ? "error" : issues.length > 0 ? "warning" : "info",
+    );
+    ctx.ui.setWidget("orchestra-validate", buildValidationLines(issues));
+    return;
+  }
+
   if (command === "start") {
     const workflow = rest[0];
     if (!workflow) {
@@ -1253,6 +1728,32 @@ const handleCommand = async (
     } catch (error) {
       const message = error instanceof Error ? error.message : "unknown error";
       ctx.ui.notify(`failed to start workflow: ${message}`, "error");
+      if (error instanceof WorkflowParamsError) {
+        ctx.ui.setWidget(
+          "orchestra-workflow",
+          error.errors.map((entry) => `- ${entry}`),
+        );
+      }
+    }
+    return;
+  }
+
+  if (command === "priority") {
+    const [workflowId, value] = rest;
+    const priority = Number(value);
+    if (!workflowId || value === undefined || !Number.isInteger(priority)) {
+      ctx.ui.notify(
+        "usage: /orchestra priority <workflowId> <number>",
+        "error",
+      );
+      return;
+    }
+    try {
+      engine.setPriority(workflowId, priority);
+      ctx.ui.notify(`priority of ${workflowId} is now ${priority}`, "info");
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "unknown error";
+      ctx.ui.notify(`failed to set priority: ${message}`, "error");
     }
     return;
   }
@@ -1263,18 +1764,50 @@ const handleCommand = async (
       ctx.ui.notify("usage: /orchestra pause <workflowId>", "error");
       return;
     }
-    engine.pause(workflowId);
+    await engine.pause(workflowId);
     ctx.ui.notify(`paused ${workflowId}`, "warning");
     return;
   }
 
+  if (command === "cancel") {
+    const workflowId = rest[0];
+    if (!workflowId) {
+      ctx.ui.notify("usage: /orchestra cancel <workflowId> [reason]", "error");
+      return;
+    }
+
+    const reason = rest.slice(1).join(" ") || "cancelled by operator";
+    const result = await cancelWorkflowTree(
+      engine,
+      stopAutopilot,
+      workflowId,
+      reason,
+    );
+    ctx.ui.setWidget("orchestra-workflow", [
+      ...result.cancelled.map((id) => `cancelled ${id}`),
+      ...result.stoppedAgents.map((agentId) => `stopped agent ${agentId}`),
+      ...result.failed.map(
+        (failure) => `failed to cancel ${failure.workflowId}: ${failure.error}`,
+      ),
+    ]);
+    ctx.ui.notify(
+      `cancelled ${result.cancelled.length} workflows${result.failed.length > 0 ? `, ${result.failed.length} failed` : ""}`,
+      result.failed.length > 0
+        ? "error"
+        : result.cancelled.length > 0
+          ? "warning"
+          : "info",
+    );
+    return;
+  }
+
   if (command === "resume") {
     const workflowId = rest[0];
     if (!workflowId) {
       ctx.ui.notify("usage: /orchestra resume <workflowId>", "error");
       return;
     }
-    engine.resume(workflowId);
+    await engine.resume(workflowId);
     ctx.ui.notify(`resumed ${workflowId}`, "info");
     return;
   }
@@ -1392,6 +1925,31 @@ const handleCommand = async (
     return;
   }
 
+  if (command === "agent-focus") {
+    const agentId = rest[0];
+    if (!agentId) {
+      ctx.ui.notify("usage: /orchestra agent-focus <agentId>", "error");
+      return;
+    }
+
+    const handle = engine.agentHandle(agentId);
+    if (!handle) {
+      ctx.ui.notify(`no launched agent ${agentId}`, "error");
+      return;
+    }
+    if (await engine.focusAgent(agentId)) {
+      ctx.ui.notify(`focused ${agentId}`, "info");
+    } else {
+      ctx.ui.notify(
+        handle.log_path
+          ? `${agentId} runs ${handle.launcher}; logs at ${handle.log_path}`
+          : `failed to focus ${agentId}`,
+        handle.log_path ? "info" : "error",
+      );
+    }
+    return;
+  }
+
   if (command === "pane-focus") {
     const target = rest[0];
     if (!target) {
@@ -1498,6 +2056,196 @@ const handleCommand = async (
     return;
   }
 
+  if (command === "escalations") {
+    const inbox = new EscalationInbox(
+      path.join(process.cwd(), ".orchestra", "escalations"),
+    );
+    if (rest[0] === "resolve") {
+      const workflowId = rest[1];
+      if (!workflowId) {
+        ctx.ui.notify(
+          "usage: /orchestra escalations resolve <workflowId> [note]",
+          "error",
+        );
+        return;
+      }
+      try {
+        inbox.resolve(workflowId, rest.slice(2).join(" ") || undefined);
+        ctx.ui.notify(`resolved escalation for ${workflowId}`, "info");
+      } catch (error) {
+        ctx.ui.notify(
+          error instanceof Error ? error.message : String(error),
+          "error",
+        );
+      }
+      return;
+    }
+
+    const filter = rest[0] ?? "open";
+    if (!["open", "resolved", "all"].includes(filter)) {
+      ctx.ui.notify(
+        "usage: /orchestra escalations [open|resolved|all|resolve <workflowId> [note]]",
+        "error",
+      );
+      return;
+    }
+    const records = inbox.list(
+      filter === "all" ? undefined : (filter as EscalationStatus),
+    );
+    ctx.ui.setWidget("orchestra-escalations", buildEscalationLines(records));
+    ctx.ui.notify(
+      `escalations (${filter}): ${records.length}`,
+      records.length > 0 && filter === "open" ? "warning" : "info",
+    );
+    return;
+  }
+
+  if (command === "approvals") {
+    const workflows = engine.pendingApprovals();
+    ctx.ui.setWidget("orchestra-approvals", buildApprovalLines(workflows));
+    ctx.ui.notify(
+      `pending approvals: ${workflows.length}`,
+      workflows.length > 0 ? "warning" : "info",
+    );
+    return;
+  }
+
+  if (command === "approve" || command === "reject") {
+    const workflowId = rest[0];
+    if (!workflowId) {
+      ctx.ui.notify(
+        `usage: /orchestra ${command} <workflowId> [note]`,
+        "error",
+      );
+      return;
+    }
+
+    const note = rest.slice(1).join(" ") || undefined;
+    try {
+      const state =
+        command === "approve"
+          ? await engine.approve(workflowId, note)
+          : await engine.reject(workflowId, note);
+      ctx.ui.notify(
+        `${command === "approve" ? "approved" : "rejected"} ${workflowId}: now ${state.current_state}`,
+        command === "approve" ? "info" : "warning",
+      );
+    } catch (error) {
+      ctx.ui.notify(
+        error instanceof Error ? error.message : String(error),
+        "error",
+      );
+      return;
+    }
+
+    const result = await engine.dispatchUnlessAutopilot(workflowId);
+    ctx.ui.notify(
+      result.details,
+      result.dispatched || result.autopilot ? "info" : "warning",
+    );
+    return;
+  }
+
+  if (command === "reload") {
+    const { applied, lines } = await reload();
+    ctx.ui.setWidget("orchestra-reload", lines);
+    ctx.ui.notify(
+      applied ? "reloaded definitions" : "reload refused, see widget",
+      applied ? "info" : "warning",
+    );
+    return;
+  }
+
+  if (command === "migrate") {
+    const workflowId = rest[0];
+    if (!workflowId) {
+      ctx.ui.notify("usage: /orchestra migrate <workflowId>", "error");
+      return;
+    }
+
+    try {
+      const state = engine.migrate(workflowId);
+      ctx.ui.notify(
+        `migrated ${workflowId} to version ${state.workflow_version}: now ${state.current_state}`,
+        "info",
+      );
+    } catch (error) {
+      ctx.ui.notify(
+        error instanceof Error ? error.message : String(error),
+        "error",
+      );
+    }
+    return;
+  }
+
+  if (command === "migrate-state") {
+    const [from, to] = rest;
+    if (!isStateBackend(from) || !isStateBackend(to) || from === to) {
+      ctx.ui.notify(
+        `usage: /orchestra migrate-state <from> <to> (backends: ${STATE_BACKENDS.join("|")})`,
+        "error",
+      );
+      return;
+    }
+
+    try {
+      const root = path.join(process.cwd(), ".orchestra");
+      const result = migrateStateStore(
+        createStateStore(root, from),
+        createStateStore(root, to),
+      );
+      ctx.ui.setWidget("orchestra-migrate-state", [
+        `migrated=${result.migrated.length} skipped=${result.skipped.length}`,
+        ...result.migrated.map((id) => `migrated ${id}`),
+        ...result.skipped.map((id) => `skipped ${id} (already in ${to})`),
+        `set stateBackend: "${to}" in .orchestra/project.ts to use it`,
+      ]);
+      ctx.ui.notify(
+        `migrated ${result.migrated.length} workflows from ${from} to ${to}`,
+        "info",
+      );
+    } catch (error) {
+      ctx.ui.notify(
+        error instanceof Error ? error.message : String(error),
+        "error",
+      );
+    }
+    return;
+  }
+
+  if (command === "replay") {
+    const workflowId = rest[0];
+    if (!workflowId) {
+      ctx.ui.notify(
+        "usage: /orchestra replay <workflowId> [eventIndex]",
+        "error",
+      );
+      return;
+    }
+
+    const uptoIndex = rest[1] === undefined ? undefined : Number(rest[1]);
+    if (uptoIndex !== undefined && !Number.isInteger(uptoIndex)) {
+      ctx.ui.notify(`invalid event index: ${rest[1]}`, "error");
+      return;
+    }
+
+    const { events, state } = engine.replay(workflowId, uptoIndex);
+    ctx.ui.setWidget(
+      "orchestra-replay",
+      buildReplayLines({
+        workflowId,
+        events,
+        state,
+        ...(uptoIndex !== undefined ? { uptoIndex } : {}),
+      }),
+    );
+    ctx.ui.notify(
+      `workflow ${workflowId}: ${events.length} journal events`,
+      events.length > 0 ? "info" : "warning",
+    );
+    return;
+  }
+
   if (command === "dispatch") {
     const workflowId = rest[0];
     if (!workflowId) {
@@ -1,4 +1,7 @@
-import type { WorkflowRuntimeState } from "../core/types";
+import type { EscalationRecord } from "../core/escalations";
+import type { WorkflowEvent, WorkflowRuntimeState } from "../core/types";
+import type { AutopilotStatus, SchedulerStatus } from "../core/workflow-engine";
+import type { WorkflowValidationIssue } from "../core/workflow-validator";
 import type { ProposalApplyResult } from "../retro/proposal-applier";
 import type {
   TuningAssignment,
@@ -11,6 +14,8 @@ export type DashboardSection =
   | "workflows"
   | "tuning"
   | "panes"
+  | "autopilot"
+  | "queue"
   | "health";
 
 export const buildOverviewLines = (input: {
@@ -35,7 +40,7 @@ export const buildWorkflowLines = (
   workflows.length > 0
     ? workflows.map(
         (workflow) =>
-          `${workflow.workflow_id}: ${workflow.current_state} ${workflow.paused ? "(paused)" : ""}`,
+          `${workflow.workflow_id}: ${workflow.current_state} ${workflow.status === "cancelled" ? "(cancelled)" : workflow.paused ? "(paused)" : ""}`,
       )
     : ["No active workflows"];
 
@@ -61,8 +66,9 @@ export const buildRetroApplyLines = (
 
 export const buildCommandHelpLines = (): string[] => [
   "/orchestra status",
-  "/orchestra dashboard [overview|workflows|tuning|panes|health] [page]",
+  "/orchestra dashboard [overview|workflows|tuning|panes|autopilot|queue|health] [page]",
   "/orchestra start <workflow> [jsonParams]",
+  "/orchestra priority <workflowId> <number>",
   "/orchestra autopilot [workflowId] [stop]",
   "/orchestra project",
   "/orchestra project-bootstrap [force]",
@@ -70,10 +76,22 @@ export const buildCommandHelpLines = (): string[] => [
   "/orchestra readiness",
   "/orchestra evidence-schema [workflow]",
   "/orchestra evidence-diagnostics <workflowId>",
+  "/orchestra validate [workflow]",
+  "/orchestra reload",
   "/orchestra workflow <workflowId>",
+  "/orchestra replay <workflowId> [eventIndex]",
+  "/orchestra migrate <workflowId>",
+  "/orchestra migrate-state <json|sqlite> <json|sqlite>",
   "/orchestra dispatch <workflowId>",
   "/orchestra pause <workflowId>",
   "/orchestra resume <workflowId>",
+  "/orchestra cancel <workflowId> [reason]",
+  "/orchestra escalations [open|resolved|all]",
+  "/orchestra escalations resolve <workflowId> [note]",
+  "/orchestra approvals",
+  "/orchestra approve <workflowId> [note]",
+  "/orchestra reject <workflowId> [note]",
+  "/orchestra agent-focus <agentId>",
   "/orchestra pane-focus <paneId|paneName>",
   "/orchestra pane-close <paneId|paneName>",
   "/orchestra pane-recover <jsonArrayOfPaneSpecs>",
@@ -84,6 +102,76 @@ export const buildCommandHelpLines = (): string[] => [
   "/orchestra retro-pipeline <workflowId> [apply]",
 ];
 
+export const buildValidationLines = (
+  issues: WorkflowValidationIssue[],
+): string[] =>
+  issues.length > 0
+    ? issues.map(
+        (issue) =>
+          `${issue.severity === "error" ? "error" : "warn"} ${issue.workflow}${issue.state ? `/${issue.state}` : ""} [${issue.code}]: ${issue.message}`,
+      )
+    : ["All workflow definitions are valid"];
+
+export const buildEscalationLines = (records: EscalationRecord[]): string[] =>
+  records.length > 0
+    ? records.map(
+        (record) =>
+          `${record.status} ${record.workflow_id} (${record.workflow_type}) ${record.state} at ${record.created_at}${record.reason ? `: ${record.reason}` : ""}${record.note ? ` [note: ${record.note}]` : ""}`,
+      )
+    : ["No escalations"];
+
+export const buildApprovalLines = (
+  workflows: WorkflowRuntimeState[],
+): string[] => {
+  const lines = workflows.flatMap((workflow) => {
+    const pending = workflow.pending_approval;
+    return pending
+      ? [
+          `${workflow.workflow_id} (${workflow.workflow_type}) ${pending.state} -> ${pending.to} [${pending.reason}] since ${pending.requested_at}${pending.prompt ? `: ${pending.prompt}` : ""}`,
+        ]
+      : [];
+  });
+  return lines.length > 0 ? lines : ["No pending approvals"];
+};
+
+export const buildAutopilotLines = (statuses: AutopilotStatus[]): string[] =>
+  statuses.length > 0
+    ? statuses.map(
+        (status) =>
+          `${status.workflowId}: ${status.state} last tick ${status.lastTickAt ?? "never"}${status.lastError ? ` [error: ${status.lastError}]` : ""}`,
+      )
+    : ["No workflows under autopilot"];
+
+const describeLimit = (running: number, limit: number | undefined): string =>
+  limit === undefined ? `${running}` : `${running}/${limit}`;
+
+const describeCommands = (status: SchedulerStatus): string =>
+  status.commands
+    .map(
+      (slots) =>
+        `${slots.kind}=${describeLimit(slots.running, slots.limit)}${slots.waiting > 0 ? `+${slots.waiting}` : ""}`,
+    )
+    .join(" ");
+
+/**
+ * Running agents against the caps, commands against theirs (`+n` are
+ * waiting for a slot), then queued dispatches in order.
+ */
+export const buildQueueLines = (status: SchedulerStatus): string[] => [
+  `agents=${describeLimit(status.running, status.maxAgents)}${status.roles
+    .map((role) => ` ${role.role}=${describeLimit(role.running, role.limit)}`)
+    .join("")}`,
+  ...(status.commands.length > 0
+    ? [`commands: ${describeCommands(status)}`]
+    : []),
+  ...(status.queue.length > 0
+    ? status.queue.map(
+        (entry, index) =>
+          `#${index + 1} ${entry.agentId} (${entry.role}) for ${entry.workflowId} ${entry.state} priority=${entry.priority} since ${entry.queuedAt}: ${entry.reason}`,
+      )
+    : ["No queued dispatches"]),
+];
+
 export const buildActionLines = (
   workflows: WorkflowRuntimeState[],
 ): string[] => {
@@ -92,6 +180,14 @@ export const buildActionLines = (
   }
 
   return workflows.map((workflow) => {
+    if (workflow.status === "cancelled") {
+      return `${workflow.workflow_id}: cancelled (${workflow.cancellation?.reason ?? "no reason"})`;
+    }
+
+    if (workflow.pending_approval) {
+      return `${workflow.workflow_id}: /orchestra approve ${workflow.workflow_id as string} or /orchestra reject ${workflow.workflow_id as string}`;
+    }
+
     if (workflow.paused) {
       return `${workflow.workflow_id}: /orchestra resume ${workflow.workflow_id as string}`;
     }
@@ -117,15 +213,71 @@ export const buildWorkflowDetailLines = (
   return [
     `workflow=${workflow.workflow_id}`,
     `type=${workflow.workflow_type}`,
+    ...(workflow.workflow_version !== undefined
+      ? [`version=${workflow.workflow_version}`]
+      : []),
     `state=${workflow.current_state}`,
     `paused=${workflow.paused}`,
+    ...(workflow.status === "cancelled"
+      ? [`cancelled=${workflow.cancellation?.reason ?? "yes"}`]
+      : []),
+    ...(workflow.pending_approval
+      ? [
+          `awaiting_approval=${workflow.pending_approval.reason} -> ${workflow.pending_approval.to}`,
+        ]
+      : []),
+    ...(workflow.parallel?.state === workflow.current_state
+      ? [
+          `branches=${Object.entries(workflow.parallel.branches)
+            .map(([name, progress]) => `${name}:${progress.status}`)
+            .join(",")}`,
+        ]
+      : []),
+    ...(workflow.foreach?.state === workflow.current_state
+      ? [
+          `items=${workflow.foreach.items
+            .map((progress, index) => `${index}:${progress.status}`)
+            .join(",")}`,
+        ]
+      : []),
     `retry_count=${workflow.retry_count}`,
+    ...(workflow.rework_count !== undefined
+      ? [`rework_count=${workflow.rework_count}`]
+      : []),
     `history_entries=${workflow.history.length}`,
     `evidence_states=${Object.keys(workflow.evidence).join(",") || "none"}`,
     ...historyLines,
   ];
 };
 
+export const buildReplayLines = (input: {
+  workflowId: string;
+  events: WorkflowEvent[];
+  state: WorkflowRuntimeState | null;
+  uptoIndex?: number;
+}): string[] => {
+  if (input.events.length === 0) {
+    return [`no journal for workflow ${input.workflowId}`];
+  }
+
+  const last = input.events.at(-1) as WorkflowEvent;
+  const upto = input.uptoIndex ?? last.index;
+  const eventLines = input.events
+    .filter((event) => event.index <= upto)
+    .map((event) => {
+      const details = event.details ? ` ${JSON.stringify(event.details)}` : "";
+      const changed = Object.keys(event.changes ?? {}).join(",");
+      return `#${event.index} ${event.at} ${event.type}${details}${changed ? ` changed=${changed}` : ""}`;
+    });
+
+  return [
+    `replay=${input.workflowId} events=${input.events.length} at=#${upto}`,
+    ...eventLines,
+    `--- state at #${upto} ---`,
+    ...buildWorkflowDetailLines(input.state),
+  ];
+};
+
 const renderSection = (title: string, lines: string[]): string[] => [
   `=== ${title} ===`,
   ...(lines.length > 0 ? lines : ["(empty)"]),
@@ -166,6 +318,8 @@ export const buildInteractiveDashboardLines = (input: {
   experiments: TuningExperiment[];
   assignments: TuningAssignment[];
   healthChecks: Array<{ name: string; ok: boolean; message: string }>;
+  autopilot?: AutopilotStatus[];
+  scheduler?: SchedulerStatus;
 }): string[] => {
   const page = Math.max(1, input.page);
   const pageSize = Math.max(1, input.pageSize);
@@ -256,6 +410,54 @@ export const buildInteractiveDashboardLines = (input: {
     ];
   }
 
+  if (input.section === "autopilot") {
+    const autopilotRows = paginate(input.autopilot ?? [], page, pageSize).map(
+      (status) => [
+        status.workflowId,
+        status.state,
+        status.lastTickAt ?? "never",
+        status.lastDispatchAt ?? "never",
+        status.lastError ?? "",
+      ],
+    );
+
+    return [
+      ...renderSection("autopilot", [`page=${page}`, `page_size=${pageSize}`]),
+      ...renderTable(
+        ["id", "state", "last tick", "last dispatch", "last error"],
+        autopilotRows,
+      ),
+    ];
+  }
+
+  if (input.section === "queue") {
+    const queue = input.scheduler?.queue ?? [];
+    const offset = (page - 1) * pageSize;
+    const queueRows = paginate(queue, page, pageSize).map((entry, index) => [
+      `${offset + index + 1}`,
+      entry.agentId,
+      entry.role,
+      entry.state,
+      `${entry.priority}`,
+      entry.queuedAt,
+      entry.reason,
+    ]);
+
+    return [
+      ...renderSection("queue", [
+        `queued=${queue.length}`,
+        `running=${describeLimit(input.scheduler?.running ?? 0, input.scheduler?.maxAgents)}`,
+        ...(input.scheduler ? [describeCommands(input.scheduler)] : []),
+        `page=${page}`,
+        `page_size=${pageSize}`,
+      ]),
+      ...renderTable(
+        ["#", "agent", "role", "state", "priority", "queued at", "reason"],
+        queueRows,
+      ),
+    ];
+  }
+
   const healthRows = paginate(input.healthChecks, page, pageSize).map(
     (check) => [check.ok ? "ok" : "warn", check.name, check.message],
   );
@@ -45,9 +45,64 @@ export interface ProjectConfig {
    * uses a role with that name.
    */
   roles?: Record<string, RoleOverride>;
+  /**
+   * `full` never waits for a human outside approval gates. `assisted` adds
+   * approval checkpoints at `approvalCheckpoints` and per
+   * `humanReviewCadence`; `manual` asks for approval after every state.
+   */
   autonomyLevel: "full" | "assisted" | "manual";
+  /**
+   * When `assisted` workflows stop for review: `end` before a top-level
+   * workflow succeeds, `every-slice` before any workflow (subworkflows
+   * included) succeeds, `every-n` after every `humanReviewEvery` states.
+   */
   humanReviewCadence: "every-slice" | "every-n" | "end";
+  /** States (`STATE` or `<workflow>.STATE`) that need approval when assisted. */
+  approvalCheckpoints?: string[];
+  /** Completed states between reviews for `every-n`. Defaults to 3. */
+  humanReviewEvery?: number;
+  /**
+   * Failed attempts and rework transitions one workflow may take before it
+   * moves to ESCALATE, so fail/retry loops end deterministically.
+   */
   reworkBudget: number;
+  /**
+   * Where workflow state is persisted: one JSON directory per workflow
+   * (`json`) or an embedded SQLite database (`sqlite`, Node.js 22.5+).
+   * Use `/orchestra migrate-state` to move existing workflows.
+   */
+  stateBackend?: "json" | "sqlite";
+  /**
+   * An agent that has not sent a heartbeat for this long is reported as
+   * stale by the health checks. Defaults to five minutes.
+   */
+  heartbeatStaleMs?: number;
+  /**
+   * Shell command run by the `notify_human` and `run_hook` terminal actions,
+   * with ORCHESTRA_WORKFLOW_ID, ORCHESTRA_WORKFLOW_TYPE, ORCHESTRA_STATE,
+   * ORCHESTRA_RESULT and ORCHESTRA_REASON set.
+   */
+  escalationHook?: string;
+  /**
+   * How agents are started: zellij tabs (the default), windows of the
+   * current tmux session, or detached `pi --print` processes that log to
+   * `.orchestra/runtime/<agentId>/agent.log`.
+   */
+  agentLauncher?: "zellij" | "tmux" | "headless";
+  /**
+   * Agents that may run at once across all workflows. Further dispatches
+   * wait in a queue, highest workflow priority first, then oldest first.
+   */
+  maxConcurrentAgents?: number;
+  /** Per-role caps on running agents, keyed by workflow role name. */
+  roleConcurrency?: Record<string, number>;
+  /**
+   * Gate verification commands that may run at once in this session, so
+   * test runs do not contend for the working tree. Further runs wait.
+   */
+  maxConcurrentVerifications?: number;
+  /** Action state and terminal action commands that may run at once. */
+  maxConcurrentActions?: number;
 }
 
 export const defaultProjectConfig: ProjectConfig = {
@@ -67,6 +122,7 @@ export const defaultProjectConfig: ProjectConfig = {
   autonomyLevel: "full",
   humanReviewCadence: "end",
   reworkBudget: 5,
+  stateBackend: "json",
 };
 
 const isRecord = (value: unknown): value is Record<string, unknown> =>
@@ -132,20 +188,78 @@ const normalizeRoles = (
   return Object.keys(result).length > 0 ? result : undefined;
 };
 
+const isPositiveInteger = (value: unknown): value is number =>
+  typeof value === "number" && Number.isInteger(value) && value > 0;
+
+const normalizeRoleConcurrency = (
+  raw: unknown,
+): Record<string, number> | undefined => {
+  if (!isRecord(raw)) return undefined;
+  const limits = Object.entries(raw).filter(
+    (entry): entry is [string, number] => isPositiveInteger(entry[1]),
+  );
+  return limits.length > 0 ? Object.fromEntries(limits) : undefined;
+};
+
 const normalizeProjectConfig = (parsed: unknown): ProjectConfig => {
   if (!isRecord(parsed)) {
     return defaultProjectConfig;
   }
 
+  const {
+    heartbeatStaleMs,
+    escalationHook,
+    approvalCheckpoints,
+    humanReviewEvery,
+    agentLauncher,
+    maxConcurrentAgents,
+    roleConcurrency,
+    maxConcurrentVerifications,
+    maxConcurrentActions,
+    ...rest
+  } = parsed;
+  const roleLimits = normalizeRoleConcurrency(roleConcurrency);
   return {
     ...defaultProjectConfig,
-    ...parsed,
+    ...rest,
+    ...(typeof heartbeatStaleMs === "number" && heartbeatStaleMs > 0
+      ? { heartbeatStaleMs }
+      : {}),
+    ...(typeof escalationHook === "string" && escalationHook.trim() !== ""
+      ? { escalationHook }
+      : {}),
+    ...(Array.isArray(approvalCheckpoints) &&
+    approvalCheckpoints.every((entry: unknown) => typeof entry === "string")
+      ? { approvalCheckpoints: approvalCheckpoints as string[] }
+      : {}),
+    ...(typeof humanReviewEvery === "number" &&
+    Number.isInteger(humanReviewEvery) &&
+    humanReviewEvery > 0
+      ? { humanReviewEvery }
+      : {}),
+    ...(agentLauncher === "zellij" ||
+    agentLauncher === "tmux" ||
+    agentLauncher === "headless"
+      ? { agentLauncher }
+      : {}),
+    ...(isPositiveInteger(maxConcurrentAgents) ? { maxConcurrentAgents } : {}),
+    ...(roleLimits ? { roleConcurrency: roleLimits } : {}),
+    ...(isPositiveInteger(maxConcurrentVerifications)
+      ? { maxConcurrentVerifications }
+      : {}),
+    ...(isPositiveInteger(maxConcurrentActions)
+      ? { maxConcurrentActions }
+      : {}),
     team: Array.isArray(parsed.team)
       ? parsed.team
           .map(normalizeTeamMember)
           .filter((m): m is TeamMember => m !== null)
       : defaultProjectConfig.team,
     roles: normalizeRoles(parsed.roles) ?? defaultProjectConfig.roles ?? {},
+    stateBackend:
+      parsed.stateBackend === "sqlite" || parsed.stateBackend === "json"
+        ? parsed.stateBackend
+        : "json",
   };
 };
 
@@ -153,7 +267,8 @@ export const loadProjectConfig = (cwd: string): ProjectConfig => {
   const jsOrTsPath = path.join(cwd, ".orchestra", "project.ts");
   if (fs.existsSync(jsOrTsPath)) {
     try {
-      const jiti = createJiti(import.meta.url);
+      // No module cache, so `/orchestra reload` sees edits
+      const jiti = createJiti(import.meta.url, { moduleCache: false });
       const loaded = jiti(jsOrTsPath) as { default?: unknown } | unknown;
       const parsed =
         typeof loaded === "object" && loaded && "default" in loaded
@@ -0,0 +1,282 @@
+import { spawn } from "node:child_process";
+import fs from "node:fs";
+import path from "node:path";
+import { shellEscape } from "../core/command-template";
+import type { AgentHandle, AgentLauncherKind } from "../core/types";
+
+/** An agent to start: `argv` runs pi in `cwd`; `runtimeDir` holds its files. */
+export interface AgentLaunchSpec {
+  agentId: string;
+  cwd: string;
+  runtimeDir: string;
+  argv: string[];
+}
+
+export interface AgentLaunchResult {
+  code: number;
+  stdout: string;
+  stderr: string;
+  /** What was run, for spawn failure reports. */
+  command: string;
+  /** Set when the launch succeeded. */
+  handle?: AgentHandle;
+}
+
+/**
+ * Starts agents and acts on the handles it returns. `stop` and `focus`
+ * report whether they did anything; `isAlive` backs the health checks.
+ */
+export interface AgentLauncher {
+  readonly kind: AgentLauncherKind;
+  launch(spec: AgentLaunchSpec): Promise<AgentLaunchResult>;
+  stop(handle: AgentHandle): Promise<boolean>;
+  focus(handle: AgentHandle): Promise<boolean>;
+  isAlive(handle: AgentHandle): Promise<boolean>;
+}
+
+/** Runs a shell command line, as `WorkflowEngine` does through `pi.exec`. */
+export type ShellExec = (
+  command: string,
+) => Promise<{ code: number; stdout: string; stderr: string }>;
+
+const handleFor = (
+  kind: AgentLauncherKind,
+  agentId: string,
+  ref: string,
+  extra: Partial<AgentHandle> = {},
+): AgentHandle => ({
+  launcher: kind,
+  agent_id: agentId,
+  ref,
+  ...extra,
+  launched_at: new Date().toISOString(),
+});
+
+// Each argument is escaped for the single quotes the whole line is wrapped in
+const quotedCommandLine = (argv: string[]): string =>
+  `'${argv.map(shellEscape).join(" ")}'`;
+
+/** Interactive pi sessions in new zellij tabs, named by agent ID. */
+export class ZellijTabLauncher implements AgentLauncher {
+  readonly kind = "zellij";
+
+  constructor(private readonly exec: ShellExec) {}
+
+  async launch(spec: AgentLaunchSpec): Promise<AgentLaunchResult> {
+    const command = `zellij action new-tab --name ${shellEscape(spec.agentId)} --cwd ${shellEscape(spec.cwd)} && zellij action write-chars ${quotedCommandLine(spec.argv)} && zellij action write 13`;
+    const result = await this.exec(command);
+    return {
+      ...result,
+      command,
+      ...(result.code === 0
+        ? { handle: handleFor(this.kind, spec.agentId, spec.agentId) }
+        : {}),
+    };
+  }
+
+  async stop(handle: AgentHandle): Promise<boolean> {
+    const result = await this.exec(
+      `zellij action go-to-tab-name ${shellEscape(handle.ref)} && zellij action close-tab`,
+    );
+    return result.code === 0;
+  }
+
+  async focus(handle: AgentHandle): Promise<boolean> {
+    const result = await this.exec(
+      `zellij action go-to-tab-name ${shellEscape(handle.ref)}`,
+    );
+    return result.code === 0;
+  }
+
+  async isAlive(handle: AgentHandle): Promise<boolean> {
+    const result = await this.exec("zellij action query-tab-names");
+    return (
+      result.code === 0 &&
+      result.stdout.split("\n").some((line) => line.trim() === handle.ref)
+    );
+  }
+}
+
+/**
+ * Interactive pi sessions in detached windows of the current tmux session.
+ * The handle refers to the window ID, which survives renames.
+ */
+export class TmuxWindowLauncher implements AgentLauncher {
+  readonly kind = "tmux";
+
+  constructor(private readonly exec: ShellExec) {}
+
+  async launch(spec: AgentLaunchSpec): Promise<AgentLaunchResult> {
+    const command = `tmux new-window -d -P -F '#{window_id}' -n '${shellEscape(spec.agentId)}' -c '${shellEscape(spec.cwd)}' ${quotedCommandLine(spec.argv)}`;
+    const result = await this.exec(command);
+    const windowId = result.stdout.trim();
+    return {
+      ...result,
+      command,
+      ...(result.code === 0 && windowId !== ""
+        ? { handle: handleFor(this.kind, spec.agentId, windowId) }
+        : {}),
+    };
+  }
+
+  async stop(handle: AgentHandle): Promise<boolean> {
+    const result = await this.exec(
+      `tmux kill-window -t '${shellEscape(handle.ref)}'`,
+    );
+    return result.code === 0;
+  }
+
+  async focus(handle: AgentHandle): Promise<boolean> {
+    const result = await this.exec(
+      `tmux select-window -t '${shellEscape(handle.ref)}'`,
+    );
+    return result.code === 0;
+  }
+
+  async isAlive(handle: AgentHandle): Promise<boolean> {
+    const result = await this.exec("tmux list-windows -a -F '#{window_id}'");
+    return (
+      result.code === 0 &&
+      result.stdout.split("\n").some((line) => line.trim() === handle.ref)
+    );
+  }
+}
+
+const processAlive = (pid: number): boolean => {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM: the process exists but belongs to someone else
+    return (error as NodeJS.ErrnoException).code === "EPERM";
+  }
+};
+
+/**
+ * Detached `pi --print` processes for CI and servers without a
+ * multiplexer. Output goes to `agent.log` in the agent's runtime directory;
+ * there is nothing to focus.
+ */
+export class HeadlessProcessLauncher implements AgentLauncher {
+  readonly kind = "headless";
+
+  async launch(spec: AgentLaunchSpec): Promise<AgentLaunchResult> {
+    const [bin = "pi", ...args] = spec.argv;
+    const argv = [bin, "--print", ...args];
+    const command = argv.join(" ");
+    const logPath = path.join(spec.runtimeDir, "agent.log");
+    fs.mkdirSync(spec.runtimeDir, { recursive: true });
+    const log = fs.openSync(logPath, "a");
+    try {
+      const child = spawn(bin, argv.slice(1), {
+        cwd: spec.cwd,
+        detached: true,
+        stdio: ["ignore", log, log],
+      });
+      // A missing binary is reported through "error"; keep it from throwing
+      child.on("error", () => {});
+      if (child.pid === undefined) {
+        return {
+          code: 127,
+          stdout: "",
+          stderr: `could not start ${bin}`,
+          command,
+        };
+      }
+      child.unref();
+      return {
+        code: 0,
+        stdout: "",
+        stderr: "",
+        command,
+        handle: handleFor(this.kind, spec.agentId, String(child.pid), {
+          log_path: logPath,
+        }),
+      };
+    } finally {
+      fs.closeSync(log);
+    }
+  }
+
+  async stop(handle: AgentHandle): Promise<boolean> {
+    const pid = Number(handle.ref);
+    if (!processAlive(pid)) {
+      return false;
+    }
+    try {
+      // Detached children lead their own process group
+      process.kill(-pid, "SIGTERM");
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async focus(): Promise<boolean> {
+    return false;
+  }
+
+  async isAlive(handle: AgentHandle): Promise<boolean> {
+    return processAlive(Number(handle.ref));
+  }
+}
+
+/**
+ * Records launches in memory and never starts anything. Set `failWith` to
+ * make the next launches fail with that stderr.
+ */
+export class FakeAgentLauncher implements AgentLauncher {
+  readonly kind = "fake";
+  readonly launched: AgentLaunchSpec[] = [];
+  readonly stopped: string[] = [];
+  readonly focused: string[] = [];
+  readonly alive = new Set<string>();
+  failWith: string | undefined;
+
+  async launch(spec: AgentLaunchSpec): Promise<AgentLaunchResult> {
+    const command = spec.argv.join(" ");
+    if (this.failWith !== undefined) {
+      return { code: 1, stdout: "", stderr: this.failWith, command };
+    }
+    this.launched.push(spec);
+    this.alive.add(spec.agentId);
+    return {
+      code: 0,
+      stdout: "",
+      stderr: "",
+      command,
+      handle: handleFor(this.kind, spec.agentId, spec.agentId),
+    };
+  }
+
+  async stop(handle: AgentHandle): Promise<boolean> {
+    this.stopped.push(handle.ref);
+    return this.alive.delete(handle.ref);
+  }
+
+  async focus(handle: AgentHandle): Promise<boolean> {
+    this.focused.push(handle.ref);
+    return this.alive.has(handle.ref);
+  }
+
+  async isAlive(handle: AgentHandle): Promise<boolean> {
+    return this.alive.has(handle.ref);
+  }
+}
+
+/** The launcher for a configured kind; zellij unless configured otherwise. */
+export const createAgentLauncher = (
+  kind: AgentLauncherKind | undefined,
+  exec: ShellExec,
+): AgentLauncher => {
+  switch (kind) {
+    case "tmux":
+      return new TmuxWindowLauncher(exec);
+    case "headless":
+      return new HeadlessProcessLauncher();
+    case "fake":
+      return new FakeAgentLauncher();
+    default:
+      return new ZellijTabLauncher(exec);
+  }
+};
@@ -0,0 +1,117 @@
+import fs from "node:fs";
+import path from "node:path";
+
+/** Keys whose values were added, removed or changed between two records. */
+export interface RecordChanges {
+  added: string[];
+  removed: string[];
+  changed: string[];
+}
+
+export const diffRecords = (
+  before: Record<string, unknown>,
+  after: Record<string, unknown>,
+): RecordChanges => {
+  const changes: RecordChanges = { added: [], removed: [], changed: [] };
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+  for (const key of [...keys].sort()) {
+    if (!Object.hasOwn(before, key)) {
+      changes.added.push(key);
+    } else if (!Object.hasOwn(after, key)) {
+      changes.removed.push(key);
+    } else if (JSON.stringify(before[key]) !== JSON.stringify(after[key])) {
+      changes.changed.push(key);
+    }
+  }
+  return changes;
+};
+
+/** Agent overrides in `.orchestra/agents.d`, by agent name. */
+export const readAgentOverrides = (
+  orchestraDir: string,
+): Record<string, string> => {
+  const dir = path.join(orchestraDir, "agents.d");
+  if (!fs.existsSync(dir)) {
+    return {};
+  }
+  return Object.fromEntries(
+    fs
+      .readdirSync(dir)
+      .filter((name) => name.endsWith(".md"))
+      .map((name) => [
+        name.slice(0, -".md".length),
+        fs.readFileSync(path.join(dir, name), "utf8"),
+      ]),
+  );
+};
+
+const WATCHED_DIRS = ["workflows.d", "agents.d"];
+const WATCHED_FILES = new Set(["project.ts", "project.json"]);
+
+/**
+ * Watches `.orchestra/workflows.d`, `.orchestra/agents.d` and the project
+ * config, and calls `onChange` once per burst of edits with the changed
+ * paths. Directories created after `start()` are not picked up.
+ */
+export class ConfigWatcher {
+  private watchers: fs.FSWatcher[] = [];
+  private timer: NodeJS.Timeout | undefined;
+  private readonly changed = new Set<string>();
+
+  constructor(
+    private readonly orchestraDir: string,
+    private readonly onChange: (paths: string[]) => Promise<void> | void,
+    private readonly debounceMs = 300,
+  ) {}
+
+  start(): void {
+    if (this.watchers.length > 0 || !fs.existsSync(this.orchestraDir)) {
+      return;
+    }
+
+    this.watch(this.orchestraDir, (name) => WATCHED_FILES.has(name));
+    for (const dir of WATCHED_DIRS) {
+      const full = path.join(this.orchestraDir, dir);
+      if (fs.existsSync(full)) {
+        this.watch(full, () => true);
+      }
+    }
+  }
+
+  stop(): void {
+    for (const watcher of this.watchers) {
+      watcher.close();
+    }
+    this.watchers = [];
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+    this.changed.clear();
+  }
+
+  private watch(dir: string, accept: (name: string) => boolean): void {
+    const watcher = fs.watch(dir, (_event, name) => {
+      if (name && accept(name.toString())) {
+        this.record(path.join(dir, name.toString()));
+      }
+    });
+    // Watching must not keep the process alive on its own
+    watcher.unref();
+    this.watchers.push(watcher);
+  }
+
+  private record(file: string): void {
+    this.changed.add(file);
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      const paths = [...this.changed].sort();
+      this.changed.clear();
+      void this.onChange(paths);
+    }, this.debounceMs);
+    this.timer.unref();
+  }
+}
@@ -39,5 +39,6 @@ export default defineWorkflow({
     },
     FIX: { type: "terminal", result: "failure", action: "route_rework" },
     PASS: { type: "terminal", result: "success" },
+    ESCALATE: { type: "terminal", result: "failure", action: "notify_human" },
   },
 });
@@ -17,6 +17,11 @@ import {
  * Default slot bindings are documented below. Override any slot by
  * passing `{ slots: { build: "my-custom-build" } }` in params.
  *
+ * Projects with the "traditional-prd" flavor skip event modeling: a guard
+ * on DISCOVERY routes them straight to PLANNING. Planning therefore always
+ * receives the discovery output as `requirements`, and the event model as
+ * `model` only when MODELING ran.
+ *
  * The pipeline threads evidence through: each sub-workflow's output
  * evidence is available to subsequent phases under
  * `evidence.<STATE_NAME>.child_evidence.*`.
@@ -71,9 +76,15 @@ export default defineWorkflow({
         goals: "evidence.SETUP.acceptance_criteria",
       },
       transitions: { success: "MODELING", failure: "ESCALATE" },
+      guards: [
+        {
+          when: 'result === "success" && project.flavor === "traditional-prd"',
+          to: "PLANNING",
+        },
+      ],
     }),
 
-    // --- Phase 2: Event Modeling (or PRD, depending on flavor) ---
+    // --- Phase 2: Event Modeling (event-modeled projects only) ---
     MODELING: subworkflow({
       workflow: "$modeling",
       inputMap: {
@@ -86,6 +97,8 @@ export default defineWorkflow({
     PLANNING: subworkflow({
       workflow: "$planning",
       inputMap: {
+        requirements: "evidence.DISCOVERY.child_evidence",
+        // Unset for traditional-prd projects, which skip MODELING
         model: "evidence.MODELING.child_evidence",
         acceptance_criteria: "evidence.SETUP.acceptance_criteria",
       },
@@ -1,4 +1,8 @@
-import { defineWorkflow, evidence, verdict } from "../core/workflow-definition";
+import {
+  approval,
+  defineWorkflow,
+  evidence,
+} from "../core/workflow-definition";
 
 export default defineWorkflow({
   name: "retro",
@@ -35,13 +39,15 @@ export default defineWorkflow({
       transitions: { pass: "HUMAN_REVIEW", fail: "PROPOSE" },
       maxRetries: 1,
     },
+    // The facilitator presents the proposals; a human approves or rejects
     HUMAN_REVIEW: {
       assign: "retro_facilitator",
-      gate: verdict({ options: ["apply", "skip"] }),
-      transitions: { apply: "APPLY", skip: "SKIP" },
+      gate: approval({ prompt: "Apply the retro proposals?" }),
+      transitions: { pass: "APPLY", rejected: "SKIP" },
       maxRetries: 1,
     },
     APPLY: { type: "terminal", result: "success" },
     SKIP: { type: "terminal", result: "success" },
+    ESCALATE: { type: "terminal", result: "failure", action: "notify_human" },
   },
 });
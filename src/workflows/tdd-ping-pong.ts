@@ -28,7 +28,6 @@ export default defineWorkflow({
     persona_a: { type: "string", required: true },
     persona_b: { type: "string", required: true },
     scenario: { type: "string", required: true },
-    test_runner: { type: "string", default: "npm test" },
     test_dir: { type: "string", default: "tests/" },
     src_dir: { type: "string", default: "src/" },
   },
@@ -46,7 +45,6 @@ export default defineWorkflow({
       inputMap: {
         turn_persona: "params.persona_a",
         scenario: "params.scenario",
-        test_runner: "params.test_runner",
         test_dir: "params.test_dir",
         src_dir: "params.src_dir",
       },
@@ -70,7 +68,6 @@ export default defineWorkflow({
       inputMap: {
         turn_persona: "params.persona_b",
         scenario: "params.scenario",
-        test_runner: "params.test_runner",
         test_dir: "params.test_dir",
         src_dir: "params.src_dir",
       },
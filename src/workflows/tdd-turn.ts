@@ -20,7 +20,6 @@ export default defineWorkflow({
   params: {
     turn_persona: { type: "string", required: true },
     scenario: { type: "string", required: true },
-    test_runner: { type: "string", default: "npm test" },
     test_dir: { type: "string", default: "tests/" },
     src_dir: { type: "string", default: "src/" },
   },
@@ -55,7 +54,7 @@ export default defineWorkflow({
       assign: "red",
       gate: evidence({
         schema: { test_file: "string", failure_output: "string" },
-        verify: { command: "npm test", expectExitCode: 1 },
+        verify: { command: "${project.testRunner}", expectExitCode: 1 },
       }),
       transitions: { pass: "TURN_COMPLETE", fail: "RED" },
       maxRetries: 3,
@@ -64,7 +63,7 @@ export default defineWorkflow({
       assign: "green",
       gate: evidence({
         schema: { implementation_files: "string[]", test_output: "string" },
-        verify: { command: "npm test", expectExitCode: 0 },
+        verify: { command: "${project.testRunner}", expectExitCode: 0 },
       }),
       transitions: { pass: "TURN_COMPLETE", fail: "GREEN" },
       maxRetries: 3,
@@ -0,0 +1,185 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { describe, expect, it } from "vitest";
+import {
+  FakeAgentLauncher,
+  HeadlessProcessLauncher,
+  TmuxWindowLauncher,
+  ZellijTabLauncher,
+  createAgentLauncher,
+} from "../src/runtime/agent-launcher";
+
+const spec = (runtimeDir = "/tmp/runtime/wf-1-red") => ({
+  agentId: "wf-1-red",
+  cwd: "/repo",
+  runtimeDir,
+  argv: ["pi", "--tools", "read,bash", "@/tmp/task.md"],
+});
+
+const fakeExec = (
+  results: Record<string, { code: number; stdout: string }>,
+) => {
+  const commands: string[] = [];
+  const exec = async (command: string) => {
+    commands.push(command);
+    return { stderr: "", ...(results[command] ?? { code: 0, stdout: "" }) };
+  };
+  return { exec, commands };
+};
+
+const waitFor = async (check: () => boolean | Promise<boolean>) => {
+  for (let attempt = 0; attempt < 100; attempt++) {
+    if (await check()) {
+      return;
+    }
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+  throw new Error("condition not met");
+};
+
+describe("ZellijTabLauncher", () => {
+  it("types the agent command into a new tab named by agent ID", async () => {
+    const { exec, commands } = fakeExec({
+      "zellij action query-tab-names": {
+        code: 0,
+        stdout: "Tab #1\nwf-1-red\n",
+      },
+    });
+    const launcher = new ZellijTabLauncher(exec);
+
+    const result = await launcher.launch(spec());
+
+    expect(result.command).toBe(
+      "zellij action new-tab --name wf-1-red --cwd /repo && zellij action write-chars 'pi --tools read,bash @/tmp/task.md' && zellij action write 13",
+    );
+    expect(result.handle).toMatchObject({
+      launcher: "zellij",
+      agent_id: "wf-1-red",
+      ref: "wf-1-red",
+    });
+    const handle = result.handle as NonNullable<typeof result.handle>;
+    expect(await launcher.isAlive(handle)).toBe(true);
+    expect(await launcher.focus(handle)).toBe(true);
+    expect(await launcher.stop(handle)).toBe(true);
+    expect(commands.slice(1)).toEqual([
+      "zellij action query-tab-names",
+      "zellij action go-to-tab-name wf-1-red",
+      "zellij action go-to-tab-name wf-1-red && zellij action close-tab",
+    ]);
+  });
+
+  it("reports no handle when the tab cannot be created", async () => {
+    const { exec } = fakeExec({});
+    const failing = async (command: string) => ({
+      ...(await exec(command)),
+      code: 127,
+      stderr: "zellij: command not found",
+    });
+
+    const result = await new ZellijTabLauncher(failing).launch(spec());
+
+    expect(result).toMatchObject({
+      code: 127,
+      stderr: "zellij: command not found",
+    });
+    expect(result.handle).toBeUndefined();
+  });
+});
+
+describe("TmuxWindowLauncher", () => {
+  it("opens a detached window and tracks it by window ID", async () => {
+    const launch =
+      "tmux new-window -d -P -F '#{window_id}' -n 'wf-1-red' -c '/repo' 'pi --tools read,bash @/tmp/task.md'";
+    const { exec, commands } = fakeExec({
+      [launch]: { code: 0, stdout: "@7\n" },
+      "tmux list-windows -a -F '#{window_id}'": { code: 0, stdout: "@1\n@7\n" },
+    });
+    const launcher = new TmuxWindowLauncher(exec);
+
+    const result = await launcher.launch(spec());
+
+    expect(result.handle).toMatchObject({ launcher: "tmux", ref: "@7" });
+    const handle = result.handle as NonNullable<typeof result.handle>;
+    expect(await launcher.isAlive(handle)).toBe(true);
+    expect(await launcher.isAlive({ ...handle, ref: "@9" })).toBe(false);
+    await launcher.focus(handle);
+    await launcher.stop(handle);
+    expect(commands.slice(-2)).toEqual([
+      "tmux select-window -t '@7'",
+      "tmux kill-window -t '@7'",
+    ]);
+  });
+});
+
+describe("HeadlessProcessLauncher", () => {
+  const fakePi = (body: string) => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "orch-launch-"));
+    const bin = path.join(dir, "pi");
+    fs.writeFileSync(bin, `#!/bin/sh\n${body}\n`, { mode: 0o755 });
+    return { dir, bin };
+  };
+
+  it("runs pi in print mode and logs its output", async () => {
+    const { dir, bin } = fakePi('echo "$@"');
+    const runtimeDir = path.join(dir, "runtime");
+    const launcher = new HeadlessProcessLauncher();
+
+    const result = await launcher.launch({
+      ...spec(runtimeDir),
+      cwd: dir,
+      argv: [bin, "@task.md"],
+    });
+
+    const handle = result.handle as NonNullable<typeof result.handle>;
+    expect(handle).toMatchObject({
+      launcher: "headless",
+      log_path: path.join(runtimeDir, "agent.log"),
+    });
+    await waitFor(
+      () =>
+        fs.existsSync(handle.log_path as string) &&
+        fs.readFileSync(handle.log_path as string, "utf8") ===
+          "--print @task.md\n",
+    );
+    await waitFor(async () => !(await launcher.isAlive(handle)));
+    expect(await launcher.focus()).toBe(false);
+  });
+
+  it("stops a running process", async () => {
+    const { dir, bin } = fakePi("sleep 30");
+    const launcher = new HeadlessProcessLauncher();
+    const result = await launcher.launch({
+      ...spec(path.join(dir, "runtime")),
+      cwd: dir,
+      argv: [bin],
+    });
+    const handle = result.handle as NonNullable<typeof result.handle>;
+
+    expect(await launcher.isAlive(handle)).toBe(true);
+    expect(await launcher.stop(handle)).toBe(true);
+    await waitFor(async () => !(await launcher.isAlive(handle)));
+  });
+
+  it("fails without a handle when pi cannot start", async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "orch-launch-"));
+    const result = await new HeadlessProcessLauncher().launch({
+      ...spec(dir),
+      cwd: dir,
+      argv: [path.join(dir, "missing-pi")],
+    });
+
+    expect(result.code).toBe(127);
+    expect(result.handle).toBeUndefined();
+  });
+});
+
+describe("createAgentLauncher", () => {
+  it("picks the configured launcher, zellij by default", () => {
+    const { exec } = fakeExec({});
+    expect(createAgentLauncher(undefined, exec).kind).toBe("zellij");
+    expect(createAgentLauncher("tmux", exec).kind).toBe("tmux");
+    expect(createAgentLauncher("headless", exec).kind).toBe("headless");
+    expect(createAgentLauncher("fake", exec)).toBeInstanceOf(FakeAgentLauncher);
+  });
+});
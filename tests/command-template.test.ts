@@ -0,0 +1,121 @@
+import { execFileSync } from "node:child_process";
+import { describe, expect, it } from "vitest";
+import {
+  CommandTemplateError,
+  findCommandTemplateError,
+  parseCommandTemplate,
+  renderCommandTemplate,
+} from "../src/core/command-template";
+
+describe("parseCommandTemplate", () => {
+  it("lists placeholders with their root and path", () => {
+    expect(
+      parseCommandTemplate(
+        "${project.testRunner} -- '${evidence.RED.files[0]}'",
+      ),
+    ).toEqual([
+      {
+        source: "project.testRunner",
+        root: "project",
+        segments: ["testRunner"],
+        quoting: "none",
+      },
+      {
+        source: "evidence.RED.files[0]",
+        root: "evidence",
+        segments: ["RED", "files", 0],
+        quoting: "single",
+      },
+    ]);
+    expect(parseCommandTemplate("npm test")).toEqual([]);
+  });
+
+  it("rejects placeholders that are not paths under a known root", () => {
+    expect(findCommandTemplateError("echo ${result}")).toBe(
+      'invalid placeholder ${result}, expected a path under params, project, evidence or metrics in "echo ${result}"',
+    );
+    expect(findCommandTemplateError("echo ${params.a === 1}")).toContain(
+      "invalid placeholder ${params.a === 1}",
+    );
+    expect(findCommandTemplateError("echo ${params.a")).toBe(
+      'unterminated placeholder in "echo ${params.a"',
+    );
+    expect(findCommandTemplateError("echo $HOME ${params.a}")).toBeUndefined();
+    expect(findCommandTemplateError('echo "${evidence.RED.file}"')).toBe(
+      '${evidence.RED.file} is inside double quotes, use single quotes or none in "echo "${evidence.RED.file}""',
+    );
+    expect(
+      findCommandTemplateError('echo "it\'s" ${params.a} && ${project.name}'),
+    ).toBeUndefined();
+  });
+
+  it("only lets project values lead a command", () => {
+    for (const template of [
+      "${project.testRunner}",
+      "  ${project.testRunner} --watch=false",
+      "cd app && ${project.buildCommand}; ${project.lintCommand} | tee log",
+      "(${project.testRunner})",
+    ]) {
+      expect(findCommandTemplateError(template)).toBeUndefined();
+    }
+    for (const template of [
+      "git commit -m ${project.name}",
+      "echo '${project.name}'",
+      'echo "${project.name}"',
+      "${project.srcDir}/bin run",
+      "x${project.testRunner}",
+    ]) {
+      expect(findCommandTemplateError(template)).toMatch(
+        /\$\{project\.\w+\} is command text and must be a whole word at the start of a command/,
+      );
+    }
+  });
+});
+
+describe("renderCommandTemplate", () => {
+  it("fills in project text as is and data as one quoted word", () => {
+    expect(
+      renderCommandTemplate(
+        "${project.testRunner} '${evidence.RED.test_file}' --retries ${params.retries}",
+        {
+          params: { retries: 2 },
+          project: { testRunner: "cargo test" },
+          evidence: { RED: { test_file: "tests/it's.rs" } },
+        },
+      ),
+    ).toBe("cargo test 'tests/it'\\''s.rs' --retries '2'");
+  });
+
+  it("keeps malicious evidence a single argument", () => {
+    const hostile = [
+      "a; touch pwned",
+      "$(touch pwned)",
+      "`touch pwned`",
+      "x' ; touch pwned ; echo '",
+    ];
+    for (const value of hostile) {
+      for (const template of [
+        "printf %s ${evidence.RED.test_file}",
+        "printf %s '${evidence.RED.test_file}'",
+      ]) {
+        const command = renderCommandTemplate(template, {
+          evidence: { RED: { test_file: value } },
+        });
+        expect(execFileSync("sh", ["-c", command], { encoding: "utf8" })).toBe(
+          value,
+        );
+      }
+    }
+  });
+
+  it("throws when a placeholder does not resolve", () => {
+    expect(() =>
+      renderCommandTemplate("run '${evidence.RED.test_file}'", {
+        evidence: {},
+      }),
+    ).toThrow(CommandTemplateError);
+    expect(() =>
+      renderCommandTemplate("run ${params.missing}", { params: {} }),
+    ).toThrow('${params.missing} is not set in "run ${params.missing}"');
+  });
+});
@@ -0,0 +1,63 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { describe, expect, it } from "vitest";
+import {
+  ConfigWatcher,
+  diffRecords,
+  readAgentOverrides,
+} from "../src/runtime/config-watcher";
+
+describe("config watcher helpers", () => {
+  it("diffs records by key", () => {
+    expect(
+      diffRecords(
+        { name: "a", flavor: "traditional-prd", team: [] },
+        { name: "a", flavor: "event-modeled", srcDir: "src" },
+      ),
+    ).toEqual({ added: ["srcDir"], removed: ["team"], changed: ["flavor"] });
+  });
+
+  it("reads agent overrides by name", () => {
+    const root = fs.mkdtempSync(path.join(os.tmpdir(), "orch-agents-"));
+    expect(readAgentOverrides(root)).toEqual({});
+    fs.mkdirSync(path.join(root, "agents.d"));
+    fs.writeFileSync(path.join(root, "agents.d", "ping.md"), "# ping\n");
+    fs.writeFileSync(path.join(root, "agents.d", "notes.txt"), "skip");
+    expect(readAgentOverrides(root)).toEqual({ ping: "# ping\n" });
+  });
+});
+
+describe("ConfigWatcher", () => {
+  it("reports one burst of edits once", async () => {
+    const root = fs.mkdtempSync(path.join(os.tmpdir(), "orch-watch-"));
+    fs.mkdirSync(path.join(root, "workflows.d"));
+    const calls: string[][] = [];
+    let notify: () => void = () => {};
+    const changed = new Promise<void>((resolve) => {
+      notify = resolve;
+    });
+    const watcher = new ConfigWatcher(
+      root,
+      (paths) => {
+        calls.push(paths);
+        notify();
+      },
+      50,
+    );
+
+    watcher.start();
+    try {
+      fs.writeFileSync(path.join(root, "workflows.d", "a.ts"), "export {}");
+      fs.writeFileSync(path.join(root, "project.json"), "{}");
+      fs.writeFileSync(path.join(root, "ignored.txt"), "x");
+      await changed;
+    } finally {
+      watcher.stop();
+    }
+
+    expect(calls).toEqual([
+      [path.join(root, "project.json"), path.join(root, "workflows.d", "a.ts")],
+    ]);
+  });
+});
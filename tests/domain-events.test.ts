@@ -0,0 +1,133 @@
+import { describe, expect, it } from "vitest";
+import {
+  type WorkflowDomainEvent,
+  WorkflowEventEmitter,
+  domainEventsFor,
+} from "../src/core/domain-events";
+import {
+  type WorkflowRuntimeState,
+  asWorkflowId,
+  asWorkflowType,
+} from "../src/core/types";
+
+const nextTurn = () => new Promise((resolve) => setImmediate(resolve));
+
+const event = (
+  type: "workflow.paused" | "workflow.resumed",
+): WorkflowDomainEvent => ({ type, workflowId: "wf-1", at: "now" });
+
+describe("WorkflowEventEmitter", () => {
+  it("delivers events on a later turn to type and wildcard listeners", async () => {
+    const emitter = new WorkflowEventEmitter();
+    const paused: string[] = [];
+    const all: string[] = [];
+    emitter.on("workflow.paused", (received) => {
+      paused.push(received.workflowId);
+    });
+    const unsubscribe = emitter.on("*", (received) => {
+      all.push(received.type);
+    });
+
+    emitter.emit([event("workflow.paused"), event("workflow.resumed")]);
+    expect(all).toEqual([]);
+    await nextTurn();
+
+    expect(paused).toEqual(["wf-1"]);
+    expect(all).toEqual(["workflow.paused", "workflow.resumed"]);
+
+    unsubscribe();
+    emitter.emit([event("workflow.paused")]);
+    await nextTurn();
+    expect(all).toHaveLength(2);
+    expect(paused).toHaveLength(2);
+  });
+
+  it("hands listener errors to onListenerError", async () => {
+    const emitter = new WorkflowEventEmitter();
+    const errors: string[] = [];
+    emitter.onListenerError = (error, received) => {
+      errors.push(`${received.type}: ${(error as Error).message}`);
+    };
+    emitter.on("workflow.paused", () => {
+      throw new Error("thrown");
+    });
+    emitter.on("workflow.paused", async () => {
+      throw new Error("rejected");
+    });
+
+    emitter.emit([event("workflow.paused")]);
+    await nextTurn();
+    await nextTurn();
+
+    expect(errors).toEqual([
+      "workflow.paused: thrown",
+      "workflow.paused: rejected",
+    ]);
+  });
+});
+
+describe("domainEventsFor", () => {
+  const state: WorkflowRuntimeState = {
+    workflow_id: asWorkflowId("wf-1"),
+    workflow_type: asWorkflowType("tdd"),
+    current_state: "DONE",
+    retry_count: 0,
+    paused: false,
+    params: {},
+    history: [{ state: "RED", entered_at: "t0", retries: 0 }],
+    evidence: {},
+    metrics: {},
+    created_at: "t0",
+    updated_at: "t1",
+  };
+
+  it("maps journal events to domain events", () => {
+    const events = domainEventsFor(
+      state,
+      [
+        {
+          type: "transitioned",
+          details: { from: "RED", to: "DONE", result: "pass" },
+        },
+        {
+          type: "evidence_accepted",
+          details: { submitted_state: "RED", result: "pass" },
+        },
+        { type: "subworkflow_started", details: {} },
+      ],
+      (name) => (name === "DONE" ? "success" : undefined),
+      "t1",
+    );
+
+    expect(events).toEqual([
+      {
+        type: "state.entered",
+        workflowId: "wf-1",
+        at: "t1",
+        state: "DONE",
+        from: "RED",
+        result: "pass",
+      },
+      {
+        type: "workflow.terminal",
+        workflowId: "wf-1",
+        at: "t1",
+        state: "DONE",
+        result: "success",
+      },
+      {
+        type: "evidence.accepted",
+        workflowId: "wf-1",
+        at: "t1",
+        state: "RED",
+        result: "pass",
+      },
+      {
+        type: "workflow.updated",
+        workflowId: "wf-1",
+        at: "t1",
+        event: "subworkflow_started",
+      },
+    ]);
+  });
+});
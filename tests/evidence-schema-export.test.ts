@@ -0,0 +1,133 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { type TSchema, Type } from "@sinclair/typebox";
+import { Value } from "@sinclair/typebox/value";
+import { describe, expect, it } from "vitest";
+import type { EvidenceSchema } from "../src/core/types";
+import { buildScopeExtension } from "../src/core/workflow-engine";
+import {
+  buildEvidenceJsonSchema,
+  buildSubmitEvidenceTypeBoxSource,
+  schemaNodeToTypeBoxSource,
+  writeEvidenceJsonSchemas,
+} from "../src/evidence/schema-export";
+import { compileEvidenceSchema } from "../src/evidence/schema-language";
+
+const schema: EvidenceSchema = {
+  test_files: "string[]",
+  status: '"red"|"green"',
+  coverage: "number(0..100)",
+  "notes?": "string",
+  findings: [{ path: "string", line: "integer" }],
+};
+
+const evaluateTypeBox = (source: string): TSchema =>
+  new Function("Type", `return ${source};`)(Type) as TSchema;
+
+describe("evidence schema export", () => {
+  it("renders a JSON Schema document for an evidence gate", () => {
+    expect(
+      buildEvidenceJsonSchema({
+        workflow: "demo",
+        state: "RED",
+        schema,
+        fields: [],
+      }),
+    ).toEqual({
+      $schema: "https://json-schema.org/draft/2020-12/schema",
+      $id: "orchestra://evidence/demo/RED",
+      title: "demo RED evidence",
+      type: "object",
+      properties: {
+        test_files: { type: "array", items: { type: "string" } },
+        status: { enum: ["red", "green"] },
+        coverage: { type: "number", minimum: 0, maximum: 100 },
+        notes: { type: "string" },
+        findings: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              path: { type: "string" },
+              line: { type: "integer" },
+            },
+            required: ["path", "line"],
+          },
+        },
+      },
+      required: ["test_files", "status", "coverage", "findings"],
+    });
+  });
+
+  it("writes one schema file per workflow state", () => {
+    const root = fs.mkdtempSync(path.join(os.tmpdir(), "orchestra-schemas-"));
+    const written = writeEvidenceJsonSchemas(root, [
+      { workflow: "demo", state: "RED", schema, fields: [] },
+      {
+        workflow: "demo",
+        state: "GREEN",
+        schema: { ok: "boolean" },
+        fields: [],
+      },
+    ]);
+
+    expect(written).toEqual([
+      path.join(root, "evidence", "schemas", "demo", "RED.json"),
+      path.join(root, "evidence", "schemas", "demo", "GREEN.json"),
+    ]);
+    const green = JSON.parse(fs.readFileSync(written[1] as string, "utf8"));
+    expect(green.properties).toEqual({ ok: { type: "boolean" } });
+    expect(green.required).toEqual(["ok"]);
+  });
+
+  it("generates TypeBox source that enforces the same contract", () => {
+    const typeBox = evaluateTypeBox(
+      schemaNodeToTypeBoxSource(compileEvidenceSchema(schema)),
+    );
+    const valid = {
+      test_files: ["tests/a.test.ts"],
+      status: "red",
+      coverage: 42,
+      findings: [{ path: "src/a.ts", line: 3 }],
+    };
+
+    expect(Value.Check(typeBox, valid)).toBe(true);
+    expect(Value.Check(typeBox, { ...valid, notes: "ok", extra: 1 })).toBe(
+      true,
+    );
+    expect(Value.Check(typeBox, { ...valid, status: "blue" })).toBe(false);
+    expect(Value.Check(typeBox, { ...valid, coverage: 101 })).toBe(false);
+    expect(Value.Check(typeBox, { ...valid, findings: [{ path: 1 }] })).toBe(
+      false,
+    );
+    const { test_files: _omitted, ...missing } = valid;
+    expect(Value.Check(typeBox, missing)).toBe(false);
+  });
+
+  it("types submit_evidence from the gate", () => {
+    expect(buildSubmitEvidenceTypeBoxSource()).toEqual({
+      evidence: "Type.Record(Type.String(), Type.Any())",
+      result: "Type.String()",
+    });
+    const verdict = buildSubmitEvidenceTypeBoxSource({
+      kind: "verdict",
+      options: ["approved", "flagged"],
+    });
+    expect(Value.Check(evaluateTypeBox(verdict.result), "approved")).toBe(true);
+    expect(Value.Check(evaluateTypeBox(verdict.result), "maybe")).toBe(false);
+
+    const source = buildScopeExtension({
+      agentId: "agent-1",
+      workflowId: "wf-1",
+      writable: [],
+      state: "RED",
+      gate: { kind: "evidence", schema: { test_files: "string[]" } },
+    });
+    expect(source).toContain('state: Type.Literal("RED")');
+    expect(source).toContain(
+      'evidence: Type.Object({ "test_files": Type.Array(Type.String()) })',
+    );
+    expect(source).toContain("Value.Check(EVIDENCE_PARAMS, params)");
+  });
+});
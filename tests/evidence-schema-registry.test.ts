@@ -3,11 +3,17 @@ import os from "node:os";
 import path from "node:path";
 import type { ExtensionAPI } from "@mariozechner/pi-coding-agent";
 import { describe, expect, it } from "vitest";
-import { StateStore } from "../src/core/state-store";
+import { JsonStateStore } from "../src/core/state-store";
+import type { EvidenceSchema } from "../src/core/types";
 import { WorkflowEngine } from "../src/core/workflow-engine";
+import {
+  findEvidenceSchemaErrors,
+  parseSchemaType,
+} from "../src/evidence/schema-language";
 import {
   buildWorkflowEvidenceDiagnostics,
   collectEvidenceSchemas,
+  matchesSchemaType,
   validateEvidenceForState,
 } from "../src/evidence/schema-registry";
 
@@ -48,6 +54,10 @@ describe("evidence schema registry", () => {
         workflow: "demo",
         state: "RED",
         schema: { note: "string", score: "number" },
+        fields: [
+          { name: "note", type: "string", optional: false },
+          { name: "score", type: "number", optional: false },
+        ],
       },
     ]);
 
@@ -67,6 +77,99 @@ describe("evidence schema registry", () => {
     ]);
   });
 
+  it("checks typed arrays, optional fields, enums, ranges, and nested shapes", () => {
+    const schema: EvidenceSchema = {
+      files: "string[]",
+      "notes?": "string",
+      summary: "string?",
+      severity: '"low"|"high"',
+      coverage: "number(0..100)",
+      location: { path: "string", "line?": "integer(1..)" },
+      findings: [{ title: "string", tags: '("bug"|"smell")[]' }],
+    };
+
+    expect(
+      validateEvidenceForState("QA", schema, {
+        files: ["a.ts"],
+        severity: "low",
+        coverage: 80,
+        location: { path: "src/a.ts" },
+        findings: [{ title: "leak", tags: ["bug"] }],
+      }),
+    ).toEqual({ state: "QA", ok: true, errors: [] });
+
+    const invalid = validateEvidenceForState("QA", schema, {
+      files: ["a.ts", 2],
+      summary: 3,
+      severity: "medium",
+      coverage: 120,
+      location: { line: 0 },
+      findings: [{ title: "leak", tags: ["bug", "nit"] }, "oops"],
+    });
+
+    expect(invalid.errors).toEqual([
+      "type mismatch for files[1]: expected string, got number",
+      "type mismatch for summary: expected string, got number",
+      'invalid value for severity: expected "low"|"high", got "medium"',
+      "out of range for coverage: expected number(0..100), got 120",
+      "missing key: location.path",
+      "out of range for location.line: expected integer(1..), got 0",
+      'invalid value for findings[0].tags[1]: expected "bug"|"smell", got "nit"',
+      'type mismatch for findings[1]: expected { title: string, tags: ("bug"|"smell")[] }, got string',
+    ]);
+  });
+
+  it("renders richer schema types for agents and the registry", () => {
+    const [entry] = collectEvidenceSchemas([
+      {
+        name: "demo",
+        description: "demo",
+        roles: {},
+        states: {
+          QA: {
+            assign: "r",
+            gate: {
+              kind: "evidence",
+              schema: {
+                "notes?": "string",
+                tags: "( 'a' | 'b' )[]",
+                location: { path: "string" },
+              },
+            },
+            transitions: { pass: "DONE" },
+          },
+        },
+      },
+    ]);
+
+    expect(entry?.fields).toEqual([
+      { name: "notes", type: "string", optional: true },
+      { name: "tags", type: '("a"|"b")[]', optional: false },
+      { name: "location", type: "{ path: string }", optional: false },
+    ]);
+  });
+
+  it("shares the type vocabulary with params and rejects malformed types", () => {
+    expect(matchesSchemaType(["a"], "string[]")).toBe(true);
+    expect(matchesSchemaType([1], "string[]")).toBe(false);
+    expect(matchesSchemaType(null, "string|null")).toBe(true);
+    expect(matchesSchemaType({}, "any")).toBe(true);
+    expect(matchesSchemaType([], "object")).toBe(false);
+    expect(matchesSchemaType(1.5, "integer")).toBe(false);
+    expect(matchesSchemaType("x", "strnig")).toBe(false);
+    expect(() => parseSchemaType("strnig")).toThrow('unknown type "strnig"');
+    expect(() => parseSchemaType("(string")).toThrow('expected ")"');
+    expect(() => parseSchemaType('"open')).toThrow("unterminated");
+    expect(() => parseSchemaType("string extra")).toThrow("unexpected");
+    expect(parseSchemaType("number[]?")).toEqual({
+      node: { kind: "array", element: { kind: "number", integer: false } },
+      optional: true,
+    });
+    expect(findEvidenceSchemaErrors({ ok: "string", bad: "strnig" })).toEqual([
+      'bad: invalid schema type "strnig": unknown type "strnig"',
+    ]);
+  });
+
   it("records diagnostics in workflow evidence when schema validation fails", async () => {
     const cwd = fs.mkdtempSync(path.join(os.tmpdir(), "orch-evidence-"));
 
@@ -96,7 +199,7 @@ describe("evidence schema registry", () => {
       }`,
     );
 
-    const store = new StateStore(path.join(cwd, ".orchestra"));
+    const store = new JsonStateStore(path.join(cwd, ".orchestra"));
     store.ensure();
     const engine = new WorkflowEngine({} as ExtensionAPI, cwd, store);
     await engine.loadWorkflows();
@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import {
+  findGuardExpressionError,
+  guardMatches,
+  parseGuardExpression,
+} from "../src/core/guard-expression";
+
+const scope = {
+  params: { skip: false, tags: ["api", "ui"] },
+  evidence: { TEST: { coverage: 72, suite: "unit" } },
+  metrics: {},
+  project: { flavor: "event-modeled" },
+  result: "pass",
+};
+
+describe("guard expressions", () => {
+  it("compares paths with literals", () => {
+    expect(guardMatches("evidence.TEST.coverage < 80", scope)).toBe(true);
+    expect(guardMatches("evidence.TEST.coverage >= 80", scope)).toBe(false);
+    expect(guardMatches('project.flavor === "event-modeled"', scope)).toBe(
+      true,
+    );
+    expect(guardMatches("result !== 'pass'", scope)).toBe(false);
+    expect(guardMatches('params.tags[1] === "ui"', scope)).toBe(true);
+    expect(guardMatches("params.tags.length === 2", scope)).toBe(true);
+  });
+
+  it("combines conditions with !, && and || and parentheses", () => {
+    expect(
+      guardMatches(
+        '!params.skip && (evidence.TEST.coverage > 90 || result === "pass")',
+        scope,
+      ),
+    ).toBe(true);
+    expect(guardMatches("params.skip || evidence.MISSING.value", scope)).toBe(
+      false,
+    );
+  });
+
+  it("treats unresolved paths and mixed-type ordering as false", () => {
+    expect(guardMatches("evidence.NOPE.coverage < 80", scope)).toBe(false);
+    expect(guardMatches('evidence.TEST.coverage < "80"', scope)).toBe(false);
+    expect(guardMatches("evidence.NOPE === null", scope)).toBe(false);
+    expect(guardMatches("evidence.TEST.constructor", scope)).toBe(false);
+  });
+
+  it("parses into a tree", () => {
+    expect(parseGuardExpression("!metrics.retries")).toEqual({
+      kind: "not",
+      operand: { kind: "path", root: "metrics", segments: ["retries"] },
+    });
+  });
+
+  it("reports syntax errors without throwing", () => {
+    expect(findGuardExpressionError("result === 'pass'")).toBeUndefined();
+    expect(findGuardExpressionError("result == 'pass'")).toContain(
+      'use "===" or "!==" to compare',
+    );
+    expect(findGuardExpressionError("process.exit")).toContain(
+      'unknown name "process"',
+    );
+    expect(findGuardExpressionError("(result === 'pass'")).toContain(
+      'expected ")"',
+    );
+    expect(findGuardExpressionError("params.x ===")).toContain(
+      "expected a value or path",
+    );
+  });
+});
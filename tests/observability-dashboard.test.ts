@@ -2,9 +2,14 @@ import { describe, expect, it } from "vitest";
 import { asWorkflowId, asWorkflowType } from "../src/core/types";
 import {
   buildActionLines,
+  buildApprovalLines,
+  buildAutopilotLines,
   buildCommandHelpLines,
+  buildEscalationLines,
   buildInteractiveDashboardLines,
   buildOverviewLines,
+  buildQueueLines,
+  buildReplayLines,
   buildRetroApplyLines,
   buildTuningLines,
   buildWorkflowDetailLines,
@@ -89,6 +94,58 @@ describe("observability dashboard helpers", () => {
     ).toEqual(["p1: ok - wrote docs/x.md"]);
   });
 
+  it("builds escalation inbox lines", () => {
+    expect(buildEscalationLines([])).toEqual(["No escalations"]);
+    expect(
+      buildEscalationLines([
+        {
+          workflow_id: "wf-1",
+          workflow_type: "build",
+          state: "ESCALATE",
+          action: "notify_human",
+          result: "failure",
+          reason: "Gate verification failed for CI",
+          created_at: "2026-01-01T00:00:00Z",
+          status: "resolved",
+          note: "rerun",
+        },
+      ]),
+    ).toEqual([
+      "resolved wf-1 (build) ESCALATE at 2026-01-01T00:00:00Z: Gate verification failed for CI [note: rerun]",
+    ]);
+  });
+
+  it("builds approval queue lines and approve actions", () => {
+    expect(buildApprovalLines([])).toEqual(["No pending approvals"]);
+    const workflow = {
+      workflow_id: asWorkflowId("wf-1"),
+      workflow_type: asWorkflowType("retro"),
+      current_state: "HUMAN_REVIEW",
+      retry_count: 0,
+      paused: false,
+      params: {},
+      history: [],
+      evidence: {},
+      metrics: {},
+      created_at: "2026-01-01T00:00:00Z",
+      updated_at: "2026-01-01T00:00:00Z",
+      pending_approval: {
+        state: "HUMAN_REVIEW",
+        result: "pass",
+        to: "APPLY",
+        reason: "approval gate",
+        prompt: "Apply the retro proposals?",
+        requested_at: "2026-01-01T00:00:00Z",
+      },
+    };
+    expect(buildApprovalLines([workflow])).toEqual([
+      "wf-1 (retro) HUMAN_REVIEW -> APPLY [approval gate] since 2026-01-01T00:00:00Z: Apply the retro proposals?",
+    ]);
+    expect(buildActionLines([workflow])).toEqual([
+      "wf-1: /orchestra approve wf-1 or /orchestra reject wf-1",
+    ]);
+  });
+
   it("builds workflow detail lines", () => {
     expect(buildWorkflowDetailLines(null)).toEqual(["workflow not found"]);
     expect(buildActionLines([])).toEqual(["No actions available"]);
@@ -188,4 +245,125 @@ describe("observability dashboard helpers", () => {
       true,
     );
   });
+
+  it("lists workflows under autopilot with their last tick and error", () => {
+    const statuses = [
+      {
+        workflowId: "wf-1",
+        state: "RED",
+        enrolledAt: "2026-01-01T00:00:00Z",
+        lastTickAt: "2026-01-01T00:05:00Z",
+        lastDispatchAt: "2026-01-01T00:01:00Z",
+      },
+      {
+        workflowId: "wf-2",
+        state: "GREEN",
+        enrolledAt: "2026-01-01T00:00:00Z",
+        lastError: "agent wf-2-green is gone after 3 redispatches",
+      },
+    ];
+
+    expect(buildAutopilotLines(statuses)).toEqual([
+      "wf-1: RED last tick 2026-01-01T00:05:00Z",
+      "wf-2: GREEN last tick never [error: agent wf-2-green is gone after 3 redispatches]",
+    ]);
+    expect(buildAutopilotLines([])).toEqual(["No workflows under autopilot"]);
+
+    const lines = buildInteractiveDashboardLines({
+      section: "autopilot",
+      page: 1,
+      pageSize: 5,
+      workflows: [],
+      paneRows: [],
+      recommendations: [],
+      experiments: [],
+      assignments: [],
+      healthChecks: [],
+      autopilot: statuses,
+    });
+    expect(lines).toContain("=== autopilot ===");
+    expect(lines.some((line) => line.includes("last dispatch"))).toBe(true);
+    expect(lines.some((line) => line.includes("gone after 3"))).toBe(true);
+  });
+
+  it("lists running agents against their caps and the dispatch queue", () => {
+    const scheduler = {
+      running: 2,
+      maxAgents: 2,
+      roles: [
+        { role: "reviewer", running: 1 },
+        { role: "worker", running: 1, limit: 1 },
+      ],
+      queue: [
+        {
+          workflowId: "wf-3",
+          agentId: "wf-3-worker",
+          role: "worker",
+          state: "RED",
+          priority: 5,
+          queuedAt: "2026-01-01T00:02:00Z",
+          reason: "2/2 agents running, 0 queued ahead",
+        },
+      ],
+      commands: [
+        { kind: "verification" as const, running: 1, waiting: 2, limit: 1 },
+        { kind: "action" as const, running: 0, waiting: 0 },
+      ],
+    };
+
+    expect(buildQueueLines(scheduler)).toEqual([
+      "agents=2/2 reviewer=1 worker=1/1",
+      "commands: verification=1/1+2 action=0",
+      "#1 wf-3-worker (worker) for wf-3 RED priority=5 since 2026-01-01T00:02:00Z: 2/2 agents running, 0 queued ahead",
+    ]);
+    expect(
+      buildQueueLines({ running: 0, roles: [], queue: [], commands: [] }),
+    ).toEqual(["agents=0", "No queued dispatches"]);
+
+    const lines = buildInteractiveDashboardLines({
+      section: "queue",
+      page: 1,
+      pageSize: 5,
+      workflows: [],
+      paneRows: [],
+      recommendations: [],
+      experiments: [],
+      assignments: [],
+      healthChecks: [],
+      scheduler,
+    });
+    expect(lines).toContain("=== queue ===");
+    expect(lines).toContain("queued=1");
+    expect(lines).toContain("verification=1/1+2 action=0");
+    expect(lines.some((line) => line.includes("wf-3-worker"))).toBe(true);
+  });
+
+  it("renders replayed journal events up to an index", () => {
+    expect(
+      buildReplayLines({ workflowId: "wf-1", events: [], state: null }),
+    ).toEqual(["no journal for workflow wf-1"]);
+
+    const lines = buildReplayLines({
+      workflowId: "wf-1",
+      events: [
+        {
+          index: 0,
+          at: "t0",
+          type: "workflow_started",
+          changes: { current_state: "RED" },
+        },
+        { index: 1, at: "t1", type: "paused", details: { by: "me" } },
+        { index: 2, at: "t2", type: "resumed" },
+      ],
+      state: null,
+      uptoIndex: 1,
+    });
+
+    expect(lines.slice(0, 4)).toEqual([
+      "replay=wf-1 events=3 at=#1",
+      "#0 t0 workflow_started changed=current_state",
+      '#1 t1 paused {"by":"me"}',
+      "--- state at #1 ---",
+    ]);
+  });
 });
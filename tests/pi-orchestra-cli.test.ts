@@ -0,0 +1,263 @@
+import fs from "node:fs";
+import http from "node:http";
+import os from "node:os";
+import path from "node:path";
+import { describe, expect, it, vi } from "vitest";
+import {
+  CliUsageError,
+  EXIT_CODES,
+  main,
+  parseRunArgs,
+  runWorkflow,
+} from "../src/cli/pi-orchestra";
+import { WorkflowEngine } from "../src/core/workflow-engine";
+import {
+  type AgentLaunchResult,
+  type AgentLaunchSpec,
+  FakeAgentLauncher,
+} from "../src/runtime/agent-launcher";
+
+const makeProject = (workflows: Record<string, string>) => {
+  const cwd = fs.mkdtempSync(path.join(os.tmpdir(), "orch-cli-"));
+  const dir = path.join(cwd, "src", "workflows");
+  fs.mkdirSync(dir, { recursive: true });
+  for (const [name, content] of Object.entries(workflows)) {
+    fs.writeFileSync(path.join(dir, `${name}.ts`), content, "utf8");
+  }
+  return cwd;
+};
+
+const actionWorkflow = (name: string, command: string) =>
+  `export default {
+    name: "${name}",
+    description: "batch",
+    initialState: "BUILD",
+    roles: {},
+    params: { target: { type: "string", required: true } },
+    states: {
+      BUILD: { type: "action", commands: ["${command}"], transitions: { pass: "DONE", fail: "ESCALATE" } },
+      DONE: { type: "terminal", result: "success" },
+      ESCALATE: { type: "terminal", result: "failure", action: "notify" }
+    }
+  }`;
+
+const run = async (
+  cwd: string,
+  workflow: string,
+  launcher?: FakeAgentLauncher,
+) => {
+  const lines: string[] = [];
+  const errors: string[] = [];
+  const code = await runWorkflow(
+    {
+      workflow,
+      params: { target: "app" },
+      cwd,
+      pollMs: 10,
+      ...(launcher ? { launcher } : {}),
+    },
+    (line) => lines.push(line),
+    (line) => errors.push(line),
+  );
+  return {
+    code,
+    lines: lines.map((line) => JSON.parse(line) as Record<string, unknown>),
+    errors,
+  };
+};
+
+const postEvidence = (socketPath: string, workflowId: string, body: unknown) =>
+  new Promise<void>((resolve, reject) => {
+    const req = http.request(
+      {
+        socketPath,
+        method: "POST",
+        path: `/evidence/${workflowId}`,
+        headers: { "Content-Type": "application/json" },
+      },
+      (res) => {
+        res.resume();
+        res.on("end", () => resolve());
+      },
+    );
+    req.on("error", reject);
+    req.end(JSON.stringify(body));
+  });
+
+/** Answers every launch by submitting `done` over the bus, as an agent would. */
+class AnsweringLauncher extends FakeAgentLauncher {
+  constructor(private readonly cwd: string) {
+    super();
+  }
+
+  override async launch(spec: AgentLaunchSpec): Promise<AgentLaunchResult> {
+    const result = await super.launch(spec);
+    const workflowId = spec.agentId.replace(/-worker$/, "");
+    setTimeout(() => {
+      void postEvidence(
+        path.join(this.cwd, ".orchestra", "bus.sock"),
+        workflowId,
+        { state: "WORK", result: "done", evidence: {} },
+      );
+    }, 20);
+    return result;
+  }
+}
+
+describe("parseRunArgs", () => {
+  it("reads the workflow name, params file and working directory", () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "orch-cli-"));
+    fs.writeFileSync(path.join(dir, "params.json"), '{"target":"app"}');
+
+    expect(
+      parseRunArgs(
+        ["tdd-turn", "--params", "params.json", "--cwd", "repo"],
+        dir,
+      ),
+    ).toEqual({
+      workflow: "tdd-turn",
+      params: { target: "app" },
+      cwd: path.join(dir, "repo"),
+    });
+  });
+
+  it("rejects missing workflows, unknown options and bad params", () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "orch-cli-"));
+    fs.writeFileSync(path.join(dir, "list.json"), "[1]");
+
+    expect(() => parseRunArgs([], dir)).toThrow("missing workflow name");
+    expect(() => parseRunArgs(["a", "--fast"], dir)).toThrow(
+      "unknown option --fast",
+    );
+    expect(() => parseRunArgs(["a", "--params"], dir)).toThrow(
+      "--params needs a value",
+    );
+    expect(() => parseRunArgs(["a", "--params", "list.json"], dir)).toThrow(
+      CliUsageError,
+    );
+  });
+});
+
+describe("runWorkflow", () => {
+  it("streams journal events and exits 0 on success", async () => {
+    const cwd = makeProject({ "batch-ok": actionWorkflow("batch-ok", "true") });
+
+    const { code, lines } = await run(cwd, "batch-ok");
+
+    expect(code).toBe(EXIT_CODES.success);
+    expect(lines.map((line) => line.event ?? line.type)).toEqual([
+      "workflow_started",
+      "transitioned",
+      "actions_executed",
+      "finished",
+    ]);
+    expect(lines[2]).toMatchObject({
+      type: "event",
+      event: "actions_executed",
+      state: "DONE",
+    });
+    expect(lines.at(-1)).toMatchObject({
+      type: "finished",
+      state: "DONE",
+      outcome: "success",
+      exit_code: 0,
+    });
+    expect(fs.existsSync(path.join(cwd, ".orchestra", "bus.sock"))).toBe(false);
+  });
+
+  it("exits 2 when the workflow escalates", async () => {
+    const cwd = makeProject({
+      "batch-fail": actionWorkflow("batch-fail", "false"),
+    });
+
+    const { code, lines } = await run(cwd, "batch-fail");
+
+    expect(code).toBe(EXIT_CODES.escalated);
+    expect(lines).toContainEqual(
+      expect.objectContaining({ type: "notify", state: "ESCALATE" }),
+    );
+    expect(lines.at(-1)).toMatchObject({ outcome: "escalated" });
+  });
+
+  it("drives agent states through evidence submitted over the bus", async () => {
+    const cwd = makeProject({
+      "batch-agent": `export default {
+        name: "batch-agent",
+        description: "batch",
+        initialState: "WORK",
+        roles: { worker: { agent: "a", tools: ["read"], fileScope: { writable: [], readable: ["**"] } } },
+        states: {
+          WORK: { assign: "worker", gate: { kind: "verdict", options: ["done"] }, transitions: { done: "DONE" } },
+          DONE: { type: "terminal", result: "failure" }
+        }
+      }`,
+    });
+    const launcher = new AnsweringLauncher(cwd);
+
+    const { code, lines } = await run(cwd, "batch-agent", launcher);
+
+    expect(launcher.launched).toHaveLength(1);
+    expect(code).toBe(EXIT_CODES.failure);
+    expect(lines.map((line) => line.event ?? line.type)).toEqual([
+      "workflow_started",
+      "agent_dispatched",
+      "transitioned",
+      "evidence_accepted",
+      "finished",
+    ]);
+  });
+
+  it("reports a failed engine listener on stderr and exits 1", async () => {
+    const cwd = makeProject({
+      "batch-stuck": `export default {
+        name: "batch-stuck",
+        description: "batch",
+        initialState: "BUILD",
+        roles: { worker: { agent: "a", tools: ["read"], fileScope: { writable: [], readable: ["**"] } } },
+        states: {
+          BUILD: { type: "action", commands: ["true"], transitions: { pass: "WORK", fail: "DONE" } },
+          WORK: { assign: "worker", gate: { kind: "verdict", options: ["done"] }, transitions: { done: "DONE" } },
+          DONE: { type: "terminal", result: "success" }
+        }
+      }`,
+    });
+    const drain = vi
+      .spyOn(WorkflowEngine.prototype, "drainDispatchQueue")
+      .mockRejectedValue(new Error("queue unreadable"));
+
+    try {
+      const { code, lines, errors } = await run(
+        cwd,
+        "batch-stuck",
+        new FakeAgentLauncher(),
+      );
+
+      expect(code).toBe(EXIT_CODES.failure);
+      expect(errors).toContain(
+        "pi-orchestra: state.entered listener failed: queue unreadable",
+      );
+      expect(lines.at(-1)).toMatchObject({
+        type: "finished",
+        state: "WORK",
+        outcome: "failure",
+        exit_code: 1,
+      });
+    } finally {
+      drain.mockRestore();
+    }
+  });
+});
+
+describe("main", () => {
+  it("prints usage and exits 64 on bad arguments", async () => {
+    const stderr: string[] = [];
+    const io = {
+      stdout: () => {},
+      stderr: (line: string) => stderr.push(line),
+    };
+
+    expect(await main(["deploy"], io)).toBe(EXIT_CODES.usage);
+    expect(await main(["run"], io)).toBe(EXIT_CODES.usage);
+    expect(stderr).toContain("pi-orchestra: missing workflow name");
+  });
+});
@@ -12,6 +12,105 @@ describe("project config", () => {
     expect(config.name).toBe("unknown-project");
     expect(config.flavor).toBe("traditional-prd");
     expect(config.team).toEqual([]);
+    expect(config.stateBackend).toBe("json");
+  });
+
+  it("accepts known state backends and falls back to json", () => {
+    const cwd = fs.mkdtempSync(path.join(os.tmpdir(), "orch-project-"));
+    const configPath = path.join(cwd, ".orchestra", "project.json");
+    fs.mkdirSync(path.dirname(configPath), { recursive: true });
+
+    fs.writeFileSync(configPath, JSON.stringify({ stateBackend: "sqlite" }));
+    expect(loadProjectConfig(cwd).stateBackend).toBe("sqlite");
+
+    fs.writeFileSync(configPath, JSON.stringify({ stateBackend: "redis" }));
+    expect(loadProjectConfig(cwd).stateBackend).toBe("json");
+  });
+
+  it("keeps only a positive heartbeat staleness threshold", () => {
+    const cwd = fs.mkdtempSync(path.join(os.tmpdir(), "orch-project-"));
+    const configPath = path.join(cwd, ".orchestra", "project.json");
+    fs.mkdirSync(path.dirname(configPath), { recursive: true });
+
+    fs.writeFileSync(configPath, JSON.stringify({ heartbeatStaleMs: 60_000 }));
+    expect(loadProjectConfig(cwd).heartbeatStaleMs).toBe(60_000);
+
+    fs.writeFileSync(configPath, JSON.stringify({ heartbeatStaleMs: "soon" }));
+    expect(loadProjectConfig(cwd)).not.toHaveProperty("heartbeatStaleMs");
+  });
+
+  it("keeps only a known agent launcher", () => {
+    const cwd = fs.mkdtempSync(path.join(os.tmpdir(), "orch-project-"));
+    const configPath = path.join(cwd, ".orchestra", "project.json");
+    fs.mkdirSync(path.dirname(configPath), { recursive: true });
+
+    fs.writeFileSync(configPath, JSON.stringify({ agentLauncher: "tmux" }));
+    expect(loadProjectConfig(cwd).agentLauncher).toBe("tmux");
+
+    fs.writeFileSync(configPath, JSON.stringify({ agentLauncher: "fake" }));
+    expect(loadProjectConfig(cwd)).not.toHaveProperty("agentLauncher");
+  });
+
+  it("keeps only positive integer concurrency caps", () => {
+    const cwd = fs.mkdtempSync(path.join(os.tmpdir(), "orch-project-"));
+    const configPath = path.join(cwd, ".orchestra", "project.json");
+    fs.mkdirSync(path.dirname(configPath), { recursive: true });
+
+    fs.writeFileSync(
+      configPath,
+      JSON.stringify({
+        maxConcurrentAgents: 4,
+        roleConcurrency: { pipeline_agent: 2, reviewer: 0, qa: "one" },
+        maxConcurrentVerifications: 1,
+        maxConcurrentActions: 2,
+      }),
+    );
+    expect(loadProjectConfig(cwd)).toMatchObject({
+      maxConcurrentAgents: 4,
+      roleConcurrency: { pipeline_agent: 2 },
+      maxConcurrentVerifications: 1,
+      maxConcurrentActions: 2,
+    });
+
+    fs.writeFileSync(
+      configPath,
+      JSON.stringify({
+        maxConcurrentAgents: 1.5,
+        roleConcurrency: { qa: -1 },
+        maxConcurrentVerifications: 0,
+        maxConcurrentActions: "2",
+      }),
+    );
+    const config = loadProjectConfig(cwd);
+    expect(config).not.toHaveProperty("maxConcurrentAgents");
+    expect(config).not.toHaveProperty("roleConcurrency");
+    expect(config).not.toHaveProperty("maxConcurrentVerifications");
+    expect(config).not.toHaveProperty("maxConcurrentActions");
+  });
+
+  it("keeps approval checkpoints and a positive review interval", () => {
+    const cwd = fs.mkdtempSync(path.join(os.tmpdir(), "orch-project-"));
+    const configPath = path.join(cwd, ".orchestra", "project.json");
+    fs.mkdirSync(path.dirname(configPath), { recursive: true });
+
+    fs.writeFileSync(
+      configPath,
+      JSON.stringify({
+        approvalCheckpoints: ["MERGE", "pipeline.CI"],
+        humanReviewEvery: 4,
+      }),
+    );
+    expect(loadProjectConfig(cwd)).toMatchObject({
+      approvalCheckpoints: ["MERGE", "pipeline.CI"],
+      humanReviewEvery: 4,
+    });
+
+    fs.writeFileSync(
+      configPath,
+      JSON.stringify({ approvalCheckpoints: [1], humanReviewEvery: 0 }),
+    );
+    expect(loadProjectConfig(cwd)).not.toHaveProperty("approvalCheckpoints");
+    expect(loadProjectConfig(cwd)).not.toHaveProperty("humanReviewEvery");
   });
 
   it("loads and filters project config from .orchestra/project.json", () => {
@@ -79,5 +178,8 @@ describe("project config", () => {
     expect(config.flavor).toBe("event-modeled");
     expect(config.autonomyLevel).toBe("manual");
     expect(config.team).toEqual([{ role: "architect", persona: ".team/a.md" }]);
+
+    fs.writeFileSync(tsPath, `export default { name: "edited" };`);
+    expect(loadProjectConfig(cwd).name).toBe("edited");
   });
 });
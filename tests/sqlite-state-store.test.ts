@@ -0,0 +1,188 @@
+import fs from "node:fs";
+import { createRequire } from "node:module";
+import os from "node:os";
+import path from "node:path";
+import { describe, expect, it } from "vitest";
+import { SqliteStateStore } from "../src/core/sqlite-state-store";
+import {
+  createStateStore,
+  migrateStateStore,
+} from "../src/core/state-backends";
+import {
+  JsonStateStore,
+  WorkflowStateConflictError,
+} from "../src/core/state-store";
+import {
+  type WorkflowRuntimeState,
+  asWorkflowId,
+  asWorkflowType,
+} from "../src/core/types";
+
+const hasNodeSqlite = (() => {
+  try {
+    createRequire(import.meta.url)("node:sqlite");
+    return true;
+  } catch {
+    return false;
+  }
+})();
+
+const makeState = (
+  id: string,
+  overrides: Partial<WorkflowRuntimeState> = {},
+): WorkflowRuntimeState => ({
+  workflow_id: asWorkflowId(id),
+  workflow_type: asWorkflowType("type-a"),
+  current_state: "ONE",
+  retry_count: 0,
+  paused: false,
+  params: {},
+  history: [{ state: "ONE", entered_at: "2026-01-01T00:00:00Z", retries: 0 }],
+  evidence: {},
+  metrics: {},
+  created_at: "2026-01-01T00:00:00Z",
+  updated_at: "2026-01-01T00:00:00Z",
+  ...overrides,
+});
+
+const makeRoot = () =>
+  path.join(
+    fs.mkdtempSync(path.join(os.tmpdir(), "orchestra-sqlite-")),
+    ".orchestra",
+  );
+
+describe("createStateStore", () => {
+  it("defaults to the JSON directory backend", () => {
+    expect(createStateStore(makeRoot())).toBeInstanceOf(JsonStateStore);
+    expect(createStateStore(makeRoot(), "sqlite")).toBeInstanceOf(
+      SqliteStateStore,
+    );
+  });
+
+  it.skipIf(hasNodeSqlite)("explains when node:sqlite is unavailable", () => {
+    expect(() => new SqliteStateStore(makeRoot()).ensure()).toThrow(
+      "The sqlite state backend needs node:sqlite (Node.js 22.5 or later)",
+    );
+  });
+});
+
+describe.skipIf(!hasNodeSqlite)("SqliteStateStore", () => {
+  it("saves, loads, and queries workflows by indexed fields", () => {
+    const store = new SqliteStateStore(makeRoot());
+    store.ensure();
+    store.saveWorkflowState(
+      makeState("wf-b", { created_at: "2026-01-02T00:00:00Z", paused: true }),
+    );
+    store.saveWorkflowState(
+      makeState("wf-a", {
+        workflow_type: asWorkflowType("type-b"),
+        current_state: "TWO",
+        parent: { workflow_id: asWorkflowId("wf-b"), state: "SUB" },
+      }),
+    );
+
+    expect(store.loadWorkflowState(asWorkflowId("wf-a"))).toMatchObject({
+      current_state: "TWO",
+      revision: 1,
+    });
+    expect(store.loadWorkflowState(asWorkflowId("missing"))).toBeNull();
+    const ids = (query: Parameters<SqliteStateStore["listWorkflows"]>[0]) =>
+      store.listWorkflows(query).map((state) => state.workflow_id);
+    expect(ids({})).toEqual(["wf-a", "wf-b"]);
+    expect(ids({ workflowType: "type-b" })).toEqual(["wf-a"]);
+    expect(ids({ currentState: "ONE" })).toEqual(["wf-b"]);
+    expect(ids({ paused: true })).toEqual(["wf-b"]);
+    expect(ids({ parentId: "wf-b" })).toEqual(["wf-a"]);
+    expect(ids({ createdAfter: "2026-01-02T00:00:00Z" })).toEqual(["wf-b"]);
+    expect(ids({ createdBefore: "2026-01-02T00:00:00Z" })).toEqual(["wf-a"]);
+    store.close();
+  });
+
+  it("rejects stale saves and journals changes", () => {
+    const store = new SqliteStateStore(makeRoot());
+    store.ensure();
+    const state = makeState("wf-stale");
+    store.saveWorkflowState(state, [{ type: "workflow_started" }]);
+
+    const stale = store.loadWorkflowState(state.workflow_id);
+    state.current_state = "TWO";
+    store.saveWorkflowState(state);
+    store.appendWorkflowEvent(state.workflow_id, { type: "agent_dispatched" });
+
+    expect(() =>
+      store.saveWorkflowState(stale as WorkflowRuntimeState),
+    ).toThrow(WorkflowStateConflictError);
+    const events = store.readWorkflowEvents(state.workflow_id);
+    expect(events.map((event) => [event.index, event.type])).toEqual([
+      [0, "workflow_started"],
+      [1, "state_saved"],
+      [2, "agent_dispatched"],
+    ]);
+    expect(events[1]?.changes).toEqual({ current_state: "TWO", revision: 2 });
+    store.close();
+  });
+
+  it("keeps the last heartbeat of each agent without touching the state", () => {
+    const store = new SqliteStateStore(makeRoot());
+    store.ensure();
+    const state = makeState("wf-beat");
+    store.saveWorkflowState(state);
+
+    store.recordHeartbeat(
+      state.workflow_id,
+      "wf-beat-a",
+      "2026-01-01T00:00:01Z",
+    );
+    store.recordHeartbeat(
+      state.workflow_id,
+      "wf-beat-a",
+      "2026-01-01T00:00:02Z",
+    );
+    store.recordHeartbeat(
+      state.workflow_id,
+      "wf-beat-b",
+      "2026-01-01T00:00:03Z",
+    );
+
+    expect(store.readHeartbeats(state.workflow_id)).toEqual({
+      "wf-beat-a": "2026-01-01T00:00:02Z",
+      "wf-beat-b": "2026-01-01T00:00:03Z",
+    });
+    expect(store.readHeartbeats(asWorkflowId("wf-none"))).toEqual({});
+    expect(store.loadWorkflowState(state.workflow_id)?.revision).toBe(1);
+    store.close();
+  });
+
+  it("migrates workflows and journals from the JSON backend", () => {
+    const root = makeRoot();
+    const json = new JsonStateStore(root);
+    json.ensure();
+    const state = makeState("wf-json");
+    json.saveWorkflowState(state, [{ type: "workflow_started" }]);
+    state.paused = true;
+    json.saveWorkflowState(state, [{ type: "paused" }]);
+
+    const sqlite = new SqliteStateStore(root);
+    expect(migrateStateStore(json, sqlite)).toEqual({
+      migrated: ["wf-json"],
+      skipped: [],
+    });
+    expect(migrateStateStore(json, sqlite)).toEqual({
+      migrated: [],
+      skipped: ["wf-json"],
+    });
+    expect(sqlite.loadWorkflowState(state.workflow_id)).toEqual(
+      json.loadWorkflowState(state.workflow_id),
+    );
+    expect(sqlite.readWorkflowEvents(state.workflow_id)).toEqual(
+      json.readWorkflowEvents(state.workflow_id),
+    );
+
+    const back = new JsonStateStore(makeRoot());
+    expect(migrateStateStore(sqlite, back).migrated).toEqual(["wf-json"]);
+    expect(back.readWorkflowEvents(state.workflow_id)).toEqual(
+      sqlite.readWorkflowEvents(state.workflow_id),
+    );
+    sqlite.close();
+  });
+});
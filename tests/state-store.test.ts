@@ -1,14 +1,44 @@
+import { spawnSync } from "node:child_process";
 import fs from "node:fs";
 import os from "node:os";
 import path from "node:path";
 import { describe, expect, it } from "vitest";
-import { StateStore } from "../src/core/state-store";
-import { asWorkflowId, asWorkflowType } from "../src/core/types";
+import {
+  JsonStateStore,
+  WorkflowStateConflictError,
+  WorkflowStateLockedError,
+} from "../src/core/state-store";
+import {
+  type WorkflowRuntimeState,
+  asWorkflowId,
+  asWorkflowType,
+} from "../src/core/types";
+
+const makeState = (id: string): WorkflowRuntimeState => ({
+  workflow_id: asWorkflowId(id),
+  workflow_type: asWorkflowType("type-a"),
+  current_state: "ONE",
+  retry_count: 0,
+  paused: false,
+  params: {},
+  history: [{ state: "ONE", entered_at: "2026-01-01T00:00:00Z", retries: 0 }],
+  evidence: {},
+  metrics: {},
+  created_at: "2026-01-01T00:00:00Z",
+  updated_at: "2026-01-01T00:00:00Z",
+});
+
+const makeStore = () => {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), "orchestra-store-"));
+  const store = new JsonStateStore(path.join(root, ".orchestra"));
+  store.ensure();
+  return store;
+};
 
 describe("StateStore", () => {
   it("returns null and empty lists for missing state", () => {
     const root = fs.mkdtempSync(path.join(os.tmpdir(), "orchestra-store-"));
-    const store = new StateStore(path.join(root, ".orchestra"));
+    const store = new JsonStateStore(path.join(root, ".orchestra"));
 
     expect(store.loadWorkflowState(asWorkflowId("missing"))).toBeNull();
     expect(store.listWorkflows()).toEqual([]);
@@ -16,7 +46,7 @@ describe("StateStore", () => {
 
   it("ignores workflow directories missing state files", () => {
     const root = fs.mkdtempSync(path.join(os.tmpdir(), "orchestra-store-"));
-    const store = new StateStore(path.join(root, ".orchestra"));
+    const store = new JsonStateStore(path.join(root, ".orchestra"));
     store.ensure();
 
     fs.mkdirSync(path.join(root, ".orchestra", "workflows", "dangling"), {
@@ -28,7 +58,7 @@ describe("StateStore", () => {
 
   it("saves, loads, and lists workflow states", () => {
     const root = fs.mkdtempSync(path.join(os.tmpdir(), "orchestra-store-"));
-    const store = new StateStore(path.join(root, ".orchestra"));
+    const store = new JsonStateStore(path.join(root, ".orchestra"));
     store.ensure();
     expect(fs.existsSync(path.join(root, ".orchestra", "workflows"))).toBe(
       true,
@@ -76,4 +106,206 @@ describe("StateStore", () => {
       asWorkflowId("wf-a"),
     ]);
   });
+
+  it("increments the revision and leaves no temp or lock files behind", () => {
+    const store = makeStore();
+    const state = makeState("wf-rev");
+
+    store.saveWorkflowState(state);
+    store.saveWorkflowState(state);
+
+    expect(state.revision).toBe(2);
+    expect(store.loadWorkflowState(state.workflow_id)?.revision).toBe(2);
+    expect(fs.readdirSync(store.workflowDir(state.workflow_id))).toEqual([
+      "events.jsonl",
+      "state.json",
+    ]);
+  });
+
+  it("rejects saves based on a stale revision", () => {
+    const store = makeStore();
+    const state = makeState("wf-stale");
+    store.saveWorkflowState(state);
+
+    const first = store.loadWorkflowState(state.workflow_id);
+    const second = store.loadWorkflowState(state.workflow_id);
+    if (!first || !second) {
+      throw new Error("expected stored state");
+    }
+    first.current_state = "TWO";
+    store.saveWorkflowState(first);
+    second.current_state = "THREE";
+
+    expect(() => store.saveWorkflowState(second)).toThrow(
+      WorkflowStateConflictError,
+    );
+    expect(() => store.saveWorkflowState(second)).toThrow(
+      "Stale save for workflow wf-stale: expected revision 1, found 2",
+    );
+    expect(store.loadWorkflowState(state.workflow_id)?.current_state).toBe(
+      "TWO",
+    );
+  });
+
+  it("accepts legacy state files without a revision", () => {
+    const store = makeStore();
+    const state = makeState("wf-legacy");
+    fs.mkdirSync(store.workflowDir(state.workflow_id), { recursive: true });
+    fs.writeFileSync(store.statePath(state.workflow_id), JSON.stringify(state));
+
+    const loaded = store.loadWorkflowState(state.workflow_id);
+    if (!loaded) {
+      throw new Error("expected stored state");
+    }
+    store.saveWorkflowState(loaded);
+
+    expect(loaded.revision).toBe(1);
+  });
+
+  it("quarantines corrupt state files instead of failing the listing", () => {
+    const store = makeStore();
+    store.saveWorkflowState(makeState("wf-good"));
+    const bad = asWorkflowId("wf-bad");
+    fs.mkdirSync(store.workflowDir(bad), { recursive: true });
+    fs.writeFileSync(store.statePath(bad), '{"workflow_id": "wf-b');
+
+    expect(store.listWorkflows().map((item) => item.workflow_id)).toEqual([
+      asWorkflowId("wf-good"),
+    ]);
+    expect(fs.existsSync(store.statePath(bad))).toBe(false);
+    expect(store.listQuarantined()).toEqual([
+      expect.stringMatching(/wf-bad[\\/]state\.json\.corrupt-\d+$/),
+    ]);
+    expect(store.loadWorkflowState(bad)).toBeNull();
+  });
+
+  it("breaks locks of dead or stale holders and refuses live ones", () => {
+    const store = makeStore();
+    const state = makeState("wf-lock");
+    store.saveWorkflowState(state);
+    const lockPath = path.join(
+      store.workflowDir(state.workflow_id),
+      "state.lock",
+    );
+
+    const dead = spawnSync(process.execPath, ["-e", ""]).pid;
+    fs.writeFileSync(lockPath, String(dead));
+    store.saveWorkflowState(state);
+    expect(state.revision).toBe(2);
+    expect(fs.existsSync(lockPath)).toBe(false);
+
+    fs.writeFileSync(lockPath, String(process.ppid));
+    const old = new Date(Date.now() - 60_000);
+    fs.utimesSync(lockPath, old, old);
+    store.saveWorkflowState(state);
+    expect(state.revision).toBe(3);
+
+    fs.writeFileSync(lockPath, String(process.ppid));
+    expect(() => store.saveWorkflowState(state)).toThrow(
+      WorkflowStateLockedError,
+    );
+    expect(() =>
+      store.appendWorkflowEvent(state.workflow_id, { type: "note" }),
+    ).toThrow(`Workflow wf-lock is being saved by process ${process.ppid}`);
+    expect(state.revision).toBe(3);
+  });
+
+  it("keeps the last heartbeat of each agent without touching the state", () => {
+    const store = makeStore();
+    const state = makeState("wf-beat");
+    store.saveWorkflowState(state);
+
+    store.recordHeartbeat(
+      state.workflow_id,
+      "wf-beat-a",
+      "2026-01-01T00:00:01Z",
+    );
+    store.recordHeartbeat(
+      state.workflow_id,
+      "wf-beat-a",
+      "2026-01-01T00:00:02Z",
+    );
+    store.recordHeartbeat(
+      state.workflow_id,
+      "wf-beat-b",
+      "2026-01-01T00:00:03Z",
+    );
+
+    expect(store.readHeartbeats(state.workflow_id)).toEqual({
+      "wf-beat-a": "2026-01-01T00:00:02Z",
+      "wf-beat-b": "2026-01-01T00:00:03Z",
+    });
+    expect(store.readHeartbeats(asWorkflowId("wf-none"))).toEqual({});
+    expect(store.loadWorkflowState(state.workflow_id)?.revision).toBe(1);
+    expect(store.readWorkflowEvents(state.workflow_id)).toHaveLength(1);
+  });
+
+  it("journals each save with the fields it changed", () => {
+    const store = makeStore();
+    const state = makeState("wf-journal");
+    state.parent = { workflow_id: asWorkflowId("wf-p"), state: "SUB" };
+    store.saveWorkflowState(state, [{ type: "workflow_started" }]);
+    state.current_state = "TWO";
+    Reflect.deleteProperty(state, "parent");
+    store.saveWorkflowState(state, [
+      { type: "transitioned", details: { from: "ONE", to: "TWO" } },
+      { type: "overridden", details: { reason: "manual" } },
+    ]);
+    store.appendWorkflowEvent(state.workflow_id, { type: "agent_dispatched" });
+    store.saveWorkflowState(state);
+
+    const events = store.readWorkflowEvents(state.workflow_id);
+    expect(events.map((event) => [event.index, event.type])).toEqual([
+      [0, "workflow_started"],
+      [1, "transitioned"],
+      [2, "overridden"],
+      [3, "agent_dispatched"],
+      [4, "state_saved"],
+    ]);
+    expect(events[0]?.changes).toMatchObject({
+      workflow_id: "wf-journal",
+      current_state: "ONE",
+      revision: 1,
+    });
+    expect(events[1]?.changes).toBeUndefined();
+    expect(events[2]).toMatchObject({
+      details: { reason: "manual" },
+      changes: { current_state: "TWO", revision: 2 },
+      removed: ["parent"],
+    });
+    expect(events[4]?.changes).toEqual({ revision: 3 });
+  });
+
+  it("skips a torn trailing journal line", () => {
+    const store = makeStore();
+    const state = makeState("wf-torn");
+    store.saveWorkflowState(state);
+    fs.appendFileSync(store.eventsPath(state.workflow_id), '{"index": 1, "ty');
+
+    expect(store.readWorkflowEvents(state.workflow_id)).toHaveLength(1);
+
+    store.saveWorkflowState(state);
+    expect(
+      store.readWorkflowEvents(state.workflow_id).map((event) => event.index),
+    ).toEqual([0, 1]);
+  });
+
+  it("filters listed workflows by query", () => {
+    const store = makeStore();
+    store.saveWorkflowState(makeState("wf-1"));
+    const paused = makeState("wf-2");
+    paused.paused = true;
+    paused.parent = { workflow_id: asWorkflowId("wf-1"), state: "SUB" };
+    store.saveWorkflowState(paused);
+
+    const ids = (query: Parameters<JsonStateStore["listWorkflows"]>[0]) =>
+      store.listWorkflows(query).map((state) => state.workflow_id);
+    expect(ids({ paused: true })).toEqual(["wf-2"]);
+    expect(ids({ parentId: "wf-1" })).toEqual(["wf-2"]);
+    expect(ids({ workflowType: "type-a", currentState: "ONE" })).toEqual([
+      "wf-1",
+      "wf-2",
+    ]);
+    expect(ids({ createdBefore: "2026-01-01T00:00:00Z" })).toEqual([]);
+  });
 });
@@ -0,0 +1,133 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { describe, expect, it } from "vitest";
+import { EscalationInbox } from "../src/core/escalations";
+import {
+  type TerminalActionContext,
+  TerminalActionRegistry,
+  registerBuiltinTerminalActions,
+} from "../src/core/terminal-actions";
+import {
+  type WorkflowRuntimeState,
+  asWorkflowId,
+  asWorkflowType,
+} from "../src/core/types";
+
+const workflow: WorkflowRuntimeState = {
+  workflow_id: asWorkflowId("wf-1"),
+  workflow_type: asWorkflowType("build"),
+  current_state: "ESCALATE",
+  retry_count: 0,
+  paused: false,
+  params: {},
+  history: [],
+  evidence: {},
+  metrics: {},
+  created_at: "2026-01-01T00:00:00Z",
+  updated_at: "2026-01-01T00:00:00Z",
+};
+
+const setup = (hook?: string) => {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), "orch-terminal-"));
+  const inbox = new EscalationInbox(path.join(root, "escalations"));
+  const registry = registerBuiltinTerminalActions(
+    new TerminalActionRegistry(),
+    { inbox, hook: () => hook },
+  );
+  const commands: string[] = [];
+  const context = (code = 0): TerminalActionContext => ({
+    workflow,
+    state: "ESCALATE",
+    terminal: { type: "terminal", result: "failure", action: "notify_human" },
+    reason: "Gate verification failed for CI",
+    exec: async (command) => {
+      commands.push(command);
+      return { code, stdout: "sent", stderr: "" };
+    },
+  });
+  return { inbox, registry, commands, context };
+};
+
+describe("TerminalActionRegistry", () => {
+  it("reports unknown actions and handler errors as failed outcomes", async () => {
+    const { registry, context } = setup();
+    registry.register("explode", () => {
+      throw new Error("boom");
+    });
+
+    expect(await registry.run("nope", context())).toEqual({
+      action: "nope",
+      ok: false,
+      error: "Unknown terminal action: nope",
+    });
+    expect(await registry.run("explode", context())).toMatchObject({
+      ok: false,
+      error: "boom",
+    });
+    expect(registry.names()).toEqual([
+      "explode",
+      "notify",
+      "notify_human",
+      "record_escalation",
+      "route_rework",
+      "run_hook",
+    ]);
+  });
+
+  it("notify_human records an escalation and runs the project hook", async () => {
+    const { inbox, registry, commands, context } = setup("./page-oncall.sh");
+
+    const outcome = await registry.run("notify_human", context());
+
+    expect(outcome.ok).toBe(true);
+    expect(inbox.list("open")).toEqual([
+      expect.objectContaining({
+        workflow_id: "wf-1",
+        workflow_type: "build",
+        state: "ESCALATE",
+        action: "notify_human",
+        reason: "Gate verification failed for CI",
+      }),
+    ]);
+    expect(commands).toEqual([
+      "ORCHESTRA_WORKFLOW_ID='wf-1' ORCHESTRA_WORKFLOW_TYPE='build' ORCHESTRA_STATE='ESCALATE' ORCHESTRA_RESULT='failure' ORCHESTRA_REASON='Gate verification failed for CI' ./page-oncall.sh",
+    ]);
+  });
+
+  it("still records the escalation when the hook fails", async () => {
+    const { inbox, registry, context } = setup("false");
+
+    expect(await registry.run("notify_human", context(1))).toEqual({
+      action: "notify_human",
+      ok: false,
+      error: "Escalation hook exited with 1",
+    });
+    expect(inbox.get("wf-1")?.status).toBe("open");
+  });
+});
+
+describe("EscalationInbox", () => {
+  it("resolves escalations and filters by status", () => {
+    const { inbox } = setup();
+    inbox.record({
+      workflow_id: "wf-1",
+      workflow_type: "build",
+      state: "ESCALATE",
+      action: "notify_human",
+      result: "failure",
+    });
+
+    const resolved = inbox.resolve("wf-1", "flaky CI, rerun");
+
+    expect(resolved).toMatchObject({
+      status: "resolved",
+      note: "flaky CI, rerun",
+    });
+    expect(inbox.list("open")).toEqual([]);
+    expect(inbox.list()).toEqual([resolved]);
+    expect(() => inbox.resolve("wf-2")).toThrow(
+      "No escalation for workflow wf-2",
+    );
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, expect, it } from "vitest";
+import {
+  evaluateVerification,
+  formatVerificationResult,
+  truncateOutput,
+  verificationScript,
+} from "../src/core/verification";
+
+describe("verificationScript", () => {
+  it("exports env vars ahead of the command", () => {
+    expect(
+      verificationScript({
+        command: "npm test",
+        env: { CI: "1", GREETING: "it's" },
+      }),
+    ).toBe("export CI='1'; export GREETING='it'\\''s'; npm test");
+    expect(verificationScript({ command: "npm test" })).toBe("npm test");
+  });
+});
+
+describe("truncateOutput", () => {
+  it("keeps the tail of long output", () => {
+    expect(truncateOutput("abcdef", 4)).toBe("[2 characters truncated]\ncdef");
+    expect(truncateOutput("abc", 4)).toBe("abc");
+  });
+});
+
+describe("evaluateVerification", () => {
+  it("passes on the expected exit code and patterns", () => {
+    expect(
+      evaluateVerification(
+        {
+          command: "npm test",
+          mustMatch: ["^Tests\\s+\\d+ passed"],
+          mustNotMatch: ["skipped"],
+        },
+        { code: 0, stdout: "Tests  3 passed\n", stderr: "" },
+        42,
+      ),
+    ).toEqual({
+      command: "npm test",
+      code: 0,
+      expected_code: 0,
+      stdout: "Tests  3 passed\n",
+      stderr: "",
+      duration_ms: 42,
+      passed: true,
+    });
+  });
+
+  it("lists every unmet expectation", () => {
+    const result = evaluateVerification(
+      {
+        command: "npm test",
+        expectExitCode: 0,
+        mustMatch: ["passed"],
+        mustNotMatch: ["FAIL"],
+      },
+      { code: 1, stdout: "", stderr: "FAIL tests/a.test.ts" },
+      10,
+    );
+
+    expect(result.passed).toBe(false);
+    expect(result.failures).toEqual([
+      "exited 1, expected 0",
+      "output does not match /passed/",
+      "output matches /FAIL/",
+    ]);
+  });
+
+  it("reports a killed run as timed out", () => {
+    const result = evaluateVerification(
+      { command: "sleep 10", timeoutMs: 50 },
+      { code: 0, stdout: "", stderr: "", killed: true },
+      51,
+    );
+
+    expect(result).toMatchObject({
+      timed_out: true,
+      passed: false,
+      failures: ["timed out after 50ms"],
+    });
+  });
+});
+
+describe("formatVerificationResult", () => {
+  it("shows the command, outcome and non-empty output", () => {
+    const text = formatVerificationResult({
+      command: "npm test",
+      code: 1,
+      expected_code: 0,
+      stdout: "",
+      stderr: "AssertionError: expected 2 to be 3\n",
+      duration_ms: 1200,
+      passed: false,
+      failures: ["exited 1, expected 0"],
+    });
+
+    expect(text).toContain("Command: `npm test`");
+    expect(text).toContain("Exit code: 1 (expected 0), 1200ms");
+    expect(text).toContain("- exited 1, expected 0");
+    expect(text).toContain(
+      "stderr:\n```\nAssertionError: expected 2 to be 3\n```",
+    );
+    expect(text).not.toContain("stdout:");
+  });
+});
@@ -2,30 +2,38 @@ import fs from "node:fs";
 import os from "node:os";
 import path from "node:path";
 import type { ExtensionAPI } from "@mariozechner/pi-coding-agent";
-import { describe, expect, it } from "vitest";
-import { StateStore } from "../src/core/state-store";
+import { describe, expect, it, vi } from "vitest";
+import { shellEscape } from "../src/core/command-template";
+import {
+  JsonStateStore,
+  WorkflowStateConflictError,
+} from "../src/core/state-store";
 import type {
   AgentState,
   WorkflowDefinition,
   WorkflowRuntimeState,
+  WorkflowStateHistory,
 } from "../src/core/types";
 import { asWorkflowId, asWorkflowType } from "../src/core/types";
 import {
   type BuildAgentPromptInput,
   type BuildAgentTaskInput,
   WorkflowEngine,
+  WorkflowParamsError,
   applyRoleOverrides,
   buildAgentPrompt,
   buildAgentTask,
   buildScopeExtension,
+  evaluateJoin,
   resolveAgentDefinition,
   resolveInputMap,
   resolvePersonaForDispatch,
   resolvePersonaFromParams,
+  resolveWorkflowParams,
   resolveWorkflowSlot,
-  shellEscape,
 } from "../src/core/workflow-engine";
 import type { ProjectConfig } from "../src/project/config";
+import { FakeAgentLauncher } from "../src/runtime/agent-launcher";
 
 type ExecResult = {
   code: number;
@@ -103,7 +111,7 @@ describe("WorkflowEngine", () => {
     );
 
     const { pi } = createFakePi();
-    const store = new StateStore(path.join(cwd, ".orchestra"));
+    const store = new JsonStateStore(path.join(cwd, ".orchestra"));
     store.ensure();
     const engine = new WorkflowEngine(pi, cwd, store);
     await engine.loadWorkflows();
@@ -166,7 +174,7 @@ describe("WorkflowEngine", () => {
     );
 
     const { pi } = createFakePi();
-    const store = new StateStore(path.join(cwd, ".orchestra"));
+    const store = new JsonStateStore(path.join(cwd, ".orchestra"));
     store.ensure();
     const engine = new WorkflowEngine(pi, cwd, store);
 
@@ -201,7 +209,7 @@ describe("WorkflowEngine", () => {
     );
 
     const { pi } = createFakePi();
-    const store = new StateStore(path.join(cwd, ".orchestra"));
+    const store = new JsonStateStore(path.join(cwd, ".orchestra"));
     store.ensure();
     const engine = new WorkflowEngine(pi, cwd, store);
 
@@ -230,7 +238,7 @@ describe("WorkflowEngine", () => {
     );
 
     const { pi } = createFakePi();
-    const store = new StateStore(path.join(cwd, ".orchestra"));
+    const store = new JsonStateStore(path.join(cwd, ".orchestra"));
     store.ensure();
     const engine = new WorkflowEngine(pi, cwd, store);
 
@@ -257,7 +265,7 @@ describe("WorkflowEngine", () => {
     );
 
     const { pi } = createFakePi();
-    const store = new StateStore(path.join(cwd, ".orchestra"));
+    const store = new JsonStateStore(path.join(cwd, ".orchestra"));
     store.ensure();
     const engine = new WorkflowEngine(pi, cwd, store);
 
@@ -269,7 +277,7 @@ describe("WorkflowEngine", () => {
   it("throws for submitEvidence on unknown workflow", async () => {
     const cwd = fs.mkdtempSync(path.join(os.tmpdir(), "orch-engine-"));
     const { pi } = createFakePi();
-    const store = new StateStore(path.join(cwd, ".orchestra"));
+    const store = new JsonStateStore(path.join(cwd, ".orchestra"));
     store.ensure();
     const engine = new WorkflowEngine(pi, cwd, store);
 
@@ -304,7 +312,7 @@ describe("WorkflowEngine", () => {
     const { pi } = createFakePi({
       "verify-red": { code: 1, stdout: "", stderr: "", killed: false },
     });
-    const store = new StateStore(path.join(cwd, ".orchestra"));
+    const store = new JsonStateStore(path.join(cwd, ".orchestra"));
     store.ensure();
     const engine = new WorkflowEngine(pi, cwd, store);
 
@@ -339,7 +347,7 @@ describe("WorkflowEngine", () => {
     );
 
     const { pi, calls } = createFakePi();
-    const store = new StateStore(path.join(cwd, ".orchestra"));
+    const store = new JsonStateStore(path.join(cwd, ".orchestra"));
     store.ensure();
     const engine = new WorkflowEngine(pi, cwd, store);
 
@@ -355,6 +363,134 @@ describe("WorkflowEngine", () => {
     expect(calls).toHaveLength(0);
   });
 
+  it("reports a conflict when the workflow is saved during verification", async () => {
+    const cwd = fs.mkdtempSync(path.join(os.tmpdir(), "orch-engine-"));
+
+    writeWorkflow(
+      path.join(cwd, "src", "workflows"),
+      "evidence-racing-verify",
+      `export default {
+        name: "evidence-racing-verify",
+        description: "evidence",
+        initialState: "RED",
+        roles: { r: { agent: "a", tools: ["read"], fileScope: { writable: [], readable: ["**"] } } },
+        states: {
+          RED: { assign: "r", gate: { kind: "evidence", schema: { out: "string" }, verify: { command: "verify-red" } }, transitions: { pass: "DONE", fail: "ESC" } },
+          DONE: { type: "terminal", result: "success" },
+          ESC: { type: "terminal", result: "failure" }
+        }
+      }`,
+    );
+
+    let workflowId = "";
+    const pi = {
+      exec: async () => {
+        await engine.pause(workflowId);
+        return { code: 0, stdout: "", stderr: "", killed: false };
+      },
+    } as unknown as ExtensionAPI;
+    const store = new JsonStateStore(path.join(cwd, ".orchestra"));
+    store.ensure();
+    const engine = new WorkflowEngine(pi, cwd, store);
+
+    await engine.loadWorkflows();
+    workflowId = engine.start("evidence-racing-verify", {}).workflow_id;
+    const result = await engine.submitEvidence(workflowId, {
+      state: "RED",
+      result: "pass",
+      evidence: { out: "x" },
+    });
+
+    expect(result).toEqual({
+      workflowId,
+      status: "conflict",
+      reason: expect.stringContaining("expected revision 1, found 2"),
+    });
+    expect(engine.get(workflowId)).toMatchObject({
+      current_state: "RED",
+      paused: true,
+      revision: 2,
+    });
+  });
+
+  it("journals every operation and replays the state at any event", async () => {
+    const cwd = fs.mkdtempSync(path.join(os.tmpdir(), "orch-engine-"));
+
+    writeWorkflow(
+      path.join(cwd, "src", "workflows"),
+      "journaled",
+      `export default {
+        name: "journaled",
+        description: "journal",
+        initialState: "RED",
+        roles: { r: { agent: "a", tools: ["read"], fileScope: { writable: [], readable: ["**"] } } },
+        states: {
+          RED: { assign: "r", gate: { kind: "evidence", schema: { out: "string" } }, transitions: { pass: "DONE", fail: "ESC" } },
+          DONE: { type: "terminal", result: "success" },
+          ESC: { type: "terminal", result: "failure" }
+        }
+      }`,
+    );
+
+    const { pi } = createFakePi();
+    const store = new JsonStateStore(path.join(cwd, ".orchestra"));
+    store.ensure();
+    const engine = new WorkflowEngine(pi, cwd, store);
+    await engine.loadWorkflows();
+
+    const started = engine.start("journaled", {});
+    const workflowId = started.workflow_id as unknown as string;
+    const initial = structuredClone(started);
+    await engine.dispatchCurrentState(workflowId);
+    await engine.submitEvidence(workflowId, {
+      state: "DONE",
+      result: "pass",
+      evidence: {},
+    });
+    await engine.submitEvidence(workflowId, {
+      state: "RED",
+      result: "pass",
+      evidence: { out: 1 },
+    });
+    await engine.pause(workflowId);
+    await engine.resume(workflowId);
+    await engine.override(workflowId, "DONE", "manual");
+
+    const { events, state } = engine.replay(workflowId);
+    expect(events.map((event) => event.type)).toEqual([
+      "workflow_started",
+      "agent_dispatched",
+      "evidence_rejected",
+      "evidence_rejected",
+      "paused",
+      "resumed",
+      "transitioned",
+      "overridden",
+    ]);
+    expect(events[2]?.details).toMatchObject({
+      submitted_state: "DONE",
+      reason: "Evidence state mismatch. Expected RED",
+    });
+    expect(events[3]?.details).toMatchObject({
+      evidence: { out: 1 },
+      errors: ["type mismatch for out: expected string, got number"],
+    });
+    expect(events[6]?.details).toEqual({
+      from: "RED",
+      to: "DONE",
+      result: "override:manual",
+    });
+    expect(state).toEqual(engine.get(workflowId));
+    expect(engine.replay(workflowId, 0).state).toEqual(initial);
+    expect(engine.replay(workflowId, 1).state?.metrics).toHaveProperty(
+      "heartbeats",
+    );
+    expect(engine.replay(workflowId, 4).state).toMatchObject({
+      current_state: "RED",
+      paused: true,
+    });
+  });
+
   it("rejects invalid evidence state and advances on valid verdict", async () => {
     const cwd = fs.mkdtempSync(path.join(os.tmpdir(), "orch-engine-"));
 
@@ -375,7 +511,7 @@ describe("WorkflowEngine", () => {
     );
 
     const { pi } = createFakePi();
-    const store = new StateStore(path.join(cwd, ".orchestra"));
+    const store = new JsonStateStore(path.join(cwd, ".orchestra"));
     store.ensure();
     const engine = new WorkflowEngine(pi, cwd, store);
 
@@ -443,7 +579,7 @@ describe("WorkflowEngine", () => {
     const { pi } = createFakePi({
       "verify-red": { code: 1, stdout: "", stderr: "boom", killed: false },
     });
-    const store = new StateStore(path.join(cwd, ".orchestra"));
+    const store = new JsonStateStore(path.join(cwd, ".orchestra"));
     store.ensure();
     const engine = new WorkflowEngine(pi, cwd, store);
 
@@ -480,7 +616,7 @@ describe("WorkflowEngine", () => {
     const { pi } = createFakePi({
       "verify-red": { code: 1, stdout: "", stderr: "boom", killed: false },
     });
-    const store = new StateStore(path.join(cwd, ".orchestra"));
+    const store = new JsonStateStore(path.join(cwd, ".orchestra"));
     store.ensure();
     const engine = new WorkflowEngine(pi, cwd, store);
 
@@ -533,14 +669,14 @@ describe("WorkflowEngine", () => {
     const { pi } = createFakePi({
       "verify-red": { code: 1, stdout: "", stderr: "boom", killed: false },
     });
-    const store = new StateStore(path.join(cwd, ".orchestra"));
+    const store = new JsonStateStore(path.join(cwd, ".orchestra"));
     store.ensure();
     const engine = new WorkflowEngine(pi, cwd, store);
 
     await engine.loadWorkflows();
     const state = engine.start("evidence-workflow", {});
 
-    engine.pause(state.workflow_id);
+    await engine.pause(state.workflow_id);
     const paused = await engine.submitEvidence(state.workflow_id, {
       state: "RED",
       result: "pass",
@@ -548,7 +684,7 @@ describe("WorkflowEngine", () => {
     });
     expect(paused.status).toBe("paused");
 
-    engine.resume(state.workflow_id);
+    await engine.resume(state.workflow_id);
     const failed = await engine.submitEvidence(state.workflow_id, {
       state: "RED",
       result: "pass",
@@ -570,12 +706,49 @@ describe("WorkflowEngine", () => {
     expect(beat.agentId).toBe("agent-x");
     expect(beat.at.length).toBeGreaterThan(0);
 
-    engine.override(state.workflow_id, "DONE", "manual recovery");
+    await engine.override(state.workflow_id, "DONE", "manual recovery");
     const overridden = engine.get(state.workflow_id);
     expect(overridden?.current_state).toBe("DONE");
     expect(overridden?.history.at(-2)?.result).toContain("override:");
   });
 
+  it("waits out a writer holding the lock before a human command", async () => {
+    const cwd = fs.mkdtempSync(path.join(os.tmpdir(), "orch-engine-"));
+    writeWorkflow(
+      path.join(cwd, "src", "workflows"),
+      "locked-workflow",
+      `export default {
+        name: "locked-workflow",
+        description: "locked",
+        initialState: "WORK",
+        roles: { r: { agent: "a", tools: ["read"], fileScope: { writable: [], readable: ["**"] } } },
+        states: {
+          WORK: { assign: "r", gate: { kind: "verdict", options: ["done"] }, transitions: { done: "DONE" } },
+          DONE: { type: "terminal", result: "success" }
+        }
+      }`,
+    );
+    const { pi } = createFakePi();
+    const store = new JsonStateStore(path.join(cwd, ".orchestra"));
+    store.ensure();
+    const engine = new WorkflowEngine(pi, cwd, store);
+    await engine.loadWorkflows();
+    const state = engine.start("locked-workflow", {});
+
+    // A live process holds the lock for a moment
+    const lockPath = path.join(
+      store.workflowDir(state.workflow_id),
+      "state.lock",
+    );
+    fs.writeFileSync(lockPath, String(process.ppid));
+    setTimeout(() => fs.rmSync(lockPath, { force: true }), 20);
+
+    await expect(engine.pause(state.workflow_id)).resolves.toMatchObject({
+      paused: true,
+    });
+    expect(engine.get(state.workflow_id)?.paused).toBe(true);
+  });
+
   it("dispatches terminal states without spawning", async () => {
     const cwd = fs.mkdtempSync(path.join(os.tmpdir(), "orch-engine-"));
 
@@ -594,7 +767,7 @@ describe("WorkflowEngine", () => {
     );
 
     const { pi, commands } = createFakePi();
-    const store = new StateStore(path.join(cwd, ".orchestra"));
+    const store = new JsonStateStore(path.join(cwd, ".orchestra"));
     store.ensure();
     const engine = new WorkflowEngine(pi, cwd, store);
 
@@ -627,7 +800,7 @@ describe("WorkflowEngine", () => {
     );
 
     const { pi, commands, calls } = createFakePi();
-    const store = new StateStore(path.join(cwd, ".orchestra"));
+    const store = new JsonStateStore(path.join(cwd, ".orchestra"));
     store.ensure();
     const engine = new WorkflowEngine(pi, cwd, store);
 
@@ -703,7 +876,7 @@ describe("WorkflowEngine", () => {
     expect(commands).toContain("echo two");
   });
 
-  it("records spawn failure details and fails dispatch when zellij spawn fails", async () => {
+  it("records spawn failure details and fails the attempt when zellij spawn fails", async () => {
     const cwd = fs.mkdtempSync(path.join(os.tmpdir(), "orch-engine-"));
 
     writeWorkflow(
@@ -715,8 +888,9 @@ describe("WorkflowEngine", () => {
         initialState: "WORK",
         roles: { worker: { agent: "a", tools: ["read"], fileScope: { writable: ["src/**"], readable: ["**"] } } },
         states: {
-          WORK: { assign: "worker", gate: { kind: "verdict", options: ["done"] }, transitions: { done: "DONE" } },
-          DONE: { type: "terminal", result: "success" }
+          WORK: { assign: "worker", gate: { kind: "verdict", options: ["done"] }, transitions: { done: "DONE", fail: "ESCALATE" }, maxRetries: 2 },
+          DONE: { type: "terminal", result: "success" },
+          ESCALATE: { type: "terminal", result: "failure" }
         }
       }`,
     );
@@ -736,17 +910,20 @@ describe("WorkflowEngine", () => {
       },
     } as unknown as ExtensionAPI;
 
-    const store = new StateStore(path.join(cwd, ".orchestra"));
+    const store = new JsonStateStore(path.join(cwd, ".orchestra"));
     store.ensure();
     const engine = new WorkflowEngine(pi, cwd, store);
 
     await engine.loadWorkflows();
     const state = engine.start("spawn-fail-workflow", {});
 
+    // Without a spawn budget a failed spawn uses up one of maxRetries
     await expect(
       engine.dispatchCurrentState(state.workflow_id),
-    ).rejects.toThrow("stderr=zellij unavailable");
-
+    ).resolves.toMatchObject({
+      dispatched: false,
+      details: expect.stringContaining("stderr=zellij unavailable"),
+    });
     const loaded = engine.get(state.workflow_id);
     expect(loaded?.metrics.agent_spawn_failure).toMatchObject({
       state: "WORK",
@@ -754,6 +931,16 @@ describe("WorkflowEngine", () => {
       code: 1,
       stderr: "zellij unavailable",
     });
+    expect(loaded).toMatchObject({ current_state: "WORK", retry_count: 1 });
+
+    await engine.dispatchCurrentState(state.workflow_id);
+    const escalated = engine.get(state.workflow_id);
+    expect(escalated?.current_state).toBe("ESCALATE");
+    expect(escalated?.history.at(-2)).toMatchObject({
+      state: "WORK",
+      result: "spawn_failed",
+      last_failure: expect.stringContaining("stderr=zellij unavailable"),
+    });
   });
 
   it("uses fallback stderr marker when spawn failure stderr is empty", async () => {
@@ -769,7 +956,8 @@ describe("WorkflowEngine", () => {
         roles: { worker: { agent: "a", tools: ["read"], fileScope: { writable: ["src/**"], readable: ["**"] } } },
         states: {
           WORK: { assign: "worker", gate: { kind: "verdict", options: ["done"] }, transitions: { done: "DONE" } },
-          DONE: { type: "terminal", result: "success" }
+          DONE: { type: "terminal", result: "success" },
+          ESCALATE: { type: "terminal", result: "failure" }
         }
       }`,
     );
@@ -789,7 +977,7 @@ describe("WorkflowEngine", () => {
       },
     } as unknown as ExtensionAPI;
 
-    const store = new StateStore(path.join(cwd, ".orchestra"));
+    const store = new JsonStateStore(path.join(cwd, ".orchestra"));
     store.ensure();
     const engine = new WorkflowEngine(pi, cwd, store);
 
@@ -798,7 +986,10 @@ describe("WorkflowEngine", () => {
 
     await expect(
       engine.dispatchCurrentState(state.workflow_id),
-    ).rejects.toThrow("stderr=(none)");
+    ).resolves.toMatchObject({
+      details: expect.stringContaining("stderr=(none)"),
+    });
+    expect(engine.get(state.workflow_id)?.current_state).toBe("ESCALATE");
   });
 
   it("supports command gate with non-zero expected exit code", async () => {
@@ -824,7 +1015,7 @@ describe("WorkflowEngine", () => {
       "verify-command": { code: 1, stdout: "ok", stderr: "", killed: false },
     });
 
-    const store = new StateStore(path.join(cwd, ".orchestra"));
+    const store = new JsonStateStore(path.join(cwd, ".orchestra"));
     store.ensure();
     const engine = new WorkflowEngine(pi, cwd, store);
 
@@ -863,7 +1054,7 @@ describe("WorkflowEngine", () => {
       "verify-command": { code: 0, stdout: "ok", stderr: "", killed: false },
     });
 
-    const store = new StateStore(path.join(cwd, ".orchestra"));
+    const store = new JsonStateStore(path.join(cwd, ".orchestra"));
     store.ensure();
     const engine = new WorkflowEngine(pi, cwd, store);
 
@@ -883,13 +1074,13 @@ describe("WorkflowEngine", () => {
     await expect(engine.dispatchCurrentState("missing-id")).rejects.toThrow(
       "Unknown workflow instance",
     );
-    expect(() => engine.pause("missing-id")).toThrow(
+    await expect(engine.pause("missing-id")).rejects.toThrow(
       "Unknown workflow instance",
     );
-    expect(() => engine.resume("missing-id")).toThrow(
+    await expect(engine.resume("missing-id")).rejects.toThrow(
       "Unknown workflow instance",
     );
-    expect(() => engine.override("missing-id", "DONE", "x")).toThrow(
+    await expect(engine.override("missing-id", "DONE", "x")).rejects.toThrow(
       "Unknown workflow instance",
     );
   });
@@ -910,7 +1101,7 @@ describe("WorkflowEngine", () => {
     );
 
     const { pi } = createFakePi();
-    const store = new StateStore(path.join(cwd, ".orchestra"));
+    const store = new JsonStateStore(path.join(cwd, ".orchestra"));
     store.ensure();
     const engine = new WorkflowEngine(pi, cwd, store);
 
@@ -944,7 +1135,7 @@ describe("WorkflowEngine", () => {
     );
 
     const { pi } = createFakePi();
-    const store = new StateStore(path.join(cwd, ".orchestra"));
+    const store = new JsonStateStore(path.join(cwd, ".orchestra"));
     store.ensure();
     const engine = new WorkflowEngine(pi, cwd, store);
 
@@ -998,7 +1189,7 @@ describe("WorkflowEngine", () => {
     );
 
     const { pi } = createFakePi();
-    const store = new StateStore(path.join(cwd, ".orchestra"));
+    const store = new JsonStateStore(path.join(cwd, ".orchestra"));
     store.ensure();
     const engine = new WorkflowEngine(pi, cwd, store);
 
@@ -1016,12 +1207,12 @@ describe("WorkflowEngine", () => {
       }),
     ).rejects.toThrow("Workflow history missing");
 
-    expect(() => engine.override(state.workflow_id, "DONE", "manual")).toThrow(
-      "Workflow history missing",
-    );
+    await expect(
+      engine.override(state.workflow_id, "DONE", "manual"),
+    ).rejects.toThrow("Workflow history missing");
   });
 
-  it("throws when assigned role is not defined", async () => {
+  it("refuses to load a workflow whose assigned role is not defined", async () => {
     const cwd = fs.mkdtempSync(path.join(os.tmpdir(), "orch-engine-"));
 
     writeWorkflow(
@@ -1040,19 +1231,27 @@ describe("WorkflowEngine", () => {
     );
 
     const { pi } = createFakePi();
-    const store = new StateStore(path.join(cwd, ".orchestra"));
+    const store = new JsonStateStore(path.join(cwd, ".orchestra"));
     store.ensure();
     const engine = new WorkflowEngine(pi, cwd, store);
 
     await engine.loadWorkflows();
-    const state = engine.start("missing-role-workflow", {});
 
-    await expect(
-      engine.dispatchCurrentState(state.workflow_id),
-    ).rejects.toThrow("Role ghost not defined");
+    expect(engine.getDefinition("missing-role-workflow")).toBeUndefined();
+    expect(() => engine.start("missing-role-workflow", {})).toThrow(
+      "Unknown workflow",
+    );
+    expect(engine.validationIssues()).toContainEqual(
+      expect.objectContaining({
+        workflow: "missing-role-workflow",
+        state: "STEP",
+        severity: "error",
+        code: "undefined-role",
+      }),
+    );
   });
 
-  it("throws when no transition exists for submitted result", async () => {
+  it("refuses to load a workflow whose verdict options have no transition", async () => {
     const cwd = fs.mkdtempSync(path.join(os.tmpdir(), "orch-engine-"));
 
     writeWorkflow(
@@ -1071,20 +1270,19 @@ describe("WorkflowEngine", () => {
     );
 
     const { pi } = createFakePi();
-    const store = new StateStore(path.join(cwd, ".orchestra"));
+    const store = new JsonStateStore(path.join(cwd, ".orchestra"));
     store.ensure();
     const engine = new WorkflowEngine(pi, cwd, store);
 
     await engine.loadWorkflows();
-    const state = engine.start("transition-workflow", {});
 
-    await expect(
-      engine.submitEvidence(state.workflow_id, {
-        state: "STEP",
-        result: "ok",
-        evidence: {},
+    expect(engine.getDefinition("transition-workflow")).toBeUndefined();
+    expect(engine.validationIssues()).toContainEqual(
+      expect.objectContaining({
+        workflow: "transition-workflow",
+        code: "unmatched-verdict-option",
       }),
-    ).rejects.toThrow("No transition for state STEP");
+    );
   });
 
   it("throws when verification fails and workflow history is missing", async () => {
@@ -1109,7 +1307,7 @@ describe("WorkflowEngine", () => {
     const { pi } = createFakePi({
       verify: { code: 1, stdout: "", stderr: "boom", killed: false },
     });
-    const store = new StateStore(path.join(cwd, ".orchestra"));
+    const store = new JsonStateStore(path.join(cwd, ".orchestra"));
     store.ensure();
     const engine = new WorkflowEngine(pi, cwd, store);
 
@@ -1148,7 +1346,7 @@ describe("WorkflowEngine", () => {
     );
 
     const { pi } = createFakePi({}, false);
-    const store = new StateStore(path.join(cwd, ".orchestra"));
+    const store = new JsonStateStore(path.join(cwd, ".orchestra"));
     store.ensure();
     const engine = new WorkflowEngine(pi, cwd, store);
 
@@ -1198,7 +1396,7 @@ describe("WorkflowEngine.setProjectConfig", () => {
       }`,
     );
     const { pi } = createFakePi();
-    const store = new StateStore(path.join(cwd, ".orchestra"));
+    const store = new JsonStateStore(path.join(cwd, ".orchestra"));
     store.ensure();
     const engine = new WorkflowEngine(pi, cwd, store);
     await engine.loadWorkflows();
@@ -2537,7 +2735,7 @@ describe("subworkflow composition", () => {
     );
 
     const { pi } = createFakePi();
-    const store = new StateStore(path.join(cwd, ".orchestra"));
+    const store = new JsonStateStore(path.join(cwd, ".orchestra"));
     store.ensure();
     const engine = new WorkflowEngine(pi, cwd, store);
     await engine.loadWorkflows();
@@ -2584,6 +2782,37 @@ describe("subworkflow composition", () => {
     expect(child.params.data).toBe("hello");
   });
 
+  it("leaves inputs from skipped states out of the child's params", async () => {
+    const cwd = fs.mkdtempSync(path.join(os.tmpdir(), "orch-sub-"));
+    const dir = path.join(cwd, "src", "workflows");
+    writeWorkflow(dir, "child-wf", childWorkflowTs);
+    writeWorkflow(
+      dir,
+      "parent-wf",
+      parentWorkflowTs.replace(
+        'inputMap: { data: "evidence.SETUP.input" }',
+        'inputMap: { data: "evidence.SETUP.input", model: "evidence.MODELING.child_evidence" }',
+      ),
+    );
+    const { pi } = createFakePi();
+    const store = new JsonStateStore(path.join(cwd, ".orchestra"));
+    store.ensure();
+    const engine = new WorkflowEngine(pi, cwd, store);
+    await engine.loadWorkflows();
+
+    const parent = engine.start("parent-wf", {});
+    await engine.submitEvidence(parent.workflow_id, {
+      state: "SETUP",
+      result: "pass",
+      evidence: { input: "hello" },
+    });
+    await engine.dispatchCurrentState(parent.workflow_id);
+
+    const childId = engine.get(parent.workflow_id)?.children
+      ?.DELEGATE as unknown as string;
+    expect(engine.get(childId)?.params).toEqual({ data: "hello" });
+  });
+
   it("propagates child completion back to parent", async () => {
     const cwd = fs.mkdtempSync(path.join(os.tmpdir(), "orch-sub-"));
     writeWorkflow(
@@ -2598,7 +2827,7 @@ describe("subworkflow composition", () => {
     );
 
     const { pi } = createFakePi();
-    const store = new StateStore(path.join(cwd, ".orchestra"));
+    const store = new JsonStateStore(path.join(cwd, ".orchestra"));
     store.ensure();
     const engine = new WorkflowEngine(pi, cwd, store);
     await engine.loadWorkflows();
@@ -2646,6 +2875,50 @@ describe("subworkflow composition", () => {
     ).toBeDefined();
   });
 
+  it("retries reporting a child to a parent another process is saving", async () => {
+    const cwd = fs.mkdtempSync(path.join(os.tmpdir(), "orch-sub-"));
+    const dir = path.join(cwd, "src", "workflows");
+    writeWorkflow(dir, "child-wf", childWorkflowTs);
+    writeWorkflow(dir, "parent-wf", parentWorkflowTs);
+    const { pi } = createFakePi();
+    const store = new JsonStateStore(path.join(cwd, ".orchestra"));
+    store.ensure();
+    const engine = new WorkflowEngine(pi, cwd, store);
+    await engine.loadWorkflows();
+
+    const parent = engine.start("parent-wf", {});
+    const parentId = parent.workflow_id as unknown as string;
+    await engine.submitEvidence(parentId, {
+      state: "SETUP",
+      result: "pass",
+      evidence: { input: "hello" },
+    });
+    await engine.dispatchCurrentState(parentId);
+    const childId = engine.get(parentId)?.children
+      ?.DELEGATE as unknown as string;
+    await engine.submitEvidence(childId, {
+      state: "WORK",
+      result: "done",
+      evidence: { output: "finished" },
+    });
+
+    // A live process holds the parent's lock for a moment
+    const lockPath = path.join(
+      store.workflowDir(parent.workflow_id),
+      "state.lock",
+    );
+    fs.writeFileSync(lockPath, String(process.ppid));
+    setTimeout(() => fs.rmSync(lockPath, { force: true }), 20);
+    await engine.dispatchCurrentState(childId);
+
+    expect(engine.get(parentId)?.current_state).toBe("DONE");
+    expect(
+      engine
+        .replay(parentId)
+        .events.filter((event) => event.type === "child_completed"),
+    ).toHaveLength(1);
+  });
+
   it("resolves $slot references from params.slots", async () => {
     const cwd = fs.mkdtempSync(path.join(os.tmpdir(), "orch-sub-"));
     writeWorkflow(
@@ -2660,7 +2933,7 @@ describe("subworkflow composition", () => {
     );
 
     const { pi } = createFakePi();
-    const store = new StateStore(path.join(cwd, ".orchestra"));
+    const store = new JsonStateStore(path.join(cwd, ".orchestra"));
     store.ensure();
     const engine = new WorkflowEngine(pi, cwd, store);
     await engine.loadWorkflows();
@@ -2688,7 +2961,7 @@ describe("subworkflow composition", () => {
     );
 
     const { pi } = createFakePi();
-    const store = new StateStore(path.join(cwd, ".orchestra"));
+    const store = new JsonStateStore(path.join(cwd, ".orchestra"));
     store.ensure();
     const engine = new WorkflowEngine(pi, cwd, store);
     await engine.loadWorkflows();
@@ -2708,7 +2981,7 @@ describe("subworkflow composition", () => {
     );
 
     const { pi } = createFakePi();
-    const store = new StateStore(path.join(cwd, ".orchestra"));
+    const store = new JsonStateStore(path.join(cwd, ".orchestra"));
     store.ensure();
     const engine = new WorkflowEngine(pi, cwd, store);
     await engine.loadWorkflows();
@@ -2758,7 +3031,7 @@ describe("subworkflow composition", () => {
     );
 
     const { pi } = createFakePi();
-    const store = new StateStore(path.join(cwd, ".orchestra"));
+    const store = new JsonStateStore(path.join(cwd, ".orchestra"));
     store.ensure();
     const engine = new WorkflowEngine(pi, cwd, store);
     await engine.loadWorkflows();
@@ -2803,7 +3076,7 @@ describe("subworkflow composition", () => {
     );
 
     const { pi } = createFakePi();
-    const store = new StateStore(path.join(cwd, ".orchestra"));
+    const store = new JsonStateStore(path.join(cwd, ".orchestra"));
     store.ensure();
     const engine = new WorkflowEngine(pi, cwd, store);
     await engine.loadWorkflows();
@@ -3158,7 +3431,7 @@ describe("project config role overrides with engine dispatch", () => {
     );
 
     const { pi } = createFakePi();
-    const store = new StateStore(path.join(cwd, ".orchestra"));
+    const store = new JsonStateStore(path.join(cwd, ".orchestra"));
     store.ensure();
     const engine = new WorkflowEngine(pi, cwd, store, {
       name: "test-project",
@@ -3307,7 +3580,7 @@ describe("personaFrom end-to-end via subworkflow", () => {
     );
 
     const { pi } = createFakePi();
-    const store = new StateStore(path.join(cwd, ".orchestra"));
+    const store = new JsonStateStore(path.join(cwd, ".orchestra"));
     store.ensure();
     const engine = new WorkflowEngine(pi, cwd, store);
     await engine.loadWorkflows();
@@ -3344,3 +3617,2361 @@ describe("personaFrom end-to-end via subworkflow", () => {
     expect(prompt).toContain("expresses the intent");
   });
 });
+
+describe("resolveWorkflowParams", () => {
+  const definition: WorkflowDefinition = {
+    name: "params-wf",
+    description: "params",
+    params: {
+      scenario: { type: "string", required: true },
+      retries: { type: "number", default: 2 },
+      slots: { type: "object", default: { build: "tdd-ping-pong" } },
+    },
+    roles: {},
+    states: { DONE: { type: "terminal", result: "success" } },
+  };
+
+  it("applies cloned defaults and passes undeclared params through", () => {
+    const resolved = resolveWorkflowParams(definition, {
+      scenario: "login",
+      extra: true,
+    });
+
+    expect(resolved.errors).toEqual([]);
+    expect(resolved.params).toEqual({
+      scenario: "login",
+      extra: true,
+      retries: 2,
+      slots: { build: "tdd-ping-pong" },
+    });
+    expect(resolved.params.slots).not.toBe(definition.params?.slots?.default);
+  });
+
+  it("reports missing required params and type mismatches", () => {
+    const resolved = resolveWorkflowParams(definition, {
+      retries: "three",
+      slots: [],
+    });
+
+    expect(resolved.errors).toEqual([
+      "missing required param: scenario",
+      "type mismatch for param retries: expected number, got string",
+      "type mismatch for param slots: expected object, got array",
+    ]);
+  });
+});
+
+describe("WorkflowEngine param enforcement", () => {
+  const childWorkflowTs = `export default {
+    name: "strict-child",
+    description: "child with required params",
+    initialState: "WORK",
+    params: {
+      scenario: { type: "string", required: true },
+      test_runner: { type: "string", default: "npm test" }
+    },
+    roles: { w: { agent: "a", tools: ["read"], fileScope: { writable: [], readable: ["**"] } } },
+    states: {
+      WORK: { assign: "w", gate: { kind: "verdict", options: ["done"] }, transitions: { done: "DONE" } },
+      DONE: { type: "terminal", result: "success" },
+      ESCALATE: { type: "terminal", result: "failure" }
+    }
+  }`;
+
+  const parentWorkflowTs = `export default {
+    name: "strict-parent",
+    description: "parent mapping a missing param",
+    initialState: "DELEGATE",
+    roles: {},
+    states: {
+      DELEGATE: { type: "subworkflow", workflow: "strict-child", inputMap: { scenario: "params.missing" }, transitions: { success: "DONE", failure: "ESCALATE" } },
+      DONE: { type: "terminal", result: "success" },
+      ESCALATE: { type: "terminal", result: "failure" }
+    }
+  }`;
+
+  const setup = async () => {
+    const cwd = fs.mkdtempSync(path.join(os.tmpdir(), "orch-params-"));
+    writeWorkflow(
+      path.join(cwd, "src", "workflows"),
+      "strict-child",
+      childWorkflowTs,
+    );
+    writeWorkflow(
+      path.join(cwd, "src", "workflows"),
+      "strict-parent",
+      parentWorkflowTs,
+    );
+    const { pi } = createFakePi();
+    const store = new JsonStateStore(path.join(cwd, ".orchestra"));
+    store.ensure();
+    const engine = new WorkflowEngine(pi, cwd, store);
+    await engine.loadWorkflows();
+    return { engine };
+  };
+
+  it("stores defaults in runtime params at start", async () => {
+    const { engine } = await setup();
+    const state = engine.start("strict-child", { scenario: "login" });
+
+    expect(state.params).toEqual({
+      scenario: "login",
+      test_runner: "npm test",
+    });
+    expect(engine.get(state.workflow_id)?.params.test_runner).toBe("npm test");
+  });
+
+  it("rejects invalid params with a structured error and persists nothing", async () => {
+    const { engine } = await setup();
+
+    let caught: unknown;
+    try {
+      engine.start("strict-child", { test_runner: 42 });
+    } catch (error) {
+      caught = error;
+    }
+
+    expect(caught).toBeInstanceOf(WorkflowParamsError);
+    expect((caught as WorkflowParamsError).workflow).toBe("strict-child");
+    expect((caught as WorkflowParamsError).errors).toEqual([
+      "missing required param: scenario",
+      "type mismatch for param test_runner: expected string, got number",
+    ]);
+    expect(engine.list()).toEqual([]);
+  });
+
+  it("fails the parent state when an inputMap yields invalid child params", async () => {
+    const { engine } = await setup();
+    const parent = engine.start("strict-parent", {});
+
+    const dispatch = await engine.dispatchCurrentState(parent.workflow_id);
+    expect(dispatch.dispatched).toBe(false);
+    expect(dispatch.details).toContain(
+      "Invalid params for workflow strict-child",
+    );
+
+    // The failed attempt used up DELEGATE's only try
+    const after = engine.get(parent.workflow_id) as WorkflowRuntimeState;
+    expect(after.current_state).toBe("ESCALATE");
+    expect(after.children).toBeUndefined();
+    expect(after.history.at(-2)).toMatchObject({
+      state: "DELEGATE",
+      last_failure: expect.stringContaining("missing required param: scenario"),
+    });
+    expect(after.metrics.subworkflow_param_failure).toMatchObject({
+      state: "DELEGATE",
+      workflow: "strict-child",
+      errors: ["missing required param: scenario"],
+    });
+    expect(engine.list()).toHaveLength(1);
+  });
+});
+
+describe("WorkflowEngine cancellation", () => {
+  const role = `{ agent: "a", tools: ["read"], fileScope: { writable: [], readable: ["**"] } }`;
+  const delegating = (name: string, child: string) => `export default {
+    name: "${name}",
+    description: "${name}",
+    initialState: "DELEGATE",
+    roles: { r: ${role} },
+    states: {
+      DELEGATE: { type: "subworkflow", workflow: "${child}", transitions: { success: "DONE", failure: "ESCALATE" } },
+      DONE: { type: "terminal", result: "success" },
+      ESCALATE: { type: "terminal", result: "failure" }
+    }
+  }`;
+  const leaf = `export default {
+    name: "leaf",
+    description: "leaf",
+    initialState: "WORK",
+    roles: { worker: ${role} },
+    states: {
+      WORK: { assign: "worker", gate: { kind: "verdict", options: ["done"] }, transitions: { done: "DONE", fail: "DONE" } },
+      DONE: { type: "terminal", result: "success" }
+    }
+  }`;
+
+  const setup = async () => {
+    const cwd = fs.mkdtempSync(path.join(os.tmpdir(), "orch-cancel-"));
+    const dir = path.join(cwd, "src", "workflows");
+    writeWorkflow(dir, "top", delegating("top", "mid"));
+    writeWorkflow(dir, "mid", delegating("mid", "leaf"));
+    writeWorkflow(dir, "leaf", leaf);
+    const { pi } = createFakePi();
+    const store = new JsonStateStore(path.join(cwd, ".orchestra"));
+    store.ensure();
+    const engine = new WorkflowEngine(pi, cwd, store);
+    await engine.loadWorkflows();
+    return engine;
+  };
+
+  it("cancels a workflow and cascades to every descendant", async () => {
+    const engine = await setup();
+    const top = engine.start("top", {});
+    const topId = top.workflow_id as unknown as string;
+    await engine.dispatchCurrentState(topId);
+
+    const midId = engine.get(topId)?.children?.DELEGATE as unknown as string;
+    const leafId = engine.get(midId)?.children?.DELEGATE as unknown as string;
+    expect(engine.get(leafId)?.current_state).toBe("WORK");
+
+    const result = await engine.cancel(topId, "scope changed");
+
+    expect(result).toEqual({
+      cancelled: [topId, midId, leafId],
+      agentIds: [`${topId}-r`, `${midId}-r`, `${leafId}-worker`],
+      failed: [],
+    });
+    expect(engine.get(topId)).toMatchObject({
+      status: "cancelled",
+      cancellation: { reason: "scope changed" },
+    });
+    expect(engine.get(leafId)).toMatchObject({
+      status: "cancelled",
+      cancellation: { reason: "scope changed", cascaded_from: topId },
+    });
+    expect(engine.replay(leafId).events.at(-1)?.type).toBe("cancelled");
+    expect((await engine.cancel(topId, "again")).cancelled).toEqual([]);
+  });
+
+  it("stops cancelled workflows from advancing", async () => {
+    const engine = await setup();
+    const leafState = engine.start("leaf", {});
+    const leafId = leafState.workflow_id as unknown as string;
+    await engine.cancel(leafId, "stop");
+
+    await expect(engine.dispatchCurrentState(leafId)).resolves.toEqual({
+      dispatched: false,
+      details: "Workflow is cancelled",
+    });
+    await expect(
+      engine.submitEvidence(leafId, {
+        state: "WORK",
+        result: "done",
+        evidence: {},
+      }),
+    ).resolves.toEqual({ workflowId: leafId, status: "cancelled" });
+    await expect(engine.resume(leafId)).rejects.toThrow(
+      `Workflow ${leafId} is cancelled`,
+    );
+    await expect(engine.override(leafId, "DONE", "x")).rejects.toThrow(
+      "is cancelled",
+    );
+    expect(engine.get(leafId)?.current_state).toBe("WORK");
+  });
+
+  it("cancels the rest of the tree past a child it cannot save", async () => {
+    const engine = await setup();
+    const top = engine.start("top", {});
+    const topId = top.workflow_id as unknown as string;
+    await engine.dispatchCurrentState(topId);
+    const midId = engine.get(topId)?.children?.DELEGATE as unknown as string;
+    const leafId = engine.get(midId)?.children?.DELEGATE as unknown as string;
+
+    // Another writer keeps saving the middle workflow
+    const store = (engine as unknown as { store: JsonStateStore }).store;
+    const save = store.saveWorkflowState.bind(store);
+    let attempts = 0;
+    vi.spyOn(store, "saveWorkflowState").mockImplementation((state, events) => {
+      if ((state.workflow_id as unknown as string) === midId) {
+        attempts += 1;
+        throw new WorkflowStateConflictError(state.workflow_id, 1, 2);
+      }
+      save(state, events);
+    });
+    const result = await engine.cancel(topId, "scope changed");
+
+    expect(attempts).toBe(3);
+    expect(result).toEqual({
+      cancelled: [topId, leafId],
+      agentIds: [`${topId}-r`, `${leafId}-worker`],
+      failed: [
+        {
+          workflowId: midId,
+          error: `Stale save for workflow ${midId}: expected revision 1, found 2`,
+        },
+      ],
+    });
+    expect(engine.get(midId)?.status).toBeUndefined();
+    expect(engine.get(leafId)?.status).toBe("cancelled");
+  });
+
+  it("leaves finished workflows alone", async () => {
+    const engine = await setup();
+    const leafState = engine.start("leaf", {});
+    const leafId = leafState.workflow_id as unknown as string;
+    await engine.submitEvidence(leafId, {
+      state: "WORK",
+      result: "done",
+      evidence: {},
+    });
+
+    expect(await engine.cancel(leafId, "late")).toEqual({
+      cancelled: [],
+      agentIds: [],
+      failed: [],
+    });
+    expect(engine.get(leafId)?.status).toBeUndefined();
+  });
+});
+
+describe("WorkflowEngine timeouts and heartbeats", () => {
+  const role = `{ agent: "a", tools: ["read"], fileScope: { writable: [], readable: ["**"] } }`;
+  const timed = `export default {
+    name: "timed",
+    description: "timed",
+    initialState: "WORK",
+    roles: { worker: ${role} },
+    states: {
+      WORK: { assign: "worker", gate: { kind: "verdict", options: ["done"] }, maxRetries: 2, timeoutMs: 1000, transitions: { done: "DONE", fail: "FAILED", timeout: "LATE" } },
+      DONE: { type: "terminal", result: "success" },
+      FAILED: { type: "terminal", result: "failure" },
+      LATE: { type: "terminal", result: "failure" }
+    }
+  }`;
+  const parent = `export default {
+    name: "parent",
+    description: "parent",
+    initialState: "DELEGATE",
+    roles: { r: ${role} },
+    states: {
+      DELEGATE: { type: "subworkflow", workflow: "timed", timeoutMs: 1000, transitions: { success: "DONE", fail: "ESCALATE" } },
+      DONE: { type: "terminal", result: "success" },
+      ESCALATE: { type: "terminal", result: "failure" }
+    }
+  }`;
+
+  const setup = async (
+    cwd = fs.mkdtempSync(path.join(os.tmpdir(), "orch-timeout-")),
+  ) => {
+    const dir = path.join(cwd, "src", "workflows");
+    writeWorkflow(dir, "timed", timed);
+    writeWorkflow(dir, "parent", parent);
+    const { pi } = createFakePi();
+    const store = new JsonStateStore(path.join(cwd, ".orchestra"));
+    store.ensure();
+    const engine = new WorkflowEngine(pi, cwd, store);
+    await engine.loadWorkflows();
+    return engine;
+  };
+
+  const later = (ms: number) => new Date(Date.now() + ms);
+
+  it("retries a timed-out state, then takes the timeout transition", async () => {
+    const engine = await setup();
+    const id = engine.start("timed", {}).workflow_id as unknown as string;
+
+    expect(engine.checkTimeouts(later(500))).toEqual([]);
+
+    const first = later(1500);
+    expect(engine.checkTimeouts(first)).toEqual([
+      {
+        workflowId: id,
+        state: "WORK",
+        timeoutMs: 1000,
+        retries: 1,
+        agentIds: [`${id}-worker`],
+      },
+    ]);
+    expect(engine.get(id)?.history.at(-1)).toMatchObject({
+      state: "WORK",
+      retries: 1,
+      last_failure: "Timed out after 1000ms in WORK",
+      attempt_started_at: first.toISOString(),
+    });
+    expect(engine.checkTimeouts(later(2000))).toEqual([]);
+
+    const [second] = engine.checkTimeouts(later(3000));
+    expect(second?.to).toBe("LATE");
+    expect(engine.get(id)?.current_state).toBe("LATE");
+    expect(engine.get(id)?.history.at(-2)?.result).toBe("timeout");
+    expect(engine.replay(id).events.at(-1)?.type).toBe("timed_out");
+  });
+
+  it("falls back to the fail transition and skips paused workflows", async () => {
+    const engine = await setup();
+    const id = engine.start("parent", {}).workflow_id as unknown as string;
+    await engine.pause(id);
+    expect(engine.checkTimeouts(later(5000))).toEqual([]);
+    await engine.resume(id);
+
+    await engine.dispatchCurrentState(id);
+    const childId = engine.get(id)?.children?.DELEGATE as unknown as string;
+
+    const [expired] = engine
+      .checkTimeouts(later(5000))
+      .filter((timeout) => timeout.workflowId === id);
+    expect(expired).toMatchObject({
+      state: "DELEGATE",
+      to: "ESCALATE",
+      agentIds: [`${childId}-worker`],
+    });
+    expect(engine.get(childId)).toMatchObject({
+      status: "cancelled",
+      cancellation: { reason: `Parent ${id} timed out in DELEGATE` },
+    });
+  });
+
+  it("records heartbeats and reports agents that stopped sending them", async () => {
+    const cwd = fs.mkdtempSync(path.join(os.tmpdir(), "orch-timeout-"));
+    const engine = await setup(cwd);
+    const id = engine.start("timed", {}).workflow_id as unknown as string;
+    const agentId = `${id}-worker`;
+    expect(engine.staleAgents(later(60_000), 1000)).toEqual([]);
+
+    await engine.dispatchCurrentState(id);
+    const dispatchedAt = (
+      engine.get(id)?.metrics.heartbeats as Record<string, string>
+    )[agentId] as string;
+    expect(engine.staleAgents(new Date(), 1000)).toEqual([]);
+
+    const before = engine.get(id);
+    const journalLength = engine.replay(id).events.length;
+    const beat = engine.heartbeat(agentId);
+    expect(beat.at >= dispatchedAt).toBe(true);
+    const store = new JsonStateStore(path.join(cwd, ".orchestra"));
+    expect(store.readHeartbeats(asWorkflowId(id))).toEqual({
+      [agentId]: beat.at,
+    });
+    expect(engine.get(id)?.metrics.heartbeats).toEqual({ [agentId]: beat.at });
+    expect(engine.list()[0]?.metrics.heartbeats).toEqual({
+      [agentId]: beat.at,
+    });
+    // Beats stay out of the revisioned state, so a save based on the state
+    // loaded before the beat (an evidence verification, say) still goes through
+    expect(engine.get(id)?.revision).toBe(before?.revision);
+    expect(engine.replay(id).events).toHaveLength(journalLength);
+    expect(() =>
+      store.saveWorkflowState(before as WorkflowRuntimeState, []),
+    ).not.toThrow();
+
+    const stale = engine.staleAgents(later(10_000), 1000);
+    expect(stale).toEqual([
+      expect.objectContaining({
+        agentId,
+        workflowId: id,
+        state: "WORK",
+        lastHeartbeat: beat.at,
+      }),
+    ]);
+    expect(stale[0]?.idleMs).toBeGreaterThanOrEqual(10_000);
+    expect(engine.staleAgents(later(10_000))).toEqual([]);
+  });
+
+  it("publishes heartbeats of known agents only", async () => {
+    const engine = await setup();
+    const id = engine.start("timed", {}).workflow_id as unknown as string;
+    const heard: string[] = [];
+    engine.events.on("agent.heartbeat", (event) => {
+      heard.push(event.agentId);
+    });
+
+    engine.heartbeat(`${id}-worker`);
+    engine.heartbeat(`${id}-stranger`);
+    engine.heartbeat("../../etc-worker");
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(heard).toEqual([`${id}-worker`]);
+  });
+});
+
+describe("WorkflowEngine action states", () => {
+  const actions = `export default {
+    name: "actions",
+    description: "actions",
+    initialState: "BUILD",
+    roles: {},
+    states: {
+      BUILD: { type: "action", commands: ["make", "make test", "make lint"], transitions: { pass: "SHIP", fail: "BROKEN" }, maxRetries: 2 },
+      SHIP: { type: "action", commands: ["deploy"], gate: { kind: "command", verify: { command: "curl health", expectExitCode: 0 } }, transitions: { pass: "DONE" } },
+      DONE: { type: "terminal", result: "success" },
+      BROKEN: { type: "terminal", result: "failure" },
+      ESCALATE: { type: "terminal", result: "failure" }
+    }
+  }`;
+  const failing = (stderr: string) => ({
+    code: 2,
+    stdout: "",
+    stderr,
+    killed: false,
+  });
+
+  const setup = async (results: Record<string, ExecResult> = {}) => {
+    const cwd = fs.mkdtempSync(path.join(os.tmpdir(), "orch-action-"));
+    writeWorkflow(path.join(cwd, "src", "workflows"), "actions", actions);
+    const fake = createFakePi(results);
+    const store = new JsonStateStore(path.join(cwd, ".orchestra"));
+    store.ensure();
+    const engine = new WorkflowEngine(fake.pi, cwd, store);
+    await engine.loadWorkflows();
+    const id = engine.start("actions", {}).workflow_id as unknown as string;
+    return { engine, id, commands: fake.commands };
+  };
+
+  it("runs commands, checks the gate, and follows pass transitions", async () => {
+    const { engine, id, commands } = await setup();
+
+    const dispatch = await engine.dispatchCurrentState(id);
+
+    expect(dispatch).toEqual({
+      dispatched: false,
+      details: expect.stringContaining(
+        "Action state commands executed for BUILD: pass -> SHIP",
+      ),
+    });
+    expect(commands).toEqual([
+      "make",
+      "make test",
+      "make lint",
+      "deploy",
+      "curl health",
+    ]);
+    const state = engine.get(id);
+    expect(state?.current_state).toBe("DONE");
+    expect(state?.evidence.SHIP).toMatchObject({
+      commands: [{ command: "deploy", code: 0 }],
+      gate: { command: "curl health", code: 0, expected_code: 0 },
+      result: "pass",
+      verified: true,
+    });
+  });
+
+  it("stops at the first failing command and retries before failing", async () => {
+    const { engine, id, commands } = await setup({
+      "make test": failing("1 test failed"),
+    });
+
+    const first = await engine.dispatchCurrentState(id);
+    expect(first).toEqual({
+      dispatched: false,
+      details: "Command failed in BUILD: make test (exit 2) (retry 1)",
+    });
+    expect(commands).toEqual(["make", "make test"]);
+    expect(engine.get(id)).toMatchObject({
+      current_state: "BUILD",
+      retry_count: 1,
+      evidence: {
+        BUILD: {
+          commands: [
+            { command: "make", code: 0 },
+            { command: "make test", code: 2, stderr: "1 test failed" },
+          ],
+          result: "fail",
+          verified: false,
+        },
+      },
+    });
+
+    await engine.dispatchCurrentState(id);
+    const state = engine.get(id);
+    expect(state?.current_state).toBe("BROKEN");
+    expect(state?.history.at(-2)).toMatchObject({
+      state: "BUILD",
+      result: "fail",
+      last_failure: "Command failed in BUILD: make test (exit 2)",
+    });
+    expect(
+      engine
+        .replay(id)
+        .events.filter((event) => event.type === "actions_failed"),
+    ).toHaveLength(2);
+  });
+
+  it("escalates when the command gate fails without a fail transition", async () => {
+    const { engine, id } = await setup({ "curl health": failing("503") });
+
+    await engine.dispatchCurrentState(id);
+
+    const state = engine.get(id);
+    expect(state?.current_state).toBe("ESCALATE");
+    expect(state?.evidence.SHIP).toMatchObject({
+      gate: { code: 2, stderr: "503", expected_code: 0 },
+      verified: false,
+    });
+  });
+});
+
+describe("WorkflowEngine terminal actions", () => {
+  it("runs the terminal action once when the workflow escalates", async () => {
+    const cwd = fs.mkdtempSync(path.join(os.tmpdir(), "orch-escalate-"));
+    writeWorkflow(
+      path.join(cwd, "src", "workflows"),
+      "escalating",
+      `export default {
+        name: "escalating",
+        description: "escalating",
+        initialState: "WORK",
+        roles: { worker: { agent: "a", tools: ["read"], fileScope: { writable: [], readable: ["**"] } } },
+        states: {
+          WORK: { assign: "worker", gate: { kind: "command", verify: { command: "make check" } }, transitions: { pass: "DONE" } },
+          DONE: { type: "terminal", result: "success" },
+          ESCALATE: { type: "terminal", result: "failure", action: "notify_human" }
+        }
+      }`,
+    );
+    const { pi, commands } = createFakePi({
+      "make check": { code: 1, stdout: "", stderr: "", killed: false },
+    });
+    const store = new JsonStateStore(path.join(cwd, ".orchestra"));
+    store.ensure();
+    const engine = new WorkflowEngine(pi, cwd, store, {
+      escalationHook: "notify-oncall",
+    } as ProjectConfig);
+    await engine.loadWorkflows();
+    const notified: string[] = [];
+    engine.terminalActions.register("notify", ({ state }) => {
+      notified.push(state);
+      return { notified: true };
+    });
+    const id = engine.start("escalating", {}).workflow_id as unknown as string;
+
+    await engine.submitEvidence(id, {
+      state: "WORK",
+      result: "pass",
+      evidence: {},
+    });
+    await engine.dispatchCurrentState(id);
+
+    expect(engine.get(id)?.current_state).toBe("ESCALATE");
+    expect(notified).toEqual(["ESCALATE"]);
+    expect(
+      commands.filter((command) => command.endsWith("notify-oncall")),
+    ).toHaveLength(1);
+    expect(engine.get(id)?.metrics.terminal_action).toMatchObject({
+      state: "ESCALATE",
+      action: "notify_human",
+      ok: true,
+    });
+    const record = JSON.parse(
+      fs.readFileSync(
+        path.join(cwd, ".orchestra", "escalations", `${id}.json`),
+        "utf8",
+      ),
+    );
+    expect(record).toMatchObject({
+      workflow_id: id,
+      state: "ESCALATE",
+      reason: "Gate verification failed for WORK",
+      status: "open",
+    });
+    expect(
+      engine
+        .replay(id)
+        .events.filter((event) => event.type === "terminal_action"),
+    ).toHaveLength(1);
+  });
+});
+
+describe("evaluateJoin", () => {
+  it("waits until the policy is met or can no longer be met", () => {
+    expect(evaluateJoin(undefined, ["passed", "running"])).toBe("pending");
+    expect(evaluateJoin("all", ["passed", "passed"])).toBe("pass");
+    expect(evaluateJoin("all", ["passed", "failed"])).toBe("fail");
+    expect(evaluateJoin("any", ["failed", "passed", "running"])).toBe("pass");
+    expect(evaluateJoin("any", ["failed", "failed"])).toBe("fail");
+    expect(evaluateJoin({ quorum: 2 }, ["passed", "failed", "running"])).toBe(
+      "pending",
+    );
+    expect(evaluateJoin({ quorum: 2 }, ["passed", "failed", "failed"])).toBe(
+      "fail",
+    );
+  });
+});
+
+describe("WorkflowEngine parallel states", () => {
+  const role = `{ agent: "a", tools: ["read"], fileScope: { writable: [], readable: ["**"] } }`;
+  const review = `export default {
+    name: "review",
+    description: "review",
+    initialState: "REVIEW",
+    roles: { security: ${role}, style: ${role} },
+    states: {
+      REVIEW: {
+        type: "parallel",
+        branches: {
+          security: { assign: "security", gate: { kind: "evidence", schema: { findings: "number" } } },
+          style: { assign: "style", gate: { kind: "verdict", options: ["approved", "changes"] }, passOn: ["approved"] },
+          docs: { workflow: "docs-check" }
+        },
+        transitions: { pass: "DONE", fail: "REWORK" }
+      },
+      DONE: { type: "terminal", result: "success" },
+      REWORK: { type: "terminal", result: "failure" }
+    }
+  }`;
+  const docsCheck = `export default {
+    name: "docs-check",
+    description: "docs-check",
+    initialState: "CHECK",
+    roles: { writer: ${role} },
+    states: {
+      CHECK: { assign: "writer", gate: { kind: "verdict", options: ["done"] }, transitions: { done: "DONE" } },
+      DONE: { type: "terminal", result: "success" }
+    }
+  }`;
+
+  const setup = async () => {
+    const cwd = fs.mkdtempSync(path.join(os.tmpdir(), "orch-parallel-"));
+    const dir = path.join(cwd, "src", "workflows");
+    writeWorkflow(dir, "review", review);
+    writeWorkflow(dir, "docs-check", docsCheck);
+    const { pi, commands } = createFakePi();
+    const store = new JsonStateStore(path.join(cwd, ".orchestra"));
+    store.ensure();
+    const engine = new WorkflowEngine(pi, cwd, store);
+    await engine.loadWorkflows();
+    const id = engine.start("review", {}).workflow_id as unknown as string;
+    const dispatch = await engine.dispatchCurrentState(id);
+    const childId = engine.get(id)?.children?.["REVIEW.docs"] as unknown as
+      | string
+      | undefined;
+    return { engine, id, childId: childId as string, dispatch, commands };
+  };
+
+  it("fans out every branch and joins once all of them pass", async () => {
+    const { engine, id, childId, dispatch } = await setup();
+
+    expect(dispatch).toMatchObject({
+      dispatched: true,
+      details: expect.stringContaining(
+        "Parallel state REVIEW dispatched 3 branches",
+      ),
+    });
+    expect(engine.get(id)?.parallel?.branches).toEqual({
+      security: { status: "running", retries: 0, agent_id: `${id}-security` },
+      style: { status: "running", retries: 0, agent_id: `${id}-style` },
+      docs: { status: "running", retries: 0, child_workflow_id: childId },
+    });
+    expect(engine.get(childId)?.parent).toMatchObject({
+      workflow_id: id,
+      state: "REVIEW",
+      branch: "docs",
+    });
+    expect((await engine.dispatchCurrentState(id)).details).toBe(
+      "Parallel state REVIEW waiting on 3 branches: security, style, docs",
+    );
+
+    expect(
+      await engine.submitEvidence(id, {
+        state: "REVIEW",
+        result: "pass",
+        evidence: { findings: 0 },
+        submitted_by: `${id}-other`,
+      }),
+    ).toMatchObject({ status: "rejected" });
+    expect(
+      await engine.submitEvidence(id, {
+        state: "REVIEW",
+        result: "pass",
+        evidence: { findings: 0 },
+        submitted_by: `${id}-security`,
+      }),
+    ).toMatchObject({
+      status: "accepted",
+      branch: "security",
+      join: "pending",
+    });
+    await engine.submitEvidence(id, {
+      state: "REVIEW",
+      result: "approved",
+      evidence: {},
+      submitted_by: `${id}-style`,
+    });
+
+    await engine.submitEvidence(childId, {
+      state: "CHECK",
+      result: "done",
+      evidence: {},
+    });
+    await engine.dispatchCurrentState(childId);
+
+    const state = engine.get(id);
+    expect(state?.current_state).toBe("DONE");
+    expect(state?.evidence.REVIEW).toMatchObject({
+      security: { findings: 0, verified: true },
+      style: { result: "approved", verified: true },
+      docs: { child_workflow_id: childId, child_result: "success" },
+    });
+    expect(
+      engine
+        .replay(id)
+        .events.filter((event) => event.type === "parallel_joined"),
+    ).toHaveLength(1);
+  });
+
+  it("fails the join on a failing branch and cancels the rest", async () => {
+    const { engine, id, childId, commands } = await setup();
+
+    const result = await engine.submitEvidence(id, {
+      state: "REVIEW",
+      result: "changes",
+      evidence: {},
+      submitted_by: `${id}-style`,
+    });
+
+    expect(result).toMatchObject({
+      status: "joined",
+      branch: "style",
+      branch_status: "failed",
+      join: "fail",
+      state: "REWORK",
+    });
+    expect(engine.get(id)?.parallel?.branches).toMatchObject({
+      security: { status: "cancelled" },
+      style: { status: "failed" },
+      docs: { status: "cancelled" },
+    });
+    expect(engine.get(childId)?.status).toBe("cancelled");
+    expect(commands).toContain(
+      `zellij action go-to-tab-name ${shellEscape(`${id}-security`)} && zellij action close-tab`,
+    );
+    expect(
+      await engine.submitEvidence(id, {
+        state: "REVIEW",
+        result: "pass",
+        evidence: { findings: 0 },
+        submitted_by: `${id}-security`,
+      }),
+    ).toMatchObject({ status: "rejected" });
+  });
+});
+
+describe("WorkflowEngine foreach states", () => {
+  const role = `{ agent: "a", tools: ["read"], fileScope: { writable: [], readable: ["**"] } }`;
+  const planned = (concurrency: number) => `export default {
+    name: "planned",
+    description: "planned",
+    initialState: "SETUP",
+    roles: { planner: ${role} },
+    states: {
+      SETUP: { assign: "planner", gate: { kind: "evidence", schema: { criteria: "string[]" } }, transitions: { pass: "BUILD" } },
+      BUILD: { type: "foreach", workflow: "slice", items: "evidence.SETUP.criteria", inputMap: { scenario: "item", position: "item_index" }, concurrency: ${concurrency}, transitions: { success: "DONE", failure: "REWORK" } },
+      DONE: { type: "terminal", result: "success" },
+      REWORK: { type: "terminal", result: "failure" },
+      ESCALATE: { type: "terminal", result: "failure" }
+    }
+  }`;
+  const slice = `export default {
+    name: "slice",
+    description: "slice",
+    initialState: "WORK",
+    roles: { builder: ${role} },
+    states: {
+      WORK: { assign: "builder", gate: { kind: "verdict", options: ["done", "broken"] }, transitions: { done: "DONE", broken: "FAILED" } },
+      DONE: { type: "terminal", result: "success" },
+      FAILED: { type: "terminal", result: "failure" }
+    }
+  }`;
+
+  const setup = async (criteria: string[], concurrency = 1) => {
+    const cwd = fs.mkdtempSync(path.join(os.tmpdir(), "orch-foreach-"));
+    const dir = path.join(cwd, "src", "workflows");
+    writeWorkflow(dir, "planned", planned(concurrency));
+    writeWorkflow(dir, "slice", slice);
+    const { pi } = createFakePi();
+    const store = new JsonStateStore(path.join(cwd, ".orchestra"));
+    store.ensure();
+    const engine = new WorkflowEngine(pi, cwd, store);
+    await engine.loadWorkflows();
+    const id = engine.start("planned", {}).workflow_id as unknown as string;
+    await engine.submitEvidence(id, {
+      state: "SETUP",
+      result: "pass",
+      evidence: { criteria },
+    });
+    const dispatch = await engine.dispatchCurrentState(id);
+    const child = (index: number) =>
+      engine.get(id)?.children?.[`BUILD.${index}`] as unknown as string;
+    const finish = async (index: number, result: string) => {
+      await engine.submitEvidence(child(index), {
+        state: "WORK",
+        result,
+        evidence: {},
+      });
+      await engine.dispatchCurrentState(child(index));
+    };
+    return { engine, id, dispatch, child, finish };
+  };
+
+  it("fails the item whose child cannot start", async () => {
+    const cwd = fs.mkdtempSync(path.join(os.tmpdir(), "orch-foreach-"));
+    const dir = path.join(cwd, "src", "workflows");
+    writeWorkflow(dir, "planned", planned(1));
+    writeWorkflow(
+      dir,
+      "slice",
+      slice.replace(
+        'initialState: "WORK",',
+        'initialState: "WORK", params: { scenario: { type: "number", required: true } },',
+      ),
+    );
+    const { pi } = createFakePi();
+    const store = new JsonStateStore(path.join(cwd, ".orchestra"));
+    store.ensure();
+    const engine = new WorkflowEngine(pi, cwd, store);
+    await engine.loadWorkflows();
+    const id = engine.start("planned", {}).workflow_id as unknown as string;
+    await engine.submitEvidence(id, {
+      state: "SETUP",
+      result: "pass",
+      evidence: { criteria: ["a", "b"] },
+    });
+
+    const dispatch = await engine.dispatchCurrentState(id);
+
+    expect(dispatch.details).toContain("Invalid params for workflow slice");
+    expect(engine.get(id)?.current_state).toBe("REWORK");
+    expect(engine.get(id)?.children).toBeUndefined();
+    expect(
+      engine
+        .replay(id)
+        .events.find((event) => event.type === "subworkflow_param_failed")
+        ?.details,
+    ).toMatchObject({ state: "BUILD", workflow: "slice", item: 0 });
+  });
+
+  it("runs the child once per item, one after another", async () => {
+    const { engine, id, dispatch, child, finish } = await setup(["a", "b"]);
+
+    expect(dispatch).toMatchObject({
+      dispatched: true,
+      details: expect.stringContaining("Foreach state BUILD: 0/2 items passed"),
+    });
+    expect(engine.get(child(0))?.params).toEqual({
+      scenario: "a",
+      position: 0,
+    });
+    expect(engine.get(child(0))?.parent).toMatchObject({
+      workflow_id: id,
+      state: "BUILD",
+      item: 0,
+    });
+    expect(child(1)).toBeUndefined();
+
+    await finish(0, "done");
+    expect(engine.get(id)?.foreach?.items.map((item) => item.status)).toEqual([
+      "passed",
+      "running",
+    ]);
+    expect(engine.get(child(1))?.params).toEqual({
+      scenario: "b",
+      position: 1,
+    });
+
+    await finish(1, "done");
+    const state = engine.get(id);
+    expect(state?.current_state).toBe("DONE");
+    expect(state?.evidence.BUILD).toMatchObject({
+      items: [
+        { item: "a", child_workflow_id: child(0), child_result: "success" },
+        { item: "b", child_workflow_id: child(1), child_result: "success" },
+      ],
+    });
+  });
+
+  it("fails at the first failed item and cancels the running ones", async () => {
+    const { engine, id, child, finish } = await setup(["a", "b", "c"], 2);
+
+    expect(engine.get(id)?.foreach?.items.map((item) => item.status)).toEqual([
+      "running",
+      "running",
+      "pending",
+    ]);
+
+    await finish(1, "broken");
+
+    const state = engine.get(id);
+    expect(state?.current_state).toBe("REWORK");
+    expect(state?.history.at(-2)).toMatchObject({
+      state: "BUILD",
+      result: "failure",
+      last_failure: "Item 1 of BUILD ended with failure",
+    });
+    expect(state?.foreach?.items.map((item) => item.status)).toEqual([
+      "cancelled",
+      "failed",
+      "pending",
+    ]);
+    expect(engine.get(child(0))?.status).toBe("cancelled");
+    expect(child(2)).toBeUndefined();
+  });
+
+  it("succeeds at once on an empty list", async () => {
+    const { engine, id, dispatch } = await setup([]);
+
+    expect(dispatch.details).toBe("Workflow is terminal: success");
+    expect(engine.get(id)?.current_state).toBe("DONE");
+  });
+});
+
+describe("WorkflowEngine guarded transitions", () => {
+  const role = `{ agent: "a", tools: ["read"], fileScope: { writable: [], readable: ["**"] } }`;
+  const guarded = `export default {
+    name: "guarded",
+    description: "guarded",
+    initialState: "TEST",
+    roles: { tester: ${role} },
+    states: {
+      TEST: {
+        assign: "tester",
+        gate: { kind: "evidence", schema: { coverage: "number" } },
+        guards: [
+          { when: 'result === "pass" && evidence.TEST.coverage < 80', to: "MORE_TESTS" },
+          { when: 'project.flavor === "event-modeled"', to: "MODEL" }
+        ],
+        transitions: { pass: "DONE", fail: "DONE" }
+      },
+      MORE_TESTS: { type: "terminal", result: "failure" },
+      MODEL: { type: "terminal", result: "success" },
+      DONE: { type: "terminal", result: "success" }
+    }
+  }`;
+
+  const setup = async (projectConfig?: Partial<ProjectConfig>) => {
+    const cwd = fs.mkdtempSync(path.join(os.tmpdir(), "orch-guard-"));
+    writeWorkflow(path.join(cwd, "src", "workflows"), "guarded", guarded);
+    const { pi } = createFakePi();
+    const store = new JsonStateStore(path.join(cwd, ".orchestra"));
+    store.ensure();
+    const engine = new WorkflowEngine(
+      pi,
+      cwd,
+      store,
+      projectConfig as ProjectConfig | undefined,
+    );
+    await engine.loadWorkflows();
+    const id = engine.start("guarded", {}).workflow_id as unknown as string;
+    const submit = (coverage: number) =>
+      engine.submitEvidence(id, {
+        state: "TEST",
+        result: "pass",
+        evidence: { coverage },
+      });
+    return { engine, id, submit };
+  };
+
+  it("takes the first guard that holds over the result transition", async () => {
+    const { engine, id, submit } = await setup({ flavor: "event-modeled" });
+
+    await submit(72);
+
+    expect(engine.get(id)?.current_state).toBe("MORE_TESTS");
+    expect(
+      engine.replay(id).events.find((event) => event.type === "transitioned")
+        ?.details,
+    ).toEqual({
+      from: "TEST",
+      to: "MORE_TESTS",
+      result: "pass",
+      guard: 'result === "pass" && evidence.TEST.coverage < 80',
+    });
+  });
+
+  it("reads the project config and falls back to transitions", async () => {
+    const modeled = await setup({ flavor: "event-modeled" });
+    await modeled.submit(95);
+    expect(modeled.engine.get(modeled.id)?.current_state).toBe("MODEL");
+
+    const plain = await setup({ flavor: "traditional-prd" });
+    await plain.submit(95);
+    expect(plain.engine.get(plain.id)?.current_state).toBe("DONE");
+  });
+});
+
+describe("WorkflowEngine approvals", () => {
+  const role = `{ agent: "a", tools: ["read"], fileScope: { writable: [], readable: ["**"] } }`;
+  const reviewed = `export default {
+    name: "reviewed",
+    description: "reviewed",
+    initialState: "WRITE",
+    roles: { writer: ${role} },
+    states: {
+      WRITE: {
+        assign: "writer",
+        gate: { kind: "evidence", schema: { summary: "string" } },
+        transitions: { pass: "REVIEW" }
+      },
+      REVIEW: {
+        assign: "writer",
+        gate: { kind: "approval", prompt: "Ship it?" },
+        maxRetries: 2,
+        transitions: { pass: "DONE", rejected: "DROPPED" }
+      },
+      DONE: { type: "terminal", result: "success" },
+      DROPPED: { type: "terminal", result: "failure" }
+    }
+  }`;
+
+  const setup = async (projectConfig?: Partial<ProjectConfig>) => {
+    const cwd = fs.mkdtempSync(path.join(os.tmpdir(), "orch-approval-"));
+    writeWorkflow(path.join(cwd, "src", "workflows"), "reviewed", reviewed);
+    const { pi } = createFakePi();
+    const store = new JsonStateStore(path.join(cwd, ".orchestra"));
+    store.ensure();
+    const engine = new WorkflowEngine(
+      pi,
+      cwd,
+      store,
+      projectConfig as ProjectConfig | undefined,
+    );
+    await engine.loadWorkflows();
+    const id = engine.start("reviewed", {}).workflow_id as unknown as string;
+    const submit = (state: string) =>
+      engine.submitEvidence(id, {
+        state,
+        result: "pass",
+        evidence: { summary: "done" },
+      });
+    return { engine, id, submit };
+  };
+
+  it("parks an approval gate until a human approves", async () => {
+    const { engine, id, submit } = await setup();
+    await submit("WRITE");
+
+    const parked = await submit("REVIEW");
+    expect(parked.status).toBe("awaiting_approval");
+    expect(engine.get(id)?.current_state).toBe("REVIEW");
+    expect(engine.get(id)?.pending_approval).toMatchObject({
+      state: "REVIEW",
+      result: "pass",
+      to: "DONE",
+      reason: "approval gate",
+      prompt: "Ship it?",
+    });
+    expect(engine.pendingApprovals().map((wf) => wf.workflow_id)).toEqual([id]);
+    expect((await submit("REVIEW")).status).toBe("awaiting_approval");
+    expect((await engine.dispatchCurrentState(id)).details).toContain(
+      `/orchestra approve ${id}`,
+    );
+
+    const approved = await engine.approve(id, "looks good");
+    expect(approved.current_state).toBe("DONE");
+    expect(approved.pending_approval).toBeUndefined();
+    expect(approved.evidence).toMatchObject({
+      REVIEW: {
+        approval: {
+          decision: "approved",
+          note: "looks good",
+          reason: "approval gate",
+        },
+      },
+    });
+    expect(engine.pendingApprovals()).toEqual([]);
+    expect(engine.replay(id).events.map((event) => event.type)).toEqual(
+      expect.arrayContaining(["approval_requested", "approved"]),
+    );
+    await expect(engine.approve(id)).rejects.toThrow(/not awaiting approval/);
+  });
+
+  it("leaves dispatch after a decision to autopilot", async () => {
+    const { engine, id, submit } = await setup();
+    const launcher = new FakeAgentLauncher();
+    engine.setAgentLauncher(launcher);
+    await submit("WRITE");
+    await submit("REVIEW");
+    engine.enrollAutopilot(id);
+
+    await engine.reject(id, "needs tests");
+    expect(await engine.dispatchUnlessAutopilot(id)).toEqual({
+      dispatched: false,
+      details: `autopilot dispatches ${id}`,
+      autopilot: true,
+    });
+    expect(launcher.launched).toEqual([]);
+
+    await engine.autopilotTick(id);
+    expect(launcher.launched.map((spec) => spec.agentId)).toEqual([
+      `${id}-writer`,
+    ]);
+
+    engine.withdrawAutopilot(id, "manual");
+    expect((await engine.dispatchUnlessAutopilot(id)).autopilot).toBe(
+      undefined,
+    );
+  });
+
+  it("reruns a rejected state until its retries run out", async () => {
+    const { engine, id, submit } = await setup();
+    await submit("WRITE");
+    await submit("REVIEW");
+
+    const retried = await engine.reject(id, "needs tests");
+    expect(retried.current_state).toBe("REVIEW");
+    expect(retried.retry_count).toBe(1);
+    expect(retried.history.at(-1)?.last_failure).toBe(
+      "Rejected by a human: needs tests",
+    );
+
+    await submit("REVIEW");
+    expect((await engine.reject(id)).current_state).toBe("DROPPED");
+  });
+
+  it("asks for approval at project checkpoints and review cadence", async () => {
+    const checkpoint = await setup({
+      autonomyLevel: "assisted",
+      approvalCheckpoints: ["reviewed.WRITE"],
+    });
+    await checkpoint.submit("WRITE");
+    expect(
+      checkpoint.engine.get(checkpoint.id)?.pending_approval,
+    ).toMatchObject({
+      state: "WRITE",
+      to: "REVIEW",
+      reason: "approval checkpoint",
+    });
+
+    const manual = await setup({ autonomyLevel: "manual" });
+    await manual.submit("WRITE");
+    expect(manual.engine.get(manual.id)?.pending_approval?.reason).toBe(
+      "autonomy level manual",
+    );
+
+    const full = await setup({
+      autonomyLevel: "full",
+      approvalCheckpoints: ["WRITE"],
+    });
+    await full.submit("WRITE");
+    expect(full.engine.get(full.id)?.current_state).toBe("REVIEW");
+  });
+});
+
+describe("WorkflowEngine definition versions", () => {
+  const role = `{ agent: "a", tools: ["read"], fileScope: { writable: [], readable: ["**"] } }`;
+  const versioned = (
+    version: number,
+    draft: string,
+    extra = "",
+  ) => `export default {
+    name: "versioned",
+    description: "versioned",
+    version: ${version},
+    ${extra}
+    initialState: "${draft}",
+    roles: { writer: ${role} },
+    states: {
+      ${draft}: {
+        assign: "writer",
+        gate: { kind: "verdict", options: ["pass"] },
+        transitions: { pass: "DONE" }
+      },
+      DONE: { type: "terminal", result: "success" }
+    }
+  }`;
+
+  const load = async (cwd: string) => {
+    const { pi } = createFakePi();
+    const store = new JsonStateStore(path.join(cwd, ".orchestra"));
+    store.ensure();
+    const engine = new WorkflowEngine(pi, cwd, store);
+    await engine.loadWorkflows();
+    return engine;
+  };
+
+  const setup = async (migrations: string) => {
+    const cwd = fs.mkdtempSync(path.join(os.tmpdir(), "orch-version-"));
+    const dir = path.join(cwd, "src", "workflows");
+    writeWorkflow(dir, "versioned", versioned(1, "WRITE"));
+    const before = await load(cwd);
+    const ids = [0, 1].map(
+      () => before.start("versioned", {}).workflow_id as unknown as string,
+    );
+    // A new file name: jiti caches modules by path
+    fs.rmSync(dir, { recursive: true });
+    writeWorkflow(dir, "versioned-v2", versioned(2, "DRAFT", migrations));
+    return { engine: await load(cwd), ids };
+  };
+
+  it("keeps running instances on the version they started on", async () => {
+    const { engine, ids } = await setup("");
+    const [pinned] = ids as [string];
+
+    expect(engine.get(pinned)?.workflow_version).toBe(1);
+    const result = await engine.submitEvidence(pinned, {
+      state: "WRITE",
+      result: "pass",
+      evidence: {},
+    });
+    expect(result.status).toBe("advanced");
+    expect(engine.get(pinned)?.current_state).toBe("DONE");
+    expect(engine.start("versioned", {}).workflow_version).toBe(2);
+    expect(() => engine.migrate(pinned)).toThrow(
+      "Workflow versioned has no migration from version 1 to 2",
+    );
+  });
+
+  it("migrates an instance through the definition's state renames", async () => {
+    const { engine, ids } = await setup(
+      'migrations: [{ from: 1, renameStates: { WRITE: "DRAFT" } }],',
+    );
+    const [id] = ids as [string];
+
+    const migrated = engine.migrate(id);
+    expect(migrated.workflow_version).toBe(2);
+    expect(migrated.current_state).toBe("DRAFT");
+    expect(migrated.history.map((entry) => entry.state)).toEqual(["DRAFT"]);
+    expect(
+      engine.replay(id).events.find((event) => event.type === "migrated")
+        ?.details,
+    ).toEqual({ from_version: 1, to_version: 2, renamed: { WRITE: "DRAFT" } });
+    expect(() => engine.migrate(id)).toThrow(/already runs version 2/);
+
+    await engine.submitEvidence(id, {
+      state: "DRAFT",
+      result: "pass",
+      evidence: {},
+    });
+    expect(engine.get(id)?.current_state).toBe("DONE");
+  });
+});
+
+describe("WorkflowEngine reloadWorkflows", () => {
+  const role = `{ agent: "a", tools: ["read"], fileScope: { writable: [], readable: ["**"] } }`;
+  const reloadable = (first: string, version = 1) => `export default {
+    name: "reloadable",
+    description: "reloadable",
+    version: ${version},
+    initialState: "${first}",
+    roles: { writer: ${role} },
+    states: {
+      ${first}: {
+        assign: "writer",
+        gate: { kind: "verdict", options: ["pass"] },
+        transitions: { pass: "DONE" }
+      },
+      DONE: { type: "terminal", result: "success" }
+    }
+  }`;
+
+  const setup = async () => {
+    const cwd = fs.mkdtempSync(path.join(os.tmpdir(), "orch-reload-"));
+    const dir = path.join(cwd, ".orchestra", "workflows.d");
+    writeWorkflow(dir, "reloadable", reloadable("WRITE"));
+    const { pi } = createFakePi();
+    const store = new JsonStateStore(path.join(cwd, ".orchestra"));
+    store.ensure();
+    const engine = new WorkflowEngine(pi, cwd, store);
+    await engine.loadWorkflows();
+    return { engine, dir };
+  };
+
+  it("swaps in edited and added definitions", async () => {
+    const { engine, dir } = await setup();
+    writeWorkflow(dir, "reloadable", reloadable("DRAFT"));
+    writeWorkflow(
+      dir,
+      "extra",
+      reloadable("WRITE").replace(/reloadable/g, "extra"),
+    );
+
+    const report = await engine.reloadWorkflows();
+
+    expect(report).toMatchObject({
+      applied: true,
+      added: ["extra"],
+      removed: [],
+      changed: ["reloadable"],
+      orphaned: [],
+    });
+    expect(engine.getDefinition("reloadable")?.initialState).toBe("DRAFT");
+    expect(engine.getDefinition("extra")).toBeDefined();
+  });
+
+  it("refuses a reload that would orphan a running workflow", async () => {
+    const { engine, dir } = await setup();
+    const id = engine.start("reloadable", {}).workflow_id as unknown as string;
+    writeWorkflow(dir, "reloadable", reloadable("DRAFT"));
+
+    const refused = await engine.reloadWorkflows();
+    expect(refused.applied).toBe(false);
+    expect(refused.orphaned).toEqual([
+      { workflowId: id, workflowType: "reloadable", state: "WRITE" },
+    ]);
+    expect(engine.getDefinition("reloadable")?.initialState).toBe("WRITE");
+
+    writeWorkflow(dir, "reloadable", reloadable("DRAFT", 2));
+    expect((await engine.reloadWorkflows()).applied).toBe(true);
+    expect(engine.getDefinition("reloadable")?.initialState).toBe("DRAFT");
+    expect(
+      engine.getDefinition("reloadable", engine.get(id)?.workflow_version)
+        ?.initialState,
+    ).toBe("WRITE");
+  });
+});
+
+describe("WorkflowEngine retry policies", () => {
+  const role = `{ agent: "a", tools: ["read"], fileScope: { writable: [], readable: ["**"] } }`;
+  const retrying = (
+    retry: string,
+    transitions = `{ pass: "DONE", fail: "FAILED" }`,
+  ) => `export default {
+    name: "retrying",
+    description: "retrying",
+    initialState: "WORK",
+    roles: { worker: ${role} },
+    states: {
+      WORK: {
+        assign: "worker",
+        gate: {
+          kind: "evidence",
+          schema: { count: "number" },
+          verify: { command: "verify-work" }
+        },
+        retry: ${retry},
+        transitions: ${transitions}
+      },
+      DONE: { type: "terminal", result: "success" },
+      FAILED: { type: "terminal", result: "failure" },
+      ESCALATE: { type: "terminal", result: "failure" }
+    }
+  }`;
+
+  const setup = async (
+    definition: string,
+    options: {
+      projectConfig?: Partial<ProjectConfig>;
+      spawnFails?: boolean;
+      verifyFails?: boolean;
+    } = {},
+  ) => {
+    const cwd = fs.mkdtempSync(path.join(os.tmpdir(), "orch-retry-"));
+    writeWorkflow(path.join(cwd, "src", "workflows"), "retrying", definition);
+    const { pi } = createFakePi(
+      options.verifyFails
+        ? { "verify-work": { code: 1, stdout: "", stderr: "", killed: false } }
+        : {},
+    );
+    const exec = (pi as unknown as { exec: ExtensionAPI["exec"] }).exec;
+    const spawning = {
+      exec: async (bin: string, args: string[]) =>
+        options.spawnFails && (args[1] ?? "").includes("zellij action new-tab")
+          ? { code: 1, stdout: "", stderr: "no zellij", killed: false }
+          : exec(bin, args),
+    } as unknown as ExtensionAPI;
+    const store = new JsonStateStore(path.join(cwd, ".orchestra"));
+    store.ensure();
+    const engine = new WorkflowEngine(
+      spawning,
+      cwd,
+      store,
+      options.projectConfig as ProjectConfig | undefined,
+    );
+    await engine.loadWorkflows();
+    const id = engine.start("retrying", {}).workflow_id as unknown as string;
+    const submit = (evidence: Record<string, unknown>, result = "pass") =>
+      engine.submitEvidence(id, { state: "WORK", result, evidence });
+    return { engine, id, submit };
+  };
+
+  it("gives up once the budget of the failing kind is spent", async () => {
+    const { engine, id, submit } = await setup(
+      retrying("{ maxAttempts: 5, budgets: { schema: 2 } }"),
+    );
+
+    expect((await submit({ count: "many" })).status).toBe("rejected");
+    expect(engine.get(id)?.history.at(-1)?.failures).toEqual({ schema: 1 });
+    expect(engine.get(id)?.retry_count).toBe(0);
+
+    expect(await submit({ count: "lots" })).toMatchObject({
+      status: "failed",
+      state: "FAILED",
+    });
+  });
+
+  it("backs off before redispatching a failed attempt", async () => {
+    const { engine, id, submit } = await setup(
+      retrying(
+        "{ maxAttempts: 3, backoffMs: 60000, backoffFactor: 3, maxBackoffMs: 100000 }",
+      ),
+      { verifyFails: true },
+    );
+    const fail = async () => {
+      await submit({ count: 1 });
+      return engine.get(id)?.history.at(-1) as WorkflowStateHistory;
+    };
+
+    const before = Date.now();
+    const first = await fail();
+    const firstWait = Date.parse(first.retry_after as string) - before;
+    expect(firstWait).toBeGreaterThanOrEqual(60_000);
+    expect(firstWait).toBeLessThan(70_000);
+    expect(first.attempt_started_at).toBe(first.retry_after);
+
+    const dispatch = await engine.dispatchCurrentState(id);
+    expect(dispatch).toEqual({
+      dispatched: false,
+      details: `Retry of WORK backs off until ${first.retry_after}`,
+      retryAt: first.retry_after,
+    });
+
+    const second = await fail();
+    const secondWait = Date.parse(second.retry_after as string) - before;
+    expect(secondWait).toBeGreaterThanOrEqual(100_000);
+    expect(secondWait).toBeLessThan(110_000);
+  });
+
+  it("retries failed spawns within the spawn budget", async () => {
+    const { engine, id } = await setup(
+      retrying(
+        "{ budgets: { spawn: 2 } }",
+        `{ pass: "DONE", spawn_failed: "FAILED" }`,
+      ),
+      { spawnFails: true },
+    );
+
+    const first = await engine.dispatchCurrentState(id);
+    expect(first.dispatched).toBe(false);
+    expect(first.details).toContain("stderr=no zellij");
+    expect(engine.get(id)?.current_state).toBe("WORK");
+
+    await engine.dispatchCurrentState(id);
+    expect(engine.get(id)?.current_state).toBe("FAILED");
+  });
+
+  it("escalates once the project's rework budget is spent", async () => {
+    const { engine, id, submit } = await setup(
+      retrying("{ maxAttempts: 2 }", `{ pass: "DONE", fail: "WORK" }`),
+      { projectConfig: { reworkBudget: 3 } },
+    );
+
+    for (let attempt = 0; attempt < 3; attempt += 1) {
+      await submit({ count: 1 }, "fail");
+      expect(engine.get(id)?.current_state).toBe("WORK");
+    }
+    await submit({ count: 1 }, "fail");
+
+    const state = engine.get(id);
+    expect(state?.current_state).toBe("ESCALATE");
+    expect(state?.rework_count).toBe(4);
+    expect(
+      engine
+        .replay(id)
+        .events.find((event) => event.type === "rework_budget_exhausted")
+        ?.details,
+    ).toEqual({ rework_count: 4, budget: 3 });
+  });
+
+  it("does not charge retries within a state to the rework budget", async () => {
+    const { engine, id, submit } = await setup(
+      retrying("{ maxAttempts: 3 }", `{ pass: "DONE", fail: "FAILED" }`),
+      { projectConfig: { reworkBudget: 1 }, verifyFails: true },
+    );
+
+    await submit({ count: 1 });
+    await submit({ count: 1 });
+    expect(engine.get(id)).toMatchObject({
+      current_state: "WORK",
+      retry_count: 2,
+    });
+    expect(engine.get(id)?.rework_count).toBeUndefined();
+
+    await submit({ count: 1 });
+    expect(engine.get(id)?.current_state).toBe("FAILED");
+  });
+
+  it("escalates through the fail transition without an ESCALATE state", async () => {
+    const { engine, id, submit } = await setup(
+      retrying(
+        "{ maxAttempts: 2 }",
+        `{ pass: "DONE", flagged: "WORK", fail: "FAILED" }`,
+      ).replace('ESCALATE: { type: "terminal", result: "failure" }', ""),
+      { projectConfig: { reworkBudget: 1 } },
+    );
+
+    await submit({ count: 1 }, "flagged");
+    expect(engine.get(id)?.current_state).toBe("WORK");
+    await submit({ count: 1 }, "flagged");
+
+    expect(engine.get(id)).toMatchObject({
+      current_state: "FAILED",
+      rework_count: 2,
+    });
+  });
+});
+
+describe("WorkflowEngine verification output", () => {
+  it("records the run in evidence and history and passes exec options", async () => {
+    const cwd = fs.mkdtempSync(path.join(os.tmpdir(), "orch-verify-"));
+    writeWorkflow(
+      path.join(cwd, "src", "workflows"),
+      "verified",
+      `export default {
+        name: "verified",
+        description: "verified",
+        initialState: "RED",
+        roles: { r: { agent: "a", tools: ["read"], fileScope: { writable: [], readable: ["**"] } } },
+        states: {
+          RED: {
+            assign: "r",
+            gate: {
+              kind: "evidence",
+              schema: { out: "string" },
+              verify: { command: "npm test", cwd: "pkg", timeoutMs: 5000, env: { CI: "1" }, mustNotMatch: ["FAIL"] }
+            },
+            transitions: { pass: "DONE", fail: "ESC" },
+            maxRetries: 2
+          },
+          DONE: { type: "terminal", result: "success" },
+          ESC: { type: "terminal", result: "failure" }
+        }
+      }`,
+    );
+
+    const calls: Array<{ args: string[]; options: unknown }> = [];
+    const pi = {
+      exec: async (_bin: string, args: string[], options: unknown) => {
+        calls.push({ args, options });
+        return {
+          code: 0,
+          stdout: "FAIL tests/a.test.ts\n",
+          stderr: "",
+          killed: false,
+        };
+      },
+    } as unknown as ExtensionAPI;
+    const store = new JsonStateStore(path.join(cwd, ".orchestra"));
+    store.ensure();
+    const engine = new WorkflowEngine(pi, cwd, store);
+    await engine.loadWorkflows();
+    const id = engine.start("verified", {}).workflow_id;
+
+    const result = await engine.submitEvidence(id, {
+      state: "RED",
+      result: "pass",
+      evidence: { out: "done" },
+    });
+
+    expect(result.status).toBe("failed");
+    expect(calls).toEqual([
+      {
+        args: ["-lc", "export CI='1'; npm test"],
+        options: { timeout: 5000, cwd: path.join(cwd, "pkg") },
+      },
+    ]);
+    const state = engine.get(id);
+    const verification = {
+      command: "npm test",
+      code: 0,
+      stdout: "FAIL tests/a.test.ts\n",
+      passed: false,
+      failures: ["output matches /FAIL/"],
+    };
+    expect(state?.evidence.RED).toMatchObject({
+      verified: false,
+      verification,
+    });
+    expect(state?.history.at(-1)?.last_verification).toMatchObject(
+      verification,
+    );
+
+    const task = buildAgentTask(
+      makeTaskInput({ runtimeState: state as WorkflowRuntimeState }),
+    );
+    expect(task).toContain("### Verification output");
+    expect(task).toContain("- output matches /FAIL/");
+    expect(task).toContain("stdout:\n```\nFAIL tests/a.test.ts\n```");
+  });
+});
+
+describe("WorkflowEngine command templates", () => {
+  const templated = `export default {
+    name: "templated",
+    description: "templated",
+    initialState: "BUILD",
+    params: {
+      env: { type: "string", default: "staging" },
+      tag: { type: "string" }
+    },
+    roles: { r: { agent: "a", tools: ["read"], fileScope: { writable: [], readable: ["**"] } } },
+    states: {
+      BUILD: {
+        type: "action",
+        commands: ["\${project.buildCommand}", "deploy --env '\${params.env}'"],
+        transitions: { pass: "RED", fail: "ESCALATE" }
+      },
+      RED: {
+        assign: "r",
+        gate: {
+          kind: "evidence",
+          schema: { test_file: "string" },
+          verify: { command: "\${project.testRunner} '\${evidence.RED.test_file}'", expectExitCode: 1 }
+        },
+        transitions: { pass: "TAG", fail: "ESCALATE" }
+      },
+      TAG: {
+        type: "action",
+        commands: ["git tag '\${params.tag}'"],
+        transitions: { pass: "DONE", fail: "ESCALATE" }
+      },
+      DONE: { type: "terminal", result: "success" },
+      ESCALATE: { type: "terminal", result: "failure" }
+    }
+  }`;
+
+  it("fills in params, project config and evidence, including the submission", async () => {
+    const cwd = fs.mkdtempSync(path.join(os.tmpdir(), "orch-template-"));
+    writeWorkflow(path.join(cwd, "src", "workflows"), "templated", templated);
+    const { pi, commands } = createFakePi({
+      "cargo test 'tests/it'\\''s.rs'": {
+        code: 1,
+        stdout: "",
+        stderr: "",
+        killed: false,
+      },
+    });
+    const store = new JsonStateStore(path.join(cwd, ".orchestra"));
+    store.ensure();
+    const engine = new WorkflowEngine(pi, cwd, store, {
+      buildCommand: "cargo build",
+      testRunner: "cargo test",
+    } as ProjectConfig);
+    await engine.loadWorkflows();
+    const id = engine.start("templated", { env: "prod; rm -rf /" }).workflow_id;
+
+    await engine.dispatchCurrentState(id);
+    expect(commands.slice(0, 2)).toEqual([
+      "cargo build",
+      "deploy --env 'prod; rm -rf /'",
+    ]);
+
+    const result = await engine.submitEvidence(id, {
+      state: "RED",
+      result: "pass",
+      evidence: { test_file: "tests/it's.rs" },
+    });
+    expect(result.status).toBe("advanced");
+    expect(engine.get(id)?.evidence.RED).toMatchObject({
+      verification: { command: "cargo test 'tests/it'\\''s.rs'", passed: true },
+    });
+  });
+
+  it("fails a command whose placeholder does not resolve without running it", async () => {
+    const cwd = fs.mkdtempSync(path.join(os.tmpdir(), "orch-template-"));
+    writeWorkflow(path.join(cwd, "src", "workflows"), "templated", templated);
+    const { pi, commands } = createFakePi({
+      "make test 'a.test.ts'": {
+        code: 1,
+        stdout: "",
+        stderr: "",
+        killed: false,
+      },
+    });
+    const store = new JsonStateStore(path.join(cwd, ".orchestra"));
+    store.ensure();
+    const engine = new WorkflowEngine(pi, cwd, store, {
+      buildCommand: "make",
+      testRunner: "make test",
+    } as ProjectConfig);
+    await engine.loadWorkflows();
+    const id = engine.start("templated", {}).workflow_id;
+    await engine.dispatchCurrentState(id);
+    await engine.submitEvidence(id, {
+      state: "RED",
+      result: "pass",
+      evidence: { test_file: "a.test.ts" },
+    });
+
+    await engine.dispatchCurrentState(id);
+
+    expect(commands).not.toContain("git tag ''");
+    const state = engine.get(id);
+    expect(state?.current_state).toBe("ESCALATE");
+    expect(state?.evidence.TAG).toMatchObject({
+      commands: [
+        {
+          command: "git tag '${params.tag}'",
+          code: 127,
+          stderr: "${params.tag} is not set in \"git tag '${params.tag}'\"",
+        },
+      ],
+      verified: false,
+    });
+  });
+});
+
+describe("WorkflowEngine agent launchers", () => {
+  const setup = async () => {
+    const cwd = fs.mkdtempSync(path.join(os.tmpdir(), "orch-launcher-"));
+    writeWorkflow(
+      path.join(cwd, "src", "workflows"),
+      "launched",
+      `export default {
+        name: "launched",
+        description: "launched",
+        initialState: "WORK",
+        roles: { worker: { agent: "a", tools: ["read", "bash"], fileScope: { writable: [], readable: ["**"] } } },
+        states: {
+          WORK: { assign: "worker", gate: { kind: "verdict", options: ["done"] }, transitions: { done: "DONE" } },
+          DONE: { type: "terminal", result: "success" },
+          ESCALATE: { type: "terminal", result: "failure" }
+        }
+      }`,
+    );
+    const { pi, commands } = createFakePi();
+    const store = new JsonStateStore(path.join(cwd, ".orchestra"));
+    store.ensure();
+    const engine = new WorkflowEngine(pi, cwd, store);
+    const launcher = new FakeAgentLauncher();
+    engine.setAgentLauncher(launcher);
+    await engine.loadWorkflows();
+    const id = engine.start("launched", {}).workflow_id as unknown as string;
+    return { cwd, engine, launcher, id, commands };
+  };
+
+  it("launches through the injected launcher and records the handle", async () => {
+    const { cwd, engine, launcher, id, commands } = await setup();
+    engine.setProjectConfig({ agentLauncher: "tmux" } as ProjectConfig);
+
+    expect((await engine.dispatchCurrentState(id)).dispatched).toBe(true);
+
+    const agentId = `${id}-worker`;
+    expect(commands).toEqual([]);
+    expect(launcher.launched).toMatchObject([
+      {
+        agentId,
+        cwd,
+        runtimeDir: path.join(cwd, ".orchestra", "runtime", agentId),
+        argv: expect.arrayContaining(["pi", "--tools", "read,bash"]),
+      },
+    ]);
+    expect(engine.get(id)?.agents?.[agentId]).toMatchObject({
+      launcher: "fake",
+      ref: agentId,
+    });
+    expect(engine.agentLauncherKind).toBe("fake");
+    expect(await engine.checkAgents()).toMatchObject([
+      { agentId, state: "WORK", alive: true },
+    ]);
+    expect(await engine.focusAgent(agentId)).toBe(true);
+
+    const { agentIds } = await engine.cancel(id, "done for today");
+    expect(await engine.stopAgent(agentIds[0] as string)).toBe(true);
+    expect(launcher.stopped).toEqual([agentId]);
+    expect(await engine.stopAgent("unknown-agent")).toBe(false);
+  });
+
+  it("reports a failed launch as a spawn failure", async () => {
+    const { engine, launcher, id } = await setup();
+    launcher.failWith = "no terminal";
+
+    await expect(engine.dispatchCurrentState(id)).resolves.toMatchObject({
+      details: expect.stringContaining("stderr=no terminal"),
+    });
+    expect(engine.get(id)?.agents).toBeUndefined();
+    expect(engine.get(id)?.current_state).toBe("ESCALATE");
+  });
+});
+
+describe("WorkflowEngine autopilot", () => {
+  const setup = async (
+    cwd = fs.mkdtempSync(path.join(os.tmpdir(), "orch-autopilot-")),
+  ) => {
+    writeWorkflow(
+      path.join(cwd, "src", "workflows"),
+      "piloted",
+      `export default {
+        name: "piloted",
+        description: "piloted",
+        initialState: "WORK",
+        roles: { worker: { agent: "a", tools: ["read"], fileScope: { writable: [], readable: ["**"] } } },
+        states: {
+          WORK: { assign: "worker", gate: { kind: "verdict", options: ["done"] }, transitions: { done: "DONE" } },
+          DONE: { type: "terminal", result: "success" }
+        }
+      }`,
+    );
+    const { pi } = createFakePi();
+    const store = new JsonStateStore(path.join(cwd, ".orchestra"));
+    store.ensure();
+    const engine = new WorkflowEngine(pi, cwd, store);
+    const launcher = new FakeAgentLauncher();
+    engine.setAgentLauncher(launcher);
+    await engine.loadWorkflows();
+    return { cwd, engine, launcher };
+  };
+
+  it("dispatches each attempt once and withdraws at a terminal state", async () => {
+    const { engine, launcher } = await setup();
+    const id = engine.start("piloted", {}).workflow_id as unknown as string;
+
+    expect(engine.enrollAutopilot(id)).toBe(true);
+    expect(engine.enrollAutopilot(id)).toBe(false);
+    expect(await engine.autopilotTick(id)).toMatchObject({
+      action: "dispatched",
+    });
+    expect(await engine.autopilotTick(id)).toMatchObject({ action: "waiting" });
+    expect(launcher.launched).toHaveLength(1);
+    expect(engine.autopilotStatus()).toMatchObject([
+      { workflowId: id, state: "WORK", lastTickAt: expect.any(String) },
+    ]);
+
+    await engine.submitEvidence(id, {
+      state: "WORK",
+      result: "done",
+      evidence: {},
+    });
+
+    expect(await engine.autopilotTick(id)).toMatchObject({
+      action: "completed",
+    });
+    expect(engine.get(id)?.autopilot).toBeUndefined();
+    expect(engine.autopilotStatus()).toEqual([]);
+  });
+
+  it("waits for the next tick while another process saves the workflow", async () => {
+    const { cwd, engine, launcher } = await setup();
+    const id = engine.start("piloted", {}).workflow_id as unknown as string;
+    engine.enrollAutopilot(id);
+    const lockPath = path.join(
+      cwd,
+      ".orchestra",
+      "workflows",
+      id,
+      "state.lock",
+    );
+
+    fs.writeFileSync(lockPath, String(process.ppid));
+    expect(await engine.autopilotTick(id)).toMatchObject({
+      action: "waiting",
+      details: `Workflow ${id} is being saved by process ${process.ppid}`,
+    });
+    fs.rmSync(lockPath);
+
+    expect(engine.get(id)?.autopilot?.last_error).toBeUndefined();
+    expect(await engine.autopilotTick(id)).toMatchObject({
+      action: "dispatched",
+    });
+    // The agent launched by the tick that lost the race was stopped
+    expect(launcher.stopped).toEqual([`${id}-worker`]);
+    expect(launcher.alive).toEqual(new Set([`${id}-worker`]));
+  });
+
+  it("survives a restart and redispatches when the agent is gone", async () => {
+    const first = await setup();
+    const id = first.engine.start("piloted", {})
+      .workflow_id as unknown as string;
+    first.engine.enrollAutopilot(id);
+    await first.engine.autopilotTick(id);
+
+    // A new engine over the same store, whose launcher knows no agents
+    const { engine, launcher } = await setup(first.cwd);
+    expect(engine.autopilotStatus()).toMatchObject([
+      { workflowId: id, lastDispatchAt: expect.any(String) },
+    ]);
+    expect(engine.autopilotStatus()[0]?.lastTickAt).toBeUndefined();
+
+    expect(await engine.autopilotTick(id)).toMatchObject({
+      action: "redispatched",
+    });
+    expect(launcher.launched).toHaveLength(1);
+    expect(await engine.autopilotTick(id)).toMatchObject({ action: "waiting" });
+
+    for (let attempt = 0; attempt < 2; attempt++) {
+      launcher.alive.clear();
+      expect((await engine.autopilotTick(id)).action).toBe("redispatched");
+    }
+    launcher.alive.clear();
+    expect(await engine.autopilotTick(id)).toMatchObject({
+      action: "waiting",
+      details: `agent ${id}-worker is gone after 3 redispatches`,
+    });
+    expect(launcher.launched).toHaveLength(3);
+    expect(engine.autopilotStatus()[0]?.lastError).toBe(
+      `agent ${id}-worker is gone after 3 redispatches`,
+    );
+  });
+
+  it("withdraws stopped and cancelled workflows", async () => {
+    const { engine } = await setup();
+    const stopped = engine.start("piloted", {})
+      .workflow_id as unknown as string;
+    const cancelled = engine.start("piloted", {})
+      .workflow_id as unknown as string;
+    engine.enrollAutopilot(stopped);
+    engine.enrollAutopilot(cancelled);
+
+    expect(engine.withdrawAutopilot(stopped, "stopped")).toBe(true);
+    expect(engine.withdrawAutopilot(stopped, "stopped")).toBe(false);
+    await engine.cancel(cancelled, "not needed");
+
+    expect(await engine.autopilotTick(cancelled)).toMatchObject({
+      action: "withdrawn",
+      details: "cancelled",
+    });
+    expect(engine.autopilotStatus()).toEqual([]);
+    expect(engine.replay(stopped).events.map((event) => event.type)).toContain(
+      "autopilot_withdrawn",
+    );
+  });
+});
+
+describe("WorkflowEngine domain events", () => {
+  it("publishes typed events after the engine call that saved them", async () => {
+    const cwd = fs.mkdtempSync(path.join(os.tmpdir(), "orch-events-"));
+    writeWorkflow(
+      path.join(cwd, "src", "workflows"),
+      "evented",
+      `export default {
+        name: "evented",
+        description: "evented",
+        initialState: "WORK",
+        roles: { worker: { agent: "a", tools: ["read"], fileScope: { writable: [], readable: ["**"] } } },
+        states: {
+          WORK: { assign: "worker", gate: { kind: "verdict", options: ["done", "again"] }, transitions: { done: "DONE", again: "WORK" }, maxRetries: 2 },
+          DONE: { type: "terminal", result: "success" }
+        }
+      }`,
+    );
+    const { pi } = createFakePi();
+    const store = new JsonStateStore(path.join(cwd, ".orchestra"));
+    store.ensure();
+    const engine = new WorkflowEngine(pi, cwd, store);
+    engine.setAgentLauncher(new FakeAgentLauncher());
+    await engine.loadWorkflows();
+    const received: Array<{
+      type: string;
+      state?: string;
+      saved: string | undefined;
+    }> = [];
+    engine.events.on("*", (event) => {
+      received.push({
+        type: event.type,
+        ...("state" in event ? { state: event.state } : {}),
+        saved: engine.get(event.workflowId)?.current_state,
+      });
+    });
+
+    const id = engine.start("evented", {}).workflow_id as unknown as string;
+    await engine.dispatchCurrentState(id);
+    await engine.submitEvidence(id, { state: "WRONG", result: "done" });
+    await engine.submitEvidence(id, {
+      state: "WORK",
+      result: "done",
+      evidence: {},
+    });
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(received).toEqual([
+      { type: "workflow.started", state: "WORK", saved: "DONE" },
+      { type: "agent.dispatched", state: "WORK", saved: "DONE" },
+      { type: "evidence.rejected", state: "WRONG", saved: "DONE" },
+      { type: "state.entered", state: "DONE", saved: "DONE" },
+      { type: "workflow.terminal", state: "DONE", saved: "DONE" },
+      { type: "evidence.accepted", state: "WORK", saved: "DONE" },
+    ]);
+  });
+
+  it("reports a failed attempt that will be retried", async () => {
+    const cwd = fs.mkdtempSync(path.join(os.tmpdir(), "orch-events-"));
+    writeWorkflow(
+      path.join(cwd, "src", "workflows"),
+      "retried",
+      `export default {
+        name: "retried",
+        description: "retried",
+        initialState: "CHECK",
+        roles: { worker: { agent: "a", tools: ["read"], fileScope: { writable: [], readable: ["**"] } } },
+        states: {
+          CHECK: { assign: "worker", gate: { kind: "command", verify: { command: "npm test" } }, transitions: { pass: "DONE", fail: "ESCALATE" }, retry: { maxAttempts: 2, backoffMs: 60000 } },
+          DONE: { type: "terminal", result: "success" },
+          ESCALATE: { type: "terminal", result: "failure" }
+        }
+      }`,
+    );
+    const { pi } = createFakePi({
+      "npm test": { code: 1, stdout: "", stderr: "boom", killed: false },
+    });
+    const store = new JsonStateStore(path.join(cwd, ".orchestra"));
+    store.ensure();
+    const engine = new WorkflowEngine(pi, cwd, store);
+    await engine.loadWorkflows();
+    const failed: unknown[] = [];
+    engine.events.on("attempt.failed", (event) => {
+      failed.push(event);
+    });
+
+    const id = engine.start("retried", {}).workflow_id as unknown as string;
+    await engine.submitEvidence(id, { state: "CHECK", result: "pass" });
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(failed).toMatchObject([
+      {
+        workflowId: id,
+        state: "CHECK",
+        retries: 1,
+        failure: "Gate verification failed for CHECK",
+        retryAt: expect.any(String),
+      },
+    ]);
+  });
+});
+
+describe("WorkflowEngine dispatch scheduler", () => {
+  const setup = async (
+    config: Partial<ProjectConfig>,
+    pi = createFakePi().pi,
+  ) => {
+    const cwd = fs.mkdtempSync(path.join(os.tmpdir(), "orch-scheduler-"));
+    const dir = path.join(cwd, "src", "workflows");
+    writeWorkflow(
+      dir,
+      "capped",
+      `export default {
+        name: "capped",
+        description: "capped",
+        initialState: "WORK",
+        roles: { worker: { agent: "a", tools: ["read"], fileScope: { writable: [], readable: ["**"] } } },
+        states: {
+          WORK: { assign: "worker", gate: { kind: "verdict", options: ["done"] }, timeoutMs: 60000, transitions: { done: "DONE", timeout: "ESCALATE" } },
+          DONE: { type: "terminal", result: "success" },
+          ESCALATE: { type: "terminal", result: "failure" }
+        }
+      }`,
+    );
+    writeWorkflow(
+      dir,
+      "reviewed",
+      `export default {
+        name: "reviewed",
+        description: "reviewed",
+        initialState: "REVIEW",
+        roles: { reviewer: { agent: "a", tools: ["read"], fileScope: { writable: [], readable: ["**"] } } },
+        states: {
+          REVIEW: { assign: "reviewer", gate: { kind: "verdict", options: ["done"] }, transitions: { done: "DONE" } },
+          DONE: { type: "terminal", result: "success" }
+        }
+      }`,
+    );
+    writeWorkflow(
+      dir,
+      "built",
+      `export default {
+        name: "built",
+        description: "built",
+        initialState: "BUILD",
+        roles: {},
+        states: {
+          BUILD: { type: "action", commands: ["build"], gate: { kind: "command", verify: { command: "verify" } }, transitions: { pass: "DONE", fail: "DONE" } },
+          DONE: { type: "terminal", result: "success" }
+        }
+      }`,
+    );
+    const store = new JsonStateStore(path.join(cwd, ".orchestra"));
+    store.ensure();
+    const engine = new WorkflowEngine(pi, cwd, store, config as ProjectConfig);
+    const launcher = new FakeAgentLauncher();
+    engine.setAgentLauncher(launcher);
+    await engine.loadWorkflows();
+    const start = (workflow: string, priority?: number) =>
+      engine.start(workflow, {}, priority ? { priority } : {})
+        .workflow_id as unknown as string;
+    return { engine, launcher, start };
+  };
+
+  const dispatchOf = (engine: WorkflowEngine, agentId: string) =>
+    new Promise<void>((resolve) => {
+      const unsubscribe = engine.events.on("agent.dispatched", (event) => {
+        if (event.agentId === agentId) {
+          unsubscribe();
+          resolve();
+        }
+      });
+    });
+
+  it("queues dispatches over the global cap and drains them as agents finish", async () => {
+    const { engine, launcher, start } = await setup({
+      maxConcurrentAgents: 1,
+    });
+    const first = start("capped");
+    const second = start("capped");
+
+    expect(await engine.dispatchCurrentState(first)).toMatchObject({
+      dispatched: true,
+    });
+    expect(await engine.dispatchCurrentState(second)).toEqual({
+      dispatched: false,
+      details: `Queued ${second}-worker for WORK: 1/1 agents running, 0 queued ahead`,
+    });
+    await engine.dispatchCurrentState(second);
+    expect(launcher.launched).toHaveLength(1);
+    expect(engine.schedulerStatus()).toMatchObject({
+      running: 1,
+      maxAgents: 1,
+      roles: [{ role: "worker", running: 1 }],
+      queue: [
+        {
+          workflowId: second,
+          agentId: `${second}-worker`,
+          role: "worker",
+          state: "WORK",
+          priority: 0,
+        },
+      ],
+    });
+
+    const dispatched = dispatchOf(engine, `${second}-worker`);
+    await engine.submitEvidence(first, {
+      state: "WORK",
+      result: "done",
+      evidence: {},
+    });
+    await dispatched;
+
+    expect(launcher.launched.map((spec) => spec.agentId)).toEqual([
+      `${first}-worker`,
+      `${second}-worker`,
+    ]);
+    expect(engine.dispatchQueue()).toEqual([]);
+    expect(engine.get(second)?.queued_dispatches).toBeUndefined();
+    const events = engine.replay(second).events;
+    expect(events.map((event) => event.type)).toEqual([
+      "workflow_started",
+      "dispatch_queued",
+      "agent_dispatched",
+    ]);
+    expect(events.at(-1)?.details?.queued_at).toEqual(expect.any(String));
+  });
+
+  it("orders the queue by priority, then age, under per-role caps", async () => {
+    const { engine, launcher, start } = await setup({
+      roleConcurrency: { worker: 1 },
+    });
+    const running = start("capped");
+    const older = start("capped");
+    const urgent = start("capped", 5);
+    const review = start("reviewed");
+    for (const id of [running, older, urgent, review]) {
+      await engine.dispatchCurrentState(id);
+    }
+
+    expect(launcher.launched.map((spec) => spec.agentId)).toEqual([
+      `${running}-worker`,
+      `${review}-reviewer`,
+    ]);
+    expect(engine.dispatchQueue().map((entry) => entry.workflowId)).toEqual([
+      urgent,
+      older,
+    ]);
+    expect(engine.dispatchQueue()[1]?.reason).toBe(
+      "1/1 worker agents running, 0 queued ahead",
+    );
+
+    engine.setPriority(older, 10);
+    expect(engine.dispatchQueue().map((entry) => entry.workflowId)).toEqual([
+      older,
+      urgent,
+    ]);
+
+    const dispatched = dispatchOf(engine, `${older}-worker`);
+    await engine.cancel(running, "not needed");
+    await dispatched;
+
+    expect(engine.schedulerStatus()).toMatchObject({
+      running: 2,
+      roles: [
+        { role: "reviewer", running: 1 },
+        { role: "worker", running: 1, limit: 1 },
+      ],
+      queue: [{ workflowId: urgent, priority: 5 }],
+    });
+  });
+
+  it("drops cancelled dispatches and holds timeouts while queued", async () => {
+    const { engine, start } = await setup({ maxConcurrentAgents: 1 });
+    const running = start("capped");
+    const queued = start("capped");
+    const dropped = start("capped");
+    for (const id of [running, queued, dropped]) {
+      await engine.dispatchCurrentState(id);
+    }
+
+    const timedOut = engine.checkTimeouts(new Date(Date.now() + 120_000));
+    expect(timedOut.map((timeout) => timeout.workflowId)).toEqual([running]);
+
+    await engine.cancel(dropped, "not needed");
+    expect(engine.dispatchQueue().map((entry) => entry.workflowId)).toEqual([
+      queued,
+    ]);
+    await engine.drainDispatchQueue();
+    expect(engine.get(dropped)?.queued_dispatches).toBeUndefined();
+    expect(engine.replay(dropped).events.map((event) => event.type)).toContain(
+      "dispatch_dropped",
+    );
+  });
+
+  it("dispatches several queued agents in one pass from one count", async () => {
+    const config = { maxConcurrentAgents: 1 } as ProjectConfig;
+    const { engine, launcher, start } = await setup(config);
+    const ids = [start("capped"), start("capped"), start("capped")];
+    const last = start("capped", -1);
+    for (const id of [...ids, last]) {
+      await engine.dispatchCurrentState(id);
+    }
+    engine.setProjectConfig({ ...config, maxConcurrentAgents: 3 });
+    const list = vi.spyOn(engine, "list");
+
+    expect(await engine.drainDispatchQueue()).toHaveLength(2);
+    expect(list).toHaveBeenCalledTimes(1);
+    expect(launcher.launched.map((spec) => spec.agentId).sort()).toEqual(
+      ids.map((id) => `${id}-worker`).sort(),
+    );
+    expect(engine.dispatchQueue().map((entry) => entry.workflowId)).toEqual([
+      last,
+    ]);
+  });
+
+  it("caps verification and action commands run at once", async () => {
+    const active = new Map<string, number>();
+    const peak = new Map<string, number>();
+    // Commands stay running until released, then finish on the next turn
+    let held = true;
+    const waiting: Array<(value: unknown) => void> = [];
+    const pi = {
+      exec: async (_bin: string, args: string[]) => {
+        const command = args[1] ?? "";
+        active.set(command, (active.get(command) ?? 0) + 1);
+        peak.set(
+          command,
+          Math.max(peak.get(command) ?? 0, active.get(command) ?? 0),
+        );
+        await new Promise((resolve) =>
+          held ? waiting.push(resolve) : setImmediate(resolve),
+        );
+        active.set(command, (active.get(command) ?? 0) - 1);
+        return { code: 0, stdout: "", stderr: "", killed: false };
+      },
+    } as unknown as ExtensionAPI;
+    const { engine, start } = await setup(
+      { maxConcurrentVerifications: 1, maxConcurrentActions: 2 },
+      pi,
+    );
+    const ids = [start("built"), start("built"), start("built")];
+
+    const dispatching = Promise.all(
+      ids.map((id) => engine.dispatchCurrentState(id)),
+    );
+    while (waiting.length < 2) {
+      await new Promise((resolve) => setImmediate(resolve));
+    }
+    expect(engine.schedulerStatus().commands).toEqual([
+      { kind: "verification", running: 0, waiting: 0, limit: 1 },
+      { kind: "action", running: 2, waiting: 1, limit: 2 },
+    ]);
+    held = false;
+    for (const release of waiting) {
+      release(undefined);
+    }
+    await dispatching;
+
+    expect(Object.fromEntries(peak)).toEqual({ build: 2, verify: 1 });
+    expect(ids.map((id) => engine.get(id)?.current_state)).toEqual([
+      "DONE",
+      "DONE",
+      "DONE",
+    ]);
+    expect(engine.schedulerStatus().commands).toEqual([
+      { kind: "verification", running: 0, waiting: 0, limit: 1 },
+      { kind: "action", running: 0, waiting: 0, limit: 2 },
+    ]);
+  });
+});
@@ -0,0 +1,637 @@
+import { describe, expect, it } from "vitest";
+import type { WorkflowDefinition } from "../src/core/types";
+import {
+  isWorkflowDefinitionShape,
+  validateWorkflowDefinition,
+  validateWorkflowSources,
+} from "../src/core/workflow-validator";
+
+const role = {
+  agent: "a",
+  tools: ["read"],
+  fileScope: { writable: [], readable: ["**"] },
+};
+
+const baseDefinition = (
+  overrides: Partial<WorkflowDefinition> = {},
+): WorkflowDefinition => ({
+  name: "wf",
+  description: "wf",
+  initialState: "ONE",
+  roles: { r: role },
+  states: {
+    ONE: {
+      assign: "r",
+      gate: { kind: "verdict", options: ["ok"] },
+      transitions: { ok: "DONE", fail: "ESCALATE" },
+    },
+    DONE: { type: "terminal", result: "success" },
+    ESCALATE: { type: "terminal", result: "failure" },
+  },
+  ...overrides,
+});
+
+describe("validateWorkflowDefinition", () => {
+  it("reports no issues for a well-formed graph", () => {
+    expect(validateWorkflowDefinition(baseDefinition(), new Set())).toEqual([]);
+  });
+
+  it("reports unknown transition targets and unknown initial state", () => {
+    const issues = validateWorkflowDefinition(
+      baseDefinition({
+        initialState: "NOPE",
+        states: {
+          ONE: {
+            assign: "r",
+            gate: { kind: "verdict", options: ["ok"] },
+            transitions: { ok: "DONEE", fail: "ESCALATE" },
+          },
+          ESCALATE: { type: "terminal", result: "failure" },
+        },
+      }),
+      new Set(),
+    );
+
+    expect(issues).toContainEqual(
+      expect.objectContaining({
+        severity: "error",
+        code: "unknown-initial-state",
+      }),
+    );
+    expect(issues).toContainEqual({
+      workflow: "wf",
+      state: "ONE",
+      severity: "error",
+      code: "unknown-transition-target",
+      message: 'transition "ok" targets unknown state "DONEE"',
+    });
+  });
+
+  it("reports undefined roles and verdict options without transitions", () => {
+    const issues = validateWorkflowDefinition(
+      baseDefinition({
+        states: {
+          ONE: {
+            assign: "ghost",
+            gate: { kind: "verdict", options: ["ok", "maybe"] },
+            transitions: { ok: "DONE", fail: "DONE" },
+          },
+          DONE: { type: "terminal", result: "success" },
+        },
+      }),
+      new Set(),
+    );
+
+    expect(issues.map((issue) => issue.code)).toEqual([
+      "undefined-role",
+      "unmatched-verdict-option",
+    ]);
+    expect(issues[1]?.message).toContain('"maybe"');
+  });
+
+  it("accepts verdict options that fall back to a pass transition", () => {
+    const issues = validateWorkflowDefinition(
+      baseDefinition({
+        states: {
+          ONE: {
+            assign: "r",
+            gate: { kind: "verdict", options: ["ok", "maybe"] },
+            transitions: { pass: "DONE", fail: "DONE" },
+          },
+          DONE: { type: "terminal", result: "success" },
+        },
+      }),
+      new Set(),
+    );
+
+    expect(issues).toEqual([]);
+  });
+
+  it("warns about unreachable states and the missing escalation fallback", () => {
+    const issues = validateWorkflowDefinition(
+      baseDefinition({
+        states: {
+          ONE: {
+            assign: "r",
+            gate: { kind: "verdict", options: ["ok"] },
+            transitions: { ok: "DONE" },
+          },
+          DONE: { type: "terminal", result: "success" },
+          ORPHAN: { type: "terminal", result: "failure" },
+        },
+      }),
+      new Set(),
+    );
+
+    expect(issues).toEqual([
+      expect.objectContaining({
+        state: "ONE",
+        severity: "warning",
+        code: "missing-escalation-fallback",
+      }),
+      expect.objectContaining({
+        state: "ORPHAN",
+        severity: "warning",
+        code: "unreachable-state",
+      }),
+    ]);
+  });
+
+  it("reports states that can never reach a terminal", () => {
+    const issues = validateWorkflowDefinition(
+      baseDefinition({
+        states: {
+          ONE: {
+            assign: "r",
+            gate: { kind: "verdict", options: ["ok"] },
+            transitions: { ok: "TWO", fail: "ONE" },
+          },
+          TWO: {
+            assign: "r",
+            gate: { kind: "verdict", options: ["ok"] },
+            transitions: { ok: "ONE", fail: "TWO" },
+          },
+          DONE: { type: "terminal", result: "success" },
+        },
+      }),
+      new Set(),
+    );
+
+    expect(
+      issues
+        .filter((issue) => issue.code === "no-terminal-path")
+        .map((issue) => issue.state),
+    ).toEqual(["ONE", "TWO"]);
+  });
+
+  it("counts the implicit ESCALATE fallback as a path to a terminal", () => {
+    const issues = validateWorkflowDefinition(
+      baseDefinition({
+        states: {
+          ONE: {
+            assign: "r",
+            gate: { kind: "verdict", options: ["ok"] },
+            transitions: { ok: "ONE" },
+          },
+          ESCALATE: { type: "terminal", result: "failure" },
+        },
+      }),
+      new Set(),
+    );
+
+    expect(issues).toEqual([]);
+  });
+
+  it("requires a pass transition on action states and lets them escalate", () => {
+    const issues = validateWorkflowDefinition(
+      baseDefinition({
+        states: {
+          ONE: { type: "action", commands: ["make"], transitions: {} },
+          ESCALATE: { type: "terminal", result: "failure" },
+        },
+      }),
+      new Set(),
+    );
+
+    expect(issues).toEqual([
+      expect.objectContaining({
+        severity: "error",
+        code: "unknown-transition-target",
+        state: "ONE",
+        message: 'action state has no "pass" transition',
+      }),
+    ]);
+  });
+
+  it("reports malformed parallel branches and join quorums", () => {
+    const issues = validateWorkflowDefinition(
+      baseDefinition({
+        states: {
+          ONE: {
+            type: "parallel",
+            branches: {
+              a: { assign: "r", gate: { kind: "verdict", options: ["ok"] } },
+              b: {
+                assign: "r",
+                gate: { kind: "evidence", schema: { n: "nmbr" } },
+              },
+              c: {
+                assign: "ghost",
+                gate: { kind: "verdict", options: ["ok"] },
+              },
+              d: { workflow: "missing" },
+            },
+            join: { quorum: 5 },
+            transitions: { pass: "DONE", fail: "DONE" },
+          },
+          DONE: { type: "terminal", result: "success" },
+        },
+      }),
+      new Set(),
+    );
+
+    expect(issues.map((issue) => issue.message)).toEqual([
+      'branch "b" reuses role "r" of another branch',
+      expect.stringContaining('branch "b": n:'),
+      'branch "c" assigns undefined role "ghost"',
+      'branch "d" subworkflow "missing" does not resolve to a loaded workflow',
+      "join quorum 5 must be a whole number from 1 to 4",
+    ]);
+    expect(
+      issues.every((issue) => issue.code === "invalid-parallel-state"),
+    ).toBe(true);
+  });
+
+  it("checks foreach transitions, subworkflow and concurrency", () => {
+    const issues = validateWorkflowDefinition(
+      baseDefinition({
+        initialState: "EACH",
+        states: {
+          EACH: {
+            type: "foreach",
+            workflow: "child",
+            items: "evidence.SETUP.criteria",
+            concurrency: 0,
+            transitions: { failure: "DONE" },
+          },
+          DONE: { type: "terminal", result: "success" },
+        },
+      }),
+      new Set(),
+    );
+
+    expect(issues).toEqual([
+      expect.objectContaining({
+        code: "unknown-transition-target",
+        message: 'foreach state has no "success" or "pass" transition',
+      }),
+      expect.objectContaining({
+        code: "invalid-foreach-state",
+        message: "concurrency 0 must be a whole number of at least 1",
+      }),
+      expect.objectContaining({ code: "unknown-subworkflow" }),
+    ]);
+  });
+
+  it("checks guard targets and expressions and follows guard edges", () => {
+    const issues = validateWorkflowDefinition(
+      baseDefinition({
+        states: {
+          ONE: {
+            assign: "r",
+            gate: { kind: "verdict", options: ["ok"] },
+            guards: [
+              { when: "evidence.ONE.score > 3", to: "BONUS" },
+              { when: "score > 3", to: "NOWHERE" },
+            ],
+            transitions: { ok: "DONE", fail: "DONE" },
+          },
+          BONUS: { type: "terminal", result: "success" },
+          DONE: { type: "terminal", result: "success" },
+        },
+      }),
+      new Set(),
+    );
+
+    expect(issues).toEqual([
+      expect.objectContaining({
+        state: "ONE",
+        code: "unknown-transition-target",
+        message: 'guard 2 targets unknown state "NOWHERE"',
+      }),
+      expect.objectContaining({
+        state: "ONE",
+        code: "invalid-guard-expression",
+        message: expect.stringContaining('unknown name "score"'),
+      }),
+    ]);
+  });
+
+  it("checks verification commands", () => {
+    const issues = validateWorkflowDefinition(
+      baseDefinition({
+        states: {
+          ONE: {
+            type: "action",
+            commands: [],
+            gate: {
+              kind: "command",
+              verify: {
+                command: "npm test",
+                timeoutMs: 0,
+                env: { "NODE-ENV": "test" },
+                mustMatch: ["("],
+              },
+            },
+            transitions: { pass: "DONE", fail: "ESCALATE" },
+          },
+          DONE: { type: "terminal", result: "success" },
+          ESCALATE: { type: "terminal", result: "failure" },
+        },
+      }),
+      new Set(),
+    );
+
+    expect(issues.map((issue) => issue.message)).toEqual([
+      "verify timeoutMs 0 must be a positive whole number",
+      'verify env name "NODE-ENV" is not a valid variable name',
+      "verify pattern /(/ is not a valid regex",
+    ]);
+    expect(issues.every((issue) => issue.code === "invalid-verification")).toBe(
+      true,
+    );
+  });
+
+  it("checks command templates", () => {
+    const issues = validateWorkflowDefinition(
+      baseDefinition({
+        params: { runner: { type: "string" } },
+        states: {
+          ONE: {
+            type: "action",
+            commands: [
+              "${params.runner} '${evidence.ONE.file}'",
+              "echo ${nope}",
+              "git tag ${project.name}",
+            ],
+            gate: {
+              kind: "command",
+              verify: { command: "${params.runnr} '${evidence.TWO.file}'" },
+            },
+            transitions: { pass: "DONE", fail: "ESCALATE" },
+          },
+          DONE: { type: "terminal", result: "success" },
+          ESCALATE: { type: "terminal", result: "failure" },
+        },
+      }),
+      new Set(),
+    );
+
+    expect(issues.map((issue) => issue.message)).toEqual([
+      'invalid placeholder ${nope}, expected a path under params, project, evidence or metrics in "echo ${nope}"',
+      '${project.name} is command text and must be a whole word at the start of a command in "git tag ${project.name}"',
+      '${params.runnr} reads undeclared param "runnr"',
+      '${evidence.TWO.file} reads evidence of unknown state "TWO"',
+    ]);
+    expect(
+      issues.every((issue) => issue.code === "invalid-command-template"),
+    ).toBe(true);
+  });
+
+  it("checks retry policies", () => {
+    const issues = validateWorkflowDefinition(
+      baseDefinition({
+        states: {
+          ONE: {
+            assign: "r",
+            gate: { kind: "verdict", options: ["ok"] },
+            retry: {
+              maxAttempts: 0,
+              budgets: { spawn: 1.5 },
+              backoffMs: -1,
+              backoffFactor: 0.5,
+            },
+            transitions: { ok: "DONE", fail: "ESCALATE" },
+          },
+          DONE: { type: "terminal", result: "success" },
+          ESCALATE: { type: "terminal", result: "failure" },
+        },
+      }),
+      new Set(),
+    );
+
+    expect(issues.map((issue) => issue.message)).toEqual([
+      "retry maxAttempts 0 must be a whole number of at least 1",
+      "retry budgets.spawn 1.5 must be a whole number of at least 1",
+      "retry backoffMs -1 must not be negative",
+      "retry backoffFactor 0.5 must be at least 1",
+    ]);
+    expect(issues.every((issue) => issue.code === "invalid-retry-policy")).toBe(
+      true,
+    );
+  });
+
+  it("requires somewhere to escalate rework loops to", () => {
+    const loop = {
+      assign: "r",
+      gate: { kind: "verdict" as const, options: ["ok", "rework"] },
+      transitions: { ok: "DONE", rework: "ONE", fail: "DROPPED" },
+    };
+    const issues = validateWorkflowDefinition(
+      baseDefinition({
+        states: {
+          ONE: loop,
+          DONE: { type: "terminal", result: "success" },
+          DROPPED: { type: "terminal", result: "failure" },
+        },
+      }),
+      new Set(),
+    );
+    expect(issues).toEqual([]);
+
+    const stuck = validateWorkflowDefinition(
+      baseDefinition({
+        states: {
+          ONE: { ...loop, transitions: { ok: "DONE", rework: "ONE" } },
+          DONE: { type: "terminal", result: "success" },
+        },
+      }),
+      new Set(),
+    );
+    expect(stuck).toContainEqual(
+      expect.objectContaining({
+        state: "ONE",
+        severity: "error",
+        code: "no-rework-escalation",
+      }),
+    );
+  });
+
+  it("checks the version and migrations", () => {
+    const issues = validateWorkflowDefinition(
+      baseDefinition({
+        version: 2,
+        migrations: [
+          { from: 1, renameStates: { FIRST: "ONE", OLD: "GONE" } },
+          { from: 2 },
+        ],
+      }),
+      new Set(),
+    );
+
+    expect(issues).toEqual([
+      expect.objectContaining({
+        code: "invalid-version",
+        message:
+          'migration from version 1 renames "OLD" to unknown state "GONE"',
+      }),
+      expect.objectContaining({
+        code: "invalid-version",
+        message: "migration from version 2 must start below version 2",
+      }),
+    ]);
+  });
+
+  it("resolves literal subworkflows and ignores slot references", () => {
+    const definition = baseDefinition({
+      initialState: "CHILD",
+      states: {
+        CHILD: {
+          type: "subworkflow",
+          workflow: "child",
+          transitions: { success: "SLOT", failure: "ESCALATE" },
+        },
+        SLOT: {
+          type: "subworkflow",
+          workflow: "$build",
+          transitions: { success: "DONE", failure: "ESCALATE" },
+        },
+        DONE: { type: "terminal", result: "success" },
+        ESCALATE: { type: "terminal", result: "failure" },
+      },
+    });
+
+    expect(validateWorkflowDefinition(definition, new Set(["child"]))).toEqual(
+      [],
+    );
+    expect(validateWorkflowDefinition(definition, new Set())).toEqual([
+      expect.objectContaining({
+        state: "CHILD",
+        code: "unknown-subworkflow",
+      }),
+    ]);
+  });
+
+  it("reports malformed evidence and param type expressions", () => {
+    const issues = validateWorkflowDefinition(
+      baseDefinition({
+        params: { slice: { type: "strng" } },
+        states: {
+          ONE: {
+            assign: "r",
+            gate: { kind: "evidence", schema: { files: "string[" } },
+            transitions: { pass: "DONE", fail: "DONE" },
+          },
+          DONE: { type: "terminal", result: "success" },
+        },
+      }),
+      new Set(),
+    );
+
+    expect(issues).toEqual([
+      expect.objectContaining({
+        code: "invalid-schema-type",
+        message: expect.stringContaining("param slice"),
+      }),
+      expect.objectContaining({
+        state: "ONE",
+        code: "invalid-schema-type",
+        message: expect.stringContaining("files:"),
+      }),
+    ]);
+  });
+
+  it("skips graph checks for a definition with no states", () => {
+    expect(
+      validateWorkflowDefinition(baseDefinition({ states: {} }), new Set()),
+    ).toEqual([]);
+  });
+});
+
+describe("validateWorkflowSources", () => {
+  it("rejects module exports that are not workflow definitions", () => {
+    expect(isWorkflowDefinitionShape({ name: "x" })).toBe(false);
+    const report = validateWorkflowSources([
+      { definition: { name: "x" }, source: "x.ts", origin: "builtin" },
+    ]);
+
+    expect(report.accepted).toEqual([]);
+    expect(report.issues).toEqual([
+      expect.objectContaining({
+        source: "x.ts",
+        severity: "error",
+        code: "invalid-definition",
+      }),
+    ]);
+  });
+
+  it("treats project overrides as warnings and same-origin duplicates as errors", () => {
+    const report = validateWorkflowSources([
+      { definition: baseDefinition(), source: "a.ts", origin: "builtin" },
+      { definition: baseDefinition(), source: "b.ts", origin: "project" },
+      { definition: baseDefinition(), source: "c.ts", origin: "project" },
+    ]);
+
+    expect(report.accepted.map((entry) => entry.source)).toEqual([
+      "a.ts",
+      "b.ts",
+    ]);
+    expect(report.rejected.map((entry) => entry.source)).toEqual(["c.ts"]);
+    expect(
+      report.issues.map((issue) => [issue.source, issue.severity, issue.code]),
+    ).toEqual([
+      ["b.ts", "warning", "duplicate-workflow-name"],
+      ["c.ts", "error", "duplicate-workflow-name"],
+    ]);
+  });
+
+  it("rejects a broken override while keeping the built-in definition", () => {
+    const broken = baseDefinition({
+      states: {
+        ONE: {
+          assign: "r",
+          gate: { kind: "verdict", options: ["ok"] },
+          transitions: { ok: "MISSING", fail: "ONE" },
+        },
+      },
+    });
+    const report = validateWorkflowSources([
+      { definition: baseDefinition(), source: "a.ts", origin: "builtin" },
+      { definition: broken, source: "b.ts", origin: "project" },
+    ]);
+
+    expect(report.accepted.map((entry) => entry.source)).toEqual(["a.ts"]);
+    expect(report.rejected.map((entry) => entry.source)).toEqual(["b.ts"]);
+  });
+
+  it("rejects workflows that delegate to a rejected workflow", () => {
+    const delegating = (name: string, to: string) =>
+      baseDefinition({
+        name,
+        initialState: "DELEGATE",
+        states: {
+          DELEGATE: {
+            type: "subworkflow",
+            workflow: to,
+            transitions: { success: "DONE", failure: "ESCALATE" },
+          },
+          DONE: { type: "terminal", result: "success" },
+          ESCALATE: { type: "terminal", result: "failure" },
+        },
+      });
+    const report = validateWorkflowSources([
+      { definition: delegating("c", "a"), source: "c.ts", origin: "project" },
+      { definition: delegating("a", "b"), source: "a.ts", origin: "project" },
+      {
+        definition: baseDefinition({ name: "b", initialState: "NOPE" }),
+        source: "b.ts",
+        origin: "project",
+      },
+    ]);
+
+    expect(report.accepted).toEqual([]);
+    expect(report.rejected.map((entry) => entry.source)).toEqual([
+      "c.ts",
+      "a.ts",
+      "b.ts",
+    ]);
+    expect(
+      report.issues
+        .filter((issue) => issue.code === "unknown-subworkflow")
+        .map((issue) => [issue.source, issue.message]),
+    ).toEqual([
+      ["c.ts", 'subworkflow "a" does not resolve to a loaded workflow'],
+      ["a.ts", 'subworkflow "b" does not resolve to a loaded workflow'],
+    ]);
+  });
+});
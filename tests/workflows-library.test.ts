@@ -1,4 +1,8 @@
 import { describe, expect, it } from "vitest";
+import { renderCommandTemplate } from "../src/core/command-template";
+import type { WorkflowRuntimeState } from "../src/core/types";
+import { resolveInputMap } from "../src/core/workflow-engine";
+import { validateWorkflowSources } from "../src/core/workflow-validator";
 import consensusDecision from "../src/workflows/consensus-decision";
 import discovery from "../src/workflows/discovery";
 import eventModeling from "../src/workflows/event-modeling";
@@ -66,4 +70,64 @@ describe("workflow library", () => {
       expect(role?.personaFrom).toBe("turn_persona");
     }
   });
+
+  it("tdd-turn gates run the project's test runner", () => {
+    for (const stateName of ["RED", "GREEN"]) {
+      const state = tddTurn.states[stateName];
+      const gate = state && "gate" in state ? state.gate : undefined;
+      const command =
+        gate?.kind === "evidence" ? gate.verify?.command : undefined;
+      expect(
+        renderCommandTemplate(command ?? "", {
+          project: { testRunner: "cargo test" },
+        }),
+      ).toBe("cargo test");
+    }
+  });
+
+  it("pipeline plans from discovery when modeling is skipped", () => {
+    const planning = pipeline.states.PLANNING;
+    const inputMap =
+      planning && "type" in planning && planning.type === "subworkflow"
+        ? (planning.inputMap ?? {})
+        : {};
+    const traditional = {
+      evidence: {
+        SETUP: { acceptance_criteria: ["ships"] },
+        DISCOVERY: { child_evidence: { FRAME: { goals: ["ship"] } } },
+      },
+    } as unknown as WorkflowRuntimeState;
+
+    expect(resolveInputMap(inputMap, traditional)).toEqual({
+      requirements: { FRAME: { goals: ["ship"] } },
+      model: undefined,
+      acceptance_criteria: ["ships"],
+    });
+  });
+
+  it("validates every packaged workflow without errors", () => {
+    const report = validateWorkflowSources(
+      [
+        consensusDecision,
+        tddPingPong,
+        tddTurn,
+        threeStageReview,
+        pipeline,
+        discovery,
+        eventModeling,
+        prd,
+        exploratoryQa,
+        retro,
+      ].map((definition) => ({
+        definition,
+        source: definition.name,
+        origin: "builtin" as const,
+      })),
+    );
+
+    expect(report.issues.filter((issue) => issue.severity === "error")).toEqual(
+      [],
+    );
+    expect(report.rejected).toEqual([]);
+  });
 });